@@ -22,8 +22,9 @@ test.describe('App flows', () => {
   test('should open and close tutorial', async ({ page }) => {
     await page.goto('/');
     await page.getByRole('button', { name: 'How to Play' }).click();
-    await expect(page.getByText(/How to Play|Tutorial/i)).toBeVisible({ timeout: 5000 });
+    const closeButton = page.getByRole('button', { name: 'Close tutorial' });
+    await expect(closeButton).toBeVisible({ timeout: 5000 });
     await page.keyboard.press('Escape');
-    await expect(page.getByText(/How to Play|Tutorial/i)).not.toBeVisible();
+    await expect(closeButton).not.toBeVisible();
   });
 });
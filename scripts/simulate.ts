@@ -0,0 +1,263 @@
+/**
+ * Balance simulation CLI: plays many runs of a game mode with a fixed strategy and prints how
+ * they went. See utils/balanceSimulation for how runs are played.
+ *
+ *   npm run simulate -- --runs 2000 --mode hardMode
+ *   npm run simulate -- --set minimumBetIncreasePercent=15 --set shop.extraDraw.cost=500
+ *   npm run simulate -- --mode-file my-mode.json --hold advisor --runs 50 --json
+ *
+ * Run with --help for every option.
+ */
+
+import { readFileSync } from 'node:fs';
+import {
+  GameModeConfig,
+  getGameMode,
+  getGameModeIds,
+  isGameModeId,
+  resolveGameModeOverrides,
+} from '../src/config/gameConfig';
+import {
+  DistributionSummary,
+  runSimulation,
+  SimulationReport,
+  SimulationStrategy,
+} from '../src/utils/balanceSimulation';
+import { DevilsDealPolicy, HoldPolicy } from '../src/utils/botPlay';
+import { isShopOptionType } from '../src/utils/typeGuards';
+
+const HOLD_POLICIES: HoldPolicy[] = ['simple', 'advisor', 'random', 'discard-all'];
+const DEVILS_DEAL_POLICIES: DevilsDealPolicy[] = ['never', 'always', 'advisor', 'random'];
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Mode
+  --mode <id>            Built-in mode to play (default normalGame): ${getGameModeIds().join(', ')}
+  --mode-file <path>     JSON overrides on defaultGameMode, used instead of --mode
+  --set <path>=<value>   Override one setting, e.g. --set endlessMode.startRound=20 (repeatable)
+
+Runs
+  --runs <n>             Runs to play (default 1000)
+  --seed <n>             Seed of the first run; run i uses seed + i (default 1)
+  --max-rounds <n>       Stop runs still alive after this many rounds (default 200)
+
+Strategy
+  --hold <policy>        simple | advisor | random | discard-all (default simple; advisor is slow)
+  --bet-share <0-1>      Share of credits bet each round (default 0: always the minimum bet)
+  --hands <all|n>        Hands played each round (default all)
+  --shop <a,b,...|none>  Shop options to buy, most wanted first
+                         (default: draw and deck upgrades, then the biggest hand bundles)
+  --shop-reserve <n>     Rounds of minimum bets kept after buying (default 3)
+  --devils-deal <policy> never | always | advisor | random (default never)
+
+Output
+  --json                 Print the report as JSON
+  --help                 Show this message`;
+
+interface CliOptions {
+  mode: GameModeConfig;
+  runs: number;
+  seed: number;
+  maxRounds: number;
+  strategy: Partial<SimulationStrategy>;
+  json: boolean;
+}
+
+function fail(message: string): never {
+  throw new Error(`${message}\nRun with --help for usage.`);
+}
+
+function parseWholeNumber(flag: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) fail(`${flag} needs a whole number, got "${value}"`);
+  return parsed;
+}
+
+function parseChoice<T extends string>(flag: string, value: string, choices: readonly T[]): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    fail(`${flag} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+/** Copy of a mode with one dotted path replaced. */
+function setPath(mode: GameModeConfig, path: string, value: unknown): GameModeConfig {
+  const update = (target: Record<string, unknown>, keys: string[]): Record<string, unknown> => {
+    const [key, ...rest] = keys;
+    const child = target[key];
+    if (rest.length > 0 && (typeof child !== 'object' || child === null)) {
+      fail(`Unknown setting "${path}"`);
+    }
+    return {
+      ...target,
+      [key]: rest.length === 0 ? value : update(child as Record<string, unknown>, rest),
+    };
+  };
+  return update(mode as unknown as Record<string, unknown>, path.split('.')) as unknown as
+    GameModeConfig;
+}
+
+/** Setting values are JSON (numbers, booleans, objects); anything else is kept as a string. */
+function parseSettingValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+  let modeId = 'normalGame';
+  let modeFile: string | null = null;
+  const settings: [string, unknown][] = [];
+  const options: Omit<CliOptions, 'mode'> = {
+    runs: 1000,
+    seed: 1,
+    maxRounds: 200,
+    strategy: {},
+    json: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === '--help') return null;
+    if (flag === '--json') {
+      options.json = true;
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) fail(`${flag} needs a value`);
+
+    switch (flag) {
+      case '--mode':
+        modeId = value;
+        break;
+      case '--mode-file':
+        modeFile = value;
+        break;
+      case '--set': {
+        const separator = value.indexOf('=');
+        if (separator < 1) fail(`--set needs <path>=<value>, got "${value}"`);
+        settings.push([value.slice(0, separator), parseSettingValue(value.slice(separator + 1))]);
+        break;
+      }
+      case '--runs':
+        options.runs = parseWholeNumber(flag, value);
+        break;
+      case '--seed':
+        options.seed = parseWholeNumber(flag, value);
+        break;
+      case '--max-rounds':
+        options.maxRounds = parseWholeNumber(flag, value);
+        break;
+      case '--hold':
+        options.strategy.hold = parseChoice(flag, value, HOLD_POLICIES);
+        break;
+      case '--bet-share': {
+        const betShare = Number(value);
+        if (!(betShare >= 0 && betShare <= 1)) fail(`--bet-share must be 0–1, got "${value}"`);
+        options.strategy.betShare = betShare;
+        break;
+      }
+      case '--hands':
+        options.strategy.handCount = value === 'all' ? 'all' : parseWholeNumber(flag, value);
+        break;
+      case '--shop': {
+        const shopPriority = value === 'none' ? [] : value.split(',').map((item) => item.trim());
+        const unknown = shopPriority.filter((option) => !isShopOptionType(option));
+        if (unknown.length > 0) fail(`Unknown shop options: ${unknown.join(', ')}`);
+        options.strategy.shopPriority = shopPriority.filter(isShopOptionType);
+        break;
+      }
+      case '--shop-reserve':
+        options.strategy.shopReserveRounds = parseWholeNumber(flag, value);
+        break;
+      case '--devils-deal':
+        options.strategy.devilsDeal = parseChoice(flag, value, DEVILS_DEAL_POLICIES);
+        break;
+      default:
+        fail(`Unknown option "${flag}"`);
+    }
+  }
+
+  if (!isGameModeId(modeId)) fail(`Unknown mode "${modeId}"`);
+  let mode: GameModeConfig = modeFile
+    ? resolveGameModeOverrides(JSON.parse(readFileSync(modeFile, 'utf8')))
+    : getGameMode(modeId);
+  for (const [path, value] of settings) {
+    mode = setPath(mode, path, value);
+  }
+  return { ...options, mode };
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString('en-US');
+}
+
+function formatDistribution(summary: DistributionSummary): string {
+  return (
+    `min ${formatNumber(summary.min)}  p10 ${formatNumber(summary.p10)}  ` +
+    `median ${formatNumber(summary.median)}  p90 ${formatNumber(summary.p90)}  ` +
+    `max ${formatNumber(summary.max)}  mean ${formatNumber(summary.mean)}`
+  );
+}
+
+function formatShare(count: number, total: number): string {
+  return `${formatNumber(count).padStart(7)}  ${((count / total) * 100).toFixed(1).padStart(5)}%`;
+}
+
+function formatReport(report: SimulationReport): string {
+  const lines = [
+    `${report.modeName}: ${report.runs} runs from seed ${report.seed}, ` +
+      `at most ${report.maxRounds} rounds`,
+    `Strategy: ${JSON.stringify(report.strategy)}`,
+    '',
+    `Rounds survived  ${formatDistribution(report.roundsSurvived)}`,
+    '',
+    'Game over reasons',
+    ...Object.entries(report.endReasons)
+      .sort(([, a], [, b]) => b - a)
+      .map(([reason, count]) => `  ${reason.padEnd(26)}${formatShare(count, report.runs)}`),
+    '',
+    'Failure states (endless mode)',
+    ...Object.entries(report.failureStates).map(
+      ([failureState, { runs, rounds }]) =>
+        `  ${failureState.padEnd(26)}${formatShare(runs, report.runs)}` +
+        (rounds ? `  at round ${formatNumber(rounds.min)}–${formatNumber(rounds.max)}` : '')
+    ),
+    '',
+    'Credits after each round (runs still playing)',
+  ];
+
+  // About 25 rows however long the runs lasted
+  const step = Math.max(1, Math.ceil(report.creditsByRound.length / 25));
+  for (const { round, runs, credits } of report.creditsByRound) {
+    if (round !== 1 && round % step !== 0) continue;
+    lines.push(
+      `  round ${String(round).padStart(4)}  runs ${String(runs).padStart(6)}  ` +
+        `p10 ${formatNumber(credits.p10).padStart(14)}  ` +
+        `median ${formatNumber(credits.median).padStart(14)}  ` +
+        `p90 ${formatNumber(credits.p90).padStart(14)}`
+    );
+  }
+  return lines.join('\n');
+}
+
+try {
+  const options = parseArgs(process.argv.slice(2).filter((arg) => arg !== '--'));
+  if (!options) {
+    console.log(USAGE);
+  } else {
+    const startedAt = Date.now();
+    const report = runSimulation(options, (completed, total) => {
+      if (process.stderr.isTTY && completed % Math.max(1, Math.floor(total / 100)) === 0) {
+        process.stderr.write(`  ${completed}/${total} runs\r`);
+      }
+    });
+    process.stderr.write(`Played ${report.runs} runs in ${(Date.now() - startedAt) / 1000}s\n`);
+    console.log(options.json ? JSON.stringify(report, null, 2) : formatReport(report));
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+}
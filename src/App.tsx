@@ -4,9 +4,12 @@ import { useThemeBackgroundAnimation } from './hooks/useThemeBackgroundAnimation
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { RewardTable } from './components/RewardTable';
+import { GameTip } from './components/GameTip';
 import { initializeTheme, loadThemeConfig } from './utils/themeManager';
 import { LOGO_URL } from './config/assets';
 import { ThemeConfig } from './types/index';
+import { getGameMode } from './config/gameConfig';
+import { TUTORIAL_STEPS } from './config/tutorialConfig';
 
 // Code splitting: Lazy load screen components for better performance
 const MainMenu = lazy(() => import('./components/MainMenu').then(m => ({ default: m.MainMenu })));
@@ -18,12 +21,31 @@ const Shop = lazy(() => import('./components/Shop').then(m => ({ default: m.Shop
 const GameOver = lazy(() => import('./components/screen-GameOver').then(m => ({ default: m.GameOver })));
 const Credits = lazy(() => import('./components/Credits').then(m => ({ default: m.Credits })));
 const Tutorial = lazy(() => import('./components/Tutorial').then(m => ({ default: m.Tutorial })));
+const DailyChallenge = lazy(() => import('./components/DailyChallenge').then(m => ({ default: m.DailyChallenge })));
+const Stats = lazy(() => import('./components/Stats').then(m => ({ default: m.Stats })));
+const Leaderboards = lazy(() => import('./components/Leaderboards').then(m => ({ default: m.Leaderboards })));
+const RoundHistory = lazy(() => import('./components/RoundHistory').then(m => ({ default: m.RoundHistory })));
+const CustomModeEditor = lazy(() => import('./components/CustomModeEditor').then(m => ({ default: m.CustomModeEditor })));
+const RunTransfer = lazy(() => import('./components/RunTransfer').then(m => ({ default: m.RunTransfer })));
 const Settings = lazy(() => import('./components/Settings').then(m => ({ default: m.Settings })));
+const Training = lazy(() => import('./components/screen-Training').then(m => ({ default: m.Training })));
+const Puzzles = lazy(() => import('./components/Puzzles').then(m => ({ default: m.Puzzles })));
+const PuzzleOverlay = lazy(() => import('./components/PuzzleOverlay').then(m => ({ default: m.PuzzleOverlay })));
+const TutorialOverlay = lazy(() => import('./components/TutorialOverlay').then(m => ({ default: m.TutorialOverlay })));
 
 function App() {
   const [showCredits, setShowCredits] = useState(false);
   const [showTutorial, setShowTutorial] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showRunTransfer, setShowRunTransfer] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showLeaderboards, setShowLeaderboards] = useState(false);
+  const [showDailyChallenge, setShowDailyChallenge] = useState(false);
+  const [showTraining, setShowTraining] = useState(false);
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  const [showRoundHistory, setShowRoundHistory] = useState(false);
+  const [showStrategyReview, setShowStrategyReview] = useState(false);
+  const [showModeEditor, setShowModeEditor] = useState(false);
   const [payoutTableState, setPayoutTableState] = useState<'closed' | 'open' | 'closing'>('closed');
   const [themeConfig, setThemeConfig] = useState<ThemeConfig | null>(null);
   const [isThemeLoading, setIsThemeLoading] = useState(true);
@@ -94,12 +116,23 @@ function App() {
 
   const {
     state,
+    hasSavedRun,
+    savedRunGameModeId,
+    selectedGameModeId,
+    selectGameMode,
+    customGameModes,
+    saveCustomGameMode,
+    deleteCustomGameMode,
     dealHand,
     toggleHold,
     drawParallelHands,
+    handGenerationProgress,
     returnToMenu,
     returnToPreDraw,
     startNewRun,
+    startDailyChallenge,
+    continueRun,
+    importRun,
     endRun,
     setBetAmount,
     setSelectedHandCount,
@@ -111,6 +144,11 @@ function App() {
     addParallelHandsBundle,
     moveToNextScreen,
     proceedFromResults,
+    recordHoldReview,
+    autoplay,
+    tutorial,
+    puzzle,
+    tips,
     cheatAddCredits,
     cheatAddHands,
     cheatSetDevilsDeal,
@@ -135,12 +173,24 @@ function App() {
 
   return (
     <div className="min-h-screen">
-      {state.screen === 'menu' && (
+      {state.screen === 'menu' && !showTraining && (
         <ErrorBoundary onReturnToMenu={returnToMenu}>
           <div key="menu" className="screen-enter">
             <MainMenu
+              gameModeId={selectedGameModeId}
+              onSelectGameMode={selectGameMode}
+              onEditCustomModes={() => setShowModeEditor(true)}
               onStartRun={startNewRun}
+              onContinueRun={hasSavedRun ? continueRun : undefined}
+              onDailyChallenge={() => setShowDailyChallenge(true)}
+              onImportRun={() => setShowRunTransfer(true)}
+              onTraining={() => setShowTraining(true)}
+              onPuzzles={() => setShowPuzzles(true)}
               onTutorial={() => setShowTutorial(true)}
+              onPlayTutorial={tutorial.start}
+              tutorialCompleted={tutorial.isCompleted}
+              onStats={() => setShowStats(true)}
+              onLeaderboards={() => setShowLeaderboards(true)}
               onCredits={() => setShowCredits(true)}
               onSettings={() => setShowSettings(true)}
             />
@@ -148,6 +198,16 @@ function App() {
         </ErrorBoundary>
       )}
 
+      {state.screen === 'menu' && showTraining && (
+        <ErrorBoundary onReturnToMenu={() => setShowTraining(false)}>
+          <Suspense fallback={<LoadingSpinner />}>
+            <div key="training" className="screen-enter">
+              <Training onClose={() => setShowTraining(false)} />
+            </div>
+          </Suspense>
+        </ErrorBoundary>
+      )}
+
       {showCredits && (
         <Suspense fallback={<LoadingSpinner />}>
           <div className="modal-enter">
@@ -156,10 +216,79 @@ function App() {
         </Suspense>
       )}
 
+      {showStats && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <div className="modal-enter">
+            <Stats onClose={() => setShowStats(false)} />
+          </div>
+        </Suspense>
+      )}
+
+      {showLeaderboards && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <div className="modal-enter">
+            <Leaderboards
+              gameModeId={selectedGameModeId}
+              onClose={() => setShowLeaderboards(false)}
+            />
+          </div>
+        </Suspense>
+      )}
+
+      {showDailyChallenge && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <div className="modal-enter">
+            <DailyChallenge
+              onStart={() => {
+                setShowDailyChallenge(false);
+                startDailyChallenge();
+              }}
+              onClose={() => setShowDailyChallenge(false)}
+            />
+          </div>
+        </Suspense>
+      )}
+
+      {showPuzzles && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <div className="modal-enter">
+            <Puzzles
+              stars={puzzle.stars}
+              onPlay={(puzzleId) => {
+                setShowPuzzles(false);
+                puzzle.start(puzzleId);
+              }}
+              onClose={() => setShowPuzzles(false)}
+            />
+          </div>
+        </Suspense>
+      )}
+
+      {showModeEditor && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <div className="modal-enter">
+            <CustomModeEditor
+              customModes={customGameModes}
+              savedRunGameModeId={savedRunGameModeId}
+              initialBaseModeId={selectedGameModeId}
+              onSave={(mode) => {
+                saveCustomGameMode(mode);
+                selectGameMode(mode.id);
+              }}
+              onDelete={deleteCustomGameMode}
+              onClose={() => setShowModeEditor(false)}
+            />
+          </div>
+        </Suspense>
+      )}
+
       {showTutorial && (
         <Suspense fallback={<LoadingSpinner />}>
           <div className="modal-enter">
-            <Tutorial onClose={() => setShowTutorial(false)} />
+            <Tutorial
+              onClose={() => setShowTutorial(false)}
+              minimumPairRank={getGameMode(selectedGameModeId).minimumPairRank}
+            />
           </div>
         </Suspense>
       )}
@@ -180,11 +309,13 @@ function App() {
               totalEarnings={state.totalEarnings}
               failureState={state.currentFailureState}
               gameState={state}
+              autoplay={autoplay}
               onSetBetAmount={setBetAmount}
               onSetSelectedHandCount={setSelectedHandCount}
               onDealHand={dealHand}
               onEndRun={endRun}
               onShowPayoutTable={openPayoutTable}
+              onShowHistory={() => setShowRoundHistory(true)}
               onShowSettings={() => setShowSettings(true)}
             />
           </div>
@@ -208,10 +339,13 @@ function App() {
               nextActionIsDraw={state.maxDraws >= 2 && state.drawsCompletedThisRound < state.maxDraws}
               failureState={state.currentFailureState}
               gameState={state}
+              handGenerationProgress={handGenerationProgress}
+              autoplay={autoplay}
               onToggleHold={toggleHold}
               onToggleDevilsDealHold={toggleDevilsDealHold}
               onDraw={drawParallelHands}
               onShowPayoutTable={openPayoutTable}
+              onShowHistory={() => setShowRoundHistory(true)}
               onShowSettings={() => setShowSettings(true)}
             />
           </div>
@@ -225,6 +359,7 @@ function App() {
             <div key="animation" className="screen-enter">
               <ParallelHandsAnimation
               parallelHands={state.parallelHands}
+              parallelHandsResult={state.parallelHandsResult}
               playerHand={state.playerHand}
               heldIndices={state.heldIndices}
               rewardTable={state.rewardTable}
@@ -232,7 +367,9 @@ function App() {
               betAmount={state.betAmount}
               initialStreakCounter={state.streakCounter}
               audioSettings={state.audioSettings}
-              animationSpeedMode={state.animationSpeedMode}
+              animationSpeedMode={
+                autoplay.isActive ? autoplay.settings.animationSpeed : state.animationSpeedMode
+              }
               onShowSettings={() => setShowSettings(true)}
               onAnimationComplete={({ finalStreakCount, highestCombo, highestMultiplier }) => {
                 updateStreakCounter(finalStreakCount, {
@@ -255,6 +392,7 @@ function App() {
                 playerHand={state.playerHand}
                 heldIndices={state.heldIndices}
                 parallelHands={state.parallelHands}
+                parallelHandsResult={state.parallelHandsResult}
                 rewardTable={state.rewardTable}
                 betAmount={state.betAmount}
                 credits={state.credits}
@@ -266,7 +404,11 @@ function App() {
                 onReturnToPreDraw={returnToPreDraw}
                 showShopNextRound={state.showShopNextRound}
                 onShowPayoutTable={openPayoutTable}
+                onShowHistory={() => setShowRoundHistory(true)}
                 onShowSettings={() => setShowSettings(true)}
+                showStrategyReview={showStrategyReview}
+                onToggleStrategyReview={() => setShowStrategyReview((prev) => !prev)}
+                onRecordHoldReview={recordHoldReview}
               />
             </div>
           </Suspense>
@@ -345,6 +487,40 @@ function App() {
               onCheatAddCredits={cheatAddCredits}
               onCheatAddHands={cheatAddHands}
               onCheatSetDevilsDeal={cheatSetDevilsDeal}
+              onShareRun={
+                state.screen === 'game' || state.screen === 'shop'
+                  ? () => {
+                      setShowSettings(false);
+                      setShowRunTransfer(true);
+                    }
+                  : undefined
+              }
+            />
+          </div>
+        </Suspense>
+      )}
+
+      {showRoundHistory && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <div className="modal-enter">
+            <RoundHistory
+              roundHistory={state.roundHistory}
+              runSeed={state.runSeed}
+              onClose={() => setShowRoundHistory(false)}
+            />
+          </div>
+        </Suspense>
+      )}
+
+      {showRunTransfer && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <div className="modal-enter">
+            <RunTransfer
+              onClose={() => setShowRunTransfer(false)}
+              gameState={
+                state.screen === 'game' || state.screen === 'shop' ? state : undefined
+              }
+              onImport={importRun}
             />
           </div>
         </Suspense>
@@ -383,6 +559,31 @@ function App() {
           </div>
         </div>
       )}
+
+      {tips.tip && <GameTip tip={tips.tip} onDismiss={tips.dismiss} />}
+
+      {puzzle.puzzle && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <PuzzleOverlay
+            puzzle={puzzle.puzzle}
+            outcome={puzzle.outcome}
+            onRetry={puzzle.retry}
+            onExit={puzzle.exit}
+          />
+        </Suspense>
+      )}
+
+      {tutorial.step && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <TutorialOverlay
+            step={tutorial.step}
+            stepIndex={tutorial.stepIndex}
+            stepCount={TUTORIAL_STEPS.length}
+            onNext={tutorial.next}
+            onExit={tutorial.exit}
+          />
+        </Suspense>
+      )}
     </div>
   );
 }
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { GameButton } from './GameButton';
+import { Autoplay } from '../hooks/useAutoplay';
+import {
+  AUTOPLAY_STOP_REASON_LABELS,
+  AUTOPLAY_STRATEGIES,
+  AutoplayStrategyId,
+  getAutoplayStrategy,
+} from '../utils/autoplay';
+import { formatCredits } from '../utils/format';
+
+interface AutoplayControlsProps {
+  autoplay: Autoplay;
+}
+
+const SPEED_OPTIONS: { value: number | 'skip'; label: string }[] = [
+  { value: 1, label: '1×' },
+  { value: 2, label: '2×' },
+  { value: 4, label: '4×' },
+  { value: 'skip', label: 'Skip animations' },
+];
+
+const inputClassName =
+  'w-full rounded-md px-2 py-1 border border-[var(--game-border)] ' +
+  'focus:outline-none focus:border-[var(--game-accent-gold)]';
+const inputStyle = { background: 'var(--game-bg-dark)', color: 'var(--game-text)' };
+
+/** Blank or out of range input means no limit. */
+function parseLimit(value: string, min: number): number | null {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < min ? null : parsed;
+}
+
+/**
+ * Autoplay toggle with its settings: strategy, speed and when to stop. While autoplay runs it
+ * shows progress and a Stop button instead.
+ */
+export function AutoplayControls({ autoplay }: AutoplayControlsProps) {
+  const { settings, isActive, roundsPlayed, stopReason, updateSettings, start, stop } = autoplay;
+  const [showSettings, setShowSettings] = useState(false);
+
+  if (isActive) {
+    return (
+      <div
+        className="game-panel-muted rounded-lg p-3 flex flex-wrap items-center justify-between gap-2"
+        role="status"
+        aria-live="polite"
+      >
+        <span className="text-sm font-medium" style={{ color: 'var(--game-text)' }}>
+          Autoplay ({getAutoplayStrategy(settings.strategyId).label}): round {roundsPlayed + 1}
+          {settings.rounds !== null && ` of ${settings.rounds}`}
+        </span>
+        <GameButton onClick={stop} variant="ghost" size="sm">
+          Stop Autoplay
+        </GameButton>
+      </div>
+    );
+  }
+
+  const strategy = getAutoplayStrategy(settings.strategyId);
+
+  return (
+    <div className="text-center">
+      <GameButton
+        onClick={() => setShowSettings((prev) => !prev)}
+        variant="ghost"
+        size="sm"
+        aria-expanded={showSettings}
+      >
+        {showSettings ? 'Hide Autoplay' : 'Autoplay'}
+      </GameButton>
+      {stopReason && (
+        <p className="text-xs mt-2" style={{ color: 'var(--game-text-muted)' }} role="status">
+          {AUTOPLAY_STOP_REASON_LABELS[stopReason]} after {roundsPlayed}{' '}
+          {roundsPlayed === 1 ? 'round' : 'rounds'}.
+        </p>
+      )}
+
+      {showSettings && (
+        <section
+          className="game-panel-muted rounded-lg p-3 sm:p-4 mt-3 text-sm text-left space-y-3"
+          aria-label="Autoplay settings"
+        >
+          <label className="block">
+            <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+              Strategy
+            </span>
+            <select
+              value={settings.strategyId}
+              onChange={(e) => updateSettings({ strategyId: e.target.value as AutoplayStrategyId })}
+              className={`${inputClassName} mt-1`}
+              style={inputStyle}
+            >
+              {AUTOPLAY_STRATEGIES.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <span className="block text-xs mt-1" style={{ color: 'var(--game-text-muted)' }}>
+              {strategy.description}
+            </span>
+          </label>
+
+          <label className="block">
+            <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+              Speed
+            </span>
+            <select
+              value={String(settings.animationSpeed)}
+              onChange={(e) =>
+                updateSettings({
+                  animationSpeed: e.target.value === 'skip' ? 'skip' : Number(e.target.value),
+                })
+              }
+              className={`${inputClassName} mt-1`}
+              style={inputStyle}
+            >
+              {SPEED_OPTIONS.map((option) => (
+                <option key={option.label} value={String(option.value)}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+                Rounds
+              </span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={settings.rounds ?? ''}
+                placeholder="No limit"
+                onChange={(e) => updateSettings({ rounds: parseLimit(e.target.value, 1) })}
+                className={`${inputClassName} mt-1`}
+                style={inputStyle}
+              />
+            </label>
+            <label className="block">
+              <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+                Stop below credits
+              </span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={settings.stopBelowCredits ?? ''}
+                placeholder="No limit"
+                onChange={(e) =>
+                  updateSettings({ stopBelowCredits: parseLimit(e.target.value, 0) })
+                }
+                className={`${inputClassName} mt-1`}
+                style={inputStyle}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.stopAtEndlessMode}
+              onChange={(e) => updateSettings({ stopAtEndlessMode: e.target.checked })}
+              className="w-4 h-4 rounded"
+              style={{ accentColor: 'var(--game-accent-gold)' }}
+            />
+            <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+              Stop when endless mode begins
+            </span>
+          </label>
+
+          <GameButton
+            onClick={() => {
+              setShowSettings(false);
+              start();
+            }}
+            variant="secondary"
+            size="md"
+            fullWidth
+          >
+            Start Autoplay
+            {settings.rounds !== null && ` (${settings.rounds} rounds)`}
+          </GameButton>
+          {settings.stopBelowCredits !== null && (
+            <p className="text-xs" style={{ color: 'var(--game-text-dim)' }}>
+              Stops before a round once credits are below{' '}
+              {formatCredits(settings.stopBelowCredits)}.
+            </p>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
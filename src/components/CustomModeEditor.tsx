@@ -0,0 +1,299 @@
+import { useMemo, useState } from 'react';
+import { GameButton } from './GameButton';
+import {
+  CustomGameMode,
+  CustomGameModeId,
+  CustomGameModeSettings,
+  GameModeId,
+  getGameMode,
+  getGameModeIds,
+} from '../config/gameConfig';
+import {
+  CUSTOM_MODE_DESCRIPTION_MAX_LENGTH,
+  CUSTOM_MODE_NAME_MAX_LENGTH,
+  CUSTOM_MODE_SECTIONS,
+  createCustomGameModeId,
+  createCustomGameModeSettings,
+  setSettingAtPath,
+  validateCustomGameModeSettings,
+} from '../utils/customGameModes';
+import { getValueAtPath } from '../utils/configValidation';
+
+interface CustomModeEditorProps {
+  customModes: CustomGameMode[];
+  /** Mode of the autosaved run, which can't be changed or deleted until that run ends */
+  savedRunGameModeId: string | null;
+  /** Mode to copy settings from when starting a new custom mode */
+  initialBaseModeId: GameModeId;
+  onSave: (mode: CustomGameMode) => void;
+  onDelete: (modeId: CustomGameModeId) => void;
+  onClose: () => void;
+}
+
+const NEW_MODE = 'new';
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="text-xs mt-1" style={{ color: 'var(--game-accent-red-bright)' }} role="alert">
+      {message}
+    </p>
+  );
+}
+
+export function CustomModeEditor({
+  customModes,
+  savedRunGameModeId,
+  initialBaseModeId,
+  onSave,
+  onDelete,
+  onClose,
+}: CustomModeEditorProps) {
+  const [editingId, setEditingId] = useState<CustomGameModeId | null>(null);
+  const [baseModeId, setBaseModeId] = useState<GameModeId>(initialBaseModeId);
+  const [draft, setDraft] = useState<CustomGameModeSettings>(() =>
+    createCustomGameModeSettings(initialBaseModeId)
+  );
+  const [savedName, setSavedName] = useState<string | null>(null);
+
+  const errors = useMemo(() => validateCustomGameModeSettings(draft), [draft]);
+  const isValid = Object.keys(errors).length === 0;
+  const isInSavedRun = editingId !== null && editingId === savedRunGameModeId;
+
+  const updateDraft = (path: string, value: unknown) => {
+    setDraft((prev) => setSettingAtPath(prev, path, value));
+    setSavedName(null);
+  };
+
+  const startNewMode = (modeId: GameModeId) => {
+    setEditingId(null);
+    setBaseModeId(modeId);
+    setDraft(createCustomGameModeSettings(modeId));
+    setSavedName(null);
+  };
+
+  const editMode = (value: string) => {
+    const mode = customModes.find(({ id }) => id === value);
+    if (!mode) {
+      startNewMode(baseModeId);
+      return;
+    }
+    setEditingId(mode.id);
+    setDraft(mode.settings);
+    setSavedName(null);
+  };
+
+  const handleSave = () => {
+    if (!isValid || isInSavedRun) return;
+    const id = editingId ?? createCustomGameModeId(customModes);
+    onSave({ id, settings: { ...draft, displayName: draft.displayName.trim() } });
+    setEditingId(id);
+    setSavedName(draft.displayName.trim());
+  };
+
+  const handleDelete = () => {
+    if (!editingId || isInSavedRun) return;
+    onDelete(editingId);
+    startNewMode(baseModeId);
+  };
+
+  const inputClassName =
+    'w-full rounded-md px-2 py-1 border border-[var(--game-border)] ' +
+    'focus:outline-none focus:border-[var(--game-accent-gold)]';
+  const inputStyle = { background: 'var(--game-bg-dark)', color: 'var(--game-text)' };
+
+  return (
+    <div
+      className="fixed inset-0 modal-overlay flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="game-panel rounded-xl p-6 sm:p-8 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-[var(--game-border)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl sm:text-3xl font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Custom Modes
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-2xl font-bold hover:opacity-80"
+            style={{ color: 'var(--game-text-muted)' }}
+            aria-label="Close custom modes"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+          <label className="block">
+            <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+              Edit
+            </span>
+            <select
+              value={editingId ?? NEW_MODE}
+              onChange={(e) => editMode(e.target.value)}
+              className={inputClassName}
+              style={inputStyle}
+            >
+              <option value={NEW_MODE}>New custom mode</option>
+              {customModes.map(({ id, settings }) => (
+                <option key={id} value={id}>
+                  {settings.displayName}
+                </option>
+              ))}
+            </select>
+          </label>
+          {editingId === null && (
+            <label className="block">
+              <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+                Start from
+              </span>
+              <select
+                value={baseModeId}
+                onChange={(e) => startNewMode(e.target.value as GameModeId)}
+                className={inputClassName}
+                style={inputStyle}
+              >
+                {getGameModeIds().map((id) => (
+                  <option key={id} value={id}>
+                    {getGameMode(id).displayName}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <section>
+            <h3 className="text-lg font-bold mb-3" style={{ color: 'var(--game-accent-gold)' }}>
+              General
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+                  Name
+                </span>
+                <input
+                  type="text"
+                  value={draft.displayName}
+                  maxLength={CUSTOM_MODE_NAME_MAX_LENGTH}
+                  onChange={(e) => updateDraft('displayName', e.target.value)}
+                  className={inputClassName}
+                  style={inputStyle}
+                />
+                <FieldError message={errors.displayName} />
+              </label>
+              <label className="block">
+                <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+                  Description
+                </span>
+                <input
+                  type="text"
+                  value={draft.description}
+                  maxLength={CUSTOM_MODE_DESCRIPTION_MAX_LENGTH}
+                  onChange={(e) => updateDraft('description', e.target.value)}
+                  className={inputClassName}
+                  style={inputStyle}
+                />
+                <FieldError message={errors.description} />
+              </label>
+            </div>
+          </section>
+
+          {CUSTOM_MODE_SECTIONS.map(({ title, fields }) => (
+            <section key={title}>
+              <h3 className="text-lg font-bold mb-3" style={{ color: 'var(--game-accent-gold)' }}>
+                {title}
+              </h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {fields.map((field) => {
+                  const value = getValueAtPath(draft, field.path);
+                  if (field.kind === 'toggle') {
+                    return (
+                      <label
+                        key={field.path}
+                        className="flex items-center gap-2 cursor-pointer sm:col-span-2"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={value === true}
+                          onChange={(e) => updateDraft(field.path, e.target.checked)}
+                          className="w-4 h-4"
+                          style={{ accentColor: 'var(--game-accent-gold)' }}
+                        />
+                        <span className="text-sm" style={{ color: 'var(--game-text)' }}>
+                          {field.label}
+                        </span>
+                      </label>
+                    );
+                  }
+                  return (
+                    <label key={field.path} className="block">
+                      <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+                        {field.label}
+                      </span>
+                      <input
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        step={field.integer ? 1 : 'any'}
+                        value={typeof value === 'number' && !Number.isNaN(value) ? value : ''}
+                        onChange={(e) =>
+                          updateDraft(
+                            field.path,
+                            e.target.value === '' ? Number.NaN : Number(e.target.value)
+                          )
+                        }
+                        className={inputClassName}
+                        style={inputStyle}
+                        aria-invalid={errors[field.path] ? true : undefined}
+                      />
+                      <FieldError message={errors[field.path]} />
+                    </label>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        <div className="mt-8 flex flex-wrap items-center justify-center gap-3">
+          <GameButton
+            onClick={handleSave}
+            variant="primary"
+            size="md"
+            disabled={!isValid || isInSavedRun}
+          >
+            Save Mode
+          </GameButton>
+          {editingId && (
+            <GameButton onClick={handleDelete} variant="ghost" size="md" disabled={isInSavedRun}>
+              Delete Mode
+            </GameButton>
+          )}
+          <GameButton onClick={onClose} variant="secondary" size="md">
+            Close
+          </GameButton>
+        </div>
+        {isInSavedRun && (
+          <p className="text-sm text-center mt-3" style={{ color: 'var(--game-text-muted)' }}>
+            Your saved run is playing this mode. Finish that run to change or delete it.
+          </p>
+        )}
+        {(savedName || !isValid) && (
+          <p
+            className="text-sm text-center mt-3"
+            style={{ color: isValid ? 'var(--game-text-muted)' : 'var(--game-accent-red-bright)' }}
+          >
+            {isValid
+              ? `Saved "${savedName}". Pick it from the mode list to play.`
+              : 'Fix the highlighted settings to save this mode.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useMemo } from 'react';
+import { GameButton } from './GameButton';
+import { formatCredits } from '../utils/format';
+import { GAME_OVER_REASON_LABELS } from '../utils/gameOverDisplay';
+import {
+  DailyChallengeEntry,
+  getDailyChallengeCalendar,
+  getDailyChallengeDate,
+  getDailyChallengeStreaks,
+  loadDailyChallenges,
+  parseDailyChallengeDate,
+} from '../utils/dailyChallenge';
+import { loadSavedRun } from '../utils/runPersistence';
+
+interface DailyChallengeProps {
+  /**
+   * Start today's challenge; continues today's attempt while it is the saved run, and is an
+   * unscored replay once that attempt has ended
+   */
+  onStart: () => void;
+  onClose: () => void;
+}
+
+/** Days shown in the calendar: the last four weeks. */
+const CALENDAR_DAYS = 28;
+
+function describeEntry(entry: DailyChallengeEntry): string {
+  if (!entry.result) {
+    return 'Unfinished';
+  }
+  return (
+    `Round ${entry.result.roundsSurvived.toLocaleString()} · ` +
+    `${formatCredits(entry.result.peakCredits)} peak · ` +
+    GAME_OVER_REASON_LABELS[entry.result.gameOverReason]
+  );
+}
+
+export function DailyChallenge({ onStart, onClose }: DailyChallengeProps) {
+  const today = useMemo(() => getDailyChallengeDate(), []);
+  const entries = useMemo(() => loadDailyChallenges(), []);
+  const streaks = useMemo(() => getDailyChallengeStreaks(entries, today), [entries, today]);
+  const calendar = useMemo(
+    () => getDailyChallengeCalendar(entries, today, CALENDAR_DAYS),
+    [entries, today]
+  );
+  const todayEntry = entries.find((entry) => entry.date === today) ?? null;
+  const isTodayInProgress = useMemo(
+    () => loadSavedRun()?.state.dailyChallengeDate === today,
+    [today]
+  );
+
+  return (
+    <div
+      className="fixed inset-0 modal-overlay flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="game-panel rounded-xl p-6 sm:p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto border border-[var(--game-border)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl sm:text-3xl font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Daily Challenge
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-2xl font-bold hover:opacity-80"
+            style={{ color: 'var(--game-text-muted)' }}
+            aria-label="Close daily challenge"
+          >
+            ×
+          </button>
+        </div>
+        <p className="text-sm mb-6" style={{ color: 'var(--game-text-muted)' }}>
+          Everyone who plays today gets the same deals, shop rolls and Devil's Deal offers. Your
+          first run of the day is the one that counts.
+        </p>
+
+        <div className="space-y-6">
+          <div
+            className="rounded-lg p-4 border border-[var(--game-border)]"
+            style={{ background: 'var(--game-bg-panel)' }}
+          >
+            <p className="text-xs" style={{ color: 'var(--game-text-muted)' }}>
+              {parseDailyChallengeDate(today).toLocaleDateString(undefined, {
+                weekday: 'long',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </p>
+            <p className="text-lg font-bold" style={{ color: 'var(--game-text)' }}>
+              {todayEntry ? describeEntry(todayEntry) : 'Not played yet'}
+            </p>
+          </div>
+
+          <dl className="grid grid-cols-2 gap-3">
+            {[
+              { label: 'Current Streak', value: streaks.current },
+              { label: 'Best Streak', value: streaks.best },
+            ].map(({ label, value }) => (
+              <div
+                key={label}
+                className="rounded-lg p-3 border border-[var(--game-border)]"
+                style={{ background: 'var(--game-bg-panel)' }}
+              >
+                <dt className="text-xs" style={{ color: 'var(--game-text-muted)' }}>
+                  {label}
+                </dt>
+                <dd className="text-lg font-bold" style={{ color: 'var(--game-text)' }}>
+                  {value.toLocaleString()} {value === 1 ? 'day' : 'days'}
+                </dd>
+              </div>
+            ))}
+          </dl>
+
+          <div>
+            <h3 className="text-lg font-bold mb-3" style={{ color: 'var(--game-accent-gold)' }}>
+              Last {CALENDAR_DAYS} Days
+            </h3>
+            <ol className="grid grid-cols-7 gap-1">
+              {calendar.map(({ date, entry }) => {
+                const label = parseDailyChallengeDate(date).toLocaleDateString();
+                return (
+                  <li
+                    key={date}
+                    className={`rounded-md p-1 text-center border ${
+                      date === today
+                        ? 'border-[var(--game-accent-gold)]'
+                        : 'border-[var(--game-border)]'
+                    }`}
+                    style={{
+                      background: entry ? 'rgba(201, 162, 39, 0.15)' : 'transparent',
+                    }}
+                    title={`${label}: ${entry ? describeEntry(entry) : 'Not played'}`}
+                  >
+                    <span className="block text-xs" style={{ color: 'var(--game-text-dim)' }}>
+                      {parseDailyChallengeDate(date).getDate()}
+                    </span>
+                    <span
+                      className="block text-sm font-bold"
+                      style={{ color: entry ? 'var(--game-accent-gold)' : 'var(--game-text-dim)' }}
+                    >
+                      {entry ? (entry.result?.roundsSurvived.toLocaleString() ?? '…') : '·'}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+            <p className="text-xs mt-2" style={{ color: 'var(--game-text-dim)' }}>
+              Each played day shows the round its run reached.
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-8 flex flex-col sm:flex-row gap-3 justify-center">
+          {isTodayInProgress ? (
+            <GameButton onClick={onStart} variant="primary" size="md">
+              Continue Today's Challenge
+            </GameButton>
+          ) : (
+            <GameButton
+              onClick={onStart}
+              variant={todayEntry ? 'secondary' : 'primary'}
+              size="md"
+            >
+              {todayEntry ? 'Replay Today (Unscored)' : "Play Today's Challenge"}
+            </GameButton>
+          )}
+          <GameButton onClick={onClose} variant="ghost" size="md">
+            Close
+          </GameButton>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,12 +4,14 @@ import { getFailureStateDescription } from '../utils/failureConditions';
 import { formatCredits } from '../utils/format';
 
 interface GameHeaderProps {
-  credits: number;
+  /** Shown unless omitted (training has no credits) */
+  credits?: number;
   round?: number;
   failureState?: FailureStateType;
   gameState?: GameState;
   hideFailureInHeader?: boolean;
   onShowPayoutTable?: () => void;
+  onShowHistory?: () => void;
   onShowSettings?: () => void;
 }
 
@@ -20,6 +22,7 @@ export function GameHeader({
   gameState,
   hideFailureInHeader,
   onShowPayoutTable,
+  onShowHistory,
   onShowSettings,
 }: GameHeaderProps) {
   const failureDescription =
@@ -40,31 +43,35 @@ export function GameHeader({
           <img src={LOGO_URL} alt="Logo" className="w-full h-full object-contain" />
         </div>
 
-        <div
-          className="rounded-lg px-2 sm:px-3 py-1.5 flex items-center gap-x-3 sm:gap-x-4 border border-[var(--game-border)] min-w-0"
-          style={{
-            background:
-              'linear-gradient(145deg, var(--game-bg-card) 0%, var(--game-bg-panel) 100%)',
-            boxShadow: '0 2px 8px rgba(0,0,0,0.3)',
-          }}
-        >
-          <span
-            className="text-xs sm:text-sm font-bold whitespace-nowrap"
-            style={{ color: 'var(--game-text)' }}
+        {(credits !== undefined || round !== undefined) && (
+          <div
+            className="rounded-lg px-2 sm:px-3 py-1.5 flex items-center gap-x-3 sm:gap-x-4 border border-[var(--game-border)] min-w-0"
+            style={{
+              background:
+                'linear-gradient(145deg, var(--game-bg-card) 0%, var(--game-bg-panel) 100%)',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.3)',
+            }}
           >
-            <span style={{ color: 'var(--game-accent-gold)' }}>
-              Credits: {formatCredits(credits)}
-            </span>
-          </span>
-          {round !== undefined && (
-            <span
-              className="text-xs sm:text-sm font-bold whitespace-nowrap"
-              style={{ color: 'var(--game-text)' }}
-            >
-              <span style={{ color: 'var(--game-accent-gold)' }}>Round: {round}</span>
-            </span>
-          )}
-        </div>
+            {credits !== undefined && (
+              <span
+                className="text-xs sm:text-sm font-bold whitespace-nowrap"
+                style={{ color: 'var(--game-text)' }}
+              >
+                <span style={{ color: 'var(--game-accent-gold)' }}>
+                  Credits: {formatCredits(credits)}
+                </span>
+              </span>
+            )}
+            {round !== undefined && (
+              <span
+                className="text-xs sm:text-sm font-bold whitespace-nowrap"
+                style={{ color: 'var(--game-text)' }}
+              >
+                <span style={{ color: 'var(--game-accent-gold)' }}>Round: {round}</span>
+              </span>
+            )}
+          </div>
+        )}
 
         {!hideFailureInHeader && failureState && failureDescription && (
           <div
@@ -91,7 +98,7 @@ export function GameHeader({
         )}
       </div>
 
-      {/* Right: Payouts + Gear - always single line */}
+      {/* Right: Payouts + History + Gear - always single line */}
       <div className="flex items-center gap-1.5 sm:gap-2 flex-shrink-0">
         {onShowPayoutTable && (
           <button
@@ -107,6 +114,21 @@ export function GameHeader({
             💰
           </button>
         )}
+        {onShowHistory && (
+          <button
+            onClick={onShowHistory}
+            className="w-8 h-8 sm:w-9 sm:h-9 rounded-lg flex items-center justify-center text-lg transition-all border border-[var(--game-border)] hover:brightness-110"
+            style={{
+              background:
+                'linear-gradient(145deg, var(--game-bg-card) 0%, var(--game-bg-panel) 100%)',
+              color: 'var(--game-text)',
+            }}
+            title="Hand History"
+            aria-label="Open hand history"
+          >
+            📜
+          </button>
+        )}
         {onShowSettings && (
           <button
             onClick={onShowSettings}
@@ -0,0 +1,42 @@
+import { Tip } from '../config/tipsConfig';
+import { GameButton } from './GameButton';
+
+interface GameTipProps {
+  tip: Tip;
+  onDismiss: () => void;
+}
+
+/** First-time tip, shown in a corner so play can carry on around it. */
+export function GameTip({ tip, onDismiss }: GameTipProps) {
+  return (
+    <aside
+      className="fixed bottom-4 left-4 right-4 sm:left-auto sm:max-w-sm z-[55] game-panel rounded-xl p-4 border border-[var(--game-accent-gold)]"
+      style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+      role="status"
+      aria-live="polite"
+      aria-labelledby="game-tip-title"
+    >
+      <p
+        className="text-xs font-semibold uppercase tracking-wide"
+        style={{ color: 'var(--game-text-dim)' }}
+      >
+        Tip
+      </p>
+      <h2
+        id="game-tip-title"
+        className="text-lg font-bold mb-1"
+        style={{ color: 'var(--game-accent-gold)' }}
+      >
+        {tip.title}
+      </h2>
+      <p className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+        {tip.content}
+      </p>
+      <div className="mt-3 text-right">
+        <GameButton onClick={onDismiss} variant="secondary" size="sm">
+          Got it
+        </GameButton>
+      </div>
+    </aside>
+  );
+}
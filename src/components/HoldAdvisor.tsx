@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Card, DeckModifications, HandRank, RewardTable } from '../types';
+import { analyzeHolds, HoldAdvice } from '../utils/holdAdvisor';
+import { formatCredits, formatHold, HAND_RANK_LABELS } from '../utils/format';
+
+interface HoldAdvisorProps {
+  playerHand: Card[];
+  heldIndices: number[];
+  deckModifications: DeckModifications;
+  rewardTable: RewardTable;
+  betAmount: number;
+  selectedHandCount: number;
+  /** Devil's Deal card when it is held for this draw */
+  devilsDealCard: Card | null;
+  devilsDealCost: number;
+  /** Draws still to come after this one; the advice only covers the round's last draw */
+  drawsLeft: number;
+}
+
+const SHOWN_CHOICES = 3;
+
+function formatChance(chance: number): string {
+  return chance < 0.001 ? '<0.1%' : `${(chance * 100).toFixed(1)}%`;
+}
+
+function describeChances(choice: HoldAdvice): string {
+  const payingRanks = (Object.keys(HAND_RANK_LABELS) as HandRank[]).filter(
+    (rank) => rank !== 'high-card' && choice.rankChances[rank]
+  );
+  if (payingRanks.length === 0) return 'No paying hands possible';
+  return payingRanks
+    .map((rank) => `${HAND_RANK_LABELS[rank]} ${formatChance(choice.rankChances[rank] ?? 0)}`)
+    .join(' · ');
+}
+
+/**
+ * Expected-value panel for the current hand: the best hold choices with their expected return
+ * and the chance of each paying hand rank. Shown on the round's last draw only.
+ */
+export function HoldAdvisor({
+  playerHand,
+  heldIndices,
+  deckModifications,
+  rewardTable,
+  betAmount,
+  selectedHandCount,
+  devilsDealCard,
+  devilsDealCost,
+  drawsLeft,
+}: HoldAdvisorProps) {
+  const [advice, setAdvice] = useState<HoldAdvice[] | null>(null);
+
+  // Defer the analysis a tick so "Calculating..." paints before the main thread is busy
+  useEffect(() => {
+    setAdvice(null);
+    if (drawsLeft > 0) return;
+    const timer = setTimeout(() => {
+      setAdvice(
+        analyzeHolds({
+          playerHand,
+          deckModifications,
+          rewardTable,
+          betAmount,
+          selectedHandCount,
+          devilsDealCard,
+          devilsDealCost,
+        })
+      );
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [
+    playerHand,
+    deckModifications,
+    rewardTable,
+    betAmount,
+    selectedHandCount,
+    devilsDealCard,
+    devilsDealCost,
+    drawsLeft,
+  ]);
+
+  const currentKey = [...heldIndices].sort((a, b) => a - b).join();
+  const currentIndex = advice?.findIndex((choice) => choice.heldIndices.join() === currentKey);
+  const current =
+    advice && currentIndex !== undefined && currentIndex >= 0 ? advice[currentIndex] : undefined;
+
+  return (
+    <section
+      className="game-panel-muted rounded-lg p-3 sm:p-4 mt-4 text-sm"
+      aria-label="Hold advisor"
+      aria-live="polite"
+    >
+      {drawsLeft > 0 ? (
+        <p style={{ color: 'var(--game-text-muted)' }}>
+          The advisor rates the last draw of the round. Draws left before it: {drawsLeft}
+        </p>
+      ) : !advice ? (
+        <p style={{ color: 'var(--game-text-muted)' }}>Calculating...</p>
+      ) : (
+        <>
+          <ol className="space-y-3">
+            {advice.slice(0, SHOWN_CHOICES).map((choice, index) => {
+              const isCurrent = choice === current;
+              return (
+                <li key={choice.heldIndices.join() || 'none'}>
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <span
+                      className="font-bold"
+                      style={{ color: isCurrent ? 'var(--game-accent-gold)' : 'var(--game-text)' }}
+                    >
+                      {index + 1}. {formatHold(playerHand, choice.heldIndices)}
+                      {isCurrent && ' (current)'}
+                    </span>
+                    <span className="tabular-nums" style={{ color: 'var(--game-accent-gold)' }}>
+                      {formatCredits(Math.round(choice.expectedReturn))} credits
+                    </span>
+                  </div>
+                  <p className="text-xs mt-1" style={{ color: 'var(--game-text-muted)' }}>
+                    {describeChances(choice)}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+          {current && currentIndex !== undefined && currentIndex >= SHOWN_CHOICES && (
+            <p className="mt-3" style={{ color: 'var(--game-text-muted)' }}>
+              Your hold ranks #{currentIndex + 1} of {advice.length}:{' '}
+              {formatCredits(Math.round(current.expectedReturn))} credits
+            </p>
+          )}
+          <p className="text-xs mt-3" style={{ color: 'var(--game-text-dim)' }}>
+            Expected return over {selectedHandCount} hands before streak bonuses
+            {devilsDealCard && ", less the Devil's Deal cost"}.
+          </p>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { GameButton } from './GameButton';
+import { GameModeId, getGameModeDisplayName, getGameModeIds } from '../config/gameConfig';
+import { formatCredits } from '../utils/format';
+import { GAME_OVER_REASON_LABELS } from '../utils/gameOverDisplay';
+import {
+  LeaderboardEntry,
+  PLAYER_NAME_MAX_LENGTH,
+  getRankedLeaderboard,
+  getUnrankedRuns,
+  loadLeaderboard,
+  loadPlayerName,
+  savePlayerName,
+} from '../utils/leaderboards';
+
+interface LeaderboardsProps {
+  /** Mode whose table is shown first */
+  gameModeId: GameModeId;
+  onClose: () => void;
+}
+
+/** Rows shown in a ranked table. */
+const RANKED_ROWS_SHOWN = 20;
+
+const inputClassName =
+  'w-full rounded-md px-2 py-1 border border-[var(--game-border)] ' +
+  'focus:outline-none focus:border-[var(--game-accent-gold)]';
+const inputStyle = { background: 'var(--game-bg-dark)', color: 'var(--game-text)' };
+
+function formatMultiplier(multiplier: number): string {
+  return `${Number(multiplier.toFixed(2)).toString()}x`;
+}
+
+/** The seed filter's value, or undefined to show every seed. */
+function parseSeedFilter(value: string): number | undefined {
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : undefined;
+}
+
+function getRunKey(entry: LeaderboardEntry): string {
+  return `${entry.endedAt}-${entry.seed}`;
+}
+
+export function Leaderboards({ gameModeId, onClose }: LeaderboardsProps) {
+  const entries = useMemo(() => loadLeaderboard(), []);
+  const [selectedModeId, setSelectedModeId] = useState<string>(gameModeId);
+  const [seedFilter, setSeedFilter] = useState('');
+  const [playerName, setPlayerName] = useState(loadPlayerName);
+
+  // Modes with a table: every current mode, plus deleted custom modes that still have runs
+  const modeIds = useMemo(
+    () => [...new Set<string>([...getGameModeIds(), ...entries.map((e) => e.gameModeId)])],
+    [entries]
+  );
+  const seed = parseSeedFilter(seedFilter);
+  const query = useMemo(() => ({ gameModeId: selectedModeId, seed }), [selectedModeId, seed]);
+  const ranked = useMemo(
+    () => getRankedLeaderboard(entries, query).slice(0, RANKED_ROWS_SHOWN),
+    [entries, query]
+  );
+  const unranked = useMemo(() => getUnrankedRuns(entries, query), [entries, query]);
+
+  return (
+    <div
+      className="fixed inset-0 modal-overlay flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="game-panel rounded-xl p-6 sm:p-8 max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-[var(--game-border)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl sm:text-3xl font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Leaderboards
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-2xl font-bold hover:opacity-80"
+            style={{ color: 'var(--game-text-muted)' }}
+            aria-label="Close leaderboards"
+          >
+            ×
+          </button>
+        </div>
+        <p className="text-sm mb-6" style={{ color: 'var(--game-text-muted)' }}>
+          Runs rank by rounds survived, then final credits, then total earnings. Runs that used
+          cheats are listed but never ranked.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+          <label className="block">
+            <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+              Game Mode
+            </span>
+            <select
+              value={selectedModeId}
+              onChange={(e) => setSelectedModeId(e.target.value)}
+              className={inputClassName}
+              style={inputStyle}
+            >
+              {modeIds.map((id) => (
+                <option key={id} value={id}>
+                  {getGameModeDisplayName(id)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+              Seed
+            </span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={seedFilter}
+              placeholder="All seeds"
+              onChange={(e) => setSeedFilter(e.target.value)}
+              className={inputClassName}
+              style={inputStyle}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+              Your Name
+            </span>
+            <input
+              type="text"
+              value={playerName}
+              maxLength={PLAYER_NAME_MAX_LENGTH}
+              onChange={(e) => setPlayerName(e.target.value)}
+              onBlur={() => setPlayerName(savePlayerName(playerName))}
+              className={inputClassName}
+              style={inputStyle}
+            />
+          </label>
+        </div>
+
+        {ranked.length === 0 ? (
+          <p className="text-center py-8" style={{ color: 'var(--game-text-muted)' }}>
+            No ranked runs here yet. Finished runs in this mode will show up here.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr style={{ color: 'var(--game-text-muted)' }}>
+                  <th className="py-2 pr-3">#</th>
+                  <th className="py-2 pr-3">Player</th>
+                  <th className="py-2 pr-3">Round</th>
+                  <th className="py-2 pr-3">Credits</th>
+                  <th className="py-2 pr-3">Earnings</th>
+                  <th className="py-2 pr-3">Best Multiplier</th>
+                  <th className="py-2 pr-3">Ended By</th>
+                  <th className="py-2">Date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranked.map((run, index) => (
+                  <tr
+                    key={getRunKey(run)}
+                    className="border-t border-[var(--game-border)]"
+                    style={{ color: 'var(--game-text)' }}
+                  >
+                    <td
+                      className="py-2 pr-3 font-bold"
+                      style={{ color: 'var(--game-accent-gold)' }}
+                    >
+                      {index + 1}
+                    </td>
+                    <td className="py-2 pr-3 font-semibold">{run.playerName}</td>
+                    <td className="py-2 pr-3">{run.roundsSurvived.toLocaleString()}</td>
+                    <td className="py-2 pr-3">{formatCredits(run.finalCredits)}</td>
+                    <td className="py-2 pr-3">{formatCredits(run.totalEarnings)}</td>
+                    <td className="py-2 pr-3">{formatMultiplier(run.runHighestMultiplier)}</td>
+                    <td className="py-2 pr-3">{GAME_OVER_REASON_LABELS[run.gameOverReason]}</td>
+                    <td className="py-2">{new Date(run.endedAt).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {unranked.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-lg font-bold mb-1" style={{ color: 'var(--game-accent-red)' }}>
+              Unranked: Cheats Used
+            </h3>
+            <ul className="space-y-1">
+              {unranked.map((run) => (
+                <li
+                  key={getRunKey(run)}
+                  className="text-xs"
+                  style={{ color: 'var(--game-text-muted)' }}
+                >
+                  {run.playerName} · Round {run.roundsSurvived.toLocaleString()} ·{' '}
+                  {formatCredits(run.finalCredits)} credits ·{' '}
+                  {new Date(run.endedAt).toLocaleDateString()}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-8 text-center">
+          <GameButton onClick={onClose} variant="primary" size="md">
+            Close
+          </GameButton>
+        </div>
+      </div>
+    </div>
+  );
+}
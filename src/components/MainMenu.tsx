@@ -1,14 +1,52 @@
 import { GameButton } from './GameButton';
 import { LOGO_URL } from '../config/assets';
+import { GameModeId, getGameMode, getGameModeIds } from '../config/gameConfig';
 
 interface MainMenuProps {
+  /** Mode the Start Run button will use */
+  gameModeId: GameModeId;
+  onSelectGameMode: (modeId: GameModeId) => void;
+  /** Open the custom ruleset editor */
+  onEditCustomModes: () => void;
   onStartRun: () => void;
+  /** Resume the autosaved run; the Continue Run button is shown only when provided */
+  onContinueRun?: () => void;
+  /** Open today's daily challenge */
+  onDailyChallenge: () => void;
+  onImportRun: () => void;
+  /** Open the hold training drills */
+  onTraining: () => void;
+  /** Open the puzzle list */
+  onPuzzles: () => void;
   onTutorial: () => void;
+  /** Start the playable tutorial */
+  onPlayTutorial: () => void;
+  /** Players who have not finished the tutorial get it offered up front */
+  tutorialCompleted: boolean;
+  onStats: () => void;
+  onLeaderboards: () => void;
   onCredits: () => void;
   onSettings: () => void;
 }
 
-export function MainMenu({ onStartRun, onTutorial, onCredits, onSettings }: MainMenuProps) {
+export function MainMenu({
+  gameModeId,
+  onSelectGameMode,
+  onEditCustomModes,
+  onStartRun,
+  onContinueRun,
+  onDailyChallenge,
+  onImportRun,
+  onTraining,
+  onPuzzles,
+  onTutorial,
+  onPlayTutorial,
+  tutorialCompleted,
+  onStats,
+  onLeaderboards,
+  onCredits,
+  onSettings,
+}: MainMenuProps) {
   return (
     <div
       id="mainMenu-screen"
@@ -42,12 +80,102 @@ export function MainMenu({ onStartRun, onTutorial, onCredits, onSettings }: Main
         </h1>
 
         <div className="space-y-3 sm:space-y-4">
-          <GameButton onClick={onStartRun} variant="primary" size="lg" fullWidth>
+          {onContinueRun && (
+            <GameButton onClick={onContinueRun} variant="primary" size="lg" fullWidth>
+              Continue Run
+            </GameButton>
+          )}
+          {!tutorialCompleted && (
+            <div
+              className="rounded-lg p-3 text-center border border-[var(--game-accent-gold)]"
+              style={{ background: 'rgba(201, 162, 39, 0.1)' }}
+            >
+              <p className="text-sm mb-2" style={{ color: 'var(--game-text)' }}>
+                New here? Play a guided round or two before your first run.
+              </p>
+              <GameButton onClick={onPlayTutorial} variant="secondary" size="md" fullWidth>
+                Play Tutorial
+              </GameButton>
+            </div>
+          )}
+          <fieldset>
+            <legend
+              className="text-sm font-semibold mb-2"
+              style={{ color: 'var(--game-text-muted)' }}
+            >
+              Game Mode
+            </legend>
+            <div className="grid grid-cols-2 gap-2">
+              {getGameModeIds().map((id) => (
+                <label
+                  key={id}
+                  className={`flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-colors border-2 ${
+                    gameModeId === id
+                      ? 'border-[var(--game-accent-gold)]'
+                      : 'border-[var(--game-border)]'
+                  }`}
+                  style={{
+                    background: gameModeId === id ? 'rgba(201, 162, 39, 0.1)' : 'transparent',
+                  }}
+                >
+                  <input
+                    type="radio"
+                    name="gameMode"
+                    value={id}
+                    checked={gameModeId === id}
+                    onChange={() => onSelectGameMode(id)}
+                    className="w-4 h-4"
+                    style={{ accentColor: 'var(--game-accent-gold)' }}
+                  />
+                  <span className="font-semibold text-sm" style={{ color: 'var(--game-text)' }}>
+                    {getGameMode(id).displayName}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs mt-2 text-center" style={{ color: 'var(--game-text-muted)' }}>
+              {getGameMode(gameModeId).description}
+            </p>
+            <div className="mt-2 text-center">
+              <GameButton onClick={onEditCustomModes} variant="ghost" size="sm">
+                Custom Modes
+              </GameButton>
+            </div>
+          </fieldset>
+          <GameButton
+            onClick={() => onStartRun()}
+            variant={onContinueRun ? 'secondary' : 'primary'}
+            size="lg"
+            fullWidth
+          >
             Start Run
           </GameButton>
+          <GameButton onClick={onDailyChallenge} variant="secondary" size="md" fullWidth>
+            Daily Challenge
+          </GameButton>
+          <GameButton onClick={onImportRun} variant="ghost" size="md" fullWidth>
+            Import Run
+          </GameButton>
+          <GameButton onClick={onTraining} variant="ghost" size="md" fullWidth>
+            Training
+          </GameButton>
+          <GameButton onClick={onPuzzles} variant="ghost" size="md" fullWidth>
+            Puzzles
+          </GameButton>
           <GameButton onClick={onTutorial} variant="ghost" size="lg" fullWidth>
             How to Play
           </GameButton>
+          {tutorialCompleted && (
+            <GameButton onClick={onPlayTutorial} variant="ghost" size="md" fullWidth>
+              Play Tutorial
+            </GameButton>
+          )}
+          <GameButton onClick={onStats} variant="ghost" size="md" fullWidth>
+            Stats
+          </GameButton>
+          <GameButton onClick={onLeaderboards} variant="ghost" size="md" fullWidth>
+            Leaderboards
+          </GameButton>
           <GameButton onClick={onCredits} variant="ghost" size="md" fullWidth>
             Credits
           </GameButton>
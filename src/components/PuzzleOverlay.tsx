@@ -0,0 +1,100 @@
+import { useEffect } from 'react';
+import { GameButton } from './GameButton';
+import { PuzzleStarRating } from './Puzzles';
+import { Puzzle } from '../config/puzzlesConfig';
+import { formatCredits } from '../utils/format';
+import { PuzzleOutcome, getPuzzleGoalLabel } from '../utils/puzzles';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface PuzzleOverlayProps {
+  puzzle: Puzzle;
+  /** How the attempt ended; while null, only the goal is shown */
+  outcome: PuzzleOutcome | null;
+  onRetry: () => void;
+  onExit: () => void;
+}
+
+function getScoreLabel(puzzle: Puzzle, outcome: PuzzleOutcome): string {
+  return puzzle.goal.type === 'earn'
+    ? `Round profit: ${formatCredits(outcome.score)}`
+    : `Credits left: ${formatCredits(outcome.score)}`;
+}
+
+/**
+ * The running puzzle's goal, in a corner while it is played, and its result once won or lost.
+ */
+export function PuzzleOverlay({ puzzle, outcome, onRetry, onExit }: PuzzleOverlayProps) {
+  const isFinished = outcome !== null;
+  const dialogRef = useFocusTrap(isFinished);
+
+  // Keep the game's keyboard shortcuts from playing on behind the result
+  useEffect(() => {
+    if (!isFinished) return undefined;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') e.stopPropagation();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isFinished]);
+
+  if (!outcome) {
+    return (
+      <aside
+        className="fixed bottom-4 left-4 z-[55] max-w-xs game-panel rounded-xl p-3 border border-[var(--game-accent-gold)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+        aria-label="Puzzle goal"
+      >
+        <p className="text-sm font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+          {puzzle.title}
+        </p>
+        <p className="text-xs mb-2" style={{ color: 'var(--game-text-muted)' }}>
+          Goal: {getPuzzleGoalLabel(puzzle.goal)}
+        </p>
+        <GameButton onClick={onExit} variant="ghost" size="sm">
+          Leave Puzzle
+        </GameButton>
+      </aside>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 modal-overlay flex items-center justify-center z-[60] p-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="puzzle-result-title"
+        className="game-panel rounded-xl p-6 sm:p-8 max-w-md w-full text-center border border-[var(--game-border)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+      >
+        <p className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+          {puzzle.title}
+        </p>
+        <h2
+          id="puzzle-result-title"
+          className="text-2xl sm:text-3xl font-bold mb-2"
+          style={{ color: outcome.won ? 'var(--game-accent-gold)' : 'var(--game-accent-red)' }}
+        >
+          {outcome.won ? 'Puzzle Solved' : 'Puzzle Failed'}
+        </h2>
+        <p className="text-3xl mb-2">
+          <PuzzleStarRating stars={outcome.stars} />
+        </p>
+        <p className="text-sm" style={{ color: 'var(--game-text)' }}>
+          Goal: {getPuzzleGoalLabel(puzzle.goal)}
+        </p>
+        <p className="text-sm mb-6" style={{ color: 'var(--game-text-muted)' }}>
+          {getScoreLabel(puzzle, outcome)}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <GameButton onClick={onRetry} variant="primary" size="md">
+            {outcome.won ? 'Play Again' : 'Try Again'}
+          </GameButton>
+          <GameButton onClick={onExit} variant="secondary" size="md">
+            Leave Puzzle
+          </GameButton>
+        </div>
+      </div>
+    </div>
+  );
+}
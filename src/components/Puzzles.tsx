@@ -0,0 +1,97 @@
+import { GameButton } from './GameButton';
+import { PUZZLES } from '../config/puzzlesConfig';
+import { PUZZLE_MAX_STARS, PuzzleStars, getPuzzleGoalLabel } from '../utils/puzzles';
+
+interface PuzzlesProps {
+  /** Best stars earned per puzzle */
+  stars: PuzzleStars;
+  onPlay: (puzzleId: string) => void;
+  onClose: () => void;
+}
+
+/** Star rating out of PUZZLE_MAX_STARS, filled for the stars earned. */
+export function PuzzleStarRating({ stars }: { stars: number }) {
+  return (
+    <span
+      role="img"
+      aria-label={`${stars} of ${PUZZLE_MAX_STARS} stars`}
+      style={{ color: 'var(--game-accent-gold)' }}
+    >
+      {'★'.repeat(stars)}
+      <span style={{ color: 'var(--game-text-dim)' }}>
+        {'☆'.repeat(PUZZLE_MAX_STARS - stars)}
+      </span>
+    </span>
+  );
+}
+
+export function Puzzles({ stars, onPlay, onClose }: PuzzlesProps) {
+  return (
+    <div
+      className="fixed inset-0 modal-overlay flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="game-panel rounded-xl p-6 sm:p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-[var(--game-border)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl sm:text-3xl font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Puzzles
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-2xl font-bold hover:opacity-80"
+            style={{ color: 'var(--game-text-muted)' }}
+            aria-label="Close puzzles"
+          >
+            ×
+          </button>
+        </div>
+        <p className="text-sm mb-6" style={{ color: 'var(--game-text-muted)' }}>
+          Each puzzle deals a set hand into a set run. Find the play that reaches the goal.
+        </p>
+
+        <ul className="space-y-3">
+          {PUZZLES.map((puzzle) => (
+            <li
+              key={puzzle.id}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg p-4 border border-[var(--game-border)]"
+              style={{ background: 'var(--game-bg-panel)' }}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-bold" style={{ color: 'var(--game-text)' }}>
+                    {puzzle.title}
+                  </h3>
+                  <PuzzleStarRating stars={stars[puzzle.id] ?? 0} />
+                </div>
+                <p className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+                  {puzzle.description}
+                </p>
+                <p className="text-xs mt-1" style={{ color: 'var(--game-accent-gold)' }}>
+                  Goal: {getPuzzleGoalLabel(puzzle.goal)}
+                </p>
+              </div>
+              <GameButton
+                onClick={() => onPlay(puzzle.id)}
+                variant="secondary"
+                size="sm"
+                aria-label={`Play ${puzzle.title}`}
+              >
+                Play
+              </GameButton>
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-8 text-center">
+          <GameButton onClick={onClose} variant="primary" size="md">
+            Close
+          </GameButton>
+        </div>
+      </div>
+    </div>
+  );
+}
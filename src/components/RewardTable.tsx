@@ -1,11 +1,15 @@
 import { useState, useEffect, useRef } from 'react';
 import { RewardTable as RewardTableType, HandRank } from '../types';
+import { getCurrentGameMode } from '../config/gameConfig';
+import { formatPairRank, formatQualifyingPair } from '../utils/format';
 
 interface RewardTableProps {
   rewardTable: RewardTableType;
   highlightedRank?: HandRank | null;
   payoutAmount?: number;
   wildCardCount?: number;
+  /** Lowest paying pair rank; defaults to the active game mode's */
+  minimumPairRank?: number;
 }
 
 const RANK_LABELS: { [key in HandRank]: string } = {
@@ -18,7 +22,7 @@ const RANK_LABELS: { [key in HandRank]: string } = {
   straight: 'Straight',
   'three-of-a-kind': 'Three of a Kind',
   'two-pair': 'Two Pair',
-  'one-pair': 'One Pair (Jacks or Better)',
+  'one-pair': 'One Pair',
   'high-card': 'High Card',
 };
 
@@ -32,7 +36,7 @@ const RANK_TOOLTIPS: { [key in HandRank]: string } = {
   straight: '5 consecutive cards (any suit)',
   'three-of-a-kind': '3 cards of same rank',
   'two-pair': '2 pairs of same rank',
-  'one-pair': '2 cards of same rank (Jacks or higher)',
+  'one-pair': '2 cards of same rank',
   'high-card': 'Highest card when no other hand',
 };
 
@@ -55,6 +59,7 @@ export function RewardTable({
   highlightedRank,
   payoutAmount,
   wildCardCount = 0,
+  minimumPairRank = getCurrentGameMode().minimumPairRank,
 }: RewardTableProps) {
   const [showPopup, setShowPopup] = useState(false);
   const highlightRef = useRef<HTMLDivElement>(null);
@@ -70,6 +75,15 @@ export function RewardTable({
   // Filter ranks: only show five-of-a-kind if player has wild cards
   const visibleRanks =
     wildCardCount > 0 ? RANK_ORDER : RANK_ORDER.filter((rank) => rank !== 'five-of-a-kind');
+  const pairRule = formatQualifyingPair(minimumPairRank);
+  const labels = { ...RANK_LABELS, 'one-pair': `One Pair (${pairRule})` };
+  const tooltips = {
+    ...RANK_TOOLTIPS,
+    'one-pair':
+      minimumPairRank <= 2
+        ? RANK_TOOLTIPS['one-pair']
+        : `${RANK_TOOLTIPS['one-pair']} (${formatPairRank(minimumPairRank)} or higher)`,
+  };
 
   return (
     <div className="game-panel rounded-xl p-4 sm:p-6 h-full overflow-y-auto relative">
@@ -81,7 +95,7 @@ export function RewardTable({
             <div
               key={rank}
               ref={isHighlighted ? highlightRef : null}
-              title={RANK_TOOLTIPS[rank]}
+              title={tooltips[rank]}
               className={`
                 flex items-center gap-4 p-3 rounded-lg transition-all relative
                 ${
@@ -92,7 +106,7 @@ export function RewardTable({
               `}
             >
               <span className="min-w-0 flex-1 font-medium" style={{ color: 'var(--game-text)' }}>
-                {RANK_LABELS[rank]}
+                {labels[rank]}
               </span>
               <span
                 className="min-w-[5.5rem] sm:min-w-[7rem] flex-shrink-0 text-right font-bold tabular-nums"
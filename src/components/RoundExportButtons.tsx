@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import { GameButton } from './GameButton';
+import { RoundRecord } from '../types';
+import {
+  downloadRounds,
+  exportRecordedRounds,
+  RecordedRoundsExport,
+  RoundExport,
+  RoundExportFormat,
+} from '../utils/roundExport';
+import { logger } from '../utils/logger';
+
+type RoundExportButtonsProps = {
+  /** Prefix of the button labels, e.g. "Export round" */
+  label: string;
+  runSeed: number;
+  /** File name without extension */
+  fileName: string;
+} & (
+  | {
+      /** Built on click from rounds already scored */
+      getRounds: () => RoundExport[];
+      records?: never;
+    }
+  | {
+      /** Regenerated on click in the parallel hands worker, with progress shown meanwhile */
+      records: RoundRecord[];
+      getRounds?: never;
+    }
+);
+
+interface ExportProgress {
+  completed: number;
+  total: number;
+}
+
+const FORMATS: { format: RoundExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+/** CSV and JSON download buttons for round results. */
+export function RoundExportButtons({
+  label,
+  getRounds,
+  records,
+  runSeed,
+  fileName,
+}: RoundExportButtonsProps) {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const exportRef = useRef<RecordedRoundsExport | null>(null);
+
+  // Closing the panel mid-export drops the download
+  useEffect(() => () => exportRef.current?.cancel(), []);
+
+  const handleExport = (format: RoundExportFormat) => {
+    if (!records) {
+      downloadRounds(getRounds(), format, runSeed, fileName);
+      return;
+    }
+    setProgress({ completed: 0, total: records.length });
+    const recordedExport = exportRecordedRounds(records, (completed, total) =>
+      setProgress({ completed, total })
+    );
+    exportRef.current = recordedExport;
+    recordedExport.promise
+      .then((rounds) => downloadRounds(rounds, format, runSeed, fileName))
+      .catch((error) => {
+        logger.error(`Failed to export rounds: ${error}`);
+      })
+      .finally(() => {
+        exportRef.current = null;
+        setProgress(null);
+      });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+        {label}
+      </span>
+      {FORMATS.map(({ format, label: formatLabel }) => (
+        <GameButton
+          key={format}
+          onClick={() => handleExport(format)}
+          variant="ghost"
+          size="sm"
+          disabled={progress !== null}
+          aria-label={`${label} as ${formatLabel}`}
+        >
+          {formatLabel}
+        </GameButton>
+      ))}
+      {progress && (
+        <span className="text-xs" style={{ color: 'var(--game-text-dim)' }} role="status">
+          Exporting… {progress.completed.toLocaleString()}/{progress.total.toLocaleString()}{' '}
+          rounds
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useMemo, useState } from 'react';
+import { Card, HandRank, RoundRecord } from '../types';
+import { formatCard, formatCredits, HAND_RANK_LABELS } from '../utils/format';
+import { getRoundHands } from '../utils/roundHistory';
+import { RoundExportButtons } from './RoundExportButtons';
+
+interface RoundHistoryProps {
+  roundHistory: RoundRecord[];
+  runSeed: number;
+  onClose: () => void;
+}
+
+function formatCards(cards: Card[]): string {
+  return cards.map(formatCard).join(' ');
+}
+
+function describeDevilsDeal({ devilsDeal }: RoundRecord): string {
+  if (!devilsDeal) return 'Not offered';
+  const offer = `${formatCard(devilsDeal.card)} for ${formatCredits(devilsDeal.cost)} credits`;
+  return `${offer}, ${devilsDeal.taken ? 'taken' : 'declined'}`;
+}
+
+function formatNet(record: RoundRecord): string {
+  const net = record.creditsAfter - record.creditsBefore;
+  return `${net >= 0 ? '+' : '−'}${formatCredits(Math.abs(net))}`;
+}
+
+function RoundDetails({ record, runSeed }: { record: RoundRecord; runSeed: number }) {
+  // Regenerated from the round's job, so only built for the expanded round
+  const hands = useMemo(() => getRoundHands(record), [record]);
+  const ranks = (Object.keys(HAND_RANK_LABELS) as HandRank[]).filter(
+    (rank) => record.rankCounts[rank]
+  );
+
+  return (
+    <div className="px-3 pb-3 space-y-3 text-sm" style={{ color: 'var(--game-text)' }}>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        <dt style={{ color: 'var(--game-text-muted)' }}>Dealt</dt>
+        <dd className="font-mono">{formatCards(record.dealtHand)}</dd>
+        {record.draws.map((draw, i) => {
+          const before = i === 0 ? record.dealtHand : record.draws[i - 1].hand;
+          const held = draw.heldIndices.map((index) => before[index]);
+          return (
+            <div key={i} className="contents">
+              <dt style={{ color: 'var(--game-text-muted)' }}>
+                {record.draws.length > 1 ? `Draw ${i + 1}` : 'Draw'}
+              </dt>
+              <dd>
+                <span className="font-mono">{formatCards(draw.hand)}</span>
+                <span className="text-xs ml-2" style={{ color: 'var(--game-text-muted)' }}>
+                  {held.length > 0 ? `held ${formatCards(held)}` : 'discarded all'}
+                </span>
+              </dd>
+            </div>
+          );
+        })}
+        <dt style={{ color: 'var(--game-text-muted)' }}>Devil&apos;s Deal</dt>
+        <dd>{describeDevilsDeal(record)}</dd>
+        <dt style={{ color: 'var(--game-text-muted)' }}>Streak peak</dt>
+        <dd>
+          {record.highestCombo} combo, {Number(record.highestMultiplier.toFixed(2))}x multiplier
+        </dd>
+      </dl>
+
+      <ul className="flex flex-wrap gap-x-4 gap-y-1">
+        {ranks.map((rank) => (
+          <li key={rank}>
+            {HAND_RANK_LABELS[rank]}:{' '}
+            <span className="font-bold tabular-nums">{record.rankCounts[rank]}</span>
+          </li>
+        ))}
+      </ul>
+
+      <ol
+        className="max-h-64 overflow-y-auto rounded-md p-2 space-y-0.5 font-mono text-xs"
+        style={{ background: 'var(--game-bg-dark)' }}
+        aria-label={`Parallel hands of round ${record.round}`}
+      >
+        {hands.map((hand, i) => (
+          <li key={i} className="flex justify-between gap-3">
+            <span>
+              <span style={{ color: 'var(--game-text-dim)' }}>{i + 1}.</span>{' '}
+              {formatCards(hand.cards)}
+            </span>
+            <span
+              style={{
+                color:
+                  hand.rank === 'high-card' ? 'var(--game-text-dim)' : 'var(--game-accent-gold)',
+              }}
+            >
+              {HAND_RANK_LABELS[hand.rank]}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      <RoundExportButtons
+        label="Export round"
+        records={[record]}
+        runSeed={runSeed}
+        fileName={`oubliette-run-${runSeed}-round-${record.round}`}
+      />
+    </div>
+  );
+}
+
+/**
+ * Hand history of the current run, newest round first. Each round expands to its dealt hand,
+ * draws, Devil's Deal, rank counts and every parallel hand played. Single rounds or the whole
+ * history export as CSV or JSON.
+ */
+export function RoundHistory({ roundHistory, runSeed, onClose }: RoundHistoryProps) {
+  const [expandedRound, setExpandedRound] = useState<number | null>(null);
+  const rounds = useMemo(() => [...roundHistory].reverse(), [roundHistory]);
+
+  return (
+    <div
+      className="fixed inset-0 modal-overlay flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="game-panel rounded-xl p-6 sm:p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-[var(--game-border)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl sm:text-3xl font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Hand History
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-2xl font-bold hover:opacity-80"
+            style={{ color: 'var(--game-text-muted)' }}
+            aria-label="Close hand history"
+          >
+            ×
+          </button>
+        </div>
+
+        {rounds.length > 0 && (
+          <div className="mb-4">
+            <RoundExportButtons
+              label="Export all rounds"
+              records={roundHistory}
+              runSeed={runSeed}
+              fileName={`oubliette-run-${runSeed}-history`}
+            />
+          </div>
+        )}
+
+        {rounds.length === 0 ? (
+          <p className="text-center py-8" style={{ color: 'var(--game-text-muted)' }}>
+            No rounds played yet. Each round shows up here once it is paid out.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {rounds.map((record) => {
+              const isExpanded = expandedRound === record.round;
+              return (
+                <li
+                  key={record.round}
+                  className="rounded-lg border border-[var(--game-border)]"
+                  style={{ background: 'var(--game-bg-panel)' }}
+                >
+                  <button
+                    onClick={() => setExpandedRound(isExpanded ? null : record.round)}
+                    className="w-full p-3 flex flex-wrap justify-between gap-x-4 gap-y-1 text-left text-sm"
+                    aria-expanded={isExpanded}
+                  >
+                    <span className="font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+                      Round {record.round}
+                    </span>
+                    <span style={{ color: 'var(--game-text-muted)' }}>
+                      {formatCredits(record.betAmount)} × {record.handCount} hands
+                    </span>
+                    <span style={{ color: 'var(--game-text)' }}>
+                      Payout {formatCredits(record.payout)}
+                    </span>
+                    <span className="tabular-nums" style={{ color: 'var(--game-text)' }}>
+                      {formatCredits(record.creditsBefore)} → {formatCredits(record.creditsAfter)}{' '}
+                      ({formatNet(record)})
+                    </span>
+                  </button>
+                  {isExpanded && <RoundDetails record={record} runSeed={runSeed} />}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
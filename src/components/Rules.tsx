@@ -1,8 +1,16 @@
+import { getCurrentGameMode } from '../config/gameConfig';
+import { formatQualifyingPair } from '../utils/format';
+
 interface RulesProps {
   onClose: () => void;
+  /** Lowest paying pair rank; defaults to the active game mode's */
+  minimumPairRank?: number;
 }
 
-export function Rules({ onClose }: RulesProps) {
+export function Rules({
+  onClose,
+  minimumPairRank = getCurrentGameMode().minimumPairRank,
+}: RulesProps) {
   return (
     <div
       className="fixed inset-0 modal-overlay flex items-center justify-center z-50 p-4"
@@ -48,7 +56,7 @@ export function Rules({ onClose }: RulesProps) {
               <li>Straight</li>
               <li>Three of a Kind</li>
               <li>Two Pair</li>
-              <li>One Pair (Jacks or better)</li>
+              <li>One Pair ({formatQualifyingPair(minimumPairRank)})</li>
             </ol>
           </div>
 
@@ -0,0 +1,196 @@
+import { useMemo } from 'react';
+import { GameOverReason, RoundRecord } from '../types';
+import { formatCredits } from '../utils/format';
+import {
+  getChartPolylinePoints,
+  getChartX,
+  getRunChartData,
+  RunChart,
+  RunChartId,
+  RunChartMarker,
+} from '../utils/runCharts';
+
+interface RunChartsProps {
+  roundHistory: RoundRecord[];
+  gameOverReason: GameOverReason | null;
+}
+
+const CHART_WIDTH = 100;
+const CHART_HEIGHT = 44;
+
+const VALUE_FORMATTERS: Record<RunChartId, (value: number) => string> = {
+  credits: formatCredits,
+  bet: formatCredits,
+  'win-percent': (value) => `${Math.round(value)}%`,
+  'hand-count': (value) => value.toLocaleString(),
+};
+
+const MARKER_COLORS: Record<RunChartMarker['type'], string> = {
+  endless: 'var(--game-accent-gold-dim)',
+  failure: 'var(--game-accent-red-bright)',
+};
+
+function getSeriesStyle(reference: boolean) {
+  return reference
+    ? { stroke: 'var(--game-text-muted)', strokeDasharray: '2 2' }
+    : { stroke: 'var(--game-accent-gold)', strokeDasharray: undefined };
+}
+
+function ChartPanel({
+  chart,
+  markers,
+  firstRound,
+  lastRound,
+}: {
+  chart: RunChart;
+  markers: RunChartMarker[];
+  firstRound: number;
+  lastRound: number;
+}) {
+  const maxValue = Math.max(
+    1,
+    ...chart.series.flatMap((series) => series.points.map((point) => point.value))
+  );
+  const formatValue = VALUE_FORMATTERS[chart.id];
+  const toX = (round: number) => getChartX(round, firstRound, lastRound, CHART_WIDTH);
+
+  return (
+    <div
+      className="rounded-lg p-3 border border-[var(--game-border)]"
+      style={{ background: 'rgba(255,255,255,0.03)' }}
+    >
+      <div className="flex flex-wrap justify-between items-center gap-x-3 mb-2">
+        <span
+          className="text-xs uppercase tracking-[0.12em]"
+          style={{ color: 'var(--game-text-muted)' }}
+        >
+          {chart.title}
+        </span>
+        <span className="flex gap-3 text-xs" style={{ color: 'var(--game-text-dim)' }}>
+          {chart.series.map((series) => (
+            <span key={series.label} className="inline-flex items-center gap-1">
+              <svg width="14" height="4" aria-hidden="true">
+                <line
+                  x1="0"
+                  y1="2"
+                  x2="14"
+                  y2="2"
+                  strokeWidth="2"
+                  {...getSeriesStyle(series.reference)}
+                />
+              </svg>
+              {series.label}
+            </span>
+          ))}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-24"
+        role="img"
+        aria-label={`${chart.title} by round`}
+      >
+        <title>{`${chart.title} by round`}</title>
+        <line
+          x1="0"
+          y1={CHART_HEIGHT - 1}
+          x2={CHART_WIDTH}
+          y2={CHART_HEIGHT - 1}
+          stroke="var(--game-border)"
+          strokeWidth="1"
+        />
+        {markers.map((marker) => (
+          <line
+            key={marker.type}
+            x1={toX(marker.round)}
+            y1="0"
+            x2={toX(marker.round)}
+            y2={CHART_HEIGHT}
+            stroke={MARKER_COLORS[marker.type]}
+            strokeWidth="0.75"
+            strokeDasharray="1.5 1.5"
+          >
+            <title>{`${marker.label}: round ${marker.round}`}</title>
+          </line>
+        ))}
+        {chart.series.map((series) => (
+          <polyline
+            key={series.label}
+            fill="none"
+            strokeWidth="1"
+            strokeLinejoin="round"
+            strokeLinecap="round"
+            points={getChartPolylinePoints(
+              series.points,
+              firstRound,
+              lastRound,
+              maxValue,
+              CHART_WIDTH,
+              CHART_HEIGHT
+            )}
+            {...getSeriesStyle(series.reference)}
+          />
+        ))}
+      </svg>
+      <div
+        className="flex justify-between text-[0.65rem] tabular-nums"
+        style={{ color: 'var(--game-text-dim)' }}
+      >
+        <span>Round {firstRound}</span>
+        <span>Peak {formatValue(maxValue)}</span>
+        <span>Round {lastRound}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Charts of a finished run from its hand history, with where it entered endless mode and
+ * where it failed marked on every chart.
+ */
+export function RunCharts({ roundHistory, gameOverReason }: RunChartsProps) {
+  const { charts, markers } = useMemo(
+    () => getRunChartData(roundHistory, gameOverReason),
+    [roundHistory, gameOverReason]
+  );
+
+  if (roundHistory.length === 0) {
+    return null;
+  }
+  const firstRound = roundHistory[0].round;
+  const lastRound = roundHistory[roundHistory.length - 1].round;
+
+  return (
+    <section className="space-y-3" aria-label="Run charts">
+      <div className="grid gap-3 sm:grid-cols-2">
+        {charts.map((chart) => (
+          <ChartPanel
+            key={chart.id}
+            chart={chart}
+            markers={markers}
+            firstRound={firstRound}
+            lastRound={lastRound}
+          />
+        ))}
+      </div>
+      {markers.length > 0 && (
+        <ul className="flex flex-wrap justify-center gap-x-5 gap-y-1 text-xs">
+          {markers.map((marker) => (
+            <li
+              key={marker.type}
+              className="inline-flex items-center gap-1.5"
+              style={{ color: 'var(--game-text-muted)' }}
+            >
+              <span
+                className="inline-block w-3 border-t border-dashed"
+                style={{ borderColor: MARKER_COLORS[marker.type] }}
+                aria-hidden="true"
+              />
+              {marker.label}: round {marker.round}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { GameButton } from './GameButton';
+import { GameState } from '../types';
+import { RunSave, isSafeSavePoint } from '../utils/runPersistence';
+import { encodeRunCode, exportRunFile, importRun } from '../utils/runTransfer';
+
+interface RunTransferProps {
+  onClose: () => void;
+  /** Run to export; omit to only offer import (e.g. from the main menu) */
+  gameState?: GameState;
+  onImport: (save: RunSave) => void;
+}
+
+export function RunTransfer({ onClose, gameState, onImport }: RunTransferProps) {
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const canExport = gameState != null && isSafeSavePoint(gameState);
+  const runCode = useMemo(
+    () => (gameState && canExport ? encodeRunCode(gameState) : ''),
+    [gameState, canExport]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(runCode);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!gameState) return;
+    const blob = new Blob([exportRunFile(gameState)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `oubliette-run-${gameState.runSeed}-round-${gameState.round}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (text: string) => {
+    const result = importRun(text);
+    if (!result.ok) {
+      setImportError(result.error);
+      return;
+    }
+    onImport(result.save);
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    handleImport(await file.text());
+  };
+
+  return (
+    <div
+      className="fixed inset-0 modal-overlay flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="game-panel rounded-xl p-6 sm:p-8 max-w-md w-full max-h-[90vh] overflow-y-auto border border-[var(--game-border)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl sm:text-3xl font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Share Run
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-2xl font-bold hover:opacity-80"
+            style={{ color: 'var(--game-text-muted)' }}
+            aria-label="Close share run"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          {gameState != null && (
+            <div
+              className="rounded-xl p-4 sm:p-6 border border-[var(--game-border)]"
+              style={{ background: 'var(--game-bg-panel)' }}
+            >
+              <h3 className="text-lg font-bold mb-4" style={{ color: 'var(--game-accent-gold)' }}>
+                Export
+              </h3>
+              {canExport ? (
+                <div className="space-y-3">
+                  <textarea
+                    readOnly
+                    value={runCode}
+                    rows={4}
+                    onFocus={(e) => e.target.select()}
+                    className="w-full rounded-lg p-2 text-xs font-mono break-all"
+                    style={{ background: 'var(--game-bg-dark)', color: 'var(--game-text)' }}
+                    aria-label="Run code"
+                  />
+                  <div className="flex gap-2">
+                    <GameButton onClick={handleCopy} variant="secondary" size="sm" fullWidth>
+                      {copied ? 'Copied' : 'Copy Code'}
+                    </GameButton>
+                    <GameButton onClick={handleDownload} variant="secondary" size="sm" fullWidth>
+                      Download File
+                    </GameButton>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm" style={{ color: 'var(--game-text-muted)' }}>
+                  Finish the current hand to export this run.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div
+            className="rounded-xl p-4 sm:p-6 border border-[var(--game-border)]"
+            style={{ background: 'var(--game-bg-panel)' }}
+          >
+            <h3 className="text-lg font-bold mb-4" style={{ color: 'var(--game-accent-gold)' }}>
+              Import
+            </h3>
+            <div className="space-y-3">
+              <textarea
+                value={importText}
+                onChange={(e) => {
+                  setImportText(e.target.value);
+                  setImportError(null);
+                }}
+                rows={4}
+                placeholder="Paste a run code"
+                className="w-full rounded-lg p-2 text-xs font-mono break-all"
+                style={{ background: 'var(--game-bg-dark)', color: 'var(--game-text)' }}
+                aria-label="Run code to import"
+              />
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="w-full text-sm"
+                style={{ color: 'var(--game-text-muted)' }}
+                aria-label="Run file to import"
+              />
+              {importError && (
+                <p className="text-sm" role="alert" style={{ color: 'var(--game-accent-red-bright)' }}>
+                  {importError}
+                </p>
+              )}
+              <GameButton
+                onClick={() => handleImport(importText)}
+                variant="primary"
+                size="sm"
+                fullWidth
+                disabled={importText.trim() === ''}
+              >
+                Import Run
+              </GameButton>
+              <p className="text-xs" style={{ color: 'var(--game-text-muted)' }}>
+                {gameState != null && 'Importing replaces the current run. '}
+                Imported runs are never ranked and do not count as a Daily Challenge.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <GameButton onClick={onClose} variant="primary" size="md">
+            Close
+          </GameButton>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,8 @@ interface SettingsProps {
   onCheatAddCredits?: (amount: number) => void;
   onCheatAddHands?: (amount: number) => void;
   onCheatSetDevilsDeal?: () => void;
+  /** Open run export/import; shown only during a run */
+  onShareRun?: () => void;
 }
 
 const ANIMATION_SPEED_MIN = 0.5;
@@ -45,6 +47,7 @@ export function Settings({
   onCheatAddCredits,
   onCheatAddHands,
   onCheatSetDevilsDeal,
+  onShareRun,
 }: SettingsProps) {
   const [cheatsExpanded, setCheatsExpanded] = useState(false);
   const musicVolume = audioSettings?.musicVolume ?? 0.7;
@@ -303,6 +306,24 @@ export function Settings({
             </div>
           )}
 
+          {/* Share Run */}
+          {onShareRun != null && (
+            <div
+              className="rounded-xl p-4 sm:p-6 border border-[var(--game-border)]"
+              style={{ background: 'var(--game-bg-panel)' }}
+            >
+              <h3 className="text-lg font-bold mb-2" style={{ color: 'var(--game-accent-gold)' }}>
+                Share Run
+              </h3>
+              <p className="text-sm mb-4" style={{ color: 'var(--game-text-muted)' }}>
+                Export this run as a code or file, or import one from another player.
+              </p>
+              <GameButton onClick={onShareRun} variant="secondary" size="sm" fullWidth>
+                Export / Import Run
+              </GameButton>
+            </div>
+          )}
+
           {/* Cheats (accordion) */}
           {(onCheatAddCredits != null || onCheatAddHands != null || onCheatSetDevilsDeal != null) && (
             <div
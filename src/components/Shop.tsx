@@ -533,6 +533,7 @@ export function Shop({
       case 'wild-card':
         return (
           <div
+            data-tutorial="shop-wild-card"
             className="game-panel rounded-xl p-6 hover:opacity-95 transition-all flex flex-col h-full border border-[var(--game-accent-gold)]"
             style={{ boxShadow: '0 0 16px rgba(201, 162, 39, 0.15)' }}
             title="Wild cards can substitute for any rank and suit. Great for completing straights, flushes, and high pairs."
@@ -846,7 +847,13 @@ export function Shop({
         )}
 
         <div className="pt-4 sm:pt-6">
-          <GameButton onClick={onClose} variant="primary" size="lg" fullWidth>
+          <GameButton
+            onClick={onClose}
+            variant="primary"
+            size="lg"
+            fullWidth
+            data-tutorial="shop-close"
+          >
             Close Shop
           </GameButton>
         </div>
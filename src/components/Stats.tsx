@@ -0,0 +1,168 @@
+import { useMemo } from 'react';
+import { GameButton } from './GameButton';
+import { GameOverReason } from '../types';
+import { formatCredits } from '../utils/format';
+import { GAME_OVER_REASON_LABELS } from '../utils/gameOverDisplay';
+import { calculateLifetimeStats, getBestRuns, loadRunHistory } from '../utils/runHistory';
+import { getGameModeDisplayName } from '../config/gameConfig';
+
+interface StatsProps {
+  onClose: () => void;
+}
+
+const BEST_RUNS_SHOWN = 5;
+
+export function Stats({ onClose }: StatsProps) {
+  const history = useMemo(() => loadRunHistory(), []);
+  const stats = useMemo(() => calculateLifetimeStats(history), [history]);
+  const bestRuns = useMemo(() => getBestRuns(history, BEST_RUNS_SHOWN), [history]);
+
+  const totals = [
+    { label: 'Runs Played', value: stats.runsPlayed.toLocaleString() },
+    { label: 'Rounds Played', value: stats.totalRoundsSurvived.toLocaleString() },
+    { label: 'Total Earnings', value: formatCredits(stats.totalEarnings) },
+    { label: 'Furthest Round', value: stats.bestRoundsSurvived.toLocaleString() },
+    { label: 'Peak Credits', value: formatCredits(stats.bestPeakCredits) },
+    { label: 'Highest Combo', value: stats.bestCombo.toLocaleString() },
+    {
+      label: 'Highest Multiplier',
+      value: `${Number(stats.bestMultiplier.toFixed(2)).toString()}x`,
+    },
+    { label: 'Shop Purchases', value: stats.totalPurchases.toLocaleString() },
+  ];
+
+  const endReasons = (Object.keys(GAME_OVER_REASON_LABELS) as GameOverReason[])
+    .map((reason) => ({ reason, count: stats.endReasons[reason] ?? 0 }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  return (
+    <div
+      className="fixed inset-0 modal-overlay flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="game-panel rounded-xl p-6 sm:p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-[var(--game-border)]"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.5)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl sm:text-3xl font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Stats
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-2xl font-bold hover:opacity-80"
+            style={{ color: 'var(--game-text-muted)' }}
+            aria-label="Close stats"
+          >
+            ×
+          </button>
+        </div>
+
+        {history.length === 0 ? (
+          <p className="text-center py-8" style={{ color: 'var(--game-text-muted)' }}>
+            No finished runs yet. Your runs will show up here once they end.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-bold mb-3" style={{ color: 'var(--game-accent-gold)' }}>
+                Lifetime
+              </h3>
+              <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {totals.map(({ label, value }) => (
+                  <div
+                    key={label}
+                    className="rounded-lg p-3 border border-[var(--game-border)]"
+                    style={{ background: 'var(--game-bg-panel)' }}
+                  >
+                    <dt className="text-xs" style={{ color: 'var(--game-text-muted)' }}>
+                      {label}
+                    </dt>
+                    <dd className="text-lg font-bold" style={{ color: 'var(--game-text)' }}>
+                      {value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-bold mb-3" style={{ color: 'var(--game-accent-gold)' }}>
+                Best Runs
+              </h3>
+              <ol className="space-y-2">
+                {bestRuns.map((run, index) => (
+                  <li
+                    key={`${run.endedAt}-${run.seed}`}
+                    className="flex items-center justify-between gap-3 rounded-lg p-3 border border-[var(--game-border)]"
+                    style={{ background: 'var(--game-bg-panel)' }}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+                        #{index + 1}
+                      </span>
+                      <div className="min-w-0">
+                        <p className="font-semibold" style={{ color: 'var(--game-text)' }}>
+                          Round {run.roundsSurvived.toLocaleString()} ·{' '}
+                          {formatCredits(run.peakCredits)} peak
+                        </p>
+                        <p className="text-xs truncate" style={{ color: 'var(--game-text-muted)' }}>
+                          {getGameModeDisplayName(run.gameModeId)} ·{' '}
+                          {GAME_OVER_REASON_LABELS[run.gameOverReason]} ·{' '}
+                          {new Date(run.endedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    <span className="text-xs shrink-0" style={{ color: 'var(--game-text-dim)' }}>
+                      Seed {run.seed}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-bold mb-3" style={{ color: 'var(--game-accent-gold)' }}>
+                How Runs Ended
+              </h3>
+              <ul className="space-y-2">
+                {endReasons.map(({ reason, count }) => {
+                  const percent = Math.round((count / stats.runsPlayed) * 100);
+                  return (
+                    <li key={reason}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span style={{ color: 'var(--game-text)' }}>
+                          {GAME_OVER_REASON_LABELS[reason]}
+                        </span>
+                        <span style={{ color: 'var(--game-text-muted)' }}>
+                          {count.toLocaleString()} ({percent}%)
+                        </span>
+                      </div>
+                      <div
+                        className="h-2 rounded-full overflow-hidden"
+                        style={{ background: 'var(--game-border)' }}
+                      >
+                        <div
+                          className="h-full rounded-full"
+                          style={{ width: `${percent}%`, background: 'var(--game-accent-gold)' }}
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-8 text-center">
+          <GameButton onClick={onClose} variant="primary" size="md">
+            Close
+          </GameButton>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { GameState, HoldReview } from '../types';
+import { formatCredits, formatHold } from '../utils/format';
+import { getExpectedCreditsLost, getReviewedDraw, reviewHold } from '../utils/holdReview';
+
+interface StrategyReviewProps {
+  gameState: GameState;
+  onRecordHoldReview: (review: HoldReview) => void;
+}
+
+function formatExpected(expectedReturn: number): string {
+  return `${formatCredits(Math.round(expectedReturn))} credits expected`;
+}
+
+/**
+ * Results panel comparing the round's last hold with the best hold by expected value. The
+ * review is computed once per round and recorded in the round's log.
+ */
+export function StrategyReview({ gameState, onRecordHoldReview }: StrategyReviewProps) {
+  const log = gameState.roundLog;
+  const review = log?.holdReview ?? null;
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const stateRef = useRef(gameState);
+  stateRef.current = gameState;
+
+  // Defer the analysis a tick so "Reviewing..." paints before the main thread is busy
+  useEffect(() => {
+    if (review) return;
+    const timer = setTimeout(() => {
+      const next = reviewHold(stateRef.current);
+      if (next) {
+        onRecordHoldReview(next);
+      } else {
+        setIsUnavailable(true);
+      }
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [review, onRecordHoldReview]);
+
+  const draw = log && getReviewedDraw(log);
+  const lost = review ? getExpectedCreditsLost(review) : 0;
+
+  return (
+    <section
+      className="game-panel-muted rounded-lg p-3 sm:p-4 text-sm"
+      aria-label="Strategy review"
+      aria-live="polite"
+    >
+      {isUnavailable || !draw ? (
+        <p style={{ color: 'var(--game-text-muted)' }}>
+          This round&apos;s hold can&apos;t be reviewed.
+        </p>
+      ) : !review ? (
+        <p style={{ color: 'var(--game-text-muted)' }}>Reviewing...</p>
+      ) : lost === 0 ? (
+        <p style={{ color: 'var(--game-text)' }}>
+          <span className="font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Best hold.
+          </span>{' '}
+          {formatHold(draw.hand, review.heldIndices)}: {formatExpected(review.expectedReturn)}.
+        </p>
+      ) : (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          <dt style={{ color: 'var(--game-text-muted)' }}>Your hold</dt>
+          <dd style={{ color: 'var(--game-text)' }}>
+            {formatHold(draw.hand, review.heldIndices)}: {formatExpected(review.expectedReturn)}
+          </dd>
+          <dt style={{ color: 'var(--game-text-muted)' }}>Best hold</dt>
+          <dd style={{ color: 'var(--game-accent-gold)' }}>
+            {formatHold(draw.hand, review.bestHeldIndices)}:{' '}
+            {formatExpected(review.bestExpectedReturn)}
+          </dd>
+          <dt style={{ color: 'var(--game-text-muted)' }}>Given up</dt>
+          <dd className="font-bold tabular-nums" style={{ color: 'var(--game-accent-red-bright)' }}>
+            {formatCredits(Math.round(lost))} expected credits
+          </dd>
+        </dl>
+      )}
+      <p className="text-xs mt-2" style={{ color: 'var(--game-text-dim)' }}>
+        Judges the last draw&apos;s hold by expected return before streak bonuses, not by the
+        hands that came up.
+      </p>
+    </section>
+  );
+}
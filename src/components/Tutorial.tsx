@@ -1,13 +1,20 @@
-import { useState, useEffect } from 'react';
-import { tutorialSlides } from '../config/tutorialConfig';
+import { useState, useEffect, useMemo } from 'react';
+import { createTutorialSlides } from '../config/tutorialConfig';
+import { getCurrentGameMode } from '../config/gameConfig';
 import './Tutorial.css';
 
 interface TutorialProps {
   onClose: () => void;
+  /** Lowest paying pair rank the intro slide describes; defaults to the active game mode's */
+  minimumPairRank?: number;
 }
 
-export function Tutorial({ onClose }: TutorialProps) {
+export function Tutorial({
+  onClose,
+  minimumPairRank = getCurrentGameMode().minimumPairRank,
+}: TutorialProps) {
   const [slideIndex, setSlideIndex] = useState(0);
+  const tutorialSlides = useMemo(() => createTutorialSlides(minimumPairRank), [minimumPairRank]);
   const slide = tutorialSlides[slideIndex];
   const isFirst = slideIndex === 0;
   const isLast = slideIndex === tutorialSlides.length - 1;
@@ -42,7 +49,7 @@ export function Tutorial({ onClose }: TutorialProps) {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [slideIndex, onClose]);
+  }, [slideIndex, onClose, tutorialSlides.length]);
 
   return (
     <div
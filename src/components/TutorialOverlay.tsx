@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { TutorialStep, TutorialTarget } from '../config/tutorialConfig';
+import './Tutorial.css';
+
+interface TutorialOverlayProps {
+  step: TutorialStep;
+  stepIndex: number;
+  stepCount: number;
+  /** Go past a step that has no action to wait for */
+  onNext: () => void;
+  onExit: () => void;
+}
+
+/** Highlighted area around the step's control, in viewport pixels. */
+interface SpotlightRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+const SPOTLIGHT_PADDING = 6;
+const MEASURE_INTERVAL_MS = 250;
+
+function findTarget(target: TutorialTarget): HTMLElement | null {
+  return document.querySelector<HTMLElement>(`[data-tutorial="${target}"]`);
+}
+
+function measureSpotlight(element: HTMLElement | null): SpotlightRect | null {
+  if (!element) return null;
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 && rect.height === 0) return null;
+  return {
+    top: rect.top - SPOTLIGHT_PADDING,
+    left: rect.left - SPOTLIGHT_PADDING,
+    width: rect.width + SPOTLIGHT_PADDING * 2,
+    height: rect.height + SPOTLIGHT_PADDING * 2,
+  };
+}
+
+function isSameRect(a: SpotlightRect | null, b: SpotlightRect | null): boolean {
+  return (
+    a === b ||
+    (a !== null &&
+      b !== null &&
+      a.top === b.top &&
+      a.left === b.left &&
+      a.width === b.width &&
+      a.height === b.height)
+  );
+}
+
+/**
+ * Playable tutorial overlay: spotlights the step's control, blocks clicks everywhere else and
+ * explains the step. Steps that wait on an action move on by themselves once it is done.
+ */
+export function TutorialOverlay({
+  step,
+  stepIndex,
+  stepCount,
+  onNext,
+  onExit,
+}: TutorialOverlayProps) {
+  const [spotlight, setSpotlight] = useState<SpotlightRect | null>(null);
+  const isLast = stepIndex === stepCount - 1;
+
+  // Follow the control as screens load, animate and scroll
+  useEffect(() => {
+    const { target } = step;
+    if (!target) {
+      setSpotlight(null);
+      return undefined;
+    }
+
+    let scrolledIntoView = false;
+    const update = () => {
+      const element = findTarget(target);
+      if (element && !scrolledIntoView) {
+        scrolledIntoView = true;
+        element.scrollIntoView?.({ block: 'nearest' });
+      }
+      const next = measureSpotlight(element);
+      setSpotlight((prev) => (isSameRect(prev, next) ? prev : next));
+    };
+
+    update();
+    const timer = window.setInterval(update, MEASURE_INTERVAL_MS);
+    window.addEventListener('resize', update);
+    window.addEventListener('scroll', update, true);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('resize', update);
+      window.removeEventListener('scroll', update, true);
+    };
+  }, [step]);
+
+  // Keyboard shortcuts could skip past what the step asks for, so the game doesn't get them
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') e.stopPropagation();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  const calloutAtTop =
+    spotlight !== null && spotlight.top + spotlight.height / 2 > window.innerHeight / 2;
+
+  return (
+    <div className="tutorial-spotlight-layer">
+      {spotlight ? (
+        <>
+          <div
+            className="tutorial-blocker"
+            style={{ top: 0, left: 0, right: 0, height: Math.max(0, spotlight.top) }}
+          />
+          <div
+            className="tutorial-blocker"
+            style={{ top: spotlight.top + spotlight.height, left: 0, right: 0, bottom: 0 }}
+          />
+          <div
+            className="tutorial-blocker"
+            style={{
+              top: spotlight.top,
+              left: 0,
+              width: Math.max(0, spotlight.left),
+              height: spotlight.height,
+            }}
+          />
+          <div
+            className="tutorial-blocker"
+            style={{
+              top: spotlight.top,
+              left: spotlight.left + spotlight.width,
+              right: 0,
+              height: spotlight.height,
+            }}
+          />
+          <div className="tutorial-spotlight" style={spotlight} />
+        </>
+      ) : (
+        <div className="tutorial-blocker" style={{ inset: 0 }} />
+      )}
+
+      <section
+        className={`tutorial-callout ${calloutAtTop ? 'tutorial-callout-top' : ''}`}
+        aria-labelledby="tutorial-step-title"
+        aria-live="polite"
+      >
+        <span className="tutorial-progress">
+          Step {stepIndex + 1} of {stepCount}
+        </span>
+        <h2 id="tutorial-step-title" className="tutorial-title">
+          {step.title}
+        </h2>
+        <p className="tutorial-body">{step.content}</p>
+        <div className="tutorial-nav">
+          <button type="button" onClick={onExit} className="tutorial-btn tutorial-btn-secondary">
+            Leave Tutorial
+          </button>
+          {!step.isComplete && (
+            <button type="button" onClick={onNext} className="tutorial-btn tutorial-btn-primary">
+              {isLast ? 'Finish' : 'Next'}
+            </button>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
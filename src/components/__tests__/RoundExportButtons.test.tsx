@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { RoundExportButtons } from '../RoundExportButtons';
+import { GameEngine } from '../../utils/gameEngine';
+import { downloadRounds } from '../../utils/roundExport';
+import { GameState } from '../../types';
+
+vi.mock('../../utils/roundExport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/roundExport')>()),
+  downloadRounds: vi.fn(),
+}));
+
+function playRound(): GameState {
+  const dealt = GameEngine.dealHand(GameEngine.startNewRun(GameEngine.createInitialState(), 9));
+  const results = GameEngine.moveToNextScreen(GameEngine.drawParallelHands(dealt));
+  return GameEngine.returnToPreDraw(results, 0);
+}
+
+describe('RoundExportButtons', () => {
+  it('regenerates recorded rounds off the click with the buttons disabled meanwhile', async () => {
+    const { roundHistory } = playRound();
+    render(
+      <RoundExportButtons
+        label="Export all rounds"
+        records={roundHistory}
+        runSeed={9}
+        fileName="history"
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export all rounds as CSV' }));
+    expect(screen.getByRole('button', { name: 'Export all rounds as JSON' })).toBeDisabled();
+    expect(screen.getByRole('status')).toHaveTextContent('0/1 rounds');
+    expect(downloadRounds).not.toHaveBeenCalled();
+
+    await waitFor(() => expect(screen.queryByRole('status')).not.toBeInTheDocument());
+    expect(screen.getByRole('button', { name: 'Export all rounds as JSON' })).toBeEnabled();
+    expect(downloadRounds).toHaveBeenCalledWith(
+      [expect.objectContaining({ round: 1 })],
+      'csv',
+      9,
+      'history'
+    );
+  });
+});
@@ -1,12 +1,14 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import { render, screen, within } from '@testing-library/react';
 import { GameOver } from '../screen-GameOver';
-import { createTestGameState } from '../../test/testHelpers';
+import { createTestGameState, createTestRoundRecord } from '../../test/testHelpers';
 import { gameConfig } from '../../config/gameConfig';
+import { recordDailyChallengeStart } from '../../utils/dailyChallenge';
 
 describe('GameOver Component', () => {
   afterEach(() => {
     vi.restoreAllMocks();
+    localStorage.clear();
   });
 
   it('formats average per round with commas and one decimal place', () => {
@@ -81,4 +83,62 @@ describe('GameOver Component', () => {
     expect(screen.getByText('Your highball glass whispers...')).toBeInTheDocument();
     expect(screen.getByText(gameConfig.quips.gameOver[0])).toBeInTheDocument();
   });
+
+  it('charts the run from its hand history and marks where it failed', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const roundHistory = [createTestRoundRecord(1), createTestRoundRecord(2)];
+
+    render(
+      <GameOver
+        round={3}
+        totalEarnings={100}
+        credits={0}
+        gameOverReason="insufficient-credits"
+        gameState={createTestGameState({ roundHistory })}
+        onReturnToMenu={vi.fn()}
+      />
+    );
+
+    expect(screen.getByRole('img', { name: 'Credits by round' })).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Win % by round' })).toBeInTheDocument();
+    expect(screen.getByText('Out of credits: round 2', { selector: 'li' })).toBeInTheDocument();
+  });
+
+  it("shows the day's result and streak for a daily challenge run", () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    recordDailyChallengeStart('2026-03-01');
+    recordDailyChallengeStart('2026-03-02');
+
+    render(
+      <GameOver
+        round={7}
+        totalEarnings={1500}
+        credits={0}
+        gameOverReason="insufficient-credits"
+        gameState={createTestGameState({ dailyChallengeDate: '2026-03-02' })}
+        onReturnToMenu={vi.fn()}
+      />
+    );
+
+    const panel = screen.getByRole('region', { name: 'Daily challenge result' });
+    expect(within(panel).getByText(/Round 7 with/)).toBeInTheDocument();
+    expect(within(panel).getByText('Daily streak: 2 days')).toBeInTheDocument();
+  });
+
+  it('shows no daily challenge result for other runs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    render(
+      <GameOver
+        round={7}
+        totalEarnings={1500}
+        credits={0}
+        gameOverReason="insufficient-credits"
+        gameState={createTestGameState()}
+        onReturnToMenu={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByRole('region', { name: 'Daily challenge result' })).toBeNull();
+  });
 });
@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, within } from '@testing-library/react';
 import { GameTable } from '../screen-GameTable';
 import { Card as CardType, GameState } from '../../types';
-import { getTestRewardTable } from '../../test/testHelpers';
+import { createTestGameState, getTestRewardTable } from '../../test/testHelpers';
 
 describe('GameTable Component', () => {
   const createMockCard = (rank: string, suit: string, id: string): CardType => ({
@@ -166,6 +166,46 @@ describe('GameTable Component', () => {
     });
   });
 
+  describe('Hold Advisor', () => {
+    it('shows the best holds when opened', async () => {
+      const playerHand = [
+        createMockCard('A', 'hearts', 'hearts-A'),
+        createMockCard('K', 'hearts', 'hearts-K'),
+        createMockCard('Q', 'hearts', 'hearts-Q'),
+        createMockCard('J', 'hearts', 'hearts-J'),
+        createMockCard('10', 'hearts', 'hearts-10'),
+      ];
+      const props = {
+        ...mockProps,
+        playerHand,
+        gameState: createTestGameState({ playerHand, selectedHandCount: 10 }),
+      };
+      render(<GameTable {...props} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Hold Advisor' }));
+      const advisor = screen.getByRole('region', { name: 'Hold advisor' });
+      expect(
+        await within(advisor).findByText(/1\. Hold A♥ K♥ Q♥ J♥ 10♥/, {}, { timeout: 5000 })
+      ).toBeInTheDocument();
+      expect(within(advisor).getAllByText(/Royal Flush 100\.0%/).length).toBeGreaterThan(0);
+    });
+
+    it('waits for the last draw of the round before rating holds', () => {
+      const props = {
+        ...mockProps,
+        gameState: createTestGameState({ maxDraws: 3, drawsCompletedThisRound: 1 }),
+      };
+      render(<GameTable {...props} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Hold Advisor' }));
+      const advisor = screen.getByRole('region', { name: 'Hold advisor' });
+      expect(within(advisor).getByText(/rates the last draw of the round/)).toHaveTextContent(
+        'Draws left before it: 1'
+      );
+      expect(within(advisor).queryByText('Calculating...')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Draw Button', () => {
     it('should show draw/play button when hand is not yet drawn', () => {
       render(<GameTable {...mockProps} />);
@@ -180,6 +220,19 @@ describe('GameTable Component', () => {
       expect(actionButton).not.toBeDisabled();
     });
 
+    it('shows generation progress instead of the button while hands are generated', () => {
+      const props = {
+        ...mockProps,
+        gameState: createTestGameState({ isGeneratingHands: true }),
+        handGenerationProgress: 0.4,
+      };
+
+      render(<GameTable {...props} />);
+
+      expect(screen.getByRole('status')).toHaveTextContent('Dealing 10 parallel hands... 40%');
+      expect(screen.queryByRole('button', { name: /Play.*Parallel/i })).not.toBeInTheDocument();
+    });
+
     it('should be disabled when parallel hands already exist', () => {
       const props = {
         ...mockProps,
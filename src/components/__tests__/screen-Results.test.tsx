@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, within } from '@testing-library/react';
 import { Results } from '../screen-Results';
 import { Card as CardType, Hand } from '../../types';
-import { getTestRewardTable } from '../../test/testHelpers';
+import { createTestGameState, getTestRewardTable } from '../../test/testHelpers';
 import { calculateStreakMultiplier } from '../../utils/streakCalculator';
 import { gameConfig } from '../../config/gameConfig';
 
@@ -273,6 +273,55 @@ describe('Results Component', () => {
     });
   });
 
+  describe('Strategy Review', () => {
+    const gameState = createTestGameState({
+      gamePhase: 'results',
+      roundLog: {
+        creditsBefore: 10000,
+        dealtHand: mockHand.cards,
+        draws: [{ heldIndices: [0], hand: mockHand.cards }],
+        parallelHandsJob: null,
+        holdReview: {
+          heldIndices: [0],
+          bestHeldIndices: [0, 1, 2, 3, 4],
+          expectedReturn: 12.4,
+          bestExpectedReturn: 7500,
+        },
+      },
+    });
+
+    it('toggles the review panel', () => {
+      const onToggleStrategyReview = vi.fn();
+      render(
+        <Results
+          {...mockProps}
+          gameState={gameState}
+          onToggleStrategyReview={onToggleStrategyReview}
+          onRecordHoldReview={vi.fn()}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: 'Strategy Review' }));
+      expect(onToggleStrategyReview).toHaveBeenCalledTimes(1);
+      expect(screen.queryByLabelText('Strategy review')).not.toBeInTheDocument();
+    });
+
+    it("compares the round's hold with the best hold", () => {
+      render(
+        <Results
+          {...mockProps}
+          gameState={gameState}
+          showStrategyReview
+          onToggleStrategyReview={vi.fn()}
+          onRecordHoldReview={vi.fn()}
+        />
+      );
+      const panel = within(screen.getByLabelText('Strategy review'));
+      expect(panel.getByText('Hold A♥: 12 credits expected')).toBeInTheDocument();
+      expect(panel.getByText('Hold A♥ K♥ Q♥ J♥ 10♥: 7,500 credits expected')).toBeInTheDocument();
+      expect(panel.getByText('7,488 expected credits')).toBeInTheDocument();
+    });
+  });
+
   describe('Accessibility', () => {
     it('should have proper heading structure', () => {
       render(<Results {...mockProps} />);
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { Training } from '../screen-Training';
+import { loadTrainingHistory } from '../../utils/training';
+
+function getHandCards() {
+  return within(screen.getByRole('group', { name: /Your hand/i })).getAllByRole('button');
+}
+
+describe('Training Screen', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('deals a hand with no credits or rounds to show', () => {
+    render(<Training onClose={vi.fn()} seed={4} />);
+
+    expect(getHandCards()).toHaveLength(5);
+    expect(screen.queryByText(/Credits:/)).not.toBeInTheDocument();
+    expect(screen.queryByText(/Round:/)).not.toBeInTheDocument();
+    expect(screen.getByText(/No hands checked yet/)).toBeInTheDocument();
+  });
+
+  it('grades the checked hold and records it in the training history', async () => {
+    render(<Training onClose={vi.fn()} seed={4} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Check Hold' }));
+
+    expect(await screen.findByRole('button', { name: 'Next Hand' })).toBeInTheDocument();
+    expect(screen.getAllByText(/× bet expected/).length).toBeGreaterThan(0);
+    expect(loadTrainingHistory()).toHaveLength(1);
+    expect(screen.getByText('All 1 hands')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next Hand' }));
+    expect(screen.getByRole('button', { name: 'Check Hold' })).toBeInTheDocument();
+  });
+
+  it('asks for 5 cards to keep from a bigger hand', () => {
+    render(<Training onClose={vi.fn()} seed={4} />);
+
+    fireEvent.change(screen.getByLabelText('Cards in hand'), { target: { value: '2' } });
+    expect(getHandCards()).toHaveLength(7);
+    expect(screen.getByText('Keep 5 of your 7 cards, then check your hold.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Check Hold' })).toBeDisabled();
+
+    getHandCards()
+      .slice(0, 5)
+      .forEach((card) => fireEvent.click(card));
+    expect(screen.getByRole('button', { name: 'Check Hold' })).toBeEnabled();
+  });
+
+  it('returns to the menu', () => {
+    const onClose = vi.fn();
+    render(<Training onClose={onClose} seed={4} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back to Menu' }));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
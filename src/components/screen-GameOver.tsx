@@ -1,8 +1,15 @@
 import { useMemo } from 'react';
 import { formatCredits } from '../utils/format';
 import { getGameOverDisplay } from '../utils/gameOverDisplay';
+import { summarizeHoldReviews } from '../utils/holdReview';
+import {
+  getDailyChallengeStreaks,
+  loadDailyChallenges,
+  parseDailyChallengeDate,
+} from '../utils/dailyChallenge';
 import { GameOverReason, GameState } from '../types';
 import { GameButton } from './GameButton';
+import { RunCharts } from './RunCharts';
 
 interface GameOverProps {
   round: number;
@@ -34,6 +41,10 @@ export function GameOver({
     gameState ? { minimumBet: gameState.minimumBet, handCount: gameState.handCount } : undefined
   );
   const highestMultiplier = Number((gameState?.runHighestMultiplier ?? 1).toFixed(2)).toString();
+  const holdReviews = useMemo(
+    () => summarizeHoldReviews(gameState?.roundHistory ?? []),
+    [gameState?.roundHistory]
+  );
   const statItems = useMemo(
     () => [
       { label: 'Rounds Survived', value: round.toLocaleString() },
@@ -43,6 +54,18 @@ export function GameOver({
       { label: 'Parallel Hands', value: (gameState?.handCount ?? 0).toLocaleString() },
       { label: 'Highest Combo', value: (gameState?.runHighestCombo ?? 0).toLocaleString() },
       { label: 'Highest Multiplier', value: `${highestMultiplier}x` },
+      ...(holdReviews.roundsReviewed > 0
+        ? [
+            {
+              label: 'EV Lost',
+              value: formatCredits(Math.round(holdReviews.expectedCreditsLost)),
+            },
+            {
+              label: 'Hold Mistakes',
+              value: `${holdReviews.mistakes} of ${holdReviews.roundsReviewed} reviewed`,
+            },
+          ]
+        : []),
     ],
     [
       averagePerRound,
@@ -50,11 +73,21 @@ export function GameOver({
       gameState?.handCount,
       gameState?.runHighestCombo,
       highestMultiplier,
+      holdReviews,
       round,
       totalEarnings,
     ]
   );
   const marqueeItems = [...statItems, ...statItems];
+  const dailyChallengeDate = gameState?.dailyChallengeDate ?? null;
+  // The attempt was recorded when the run started, so the streak already counts this day
+  const dailyChallengeStreak = useMemo(
+    () =>
+      dailyChallengeDate
+        ? getDailyChallengeStreaks(loadDailyChallenges(), dailyChallengeDate).current
+        : 0,
+    [dailyChallengeDate]
+  );
 
   return (
     <div
@@ -163,6 +196,43 @@ export function GameOver({
             </div>
           </section>
 
+          {dailyChallengeDate && (
+            <section
+              className="rounded-2xl p-5 sm:p-6 border border-[var(--game-accent-gold)]"
+              style={{ background: 'rgba(201, 162, 39, 0.12)' }}
+              aria-label="Daily challenge result"
+            >
+              <p
+                className="text-xs uppercase tracking-[0.18em] mb-2"
+                style={{ color: 'var(--game-text-muted)' }}
+              >
+                Daily Challenge ·{' '}
+                {parseDailyChallengeDate(dailyChallengeDate).toLocaleDateString(undefined, {
+                  month: 'long',
+                  day: 'numeric',
+                })}
+              </p>
+              <p
+                className="text-lg sm:text-xl font-semibold"
+                style={{ color: 'var(--game-accent-gold)' }}
+              >
+                Round {round.toLocaleString()} with {formatCredits(totalEarnings)} earned. That's
+                your score for the day.
+              </p>
+              <p className="text-sm mt-1" style={{ color: 'var(--game-text-muted)' }}>
+                Daily streak: {dailyChallengeStreak.toLocaleString()}{' '}
+                {dailyChallengeStreak === 1 ? 'day' : 'days'}
+              </p>
+            </section>
+          )}
+
+          {gameState && (
+            <RunCharts
+              roundHistory={gameState.roundHistory}
+              gameOverReason={gameOverReason ?? null}
+            />
+          )}
+
           <div className="grid gap-4 lg:grid-cols-[1.4fr_0.9fr]">
             <div className="game-panel-muted rounded-2xl p-5 sm:p-6 border border-[var(--game-border)]">
               <p
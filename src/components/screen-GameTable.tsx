@@ -1,27 +1,42 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, ReactNode } from 'react';
 import { Card as CardType, Hand, FailureStateType, GameState } from '../types';
 import { Card } from './Card';
 import { GameHeader } from './GameHeader';
 import { DevilsDealCard } from './DevilsDealCard';
 import { GameButton } from './GameButton';
+import { HoldAdvisor } from './HoldAdvisor';
+import { AutoplayControls } from './AutoplayControls';
+import { Autoplay } from '../hooks/useAutoplay';
 import { gameConfig } from '../config/gameConfig';
 
 interface GameTableProps {
   playerHand: CardType[];
   heldIndices: number[];
   parallelHands: Hand[];
-  credits: number;
+  /** Omitted when there are no credits to show (training) */
+  credits?: number;
   selectedHandCount: number;
-  round: number;
+  round?: number;
   totalEarnings: number;
   firstDrawComplete: boolean;
   nextActionIsDraw: boolean;
   failureState?: FailureStateType;
   gameState?: GameState;
+  /** Share (0–1) of the parallel hands generated so far while gameState.isGeneratingHands */
+  handGenerationProgress?: number;
+  autoplay?: Autoplay;
+  /** Replaces the label and hint of the play button (training) */
+  drawLabel?: string;
+  drawHint?: string;
+  /** Keeps the play button disabled, e.g. until a valid hold is picked */
+  drawDisabled?: boolean;
+  /** Shown below the hand controls */
+  children?: ReactNode;
   onToggleHold: (index: number) => void;
   onToggleDevilsDealHold: () => void;
   onDraw: () => void;
   onShowPayoutTable?: () => void;
+  onShowHistory?: () => void;
   onShowSettings?: () => void;
 }
 
@@ -35,13 +50,22 @@ export function GameTable({
   firstDrawComplete,
   failureState,
   gameState,
+  handGenerationProgress = 0,
+  autoplay,
+  drawLabel,
+  drawHint,
+  drawDisabled = false,
+  children,
   onToggleHold,
   onToggleDevilsDealHold,
   onDraw,
   onShowPayoutTable,
+  onShowHistory,
   onShowSettings,
 }: GameTableProps) {
-  const canDraw = parallelHands.length === 0 && playerHand.length >= 5;
+  const isGeneratingHands = gameState?.isGeneratingHands ?? false;
+  const canDraw =
+    parallelHands.length === 0 && playerHand.length >= 5 && !isGeneratingHands && !drawDisabled;
 
   const [focusedIndex, setFocusedIndex] = useState<number>(0);
   const cardCount = playerHand.length + (gameState?.devilsDealCard ? 1 : 0);
@@ -75,6 +99,8 @@ export function GameTable({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [focusedIndex, cardCount, maxIndex, playerHand.length, canDraw, onToggleHold, onToggleDevilsDealHold, onDraw, gameState?.devilsDealCard, heldIndices.length]);
 
+  const [showAdvisor, setShowAdvisor] = useState(false);
+
   const [devilsDealQuip, setDevilsDealQuip] = useState<string>('');
   useEffect(() => {
     if (gameState?.devilsDealCard) {
@@ -92,6 +118,7 @@ export function GameTable({
           failureState={failureState}
           gameState={gameState}
           onShowPayoutTable={onShowPayoutTable}
+          onShowHistory={onShowHistory}
           onShowSettings={onShowSettings}
         />
 
@@ -104,6 +131,7 @@ export function GameTable({
             className="flex gap-2 sm:gap-4 justify-center flex-wrap relative min-h-[140px] sm:min-h-[180px]"
             role="group"
             aria-label="Your hand - use arrow keys to select, Enter or Space to hold"
+            data-tutorial="hand"
           >
             {playerHand.map((card, index) => (
               <Card
@@ -136,15 +164,35 @@ export function GameTable({
                   tabIndex={focusedIndex === cardCount ? 0 : -1}
                   variant={canDraw ? 'primary' : 'ghost'}
                   size="lg"
+                  data-tutorial="draw"
                   className={focusedIndex === cardCount ? 'ring-2 ring-[var(--game-accent-gold)] ring-offset-2 ring-offset-[var(--game-bg-card)]' : ''}
                 >
                   Draw
                 </GameButton>
               </>
+            ) : isGeneratingHands ? (
+              <div role="status" aria-live="polite">
+                <p className="mb-2 text-sm sm:text-base" style={{ color: 'var(--game-text-muted)' }}>
+                  Dealing {selectedHandCount} parallel hands...{' '}
+                  {Math.round(handGenerationProgress * 100)}%
+                </p>
+                <div
+                  className="h-2 max-w-xs mx-auto rounded-full overflow-hidden"
+                  style={{ background: 'var(--game-bg-dark)' }}
+                >
+                  <div
+                    className="h-full transition-[width] duration-150"
+                    style={{
+                      width: `${handGenerationProgress * 100}%`,
+                      background: 'var(--game-accent-gold)',
+                    }}
+                  />
+                </div>
+              </div>
             ) : (
               <>
                 <p className="mb-2 text-sm sm:text-base" style={{ color: 'var(--game-text-muted)' }}>
-                  Hold the cards you want to keep, then play parallel hands.
+                  {drawHint ?? 'Hold the cards you want to keep, then play parallel hands.'}
                 </p>
                 <GameButton
                   onClick={onDraw}
@@ -152,16 +200,54 @@ export function GameTable({
                   tabIndex={focusedIndex === cardCount ? 0 : -1}
                   variant={canDraw ? 'secondary' : 'ghost'}
                   size="lg"
+                  data-tutorial="draw"
                   className={focusedIndex === cardCount ? 'ring-2 ring-[var(--game-accent-gold)] ring-offset-2 ring-offset-[var(--game-bg-card)]' : ''}
                 >
-                  Play {selectedHandCount} Parallel Hands
+                  {drawLabel ?? `Play ${selectedHandCount} Parallel Hands`}
                 </GameButton>
               </>
             )}
           </div>
 
+          {gameState?.deckModifications && canDraw && (
+            <div className="mt-4">
+              <div className="text-center">
+                <GameButton
+                  onClick={() => setShowAdvisor((prev) => !prev)}
+                  variant="ghost"
+                  size="sm"
+                  aria-expanded={showAdvisor}
+                >
+                  {showAdvisor ? 'Hide Hold Advisor' : 'Hold Advisor'}
+                </GameButton>
+              </div>
+              {showAdvisor && (
+                <HoldAdvisor
+                  playerHand={playerHand}
+                  heldIndices={heldIndices}
+                  deckModifications={gameState.deckModifications}
+                  rewardTable={gameState.rewardTable}
+                  betAmount={gameState.betAmount}
+                  selectedHandCount={selectedHandCount}
+                  devilsDealCard={gameState.devilsDealHeld ? gameState.devilsDealCard : null}
+                  devilsDealCost={gameState.devilsDealCost}
+                  drawsLeft={Math.max(
+                    0,
+                    gameState.maxDraws - gameState.drawsCompletedThisRound - 1
+                  )}
+                />
+              )}
+            </div>
+          )}
+
+          {autoplay && (canDraw || autoplay.isActive) && (
+            <div className="mt-4">
+              <AutoplayControls autoplay={autoplay} />
+            </div>
+          )}
+
           {gameState?.devilsDealCard && (
-            <div className="mt-4 sm:mt-6 flex justify-center">
+            <div className="mt-4 sm:mt-6 flex justify-center" data-tutorial="devils-deal">
               <DevilsDealCard
                 card={gameState.devilsDealCard}
                 cost={gameState.devilsDealCost}
@@ -172,6 +258,8 @@ export function GameTable({
               />
             </div>
           )}
+
+          {children}
         </div>
       </div>
     </div>
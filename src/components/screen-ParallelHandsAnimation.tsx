@@ -1,12 +1,12 @@
 import React, { useEffect, useState, useMemo, useCallback } from 'react';
-import { Card as CardType, Hand, RewardTable } from '../types';
-import { PokerEvaluator } from '../utils/pokerEvaluator';
+import { Card as CardType, Hand, ParallelHandsResult, RewardTable } from '../types';
 import { gameConfig } from '../config/gameConfig';
 import {
   calculateStreakMultiplier,
   getNextThreshold,
   getStreakProgress,
-  summarizeRoundCombos,
+  scoreParallelHand,
+  summarizeScoredHands,
 } from '../utils/streakCalculator';
 import { StreakProgressBar } from './StreakProgressBar';
 import { Card } from './Card';
@@ -16,6 +16,8 @@ import { formatCreditsWithSuffix } from '../utils/format';
 
 interface ParallelHandsAnimationProps {
   parallelHands: Hand[];
+  /** Scores computed when the hands were generated; hands are scored here when absent */
+  parallelHandsResult?: ParallelHandsResult | null;
   playerHand: CardType[];
   heldIndices: number[];
   rewardTable: RewardTable;
@@ -416,6 +418,7 @@ function WaveBeatStage({
 
 export function ParallelHandsAnimation({
   parallelHands,
+  parallelHandsResult,
   playerHand,
   heldIndices,
   rewardTable,
@@ -449,32 +452,38 @@ export function ParallelHandsAnimation({
   );
   const [exitingBeat, setExitingBeat] = useState<ExitingBeat | null>(null);
 
+  const handScores = useMemo(
+    () =>
+      parallelHandsResult?.scores ??
+      parallelHands.map((hand) => scoreParallelHand(hand, rewardTable)),
+    [parallelHandsResult, parallelHands, rewardTable]
+  );
+
   const roundComboSummary = useMemo(
     () =>
-      summarizeRoundCombos(
-        parallelHands,
-        rewardTable,
+      parallelHandsResult?.summary ??
+      summarizeScoredHands(
+        handScores,
         betAmount,
         initialStreakCounter,
         gameConfig.streakMultiplier
       ),
-    [parallelHands, rewardTable, betAmount, initialStreakCounter]
+    [parallelHandsResult, handScores, betAmount, initialStreakCounter]
   );
 
   const evaluatedHands = useMemo<EvaluatedRevealHand[]>(
     () =>
       parallelHands.map((hand, globalIndex) => {
-        const handResult = PokerEvaluator.evaluate(hand.cards);
-        const withRewards = PokerEvaluator.applyRewards(handResult, rewardTable);
+        const { rank, multiplier } = handScores[globalIndex];
         const streakMultiplier = roundComboSummary.streakMultipliers[globalIndex] ?? 1;
-        const creditsWon = Math.round(withRewards.multiplier * betAmount * streakMultiplier);
+        const creditsWon = Math.round(multiplier * betAmount * streakMultiplier);
 
         return {
           globalIndex,
           hand,
-          rank: handResult.rank,
-          rankLabel: toCapitalCase(handResult.rank),
-          handScored: withRewards.multiplier > 0,
+          rank,
+          rankLabel: toCapitalCase(rank),
+          handScored: multiplier > 0,
           creditsWon,
           endingStreakCount:
             roundComboSummary.comboProgression[globalIndex] ?? initialStreakCounter,
@@ -482,7 +491,7 @@ export function ParallelHandsAnimation({
       }),
     [
       parallelHands,
-      rewardTable,
+      handScores,
       betAmount,
       roundComboSummary.streakMultipliers,
       roundComboSummary.comboProgression,
@@ -944,7 +953,7 @@ export function ParallelHandsAnimation({
       </section>
 
       {gameConfig.streakMultiplier.enabled && (
-        <div className="phase-b-bottom-bar">
+        <div className="phase-b-bottom-bar" data-tutorial="multiplier">
           <StreakProgressBar
             currentStreak={displayedStreakCounter}
             currentMultiplier={currentStreakMultiplier}
@@ -1,6 +1,8 @@
 import { useState, useEffect, useMemo } from 'react';
 import { GameHeader } from './GameHeader';
 import { GameButton } from './GameButton';
+import { AutoplayControls } from './AutoplayControls';
+import { Autoplay } from '../hooks/useAutoplay';
 import { FailureStateType, GameOverReason, GameState } from '../types';
 import { formatCredits } from '../utils/format';
 import { getFailureStateDescription, getEndlessModeConditions } from '../utils/failureConditions';
@@ -17,11 +19,13 @@ interface PreDrawProps {
   totalEarnings: number;
   failureState?: FailureStateType;
   gameState?: GameState;
+  autoplay?: Autoplay;
   onSetBetAmount: (amount: number) => void;
   onSetSelectedHandCount: (count: number) => void;
   onDealHand: () => void;
   onEndRun: (reason?: GameOverReason) => void;
   onShowPayoutTable?: () => void;
+  onShowHistory?: () => void;
   onShowSettings?: () => void;
 }
 
@@ -35,11 +39,13 @@ export function PreDraw({
   round,
   failureState,
   gameState,
+  autoplay,
   onSetBetAmount,
   onSetSelectedHandCount,
   onDealHand,
   onEndRun,
   onShowPayoutTable,
+  onShowHistory,
   onShowSettings,
 }: PreDrawProps) {
   const [showEndRunConfirm, setShowEndRunConfirm] = useState(false);
@@ -93,6 +99,7 @@ export function PreDraw({
             gameState={gameState}
             hideFailureInHeader
             onShowPayoutTable={onShowPayoutTable}
+            onShowHistory={onShowHistory}
             onShowSettings={onShowSettings}
           />
         </div>
@@ -193,6 +200,7 @@ export function PreDraw({
                   : `Run round with ${handCount} hands at ${formatCredits(minimumBet)} credits per hand`
               }
               aria-disabled={!canPlayRound}
+              data-tutorial="deal"
             >
               {gameOver ? 'Cannot Play - Game Over' : 'Run Round'}
             </GameButton>
@@ -206,6 +214,8 @@ export function PreDraw({
             >
               End Run
             </GameButton>
+
+            {autoplay && canPlayRound && <AutoplayControls autoplay={autoplay} />}
           </div>
         </div>
       </div>
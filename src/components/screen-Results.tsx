@@ -1,15 +1,27 @@
 import { useMemo } from 'react';
-import { Card as CardType, Hand, FailureStateType, GameState } from '../types';
+import {
+  Card as CardType,
+  Hand,
+  FailureStateType,
+  GameState,
+  HoldReview,
+  ParallelHandsResult,
+} from '../types';
 import { Card } from './Card';
 import { GameHeader } from './GameHeader';
 import { GameButton } from './GameButton';
+import { RoundExportButtons } from './RoundExportButtons';
+import { StrategyReview } from './StrategyReview';
 import { summarizeRoundCombos } from '../utils/streakCalculator';
 import { formatCredits } from '../utils/format';
+import { exportPlayedRound } from '../utils/roundExport';
 
 interface ResultsProps {
   playerHand: CardType[];
   heldIndices: number[];
   parallelHands: Hand[];
+  /** Round summary computed when the hands were generated; recomputed here when absent */
+  parallelHandsResult?: ParallelHandsResult | null;
   rewardTable: { [key: string]: number };
   betAmount: number;
   credits: number;
@@ -21,7 +33,12 @@ interface ResultsProps {
   onReturnToPreDraw: (payout: number) => void;
   showShopNextRound?: boolean;
   onShowPayoutTable?: () => void;
+  onShowHistory?: () => void;
   onShowSettings?: () => void;
+  /** Show the strategy review of the round's hold; the choice carries over between rounds */
+  showStrategyReview?: boolean;
+  onToggleStrategyReview?: () => void;
+  onRecordHoldReview?: (review: HoldReview) => void;
 }
 
 function formatMultiplier(multiplier: number): string {
@@ -49,6 +66,7 @@ export function Results({
   playerHand,
   heldIndices,
   parallelHands,
+  parallelHandsResult,
   rewardTable,
   betAmount,
   credits,
@@ -59,7 +77,11 @@ export function Results({
   onReturnToPreDraw,
   showShopNextRound = false,
   onShowPayoutTable,
+  onShowHistory,
   onShowSettings,
+  showStrategyReview = false,
+  onToggleStrategyReview,
+  onRecordHoldReview,
 }: ResultsProps) {
   const {
     comboProgression,
@@ -71,8 +93,11 @@ export function Results({
     highestCombo,
     highestMultiplier,
   } = useMemo(() => {
-    return summarizeRoundCombos(parallelHands, rewardTable, betAmount);
-  }, [parallelHands, rewardTable, betAmount]);
+    return (
+      parallelHandsResult?.summary ??
+      summarizeRoundCombos(parallelHands, rewardTable, betAmount)
+    );
+  }, [parallelHandsResult, parallelHands, rewardTable, betAmount]);
 
   const profit =
     totalPayout -
@@ -97,6 +122,7 @@ export function Results({
           failureState={failureState}
           gameState={gameState}
           onShowPayoutTable={onShowPayoutTable}
+          onShowHistory={onShowHistory}
           onShowSettings={onShowSettings}
         />
 
@@ -355,11 +381,45 @@ export function Results({
             </div>
           </div>
 
+          {gameState && onToggleStrategyReview && onRecordHoldReview && (
+            <div className="space-y-3">
+              <GameButton
+                onClick={onToggleStrategyReview}
+                variant="ghost"
+                size="sm"
+                aria-expanded={showStrategyReview}
+              >
+                {showStrategyReview ? 'Hide Strategy Review' : 'Strategy Review'}
+              </GameButton>
+              {showStrategyReview && (
+                <StrategyReview gameState={gameState} onRecordHoldReview={onRecordHoldReview} />
+              )}
+            </div>
+          )}
+
+          {gameState && (
+            <RoundExportButtons
+              label="Export round"
+              getRounds={() => [
+                exportPlayedRound(
+                  round,
+                  betAmount,
+                  parallelHands,
+                  rewardTable,
+                  parallelHandsResult
+                ),
+              ]}
+              runSeed={gameState.runSeed}
+              fileName={`oubliette-run-${gameState.runSeed}-round-${round}`}
+            />
+          )}
+
           <GameButton
             onClick={() => onReturnToPreDraw(totalPayout)}
             variant={showShopNextRound ? 'secondary' : 'primary'}
             size="lg"
             fullWidth
+            data-tutorial="collect"
           >
             {showShopNextRound ? 'Continue to Shop' : 'Continue'}
           </GameButton>
@@ -0,0 +1,248 @@
+import { useMemo } from 'react';
+import { GameTable } from './screen-GameTable';
+import { GameButton } from './GameButton';
+import { useTraining } from '../hooks/useTraining';
+import { getCurrentGameMode } from '../config/gameConfig';
+import { Card, HoldReview } from '../types';
+import { formatHold } from '../utils/format';
+import { getExpectedCreditsLost } from '../utils/holdReview';
+import {
+  calculateTrainingAccuracy,
+  getTrainingAccuracyByFocus,
+  RECENT_TRAINING_ATTEMPTS,
+  TRAINING_FOCUSES,
+  TRAINING_MAX_DEAD_CARDS,
+  TrainingAccuracy,
+  TrainingFocus,
+} from '../utils/training';
+
+interface TrainingProps {
+  onClose: () => void;
+  /** Seed for the drill deals; a fresh one by default */
+  seed?: number;
+}
+
+const inputClassName =
+  'w-full rounded-md px-2 py-1 border border-[var(--game-border)] ' +
+  'focus:outline-none focus:border-[var(--game-accent-gold)]';
+const inputStyle = { background: 'var(--game-bg-dark)', color: 'var(--game-text)' };
+
+function formatExpected(expectedReturn: number): string {
+  return `${expectedReturn.toFixed(2)}× bet expected`;
+}
+
+function formatAccuracy({ attempts, bestHolds }: TrainingAccuracy): string {
+  return attempts === 0 ? '–' : `${Math.round((bestHolds / attempts) * 100)}%`;
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+/**
+ * Training drill: deals practice hands on the game table with no credits or bets, grades the
+ * hold against the best hold by expected value and keeps accuracy across sessions.
+ */
+export function Training({ onClose, seed }: TrainingProps) {
+  const {
+    settings,
+    table,
+    review,
+    isGrading,
+    history,
+    updateSettings,
+    toggleHold,
+    submitHold,
+    nextHand,
+  } = useTraining(seed);
+  const { shop } = getCurrentGameMode();
+  const handSize = table.playerHand.length;
+  const needsFiveHeld = handSize > 5 && table.heldIndices.length !== 5;
+
+  const overall = useMemo(() => calculateTrainingAccuracy(history), [history]);
+  const recent = useMemo(
+    () => calculateTrainingAccuracy(history.slice(-RECENT_TRAINING_ATTEMPTS)),
+    [history]
+  );
+  const byFocus = useMemo(() => getTrainingAccuracyByFocus(history), [history]);
+
+  const drawHint = review
+    ? 'Deal the next hand when you are ready.'
+    : handSize > 5
+      ? `Keep 5 of your ${handSize} cards, then check your hold.`
+      : 'Hold the cards you want to keep, then check your hold.';
+
+  return (
+    <div id="training-screen">
+      <GameTable
+        playerHand={table.playerHand}
+        heldIndices={table.heldIndices}
+        parallelHands={[]}
+        selectedHandCount={1}
+        totalEarnings={0}
+        firstDrawComplete={false}
+        nextActionIsDraw={false}
+        drawLabel={review ? 'Next Hand' : isGrading ? 'Grading...' : 'Check Hold'}
+        drawHint={drawHint}
+        drawDisabled={isGrading || (!review && needsFiveHeld)}
+        onToggleHold={toggleHold}
+        onToggleDevilsDealHold={() => {}}
+        onDraw={review ? nextHand : submitHold}
+      >
+        <div className="mt-4 sm:mt-6 space-y-4 text-sm">
+          {review && <TrainingFeedback review={review} hand={table.playerHand} />}
+
+          <section
+            className="game-panel-muted rounded-lg p-3 sm:p-4 grid gap-3 sm:grid-cols-2"
+            aria-label="Drill settings"
+          >
+            <label className="block sm:col-span-2">
+              <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+                Focus
+              </span>
+              <select
+                value={settings.focus}
+                onChange={(e) => updateSettings({ focus: e.target.value as TrainingFocus })}
+                className={`${inputClassName} mt-1`}
+                style={inputStyle}
+              >
+                {TRAINING_FOCUSES.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <span className="block text-xs mt-1" style={{ color: 'var(--game-text-muted)' }}>
+                {TRAINING_FOCUSES.find((option) => option.id === settings.focus)?.description}
+              </span>
+            </label>
+            <label className="block">
+              <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+                Cards in hand
+              </span>
+              <select
+                value={settings.extraCardsInHand}
+                onChange={(e) => updateSettings({ extraCardsInHand: Number(e.target.value) })}
+                className={`${inputClassName} mt-1`}
+                style={inputStyle}
+              >
+                {range(0, shop.extraCardInHand.maxPurchases).map((extra) => (
+                  <option key={extra} value={extra}>
+                    {5 + extra}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+                Wild cards in deck
+              </span>
+              <select
+                value={settings.wildCards}
+                onChange={(e) => updateSettings({ wildCards: Number(e.target.value) })}
+                className={`${inputClassName} mt-1`}
+                style={inputStyle}
+              >
+                {range(0, shop.wildCard.maxCount).map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="font-medium" style={{ color: 'var(--game-text)' }}>
+                Dead cards in deck
+              </span>
+              <select
+                value={settings.deadCards}
+                onChange={(e) => updateSettings({ deadCards: Number(e.target.value) })}
+                className={`${inputClassName} mt-1`}
+                style={inputStyle}
+              >
+                {range(0, TRAINING_MAX_DEAD_CARDS).map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </section>
+
+          <section className="game-panel-muted rounded-lg p-3 sm:p-4" aria-label="Accuracy">
+            <h3 className="font-bold mb-2" style={{ color: 'var(--game-accent-gold)' }}>
+              Accuracy
+            </h3>
+            {overall.attempts === 0 ? (
+              <p style={{ color: 'var(--game-text-muted)' }}>
+                No hands checked yet. Every hold you check counts here.
+              </p>
+            ) : (
+              <dl className="grid grid-cols-[1fr_auto] gap-x-3 gap-y-1 tabular-nums">
+                <dt style={{ color: 'var(--game-text-muted)' }}>
+                  Last {Math.min(RECENT_TRAINING_ATTEMPTS, overall.attempts)} hands
+                </dt>
+                <dd className="font-bold" style={{ color: 'var(--game-text)' }}>
+                  {formatAccuracy(recent)}
+                </dd>
+                <dt style={{ color: 'var(--game-text-muted)' }}>
+                  All {overall.attempts.toLocaleString()} hands
+                </dt>
+                <dd className="font-bold" style={{ color: 'var(--game-text)' }}>
+                  {formatAccuracy(overall)}
+                </dd>
+                {TRAINING_FOCUSES.filter((option) => byFocus[option.id]).map((option) => (
+                  <div key={option.id} className="contents">
+                    <dt style={{ color: 'var(--game-text-dim)' }}>{option.label}</dt>
+                    <dd style={{ color: 'var(--game-text-muted)' }}>
+                      {formatAccuracy(byFocus[option.id]!)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </section>
+
+          <div className="text-center">
+            <GameButton onClick={onClose} variant="ghost" size="md">
+              Back to Menu
+            </GameButton>
+          </div>
+        </div>
+      </GameTable>
+    </div>
+  );
+}
+
+/** How the checked hold compares with the best hold. */
+function TrainingFeedback({ review, hand }: { review: HoldReview; hand: Card[] }) {
+  const lost = getExpectedCreditsLost(review);
+  return (
+    <section className="game-panel-muted rounded-lg p-3 sm:p-4" aria-live="polite">
+      {lost === 0 ? (
+        <p style={{ color: 'var(--game-text)' }}>
+          <span className="font-bold" style={{ color: 'var(--game-accent-gold)' }}>
+            Best hold.
+          </span>{' '}
+          {formatHold(hand, review.heldIndices)}: {formatExpected(review.expectedReturn)}.
+        </p>
+      ) : (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          <dt style={{ color: 'var(--game-text-muted)' }}>Your hold</dt>
+          <dd style={{ color: 'var(--game-text)' }}>
+            {formatHold(hand, review.heldIndices)}: {formatExpected(review.expectedReturn)}
+          </dd>
+          <dt style={{ color: 'var(--game-text-muted)' }}>Best hold</dt>
+          <dd style={{ color: 'var(--game-accent-gold)' }}>
+            {formatHold(hand, review.bestHeldIndices)}:{' '}
+            {formatExpected(review.bestExpectedReturn)}
+          </dd>
+          <dt style={{ color: 'var(--game-text-muted)' }}>Given up</dt>
+          <dd className="font-bold tabular-nums" style={{ color: 'var(--game-accent-red-bright)' }}>
+            {lost.toFixed(2)}× bet
+          </dd>
+        </dl>
+      )}
+    </section>
+  );
+}
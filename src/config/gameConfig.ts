@@ -1,3 +1,9 @@
+import {
+  assertNoConfigIssues,
+  validateGameConfig,
+  validateGameModeConfig,
+} from '../utils/configValidation';
+
 export const gameConfig = {
   // Global configuration
   deadCardLimit: 10,
@@ -181,6 +187,8 @@ export const gameConfig = {
    */
   defaultGameMode: {
     displayName: 'Normal Game',
+    /** One-line summary shown in the main menu mode picker. */
+    description: 'The standard table.',
     startingCredits: 5000,
     startingBet: 2,
     startingHandCount: 10,
@@ -240,9 +248,43 @@ export const gameConfig = {
   },
 
   // Mode overrides keyed by mode id. Empty object = use defaultGameMode as-is.
+  // Menu order follows key order.
   gameModes: {
     normalGame: {},
-    // Example future mode: hardMode: { startingCredits: 3000, displayName: 'Hard' },
+    casualMode: {
+      displayName: 'Casual',
+      description: 'More starting credits, Tens or Better and a gentler climb in the minimum bet.',
+      startingCredits: 10000,
+      minimumPairRank: 10,
+      minimumBetIncreasePercent: 60,
+      endlessMode: {
+        failureConditions: {
+          minimumWinPercent: { incrementPerRound: 2 },
+        },
+      },
+    },
+    hardMode: {
+      displayName: 'Hard',
+      description: 'Fewer credits, a steeper minimum bet and an earlier endless phase.',
+      startingCredits: 3000,
+      minimumBetIncreasePercent: 120,
+      endlessMode: { startRound: 20 },
+      shop: {
+        deadCard: { creditReward: 1500 },
+      },
+    },
+    marathonMode: {
+      displayName: 'Marathon',
+      description: 'Slower bet increases and a late endless phase for long runs.',
+      minimumBetIncreasePercent: 75,
+      minimumBetIncreaseInterval: 5,
+      endlessMode: {
+        startRound: 60,
+        failureConditions: {
+          minimumWinPercent: { incrementPerRound: 2 },
+        },
+      },
+    },
   },
 
   // Default deck contents (standard 52-card deck)
@@ -254,8 +296,19 @@ export const gameConfig = {
 
 export type GameConfig = typeof gameConfig;
 
+/** Literal config types widened to their primitives, so runtime-built modes type-check. */
+type Widen<T> = T extends string
+  ? string
+  : T extends number
+    ? number
+    : T extends boolean
+      ? boolean
+      : T extends readonly (infer U)[]
+        ? readonly Widen<U>[]
+        : { readonly [K in keyof T]: Widen<T[K]> };
+
 /** Type of the resolved game mode (default + overrides). */
-export type GameModeConfig = (typeof gameConfig)['defaultGameMode'];
+export type GameModeConfig = Widen<(typeof gameConfig)['defaultGameMode']>;
 
 /** Deep-merge mode overrides onto default. Arrays and primitives in overrides replace defaults. */
 function mergeGameMode<T extends Record<string, unknown>>(
@@ -287,24 +340,162 @@ function mergeGameMode<T extends Record<string, unknown>>(
   return result as T;
 }
 
+/** Id of a mode shipped in gameConfig.gameModes. */
+export type BuiltInGameModeId = keyof typeof gameConfig.gameModes;
+
+/** Id of a player-made mode from the ruleset editor (see utils/customGameModes). */
+export type CustomGameModeId = `custom-${string}`;
+
+export type GameModeId = BuiltInGameModeId | CustomGameModeId;
+
+/** The parts of a mode the ruleset editor can change; saved as overrides on defaultGameMode. */
+export type CustomGameModeSettings = Pick<
+  GameModeConfig,
+  | 'displayName'
+  | 'description'
+  | 'startingCredits'
+  | 'startingBet'
+  | 'minimumBetIncreasePercent'
+  | 'minimumBetIncreaseInterval'
+  | 'shopFrequency'
+  | 'minimumPairRank'
+  | 'devilsDeal'
+  | 'endlessMode'
+  | 'rewards'
+>;
+
+export interface CustomGameMode {
+  id: CustomGameModeId;
+  settings: CustomGameModeSettings;
+}
+
+export const DEFAULT_GAME_MODE_ID: GameModeId = 'normalGame';
+
+export const GAME_MODE_STORAGE_KEY = 'gameMode';
+
+/** Mode every getCurrentGameMode() consumer reads; set when a run starts or resumes. */
+let currentGameModeId: GameModeId = DEFAULT_GAME_MODE_ID;
+
+/** Custom modes known to this session, in menu order. */
+let customGameModes: CustomGameMode[] = [];
+
+function isBuiltInGameModeId(value: string): value is BuiltInGameModeId {
+  return Object.prototype.hasOwnProperty.call(gameConfig.gameModes, value);
+}
+
+function findCustomGameMode(modeId: string): CustomGameMode | undefined {
+  return customGameModes.find((mode) => mode.id === modeId);
+}
+
+/** Replace the custom modes that getGameMode and the mode list know about. */
+export function setCustomGameModes(modes: CustomGameMode[]): void {
+  customGameModes = [...modes];
+}
+
+/** Custom modes known to this session, in menu order. */
+export function getCustomGameModes(): CustomGameMode[] {
+  return [...customGameModes];
+}
+
+/** All mode ids in menu order: built-in modes, then custom modes. */
+export function getGameModeIds(): GameModeId[] {
+  return [
+    ...(Object.keys(gameConfig.gameModes) as BuiltInGameModeId[]),
+    ...customGameModes.map((mode) => mode.id),
+  ];
+}
+
+export function isGameModeId(value: unknown): value is GameModeId {
+  return (
+    typeof value === 'string' &&
+    (isBuiltInGameModeId(value) || findCustomGameMode(value) !== undefined)
+  );
+}
+
+export function isCustomGameModeId(modeId: string): modeId is CustomGameModeId {
+  return modeId.startsWith('custom-');
+}
+
+/** Returns the id of the active game mode. */
+export function getCurrentGameModeId(): GameModeId {
+  return currentGameModeId;
+}
+
+/** Make a mode active for all game rules, shop prices and failure conditions. */
+export function setCurrentGameModeId(modeId: GameModeId): void {
+  currentGameModeId = modeId;
+}
+
+/** Mode last picked on the main menu. Custom modes must be registered before calling this. */
+export function getStoredGameModeId(): GameModeId {
+  if (typeof window === 'undefined') return DEFAULT_GAME_MODE_ID;
+  const stored = localStorage.getItem(GAME_MODE_STORAGE_KEY);
+  return isGameModeId(stored) ? stored : DEFAULT_GAME_MODE_ID;
+}
+
+export function setStoredGameModeId(modeId: GameModeId): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(GAME_MODE_STORAGE_KEY, modeId);
+}
+
 /** Returns the active game mode: defaultGameMode merged with current mode overrides. */
 export function getCurrentGameMode(): GameModeConfig {
-  const overrides = gameConfig.gameModes.normalGame as Partial<GameModeConfig>;
-  return mergeGameMode(
-    gameConfig.defaultGameMode as unknown as Record<string, unknown>,
-    overrides as Record<string, unknown>
-  ) as GameModeConfig;
+  return getGameMode(getCurrentGameModeId());
 }
 
-/** Get a specific mode by id (for future mode selection). */
-export function getGameMode(modeId: keyof typeof gameConfig.gameModes): GameModeConfig {
-  const overrides = (gameConfig.gameModes[modeId] ?? {}) as Partial<GameModeConfig>;
+/** Merge overrides onto defaultGameMode without validating the result. */
+export function resolveGameModeOverrides(overrides: object): GameModeConfig {
   return mergeGameMode(
     gameConfig.defaultGameMode as unknown as Record<string, unknown>,
     overrides as Record<string, unknown>
   ) as GameModeConfig;
 }
 
+/** Override objects whose merged mode already passed validation. */
+const validatedOverrides = new WeakSet<object>();
+
+/**
+ * Get a specific mode by id.
+ * @throws Error if no such mode is known, e.g. a custom mode that was deleted
+ * @throws ConfigValidationError if the merged mode is invalid
+ */
+export function getGameMode(modeId: GameModeId): GameModeConfig {
+  const overrides: object | undefined = isBuiltInGameModeId(modeId)
+    ? gameConfig.gameModes[modeId]
+    : findCustomGameMode(modeId)?.settings;
+  if (!overrides) {
+    throw new Error(`Unknown game mode: ${modeId}`);
+  }
+  const mode = resolveGameModeOverrides(overrides);
+  if (!validatedOverrides.has(overrides)) {
+    const basePath = isBuiltInGameModeId(modeId) ? 'gameModes' : 'customGameModes';
+    assertNoConfigIssues(validateGameModeConfig(mode, `${basePath}.${modeId}`));
+    validatedOverrides.add(overrides);
+  }
+  return mode;
+}
+
+/**
+ * Check gameConfig and every built-in mode at startup.
+ * @throws ConfigValidationError listing every problem found
+ */
+export function assertValidGameConfig(): void {
+  const modeIssues = (Object.keys(gameConfig.gameModes) as BuiltInGameModeId[]).flatMap(
+    (modeId) =>
+      validateGameModeConfig(
+        resolveGameModeOverrides(gameConfig.gameModes[modeId]),
+        `gameModes.${modeId}`
+      )
+  );
+  assertNoConfigIssues([...validateGameConfig(gameConfig), ...modeIssues]);
+}
+
+/** Display name for a mode id, e.g. from run history; unknown ids are shown as-is. */
+export function getGameModeDisplayName(modeId: string): string {
+  if (isGameModeId(modeId)) return getGameMode(modeId).displayName;
+  return isCustomGameModeId(modeId) ? 'Custom (deleted)' : modeId;
+}
+
 /** Shop mode shape for selection (slots, items, count). */
 export type ShopSelectionMode = {
   shopSlots: ReadonlyArray<{ maxRarity: number; rarityChances?: ReadonlyArray<number> }>;
@@ -312,12 +503,17 @@ export type ShopSelectionMode = {
   shopOptionCount?: number;
 };
 
+/** Whether a shop opened at these credits is the premium (VIP) shop. */
+export function isPremiumShop(credits: number): boolean {
+  return credits >= gameConfig.shopOptions.premium.creditsThreshold;
+}
+
 /**
  * Returns the display name for the active shop based on credits.
  */
 export function getShopDisplayName(credits: number): string {
   const { default: defaultOpts, premium: premiumOpts } = gameConfig.shopOptions;
-  return credits >= premiumOpts.creditsThreshold ? premiumOpts.name : defaultOpts.name;
+  return isPremiumShop(credits) ? premiumOpts.name : defaultOpts.name;
 }
 
 /**
@@ -326,7 +522,7 @@ export function getShopDisplayName(credits: number): string {
  */
 export function getShopModeForCredits(credits: number): ShopSelectionMode {
   const { default: defaultOpts, premium: premiumOpts } = gameConfig.shopOptions;
-  if (credits >= premiumOpts.creditsThreshold) {
+  if (isPremiumShop(credits)) {
     return {
       shopSlots: premiumOpts.shopSlots,
       shopItems: premiumOpts.shopItems as Record<string, { rarity: number }>,
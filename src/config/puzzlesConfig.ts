@@ -0,0 +1,150 @@
+import { Card } from '../types';
+
+/** A card named in a puzzle, by rank and suit; the deck's own card is used. */
+export type PuzzleCard = Pick<Card, 'rank' | 'suit'>;
+
+export type PuzzleGoal =
+  /** Profit at least this much in the puzzle's first round */
+  | { type: 'earn'; credits: number }
+  /** Play this many rounds of the end game without the run ending */
+  | { type: 'survive-endless-rounds'; rounds: number };
+
+/**
+ * The run a puzzle starts from. Anything not listed starts as in a new run of the default mode.
+ */
+export interface PuzzleSetup {
+  /**
+   * Hand dealt in the first round; 'wild' is one of the deck's wild cards. Six to eight cards
+   * play as if the extra cards in hand had been bought.
+   */
+  hand: (PuzzleCard | 'wild')[];
+  /** Devil's Deal offered with the first hand */
+  devilsDealCard?: PuzzleCard;
+  credits: number;
+  betAmount: number;
+  /** Parallel hands owned; all of them are played */
+  handCount: number;
+  /** Minimum bet the run starts with; the bet when omitted */
+  minimumBet?: number;
+  /** Round the run starts on; from the mode's end game start round on, the end game rules apply */
+  round?: number;
+  /** Wild cards in the deck */
+  wildCards?: number;
+  /** Dead cards in the deck */
+  deadCards?: PuzzleCard[];
+  /** Cards taken out of the deck */
+  removedCards?: PuzzleCard[];
+  /** Whether the extra draw has been bought */
+  extraDraw?: boolean;
+}
+
+/**
+ * An authored puzzle: a run set up around a dealt hand, and a goal to reach from it.
+ */
+export interface Puzzle {
+  id: string;
+  title: string;
+  description: string;
+  /** Seed of the run; draws after the dealt hand come from it, so every attempt plays alike */
+  seed: number;
+  setup: PuzzleSetup;
+  goal: PuzzleGoal;
+  /** Scores (see utils/puzzles) for two and three stars; reaching the goal earns one */
+  starThresholds: [number, number];
+}
+
+/** Puzzles in the order the Puzzles menu lists them. */
+export const PUZZLES: Puzzle[] = [
+  {
+    id: 'flush-or-pair',
+    title: 'Flush or Pair?',
+    description:
+      "Four hearts and a pair of tens that doesn't pay. A hundred parallel hands ride on " +
+      'one hold.',
+    seed: 25,
+    setup: {
+      hand: [
+        { rank: '3', suit: 'hearts' },
+        { rank: '7', suit: 'hearts' },
+        { rank: '10', suit: 'hearts' },
+        { rank: 'K', suit: 'hearts' },
+        { rank: '10', suit: 'clubs' },
+      ],
+      credits: 2000,
+      betAmount: 10,
+      handCount: 100,
+    },
+    goal: { type: 'earn', credits: 500 },
+    starThresholds: [600, 650],
+  },
+  {
+    id: 'devils-bargain',
+    title: "The Devil's Bargain",
+    description:
+      'Four to a royal flush, and the Devil offers the fifth card. A sure thing, but at ' +
+      'what price?',
+    seed: 9,
+    setup: {
+      hand: [
+        { rank: 'A', suit: 'spades' },
+        { rank: 'K', suit: 'spades' },
+        { rank: 'Q', suit: 'spades' },
+        { rank: 'J', suit: 'spades' },
+        { rank: '4', suit: 'diamonds' },
+      ],
+      devilsDealCard: { rank: '10', suit: 'spades' },
+      credits: 400000,
+      betAmount: 10,
+      handCount: 50,
+    },
+    goal: { type: 'earn', credits: 2500 },
+    starThresholds: [4000, 4900],
+  },
+  {
+    id: 'eight-cards',
+    title: 'Eight Cards, One Hand',
+    description: 'Eight cards dealt, one of them wild. Only five can be kept.',
+    seed: 3,
+    setup: {
+      hand: [
+        'wild',
+        { rank: '7', suit: 'clubs' },
+        { rank: '7', suit: 'diamonds' },
+        { rank: '7', suit: 'spades' },
+        { rank: '9', suit: 'hearts' },
+        { rank: '10', suit: 'hearts' },
+        { rank: 'J', suit: 'hearts' },
+        { rank: 'Q', suit: 'hearts' },
+      ],
+      wildCards: 1,
+      credits: 5000,
+      betAmount: 10,
+      handCount: 50,
+    },
+    goal: { type: 'earn', credits: 30000 },
+    starThresholds: [40000, 48000],
+  },
+  {
+    id: 'last-stand',
+    title: 'Last Stand',
+    description:
+      'Round 30, and the end game has begun: every round must win a bigger share of your ' +
+      'hands than the last. Make it through three of them.',
+    seed: 7,
+    setup: {
+      hand: [
+        { rank: 'Q', suit: 'clubs' },
+        { rank: 'Q', suit: 'diamonds' },
+        { rank: '5', suit: 'spades' },
+        { rank: '8', suit: 'hearts' },
+        { rank: '2', suit: 'clubs' },
+      ],
+      credits: 20000,
+      betAmount: 20,
+      handCount: 100,
+      round: 30,
+    },
+    goal: { type: 'survive-endless-rounds', rounds: 3 },
+    starThresholds: [21000, 24000],
+  },
+];
@@ -0,0 +1,69 @@
+import { GameState } from '../types';
+import { gameConfig, isPremiumShop } from './gameConfig';
+import { formatCredits } from '../utils/format';
+
+export type TipId = 'devils-deal' | 'endless-mode' | 'vip-shop' | 'dead-card' | 'streak-tier';
+
+/**
+ * A first-time tip: explains a rule the first time the player runs into it in a run.
+ */
+export interface Tip {
+  id: TipId;
+  title: string;
+  content: string;
+  /** Whether the change from prev to next is the event the tip explains */
+  isTriggered: (prev: GameState, next: GameState) => boolean;
+}
+
+const { premium } = gameConfig.shopOptions;
+
+/** Tips in the order they are shown when several trigger at once. */
+export const TIPS: Tip[] = [
+  {
+    id: 'devils-deal',
+    title: "The Devil's Deal",
+    content:
+      "A ghostly card is on offer. Hold it and it replaces a card you didn't hold in every " +
+      'parallel hand. It costs what its best hand would pay across all your hands, plus a ' +
+      'generous house edge, and you pay when you draw.',
+    isTriggered: (prev, next) => !prev.devilsDealCard && next.devilsDealCard !== null,
+  },
+  {
+    id: 'streak-tier',
+    title: 'Multiplier up',
+    content:
+      'You scored enough hands in a row to reach a multiplier tier, so your payouts are ' +
+      'multiplied until the streak slips. Each tier takes more hands in a row than the last.',
+    isTriggered: (prev, next) => prev.runHighestMultiplier <= 1 && next.runHighestMultiplier > 1,
+  },
+  {
+    id: 'dead-card',
+    title: 'Dead cards',
+    content:
+      "That dead card paid out, but it's in your deck now and counts toward no hand - every " +
+      'time you draw it, the draw is wasted. The shop sometimes sells dead card removal.',
+    isTriggered: (prev, next) =>
+      next.deckModifications.deadCards.length > prev.deckModifications.deadCards.length,
+  },
+  {
+    id: 'vip-shop',
+    title: `Welcome to the ${premium.name}`,
+    content:
+      `With ${formatCredits(premium.creditsThreshold)} credits or more when the shop opens, ` +
+      `you shop at the ${premium.name}: premium items and fewer, pricier selections. ` +
+      "Those name brand parallel hands don't come cheap.",
+    isTriggered: (prev, next) =>
+      !prev.showShopNextRound &&
+      next.showShopNextRound &&
+      isPremiumShop(next.creditsAtShopOpen ?? next.credits),
+  },
+  {
+    id: 'endless-mode',
+    title: 'The end game',
+    content:
+      "You've reached the end game. From here a run also ends as soon as a round breaks one " +
+      'of the end game rules, such as winning too small a share of your hands. Survive as ' +
+      'long as you can.',
+    isTriggered: (prev, next) => !prev.isEndlessMode && next.isEndlessMode,
+  },
+];
@@ -1,3 +1,6 @@
+import { Card, GameState } from '../types';
+import { formatPairRank } from '../utils/format';
+
 /**
  * Tutorial slide content for the How to Play flow.
  * Seven slides covering: intro, pay table, parallel hands, multiplier, shop, wild/dead cards, end game.
@@ -7,11 +10,23 @@ export interface TutorialSlide {
   content: string;
 }
 
-export const tutorialSlides: TutorialSlide[] = [
+function describeLowestHand(minimumPairRank: number): string {
+  if (minimumPairRank <= 2) return 'Any pair is the lowest hand you can get.';
+  return (
+    `A pair of ${formatPairRank(minimumPairRank)} or better is the lowest hand you can get. ` +
+    `A pair of ${formatPairRank(minimumPairRank - 1)} won't do the trick, Mick.`
+  );
+}
+
+/**
+ * Build the slides for a mode's qualifying pair rank (e.g. 11 = Jacks or Better).
+ */
+export const createTutorialSlides = (minimumPairRank: number): TutorialSlide[] => [
   {
     title: 'Welcome to Oubliette Number 9',
     content:
-      "This is a single-player poker game, akin to video poker. You are dealt 5 cards; select any number of cards you want to keep - the cards you don't keep will be discarded and then you'll play your hand. \n\nA pair of Jacks or better is the lowest hand you can get. A pair of 10s won't do the trick, Mick.",
+      "This is a single-player poker game, akin to video poker. You are dealt 5 cards; select any number of cards you want to keep - the cards you don't keep will be discarded and then you'll play your hand. \n\n" +
+      describeLowestHand(minimumPairRank),
   },
   {
     title: 'Pay Table & Betting',
@@ -49,3 +64,194 @@ export const tutorialSlides: TutorialSlide[] = [
       "After round 30, the end game begins. \n\nLosing is an eventuality - the goal is to survive as long as you can and finish with as many credits as possible. \n\nJust making it to round 30 is a success! \n\nGood luck, and may the odds be ever in your favor. \n\nI'll be waiting for you at the bar and you can tell me all about the bugs you found, and how I'm a horrible person for making you play this game.",
   },
 ];
+
+/** A card of a scripted tutorial deal. */
+export type TutorialCard = Pick<Card, 'rank' | 'suit'>;
+
+/**
+ * A scripted deal of the playable tutorial, dealt in place of the seeded deal of its round.
+ */
+export interface TutorialDeal {
+  hand: TutorialCard[];
+  /** Cards the tutorial asks the player to hold */
+  holdIndices: number[];
+  /** Card offered as the Devil's Deal; the round has no offer when omitted */
+  devilsDealCard?: TutorialCard;
+  /** Open a shop selling a wild card once the round is collected */
+  openShopAfter?: boolean;
+}
+
+/** One scripted deal per tutorial round, in round order. */
+export const TUTORIAL_DEALS: TutorialDeal[] = [
+  {
+    hand: [
+      { rank: 'K', suit: 'spades' },
+      { rank: '4', suit: 'diamonds' },
+      { rank: 'K', suit: 'hearts' },
+      { rank: '9', suit: 'clubs' },
+      { rank: '2', suit: 'spades' },
+    ],
+    holdIndices: [0, 2],
+    openShopAfter: true,
+  },
+  {
+    hand: [
+      { rank: '7', suit: 'spades' },
+      { rank: '7', suit: 'diamonds' },
+      { rank: 'Q', suit: 'clubs' },
+      { rank: '3', suit: 'hearts' },
+      { rank: '9', suit: 'spades' },
+    ],
+    holdIndices: [0, 1],
+    devilsDealCard: { rank: '7', suit: 'hearts' },
+  },
+];
+
+/** Controls a tutorial step can point at, matched by their data-tutorial attribute. */
+export type TutorialTarget =
+  | 'deal'
+  | 'hand'
+  | 'draw'
+  | 'multiplier'
+  | 'collect'
+  | 'shop-wild-card'
+  | 'shop-close'
+  | 'devils-deal';
+
+/**
+ * A step of the playable tutorial. The step's control is highlighted and the rest of the
+ * screen is blocked until the player has done what the step asks.
+ */
+export interface TutorialStep {
+  id: string;
+  title: string;
+  content: string;
+  /** Control to highlight; null blocks the whole screen */
+  target: TutorialTarget | null;
+  /** Whether the player has done what the step asks; steps without one wait for Next */
+  isComplete?: (state: GameState) => boolean;
+}
+
+function isHolding(state: GameState, indices: number[]): boolean {
+  const held = [...state.heldIndices].sort((a, b) => a - b);
+  return held.length === indices.length && held.every((index, i) => index === indices[i]);
+}
+
+function hasDrawn(state: GameState): boolean {
+  return (
+    state.isGeneratingHands ||
+    state.gamePhase === 'parallelHandsAnimation' ||
+    state.gamePhase === 'results'
+  );
+}
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  {
+    id: 'deal',
+    title: 'Deal the cards',
+    content:
+      'Every round starts here. Your bet is paid once for each hand you play, so more hands ' +
+      'cost more credits. Deal when you are ready.',
+    target: 'deal',
+    isComplete: (state) => state.gamePhase === 'playing',
+  },
+  {
+    id: 'hold-pair',
+    title: 'Hold the pair',
+    content:
+      'A pair of Kings! Jacks or better pays, so tap both Kings to hold them. ' +
+      'Everything you hold stays put; everything else gets redrawn.',
+    target: 'hand',
+    isComplete: (state) => isHolding(state, TUTORIAL_DEALS[0].holdIndices),
+  },
+  {
+    id: 'play-hands',
+    title: 'Play your parallel hands',
+    content:
+      'Now draw. Your Kings are copied into every one of your parallel hands and each hand ' +
+      'draws its own replacements from a cloned deck.',
+    target: 'draw',
+    isComplete: hasDrawn,
+  },
+  {
+    id: 'watch-multiplier',
+    title: 'Watch the multiplier climb',
+    content:
+      'Winning hands in a row build your streak and the streak raises the multiplier on ' +
+      'every payout. Miss and the streak slips back.',
+    target: 'multiplier',
+    isComplete: (state) => state.gamePhase === 'results',
+  },
+  {
+    id: 'collect',
+    title: 'Collect your winnings',
+    content: 'Here is how the round paid out. Collect it and head on to the next round.',
+    target: 'collect',
+    isComplete: (state) => state.gamePhase === 'preDraw',
+  },
+  {
+    id: 'buy-wild-card',
+    title: 'Buy a wild card',
+    content:
+      "Every couple of rounds the shop opens. A wild card counts as any rank and suit, and the " +
+      "house has spotted you the credits for this one. Don't get used to it.",
+    target: 'shop-wild-card',
+    isComplete: (state) => state.wildCardCount > 0,
+  },
+  {
+    id: 'leave-shop',
+    title: 'Back to the table',
+    content: 'The wild card is shuffled into your deck from now on. Close the shop.',
+    target: 'shop-close',
+    isComplete: (state) => !state.showShopNextRound,
+  },
+  {
+    id: 'deal-again',
+    title: 'Deal again',
+    content: 'Same drill: deal the next round.',
+    target: 'deal',
+    isComplete: (state) => state.gamePhase === 'playing',
+  },
+  {
+    id: 'hold-sevens',
+    title: 'Hold the sevens',
+    content:
+      "A pair of sevens doesn't pay on its own. Hold them anyway - someone wants a word " +
+      'with you.',
+    target: 'hand',
+    isComplete: (state) => isHolding(state, TUTORIAL_DEALS[1].holdIndices),
+  },
+  {
+    id: 'take-devils-deal',
+    title: "Accept the Devil's Deal",
+    content:
+      "The Devil's Deal offers a card that is held in every hand. This one makes three of a " +
+      'kind before you draw a single card. The price is paid when you draw. Take it.',
+    target: 'devils-deal',
+    isComplete: (state) => state.devilsDealHeld,
+  },
+  {
+    id: 'play-devils-deal',
+    title: 'Play it out',
+    content: 'Draw and watch three of a kind land in every hand.',
+    target: 'draw',
+    isComplete: hasDrawn,
+  },
+  {
+    id: 'watch-devils-deal',
+    title: 'Money well spent?',
+    content:
+      "Usually the Devil's Deal costs more than a hand is worth, so pick your moments. " +
+      'Let the hands play out.',
+    target: null,
+    isComplete: (state) => state.gamePhase === 'results',
+  },
+  {
+    id: 'finish',
+    title: "That's the game",
+    content:
+      'The minimum bet keeps climbing, so buy upgrades, chain wins and survive as long as ' +
+      'you can. How to Play on the menu covers the rest. Good luck.',
+    target: null,
+  },
+];
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useState } from 'react';
+import { useAutoplay } from '../useAutoplay';
+import { GameEngine } from '../../utils/gameEngine';
+import { GameState } from '../../types';
+
+/** Autoplay over a synchronous game: draws finish at once and the animation is skipped. */
+function useTestGame(initialState: GameState) {
+  const [state, setState] = useState(initialState);
+  const autoplay = useAutoplay(state, setState, {
+    dealHand: () => setState((prev) => GameEngine.dealHand(prev)),
+    drawParallelHands: () =>
+      setState((prev) => {
+        const next = GameEngine.drawParallelHands(prev);
+        const isAnimating = next.gamePhase === 'parallelHandsAnimation';
+        return isAnimating ? GameEngine.moveToNextScreen(next) : next;
+      }),
+    returnToPreDraw: (payout) => setState((prev) => GameEngine.returnToPreDraw(prev, payout)),
+    proceedFromResults: () => setState((prev) => GameEngine.proceedFromResults(prev)),
+  });
+  return { state, setState, autoplay };
+}
+
+function startRun(): GameState {
+  return GameEngine.startNewRun(GameEngine.createInitialState(), 7);
+}
+
+async function runTimers(steps: number) {
+  for (let i = 0; i < steps; i++) {
+    await act(async () => {
+      vi.runOnlyPendingTimers();
+    });
+  }
+}
+
+describe('useAutoplay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does nothing until started', async () => {
+    const initial = startRun();
+    const { result } = renderHook(() => useTestGame(initial));
+
+    await runTimers(3);
+
+    expect(result.current.autoplay.isActive).toBe(false);
+    expect(result.current.state).toBe(initial);
+  });
+
+  it('plays the set number of rounds and then stops', async () => {
+    const { result } = renderHook(() => useTestGame(startRun()));
+
+    act(() => {
+      result.current.autoplay.updateSettings({ rounds: 2, animationSpeed: 'skip' });
+      result.current.autoplay.start();
+    });
+    await runTimers(12);
+
+    expect(result.current.autoplay.isActive).toBe(false);
+    expect(result.current.autoplay.stopReason).toBe('rounds-played');
+    expect(result.current.autoplay.roundsPlayed).toBe(2);
+    expect(result.current.state.round).toBe(3);
+    expect(result.current.state.gamePhase).toBe('preDraw');
+  });
+
+  it("plays at the player's own bet and hand count", async () => {
+    const run = startRun();
+    const custom = GameEngine.setSelectedHandCount(
+      GameEngine.setBetAmount(run, run.minimumBet * 2),
+      Math.max(1, run.handCount - 1)
+    );
+    const { result } = renderHook(() => useTestGame(custom));
+
+    act(() => {
+      result.current.autoplay.updateSettings({ rounds: 1, animationSpeed: 'skip' });
+      result.current.autoplay.start();
+    });
+    // Deal, draw and collect; stop short of the shop, where new hands are all played
+    await runTimers(3);
+
+    expect(result.current.autoplay.roundsPlayed).toBe(1);
+    expect(result.current.state.betAmount).toBe(custom.betAmount);
+    expect(result.current.state.selectedHandCount).toBe(custom.selectedHandCount);
+  });
+
+  it('stops when asked and when the game ends', async () => {
+    const { result } = renderHook(() => useTestGame(startRun()));
+
+    act(() => {
+      result.current.autoplay.start();
+    });
+    act(() => {
+      result.current.autoplay.stop();
+    });
+    await runTimers(3);
+    expect(result.current.autoplay.stopReason).toBe('stopped');
+    expect(result.current.state.gamePhase).toBe('preDraw');
+
+    act(() => {
+      result.current.autoplay.start();
+      result.current.setState((prev) => GameEngine.endRun(prev, 'insufficient-credits'));
+    });
+    expect(result.current.autoplay.isActive).toBe(false);
+    expect(result.current.autoplay.stopReason).toBe('game-over');
+  });
+});
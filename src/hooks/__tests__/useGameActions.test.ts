@@ -1,13 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderHook, act } from '@testing-library/react';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import { useGameActions } from '../useGameActions';
 import { GameState } from '../../types';
 import { getCurrentGameMode } from '../../config/gameConfig';
+import { GameEngine } from '../../utils/gameEngine';
+import { logger } from '../../utils/logger';
+import { runParallelHandsJob } from '../../utils/parallelHandsRound';
+import { createTestCard, createTestGameState } from '../../test/testHelpers';
 
 vi.mock('../useThemeAudio', () => ({
   useThemeAudio: () => ({ playSound: vi.fn() }),
 }));
 
+vi.mock('../../utils/parallelHandsRound', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../utils/parallelHandsRound')>();
+  return { ...actual, runParallelHandsJob: vi.fn(actual.runParallelHandsJob) };
+});
+
 function createMockState(overrides: Partial<GameState> = {}): GameState {
   const mode = getCurrentGameMode();
   return {
@@ -137,4 +146,46 @@ describe('useGameActions', () => {
     const nextState = updater(state);
     expect(nextState).toBe(state);
   });
+
+  it('generates the parallel hands of a begun draw and reports progress', async () => {
+    const dealt = createTestGameState({
+      gamePhase: 'playing',
+      playerHand: (['A', 'K', 'Q', 'J', '9'] as const).map((rank) =>
+        createTestCard(rank, 'clubs')
+      ),
+      heldIndices: [0, 1],
+      selectedHandCount: 80,
+    });
+    const begun = GameEngine.beginParallelHands(dealt);
+    const { result } = renderHook(() => useGameActions(begun, setState));
+
+    await waitFor(() => expect(setState).toHaveBeenCalled());
+
+    const completed = setState.mock.calls[0][0](begun);
+    expect(completed).toEqual(GameEngine.drawParallelHands(dealt));
+    expect(result.current.handGenerationProgress).toBe(1);
+  });
+
+  it('logs and stops generating when both the worker and the fallback fail', async () => {
+    const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+    const fail = () => {
+      throw new Error('out of memory');
+    };
+    vi.mocked(runParallelHandsJob).mockImplementationOnce(fail).mockImplementationOnce(fail);
+    const begun = GameEngine.beginParallelHands(
+      createTestGameState({
+        gamePhase: 'playing',
+        playerHand: (['A', 'K', 'Q', 'J', '9'] as const).map((rank) =>
+          createTestCard(rank, 'clubs')
+        ),
+      })
+    );
+    renderHook(() => useGameActions(begun, setState));
+
+    await waitFor(() => expect(setState).toHaveBeenCalled());
+
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('out of memory'));
+    expect(setState.mock.calls[0][0](begun)).toEqual({ ...begun, isGeneratingHands: false });
+    errorSpy.mockRestore();
+  });
 });
@@ -1,6 +1,25 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useGameState } from '../useGameState';
+import {
+  DEFAULT_GAME_MODE_ID,
+  getCurrentGameModeId,
+  getGameMode,
+  isGameModeId,
+  setCurrentGameModeId,
+} from '../../config/gameConfig';
+import {
+  CUSTOM_GAME_MODES_STORAGE_KEY,
+  createCustomGameModeSettings,
+} from '../../utils/customGameModes';
+import { RUN_SAVE_STORAGE_KEY } from '../../utils/runPersistence';
+import { getRankedLeaderboard, loadLeaderboard, savePlayerName } from '../../utils/leaderboards';
+import {
+  getDailyChallengeDate,
+  getDailyChallengeSeed,
+  loadDailyChallenges,
+} from '../../utils/dailyChallenge';
+import { loadRunHistory } from '../../utils/runHistory';
 
 vi.mock('../useThemeAudio', () => ({
   useThemeAudio: () => ({
@@ -14,6 +33,8 @@ vi.mock('../useThemeAudio', () => ({
 describe('useGameState', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
+    setCurrentGameModeId(DEFAULT_GAME_MODE_ID);
   });
 
   it('should return state and all expected action functions', () => {
@@ -93,4 +114,341 @@ describe('useGameState', () => {
 
     expect(result.current.state.selectedHandCount).toBe(5);
   });
+
+  it('should deal identical hands for runs started from the same seed', () => {
+    const first = renderHook(() => useGameState());
+    const second = renderHook(() => useGameState());
+
+    act(() => {
+      first.result.current.startNewRun(987654);
+      second.result.current.startNewRun(987654);
+    });
+    act(() => {
+      first.result.current.dealHand();
+      second.result.current.dealHand();
+    });
+
+    expect(first.result.current.state.runSeed).toBe(987654);
+    expect(first.result.current.state.playerHand.map((c) => c.id)).toEqual(
+      second.result.current.state.playerHand.map((c) => c.id)
+    );
+    expect(first.result.current.state.devilsDealCard).toEqual(
+      second.result.current.state.devilsDealCard
+    );
+  });
+
+  it('should autosave the run and continue it from the menu', () => {
+    const first = renderHook(() => useGameState());
+    expect(first.result.current.hasSavedRun).toBe(false);
+
+    act(() => {
+      first.result.current.startNewRun(4242);
+    });
+    act(() => {
+      first.result.current.setBetAmount(7);
+    });
+    expect(first.result.current.hasSavedRun).toBe(true);
+    first.unmount();
+
+    // Simulate a page refresh: a fresh hook starts on the menu with a save to continue
+    const second = renderHook(() => useGameState());
+    expect(second.result.current.state.screen).toBe('menu');
+    expect(second.result.current.hasSavedRun).toBe(true);
+
+    act(() => {
+      second.result.current.continueRun();
+    });
+    expect(second.result.current.state.screen).toBe('game');
+    expect(second.result.current.state.gamePhase).toBe('preDraw');
+    expect(second.result.current.state.runSeed).toBe(4242);
+    expect(second.result.current.state.betAmount).toBe(7);
+  });
+
+  it('should start runs in the selected mode and remember the choice', () => {
+    const first = renderHook(() => useGameState());
+    act(() => {
+      first.result.current.selectGameMode('hardMode');
+    });
+    act(() => {
+      first.result.current.startNewRun();
+    });
+    expect(getCurrentGameModeId()).toBe('hardMode');
+    expect(first.result.current.state.gameModeId).toBe('hardMode');
+    expect(first.result.current.state.credits).toBe(getGameMode('hardMode').startingCredits);
+    first.unmount();
+
+    const second = renderHook(() => useGameState());
+    expect(second.result.current.selectedGameModeId).toBe('hardMode');
+  });
+
+  it('should continue a saved run in the mode it was started in', () => {
+    const first = renderHook(() => useGameState());
+    act(() => {
+      first.result.current.selectGameMode('marathonMode');
+    });
+    act(() => {
+      first.result.current.startNewRun();
+    });
+    first.unmount();
+    setCurrentGameModeId(DEFAULT_GAME_MODE_ID);
+
+    const second = renderHook(() => useGameState());
+    act(() => {
+      second.result.current.selectGameMode('casualMode');
+    });
+    act(() => {
+      second.result.current.continueRun();
+    });
+    expect(getCurrentGameModeId()).toBe('marathonMode');
+    expect(second.result.current.state.gameModeId).toBe('marathonMode');
+  });
+
+  it('should clear the save when the run ends', () => {
+    const { result } = renderHook(() => useGameState());
+
+    act(() => {
+      result.current.startNewRun();
+    });
+    expect(result.current.hasSavedRun).toBe(true);
+
+    act(() => {
+      result.current.endRun();
+    });
+    expect(result.current.hasSavedRun).toBe(false);
+  });
+
+  it('should record finished runs on the leaderboards, flagging cheated runs', () => {
+    savePlayerName('Ada');
+    const { result } = renderHook(() => useGameState());
+    act(() => {
+      result.current.startNewRun(11);
+    });
+    act(() => {
+      result.current.endRun();
+    });
+    act(() => {
+      result.current.returnToMenu();
+    });
+    act(() => {
+      result.current.startNewRun(12);
+    });
+    act(() => {
+      result.current.cheatAddCredits(1000);
+    });
+    act(() => {
+      result.current.endRun();
+    });
+
+    const entries = loadLeaderboard();
+    expect(
+      entries.map(({ seed, playerName, cheatsUsed }) => [seed, playerName, cheatsUsed])
+    ).toEqual([
+      [11, 'Ada', false],
+      [12, 'Ada', true],
+    ]);
+    expect(getRankedLeaderboard(entries, { gameModeId: DEFAULT_GAME_MODE_ID })).toHaveLength(1);
+  });
+
+  it('should play the tutorial in the default mode without touching the saved run', () => {
+    const { result } = renderHook(() => useGameState());
+    act(() => {
+      result.current.selectGameMode('hardMode');
+    });
+    act(() => {
+      result.current.startNewRun(4242);
+    });
+    const saved = localStorage.getItem(RUN_SAVE_STORAGE_KEY);
+    expect(saved).not.toBeNull();
+    act(() => {
+      result.current.returnToMenu();
+    });
+
+    act(() => {
+      result.current.tutorial.start();
+    });
+    expect(getCurrentGameModeId()).toBe(DEFAULT_GAME_MODE_ID);
+    expect(result.current.tutorial.step?.id).toBe('deal');
+
+    act(() => {
+      result.current.dealHand();
+    });
+    expect(result.current.state.playerHand.map((c) => c.id)).toEqual([
+      'spades-K',
+      'diamonds-4',
+      'hearts-K',
+      'clubs-9',
+      'spades-2',
+    ]);
+    expect(result.current.tutorial.step?.id).toBe('hold-pair');
+    expect(localStorage.getItem(RUN_SAVE_STORAGE_KEY)).toBe(saved);
+    expect(result.current.hasSavedRun).toBe(true);
+
+    act(() => {
+      result.current.tutorial.exit();
+    });
+    expect(result.current.state.screen).toBe('menu');
+    expect(result.current.tutorial.isActive).toBe(false);
+    expect(result.current.tutorial.isCompleted).toBe(false);
+    expect(getCurrentGameModeId()).toBe('hardMode');
+  });
+
+  it('should play a puzzle in the default mode without touching the saved run', () => {
+    const { result } = renderHook(() => useGameState());
+    act(() => {
+      result.current.selectGameMode('hardMode');
+    });
+    act(() => {
+      result.current.startNewRun(4242);
+    });
+    const saved = localStorage.getItem(RUN_SAVE_STORAGE_KEY);
+    act(() => {
+      result.current.returnToMenu();
+    });
+
+    act(() => {
+      result.current.puzzle.start('flush-or-pair');
+    });
+    expect(getCurrentGameModeId()).toBe(DEFAULT_GAME_MODE_ID);
+    act(() => {
+      result.current.dealHand();
+    });
+    expect(result.current.state.playerHand.map((c) => c.id)).toEqual([
+      'hearts-3',
+      'hearts-7',
+      'hearts-10',
+      'hearts-K',
+      'clubs-10',
+    ]);
+    expect(localStorage.getItem(RUN_SAVE_STORAGE_KEY)).toBe(saved);
+
+    act(() => {
+      result.current.endRun();
+    });
+    expect(result.current.puzzle.outcome).toMatchObject({ won: false, stars: 0 });
+    expect(result.current.puzzle.stars).toEqual({});
+    expect(localStorage.getItem(RUN_SAVE_STORAGE_KEY)).toBe(saved);
+
+    act(() => {
+      result.current.puzzle.exit();
+    });
+    expect(result.current.state.screen).toBe('menu');
+    expect(result.current.puzzle.puzzle).toBeNull();
+    expect(getCurrentGameModeId()).toBe('hardMode');
+  });
+
+  it('should score only the first daily challenge run of the day', () => {
+    const today = getDailyChallengeDate();
+    const { result } = renderHook(() => useGameState());
+    act(() => {
+      result.current.selectGameMode('hardMode');
+    });
+
+    act(() => {
+      result.current.startDailyChallenge();
+    });
+    expect(getCurrentGameModeId()).toBe(DEFAULT_GAME_MODE_ID);
+    expect(result.current.state.runSeed).toBe(getDailyChallengeSeed(today));
+    expect(result.current.state.dailyChallengeDate).toBe(today);
+    expect(loadDailyChallenges()).toEqual([{ date: today, result: null }]);
+
+    act(() => {
+      result.current.endRun();
+    });
+    expect(loadDailyChallenges()[0].result).toMatchObject({
+      roundsSurvived: 1,
+      gameOverReason: 'voluntary',
+    });
+
+    act(() => {
+      result.current.returnToMenu();
+    });
+    act(() => {
+      result.current.startDailyChallenge();
+    });
+    expect(result.current.state.runSeed).toBe(getDailyChallengeSeed(today));
+    expect(result.current.state.dailyChallengeDate).toBeNull();
+    expect(loadDailyChallenges()).toHaveLength(1);
+  });
+
+  it("should keep the saved run's custom mode as it was and not resume once it is gone", () => {
+    const settings = { ...createCustomGameModeSettings('normalGame'), startingCredits: 777 };
+    const { result } = renderHook(() => useGameState());
+    act(() => {
+      result.current.saveCustomGameMode({ id: 'custom-test', settings });
+      result.current.selectGameMode('custom-test');
+    });
+    act(() => {
+      result.current.startNewRun(4242);
+    });
+    act(() => {
+      result.current.returnToMenu();
+    });
+    expect(result.current.savedRunGameModeId).toBe('custom-test');
+
+    act(() => {
+      result.current.saveCustomGameMode({
+        id: 'custom-test',
+        settings: { ...settings, startingCredits: 999 },
+      });
+      result.current.deleteCustomGameMode('custom-test');
+    });
+    expect(isGameModeId('custom-test')).toBe(true);
+    expect(getGameMode('custom-test').startingCredits).toBe(777);
+
+    // The mode vanished from storage, so the run can't be played by its rules
+    localStorage.removeItem(CUSTOM_GAME_MODES_STORAGE_KEY);
+    setCurrentGameModeId(DEFAULT_GAME_MODE_ID);
+    const { result: reloaded } = renderHook(() => useGameState());
+    expect(reloaded.current.hasSavedRun).toBe(false);
+    act(() => {
+      reloaded.current.continueRun();
+    });
+    expect(reloaded.current.state.screen).toBe('menu');
+    expect(getCurrentGameModeId()).toBe(DEFAULT_GAME_MODE_ID);
+  });
+
+  it('should continue a saved daily challenge and keep replays off the save and records', () => {
+    const today = getDailyChallengeDate();
+    const { result } = renderHook(() => useGameState());
+    act(() => {
+      result.current.startDailyChallenge();
+    });
+    act(() => {
+      result.current.returnToMenu();
+    });
+
+    // The scored attempt is still saved, so it carries on rather than being replayed
+    act(() => {
+      result.current.startDailyChallenge();
+    });
+    expect(result.current.state.dailyChallengeDate).toBe(today);
+    act(() => {
+      result.current.endRun();
+    });
+    expect(loadDailyChallenges()[0].result).not.toBeNull();
+    expect(loadRunHistory()).toHaveLength(1);
+
+    act(() => {
+      result.current.returnToMenu();
+    });
+    act(() => {
+      result.current.startNewRun(4242);
+    });
+    const saved = localStorage.getItem(RUN_SAVE_STORAGE_KEY);
+    act(() => {
+      result.current.returnToMenu();
+    });
+
+    act(() => {
+      result.current.startDailyChallenge();
+    });
+    expect(result.current.state.dailyChallengeDate).toBeNull();
+    expect(localStorage.getItem(RUN_SAVE_STORAGE_KEY)).toBe(saved);
+    act(() => {
+      result.current.endRun();
+    });
+    expect(localStorage.getItem(RUN_SAVE_STORAGE_KEY)).toBe(saved);
+    expect(loadRunHistory()).toHaveLength(1);
+    expect(loadLeaderboard()).toHaveLength(1);
+  });
 });
@@ -50,6 +50,9 @@ function createMockState(overrides: Partial<GameState> = {}): GameState {
     extraCardsInHand: 0,
     streakCounter: 0,
     currentStreakMultiplier: 1.0,
+    gameModeId: 'normalGame',
+    runPeakCredits: mode.startingCredits,
+    runPurchases: {},
     audioSettings: { musicEnabled: true, soundEffectsEnabled: true, musicVolume: 0.7, soundEffectsVolume: 1.0, handScoringMinVolumePercent: 0 },
     animationSpeedMode: 1,
     cardTheme: 'dark',
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useTips } from '../useTips';
+import { GameEngine } from '../../utils/gameEngine';
+import { loadSeenTips } from '../../utils/tips';
+import { GameState } from '../../types';
+
+function startRun(): GameState {
+  return GameEngine.startNewRun(GameEngine.createInitialState(), 3);
+}
+
+describe('useTips', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('shows each triggered tip in turn until dismissed', () => {
+    const run = startRun();
+    const { result, rerender } = renderHook(({ state }) => useTips(state, true), {
+      initialProps: { state: run },
+    });
+    expect(result.current.tip).toBeNull();
+
+    rerender({ state: { ...GameEngine.addDeadCard(run), isEndlessMode: true } });
+    expect(result.current.tip?.id).toBe('dead-card');
+
+    act(() => {
+      result.current.dismiss();
+    });
+    expect(result.current.tip?.id).toBe('endless-mode');
+    expect(loadSeenTips()).toEqual(['dead-card']);
+
+    act(() => {
+      result.current.dismiss();
+    });
+    expect(result.current.tip).toBeNull();
+  });
+
+  it('does not show a seen tip again', () => {
+    const run = startRun();
+    const { result, rerender } = renderHook(({ state }) => useTips(state, true), {
+      initialProps: { state: run },
+    });
+    const withDeadCard = GameEngine.addDeadCard(run);
+    rerender({ state: withDeadCard });
+    act(() => {
+      result.current.dismiss();
+    });
+
+    rerender({ state: GameEngine.addDeadCard(withDeadCard) });
+    expect(result.current.tip).toBeNull();
+  });
+
+  it('ignores changes made while disabled', () => {
+    const run = startRun();
+    const { result, rerender } = renderHook(
+      ({ state, enabled }) => useTips(state, enabled),
+      { initialProps: { state: run, enabled: false } }
+    );
+    rerender({ state: { ...run, isEndlessMode: true }, enabled: false });
+    rerender({ state: { ...run, isEndlessMode: true }, enabled: true });
+    expect(result.current.tip).toBeNull();
+  });
+});
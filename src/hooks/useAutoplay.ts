@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import { GameState } from '../types';
+import {
+  AUTOPLAY_SHOP_RESERVE_ROUNDS,
+  AutoplaySettings,
+  AutoplayStopReason,
+  DEFAULT_AUTOPLAY_SETTINGS,
+  getAutoplayStep,
+  getAutoplayStepDelay,
+  getAutoplayStrategy,
+} from '../utils/autoplay';
+import { buyShopOptions, prepareDraw } from '../utils/botPlay';
+
+/** The player actions autoplay presses, as returned by useGameState. */
+export interface AutoplayActions {
+  dealHand: () => void;
+  drawParallelHands: () => void;
+  returnToPreDraw: (payout: number) => void;
+  proceedFromResults: () => void;
+}
+
+export interface Autoplay {
+  settings: AutoplaySettings;
+  isActive: boolean;
+  /** Rounds finished since autoplay last started */
+  roundsPlayed: number;
+  /** Why autoplay last stopped; null before its first stop and while active */
+  stopReason: AutoplayStopReason | null;
+  updateSettings: (settings: Partial<AutoplaySettings>) => void;
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * Hook for autoplay: plays rounds with the chosen strategy through the same actions the
+ * screens use, one step per state change, until a stop condition in utils/autoplay is met.
+ * Screens that play themselves (hand generation, the parallel hands animation) are left to
+ * finish on their own.
+ *
+ * @param state - Current game state
+ * @param setState - React state setter function
+ * @param actions - Player actions to press
+ * @returns Autoplay settings, status and controls
+ *
+ * @example
+ * ```tsx
+ * const autoplay = useAutoplay(state, setState, { dealHand, drawParallelHands, ... });
+ * autoplay.updateSettings({ strategyId: 'optimal', rounds: 20 });
+ * autoplay.start();
+ * ```
+ */
+export function useAutoplay(
+  state: GameState,
+  setState: React.Dispatch<React.SetStateAction<GameState>>,
+  { dealHand, drawParallelHands, returnToPreDraw, proceedFromResults }: AutoplayActions
+): Autoplay {
+  const [settings, setSettings] = useState<AutoplaySettings>(DEFAULT_AUTOPLAY_SETTINGS);
+  const [isActive, setIsActive] = useState(false);
+  const [roundsPlayed, setRoundsPlayed] = useState(0);
+  const [stopReason, setStopReason] = useState<AutoplayStopReason | null>(null);
+
+  const updateSettings = useCallback((update: Partial<AutoplaySettings>) => {
+    setSettings((prev) => ({ ...prev, ...update }));
+  }, []);
+
+  const start = useCallback(() => {
+    setRoundsPlayed(0);
+    setStopReason(null);
+    setIsActive(true);
+  }, []);
+
+  const stop = useCallback(() => {
+    setIsActive(false);
+    setStopReason('stopped');
+  }, []);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const step = getAutoplayStep(state, settings, roundsPlayed);
+    if (step.type === 'stop') {
+      setIsActive(false);
+      setStopReason(step.reason);
+      return;
+    }
+    if (step.type === 'wait') return;
+
+    const strategy = getAutoplayStrategy(settings.strategyId);
+    const timer = setTimeout(() => {
+      switch (step.type) {
+        case 'deal':
+          // At the bet and hand count already set
+          dealHand();
+          break;
+        case 'draw':
+          setState((prev) => prepareDraw(prev, strategy.hold, strategy.devilsDeal, Math.random));
+          drawParallelHands();
+          break;
+        case 'collect':
+          returnToPreDraw(step.payout);
+          setRoundsPlayed((prev) => prev + 1);
+          break;
+        case 'shop':
+          setState((prev) =>
+            buyShopOptions(prev, strategy.shopPriority, AUTOPLAY_SHOP_RESERVE_ROUNDS)
+          );
+          proceedFromResults();
+          break;
+      }
+    }, getAutoplayStepDelay(settings.animationSpeed));
+    return () => clearTimeout(timer);
+  }, [
+    isActive,
+    state,
+    settings,
+    roundsPlayed,
+    setState,
+    dealHand,
+    drawParallelHands,
+    returnToPreDraw,
+    proceedFromResults,
+  ]);
+
+  return { settings, isActive, roundsPlayed, stopReason, updateSettings, start, stop };
+}
@@ -1,26 +1,60 @@
 import { useState, useCallback, useEffect, useLayoutEffect, useRef, startTransition } from 'react';
-import { GameState, GameOverReason, HandRank, Card } from '../types';
-import { createFullDeck, shuffleDeck } from '../utils/deck';
-import { selectShopOptionsByRarity } from '../utils/shopSelection';
-import { getCurrentGameMode, getShopModeForCredits } from '../config/gameConfig';
+import { GameState, GameOverReason, HandRank, HoldReview } from '../types';
 import { useGameActions } from './useGameActions';
 import { useShopActions } from './useShopActions';
-import { checkFailureConditions } from '../utils/failureConditions';
-import { PokerEvaluator } from '../utils/pokerEvaluator';
-import { calculateStreakMultiplier } from '../utils/streakCalculator';
+import { useAutoplay } from './useAutoplay';
+import { useTutorial } from './useTutorial';
+import { useTips } from './useTips';
+import { usePuzzle } from './usePuzzle';
 import { useThemeAudio } from '../hooks/useThemeAudio';
 import { parseAudioSettings, parseAnimationSettings } from '../utils/typeGuards';
 import { getStoredCardTheme, setStoredCardTheme } from '../config/cardThemes';
-
-const currentMode = getCurrentGameMode();
-
-const DEFAULT_AUDIO_SETTINGS = {
-  musicEnabled: true,
-  soundEffectsEnabled: true,
-  musicVolume: 0.7,
-  soundEffectsVolume: 1.0,
-  handScoringMinVolumePercent: 0,
-};
+import {
+  CustomGameMode,
+  CustomGameModeId,
+  DEFAULT_GAME_MODE_ID,
+  GameModeId,
+  getCurrentGameModeId,
+  getStoredGameModeId,
+  isGameModeId,
+  setCurrentGameModeId,
+  setStoredGameModeId,
+} from '../config/gameConfig';
+import { createRunSeed } from '../utils/rng';
+import {
+  saveRun,
+  loadSavedRun,
+  clearSavedRun,
+  isSafeSavePoint,
+  RunSave,
+} from '../utils/runPersistence';
+import { appendRunHistory, createRunHistoryEntry } from '../utils/runHistory';
+import {
+  createLeaderboardEntry,
+  loadPlayerName,
+  recordLeaderboardEntry,
+} from '../utils/leaderboards';
+import {
+  DAILY_CHALLENGE_GAME_MODE_ID,
+  createDailyChallengeResult,
+  getDailyChallengeDate,
+  getDailyChallengeSeed,
+  hasPlayedDailyChallenge,
+  loadDailyChallenges,
+  recordDailyChallengeResult,
+  recordDailyChallengeStart,
+} from '../utils/dailyChallenge';
+import { dealTutorialHand, returnToTutorialPreDraw } from '../utils/tutorial';
+import { dealPuzzleHand } from '../utils/puzzles';
+import {
+  loadCustomGameModes,
+  saveCustomGameMode as storeCustomGameMode,
+  deleteCustomGameMode as removeCustomGameMode,
+} from '../utils/customGameModes';
+import { GameEngine, DEFAULT_GAME_SETTINGS, StreakRoundSummary } from '../utils/gameEngine';
+import { logger } from '../utils/logger';
+
+const DEFAULT_AUDIO_SETTINGS = DEFAULT_GAME_SETTINGS.audioSettings;
 
 // Load audio settings from localStorage if available
 function loadAudioSettings(): GameState['audioSettings'] {
@@ -42,7 +76,7 @@ function loadAudioSettings(): GameState['audioSettings'] {
   return { ...DEFAULT_AUDIO_SETTINGS };
 }
 
-const DEFAULT_ANIMATION_SPEED: GameState['animationSpeedMode'] = 1;
+const DEFAULT_ANIMATION_SPEED = DEFAULT_GAME_SETTINGS.animationSpeedMode;
 
 // Load animation settings from localStorage if available
 function loadAnimationSettings(): GameState['animationSpeedMode'] {
@@ -51,67 +85,57 @@ function loadAnimationSettings(): GameState['animationSpeedMode'] {
   return parsed?.animationSpeedMode ?? DEFAULT_ANIMATION_SPEED;
 }
 
+/**
+ * Activate the mode a saved run was started in.
+ * @returns false if that mode no longer exists, in which case the run must not be resumed
+ */
+function activateSavedRunMode(save: RunSave): boolean {
+  const { gameModeId } = save.state;
+  if (!isGameModeId(gameModeId)) {
+    logger.warn(`Cannot resume a run from unknown game mode ${gameModeId}`);
+    return false;
+  }
+  setCurrentGameModeId(gameModeId);
+  return true;
+}
+
 function createInitialState(): GameState {
-  return {
-    screen: 'menu',
-    gamePhase: 'preDraw',
-    isGeneratingHands: false,
-    playerHand: [],
-    heldIndices: [],
-    parallelHands: [],
-    handCount: currentMode.startingHandCount,
-    rewardTable: currentMode.rewards,
-    credits: currentMode.startingCredits,
-    currentRun: 0,
-    additionalHandsBought: 0,
-    betAmount: currentMode.startingBet,
-    selectedHandCount: currentMode.startingHandCount,
-    minimumBet: currentMode.startingBet,
-    baseMinimumBet: currentMode.startingBet,
-    round: 1,
-    totalEarnings: 0,
-    deckModifications: {
-      deadCards: [],
-      wildCards: [],
-      removedCards: [],
-      deadCardRemovalCount: 0,
-    },
-    extraDrawPurchased: false,
-    maxDraws: 1,
-    drawsCompletedThisRound: 0,
-    wildCardCount: 0,
-    gameOver: false,
-    gameOverReason: null,
-    showShopNextRound: false,
-    selectedShopOptions: [],
-    creditsAtShopOpen: null,
-    prevRoundMinimumBet: null,
-    shopDisplayBetAmount: null,
-    isEndlessMode: false,
-    currentFailureState: null,
-    winningHandsLastRound: 0,
-    devilsDealCard: null,
-    devilsDealCost: 0,
-    devilsDealHeld: false,
-    devilsDealChancePurchases: 0,
-    devilsDealCostReductionPurchases: 0,
-    extraCardsInHand: 0,
-    streakCounter: 0,
-    currentStreakMultiplier: 1.0,
-    runHighestCombo: 0,
-    runHighestMultiplier: 1.0,
+  return GameEngine.createInitialState({
     audioSettings: loadAudioSettings(),
     animationSpeedMode: loadAnimationSettings(),
     cardTheme: getStoredCardTheme(),
-  };
+  });
 }
 
 export function useGameState() {
   const [state, setState] = useState<GameState>(() => createInitialState());
+  // Registers custom modes with gameConfig, so it must run before the stored mode is read
+  const [customGameModes, setCustomGameModes] = useState<CustomGameMode[]>(() =>
+    loadCustomGameModes()
+  );
+  // Mode of the autosaved run; a custom mode can't be edited or deleted while a run plays it
+  const [savedRunGameModeId, setSavedRunGameModeId] = useState<string | null>(
+    () => loadSavedRun()?.state.gameModeId ?? null
+  );
+  // A saved run whose mode is gone can't be continued
+  const hasSavedRun = savedRunGameModeId !== null && isGameModeId(savedRunGameModeId);
+  const [selectedGameModeId, setSelectedGameModeId] = useState<GameModeId>(() =>
+    getStoredGameModeId()
+  );
 
   // Use specialized hooks for different action types
   const gameActions = useGameActions(state, setState);
+  const { dealHand: dealGameHand } = gameActions;
   const shopActions = useShopActions(state, setState);
+  const tutorial = useTutorial(state, setState);
+  const puzzle = usePuzzle(state, setState);
+  // The tutorial and puzzles play set-up runs that are never saved or counted as played runs
+  const isSetUpRun = tutorial.isActive || puzzle.puzzle !== null;
+  // Unscored replays of the daily challenge are neither saved nor counted either
+  const [isDailyReplay, setIsDailyReplay] = useState(false);
+  const isUnrecordedRun = isSetUpRun || isDailyReplay;
+  // Off during the tutorial, which walks through these rules itself, and during puzzles
+  const tips = useTips(state, !isSetUpRun);
   const { playSound, playMusic, stopMusic, resetRoundSoundCounts } = useThemeAudio(state.audioSettings);
 
   // Track previous music enabled state to handle re-enabling
@@ -131,34 +155,47 @@ export function useGameState() {
     prevMusicEnabledRef.current = currentMusicEnabled;
   }, [state.audioSettings.musicEnabled, state.screen, playMusic]);
 
+  // Record each run in history and on the leaderboards once, when it reaches game over
+  const prevScreenRef = useRef(state.screen);
+  useEffect(() => {
+    if (
+      state.screen === 'gameOver' &&
+      prevScreenRef.current !== 'gameOver' &&
+      !isUnrecordedRun
+    ) {
+      const endedAt = Date.now();
+      appendRunHistory(createRunHistoryEntry(state, endedAt));
+      recordLeaderboardEntry(createLeaderboardEntry(state, loadPlayerName(), endedAt));
+      if (state.dailyChallengeDate) {
+        recordDailyChallengeResult(state.dailyChallengeDate, createDailyChallengeResult(state));
+      }
+    }
+    prevScreenRef.current = state.screen;
+  }, [state, isUnrecordedRun]);
+
+  // Autosave at safe points; a finished run has nothing left to continue.
+  // Tutorial, puzzle and daily replay runs are never saved, so they leave a saved run alone.
+  useEffect(() => {
+    if (isUnrecordedRun) return;
+    if (isSafeSavePoint(state)) {
+      saveRun(state);
+      setSavedRunGameModeId(state.gameModeId);
+    } else if (state.screen === 'gameOver') {
+      clearSavedRun();
+      setSavedRunGameModeId(null);
+    }
+  }, [state, isUnrecordedRun]);
+
   const openShop = useCallback(() => {
-    setState((prev) => ({
-      ...prev,
-      screen: 'shop',
-    }));
+    setState((prev) => GameEngine.openShop(prev));
   }, []);
 
   const closeShop = useCallback(() => {
-    setState((prev) => ({
-      ...prev,
-      screen: 'game',
-    }));
+    setState((prev) => GameEngine.closeShop(prev));
   }, []);
 
   const upgradeRewardTable = useCallback((rank: HandRank, cost: number) => {
-    setState((prev) => {
-      if (prev.credits < cost) {
-        return prev;
-      }
-      return {
-        ...prev,
-        rewardTable: {
-          ...prev.rewardTable,
-          [rank]: (prev.rewardTable[rank] || 0) + 1,
-        },
-        credits: prev.credits - cost,
-      };
-    });
+    setState((prev) => GameEngine.upgradeRewardTable(prev, rank, cost));
   }, []);
 
   const returnToMenu = useCallback(() => {
@@ -169,184 +206,124 @@ export function useGameState() {
 
   const returnToPreDraw = useCallback((payout: number = 0) => {
     resetRoundSoundCounts();
-    setState((prev) => {
-      // Count winning hands from last round (hands with payout > 0)
-      const winningHandsCount = prev.parallelHands.reduce((count, hand) => {
-        const result = PokerEvaluator.evaluate(hand.cards);
-        const withRewards = PokerEvaluator.applyRewards(result, prev.rewardTable);
-        const handPayout = prev.betAmount * withRewards.multiplier;
-        return handPayout > 0 ? count + 1 : count;
-      }, 0);
-
-      playSound('returnToPreDraw');
-
-      // Add payout to credits and total earnings
-      const newCredits = prev.credits + payout;
-      const newTotalEarnings = prev.totalEarnings + payout;
-
-      // Increment round
-      const newRound = prev.round + 1;
-
-      // Check if we should enter endless mode (at or above startRound)
-      const endlessConfig = currentMode.endlessMode;
-      const shouldEnterEndlessMode =
-        endlessConfig && newRound >= endlessConfig.startRound && !prev.isEndlessMode;
-
-      // Update minimum bet - only increase every X rounds (based on minimumBetIncreaseInterval)
-      let newMinimumBet = prev.minimumBet;
-      let newBaseMinimumBet = prev.baseMinimumBet;
-
-      if (shouldEnterEndlessMode) {
-        // When entering endless mode, set base minimum bet to current minimum bet
-        newBaseMinimumBet = prev.minimumBet;
-      }
+    playSound('returnToPreDraw');
+    setState((prev) =>
+      tutorial.isActive
+        ? returnToTutorialPreDraw(prev, payout)
+        : GameEngine.returnToPreDraw(prev, payout)
+    );
+  }, [playSound, resetRoundSoundCounts, tutorial.isActive]);
+
+  /** Deal a new hand; the tutorial and puzzles deal their set hands instead. */
+  const activePuzzle = puzzle.puzzle;
+  const dealHand = useCallback(() => {
+    if (tutorial.isActive) {
+      setState(dealTutorialHand);
+    } else if (activePuzzle) {
+      setState((prev) => dealPuzzleHand(prev, activePuzzle));
+    } else {
+      dealGameHand();
+    }
+  }, [activePuzzle, dealGameHand, tutorial.isActive]);
 
-      // Increase minimum bet every X rounds based on minimumBetIncreaseInterval and minimumBetIncreasePercent
-      const shouldIncreaseMinBet =
-        newRound % currentMode.minimumBetIncreaseInterval === 0;
-      if (shouldIncreaseMinBet) {
-        const minBetMultiplier = 1 + currentMode.minimumBetIncreasePercent / 100;
-        newMinimumBet = Math.floor(prev.minimumBet * minBetMultiplier);
-      }
+  /**
+   * Pick the mode for the next run started from the main menu. Remembered across sessions.
+   */
+  const selectGameMode = useCallback((modeId: GameModeId) => {
+    setSelectedGameModeId(modeId);
+    try {
+      setStoredGameModeId(modeId);
+    } catch {
+      // Ignore storage errors
+    }
+  }, []);
 
-      // Ensure bet is at least minimum bet
-      let adjustedBet = Math.max(newMinimumBet, prev.betAmount);
-      let adjustedHandCount = prev.selectedHandCount;
-      let gameOver = false;
-      let currentFailureState = prev.currentFailureState;
-
-      // Check if player can still afford their previous bet/hand count
-      const previousTotalCost = adjustedBet * adjustedHandCount;
-      const canAffordPrevious = newCredits >= previousTotalCost;
-
-      // Only adjust if player can't afford their previous bet/hand count
-      if (!canAffordPrevious) {
-        // Auto-adjust bet and hand count if player can't afford current bet
-        // Step 1: Try reducing bet size until affordable (but not below minimum)
-        const maxAffordableBet = Math.floor(newCredits / adjustedHandCount);
-        if (maxAffordableBet >= newMinimumBet) {
-          // Can afford by reducing bet (bet will be >= minimum)
-          adjustedBet = maxAffordableBet;
-        } else {
-          // Step 2: Bet reached minimum bet, try reducing hand count
-          adjustedBet = newMinimumBet;
-          adjustedHandCount = Math.max(1, Math.floor(newCredits / adjustedBet));
-          adjustedHandCount = Math.min(prev.handCount, adjustedHandCount);
-        }
-      }
+  /**
+   * Add or update a custom mode from the ruleset editor. The saved run's mode is left as it is,
+   * so a run in progress keeps the rules it started with.
+   */
+  const saveCustomGameMode = useCallback((mode: CustomGameMode) => {
+    if (mode.id === savedRunGameModeId) return;
+    setCustomGameModes(storeCustomGameMode(mode));
+  }, [savedRunGameModeId]);
 
-      // Step 3: If still can't afford, trigger game over
-      let gameOverReason: GameOverReason | null = null;
-      if (newCredits < adjustedBet * adjustedHandCount) {
-        gameOver = true;
-        gameOverReason = 'insufficient-credits';
-      }
+  /**
+   * Delete a custom mode unless the saved run plays it; the mode picker and the active mode
+   * fall back to the default mode if it was selected.
+   */
+  const deleteCustomGameMode = useCallback((modeId: CustomGameModeId) => {
+    if (modeId === savedRunGameModeId) return;
+    setCustomGameModes(removeCustomGameMode(modeId));
+    if (getCurrentGameModeId() === modeId) {
+      setCurrentGameModeId(DEFAULT_GAME_MODE_ID);
+    }
+    if (selectedGameModeId === modeId) {
+      selectGameMode(DEFAULT_GAME_MODE_ID);
+    }
+  }, [savedRunGameModeId, selectedGameModeId, selectGameMode]);
 
-      // Check if we're in endless mode (or should enter it)
-      const isEndlessMode = shouldEnterEndlessMode || prev.isEndlessMode;
-
-      // If in endless mode, check failure conditions
-      if (isEndlessMode && !gameOver) {
-        // Create temporary state for failure condition checking
-        const tempState: GameState = {
-          ...prev,
-          round: newRound,
-          credits: newCredits,
-          totalEarnings: newTotalEarnings,
-          minimumBet: newMinimumBet,
-          baseMinimumBet: newBaseMinimumBet,
-          betAmount: adjustedBet,
-          winningHandsLastRound: winningHandsCount,
-          isEndlessMode: true,
-        };
-
-        currentFailureState = checkFailureConditions(tempState);
-
-        // If a failure condition is active, trigger game over
-        if (currentFailureState !== null) {
-          gameOver = true;
-          gameOverReason = currentFailureState;
-        }
-      }
+  /**
+   * Start a new run in the selected mode. Every random decision in the run is drawn from a
+   * generator seeded here, so passing the same seed reproduces the same deals, shop rolls and
+   * Devil's Deal offers.
+   * @param seed - Run seed; a fresh random seed is used when omitted
+   */
+  const startNewRun = useCallback((seed?: number) => {
+    playMusic();
+    const runSeed = seed ?? createRunSeed();
+    setCurrentGameModeId(selectedGameModeId);
+    setIsDailyReplay(false);
+    setState((prev) => GameEngine.startNewRun(prev, runSeed));
+  }, [playMusic, selectedGameModeId]);
 
-      // Check if shop should appear next round and generate options if so
-      const showShopNextRound = newRound % currentMode.shopFrequency === 0;
-      const selectedShopOptions = showShopNextRound
-        ? selectShopOptionsByRarity(getShopModeForCredits(newCredits))
-        : [];
+  /**
+   * Resume the autosaved run from where it was last saved, unless its mode no longer exists.
+   */
+  const continueRun = useCallback(() => {
+    const save = loadSavedRun();
+    if (!save) {
+      setSavedRunGameModeId(null);
+      return;
+    }
+    if (!activateSavedRunMode(save)) return;
+    playMusic();
+    setIsDailyReplay(false);
+    setState((prev) => GameEngine.resumeRun(prev, save.state));
+  }, [playMusic]);
 
-      return {
-        ...prev,
-        gamePhase: 'preDraw',
-        playerHand: [],
-        heldIndices: [],
-        parallelHands: [],
-        drawsCompletedThisRound: 0,
-        devilsDealCard: null,
-        devilsDealCost: 0,
-        devilsDealHeld: false,
-        round: newRound,
-        minimumBet: newMinimumBet,
-        baseMinimumBet: newBaseMinimumBet,
-        credits: newCredits,
-        totalEarnings: newTotalEarnings,
-        betAmount: adjustedBet,
-        selectedHandCount: adjustedHandCount,
-        gameOver,
-        gameOverReason,
-        showShopNextRound,
-        selectedShopOptions,
-        creditsAtShopOpen: showShopNextRound ? newCredits : null,
-        prevRoundMinimumBet: showShopNextRound ? prev.minimumBet : null,
-        shopDisplayBetAmount: showShopNextRound ? prev.betAmount : null,
-        isEndlessMode,
-        currentFailureState,
-        winningHandsLastRound: winningHandsCount,
-        streakCounter: 0, // Reset streak counter at the start of each round
-        currentStreakMultiplier: 1.0, // Reset multiplier at the start of each round
-      };
-    });
-  }, [playSound, resetRoundSoundCounts]);
+  /**
+   * Start today's daily challenge. The first run started each day is the scored attempt, and
+   * while it is the autosaved run it is continued rather than started over. Once it has ended,
+   * the day's deals can still be replayed, but the replay is neither scored, saved nor recorded.
+   */
+  const startDailyChallenge = useCallback(() => {
+    const date = getDailyChallengeDate();
+    if (loadSavedRun()?.state.dailyChallengeDate === date) {
+      continueRun();
+      return;
+    }
+    const isScored = !hasPlayedDailyChallenge(loadDailyChallenges(), date);
+    if (isScored) {
+      recordDailyChallengeStart(date);
+    }
+    playMusic();
+    setCurrentGameModeId(DAILY_CHALLENGE_GAME_MODE_ID);
+    setIsDailyReplay(!isScored);
+    setState((prev) =>
+      isScored
+        ? GameEngine.startDailyChallenge(prev, date)
+        : GameEngine.startNewRun(prev, getDailyChallengeSeed(date))
+    );
+  }, [continueRun, playMusic]);
 
-  const startNewRun = useCallback(() => {
+  /**
+   * Replace the current run with an imported one (see utils/runTransfer).
+   */
+  const importRun = useCallback((save: RunSave) => {
+    if (!activateSavedRunMode(save)) return;
     playMusic();
-    setState((prev) => ({
-      ...prev,
-      screen: 'game',
-      gamePhase: 'preDraw',
-      playerHand: [],
-      heldIndices: [],
-      parallelHands: [],
-      additionalHandsBought: 0,
-      currentRun: prev.currentRun + 1,
-      betAmount: currentMode.startingBet,
-      selectedHandCount: prev.handCount,
-      minimumBet: currentMode.startingBet,
-      baseMinimumBet: currentMode.startingBet,
-      round: 1,
-      totalEarnings: 0,
-      gameOver: false,
-      maxDraws: 1,
-      drawsCompletedThisRound: 0,
-      showShopNextRound: false,
-      selectedShopOptions: [],
-      creditsAtShopOpen: null,
-      shopDisplayBetAmount: null,
-      isEndlessMode: false,
-      currentFailureState: null,
-      gameOverReason: null,
-      winningHandsLastRound: 0,
-      devilsDealCard: null,
-      devilsDealCost: 0,
-      devilsDealHeld: false,
-      devilsDealChancePurchases: 0,
-      devilsDealCostReductionPurchases: 0,
-      extraCardsInHand: 0,
-      streakCounter: 0,
-      currentStreakMultiplier: 1.0,
-      runHighestCombo: 0,
-      runHighestMultiplier: 1.0,
-    }));
+    setIsDailyReplay(false);
+    setState((prev) => GameEngine.resumeRun(prev, save.state));
   }, [playMusic]);
 
   /**
@@ -356,201 +333,61 @@ export function useGameState() {
    */
   const endRun = useCallback((reason?: GameOverReason) => {
     stopMusic();
-    setState((prev) => ({
-      ...prev,
-      screen: 'gameOver',
-      gamePhase: 'preDraw',
-      gameOver: true,
-      gameOverReason: reason ?? prev.gameOverReason ?? 'voluntary',
-      playerHand: [],
-      heldIndices: [],
-      parallelHands: [],
-      additionalHandsBought: 0,
-      drawsCompletedThisRound: 0,
-      showShopNextRound: false,
-      selectedShopOptions: [],
-      creditsAtShopOpen: null,
-      prevRoundMinimumBet: null,
-      shopDisplayBetAmount: null,
-    }));
+    setState((prev) => GameEngine.endRun(prev, reason));
   }, [stopMusic]);
 
   const buyAnotherHand = useCallback(() => {
-    setState((prev) => {
-      if (prev.playerHand.length !== 5 || prev.parallelHands.length === 0) {
-        return prev;
-      }
-
-      // Calculate cost: parallelHands.length * (additionalHandsBought % 10)
-      const cost = prev.parallelHands.length * (prev.additionalHandsBought % 10);
-
-      if (prev.credits < cost) {
-        return prev;
-      }
-
-      // Deal a completely new hand from a fresh deck (including deck modifications)
-      const deck = shuffleDeck(
-        createFullDeck(
-          prev.deckModifications.deadCards,
-          prev.deckModifications.removedCards,
-          prev.deckModifications.wildCards
-        )
-      );
-      const newHand: Card[] = deck.slice(0, 5);
-
-      // Reset the entire hand state while maintaining the rest of the game state
-      const totalBet = prev.betAmount * prev.selectedHandCount;
-      if (prev.credits - cost < totalBet) {
-        return prev;
-      }
-
-      return {
-        ...prev,
-        playerHand: newHand,
-        heldIndices: [],
-        parallelHands: [],
-        additionalHandsBought: 0,
-        credits: prev.credits - cost,
-        maxDraws: Math.max(1, (getCurrentGameMode() as { maxDraws?: number }).maxDraws ?? 1) + (prev.extraDrawPurchased ? 1 : 0),
-        drawsCompletedThisRound: 0,
-      };
-    });
+    setState((prev) => GameEngine.buyAnotherHand(prev));
   }, []);
 
   const setBetAmount = useCallback((amount: number) => {
-    setState((prev) => {
-      // Validate input is a valid number
-      if (isNaN(amount) || !isFinite(amount)) {
-        return prev;
-      }
-
-      // Ensure amount is not negative
-      if (amount < 0) {
-        return prev;
-      }
-
-      // Ensure amount meets minimum bet requirement
-      if (amount < prev.minimumBet) {
-        return prev;
-      }
-
-      // Floor the amount to ensure it's an integer
-      const validAmount = Math.floor(amount);
-
-      return {
-        ...prev,
-        betAmount: validAmount,
-      };
-    });
+    setState((prev) => GameEngine.setBetAmount(prev, amount));
   }, []);
 
   const setSelectedHandCount = useCallback((count: number) => {
-    setState((prev) => {
-      // Validate input is a valid number
-      if (isNaN(count) || !isFinite(count)) {
-        return prev;
-      }
-
-      // Ensure count is positive
-      if (count < 1) {
-        return prev;
-      }
-
-      // Ensure count doesn't exceed available hands
-      if (count > prev.handCount) {
-        return prev;
-      }
-
-      // Floor the count to ensure it's an integer
-      const validCount = Math.floor(count);
-
-      // Check if player can afford bet with this hand count
-      const totalBet = prev.betAmount * validCount;
-      if (prev.credits < totalBet) {
-        return prev;
-      }
-
-      return {
-        ...prev,
-        selectedHandCount: validCount,
-      };
-    });
+    setState((prev) => GameEngine.setSelectedHandCount(prev, count));
   }, []);
 
   const moveToNextScreen = useCallback(() => {
     playSound('screenTransition');
-    setState((prev) => {
-      if (prev.gamePhase === 'parallelHandsAnimation') {
-        return {
-          ...prev,
-          gamePhase: 'results',
-        };
-      }
-      return prev;
-    });
+    setState((prev) => GameEngine.moveToNextScreen(prev));
   }, [playSound]);
 
   const proceedFromResults = useCallback(() => {
-    setState((prev) => {
-      // Always hide the shop and go to PreDraw
-      return {
-        ...prev,
-        screen: 'game',
-        gamePhase: 'preDraw',
-        showShopNextRound: false,
-        selectedShopOptions: [],
-        creditsAtShopOpen: null,
-        prevRoundMinimumBet: null,
-        shopDisplayBetAmount: null,
-      };
-    });
+    setState((prev) => GameEngine.proceedFromResults(prev));
+  }, []);
+
+  const recordHoldReview = useCallback((review: HoldReview) => {
+    setState((prev) => GameEngine.recordHoldReview(prev, review));
   }, []);
 
+  const autoplay = useAutoplay(state, setState, {
+    dealHand,
+    drawParallelHands: gameActions.drawParallelHands,
+    returnToPreDraw,
+    proceedFromResults,
+  });
+
   const cheatAddCredits = useCallback((amount: number) => {
     playSound('cheater');
-    setState((prev) => ({
-      ...prev,
-      credits: prev.credits + amount,
-      gameOver: false,
-      gameOverReason: null,
-    }));
+    setState((prev) => GameEngine.cheatAddCredits(prev, amount));
   }, [playSound]);
 
   const cheatAddHands = useCallback((amount: number) => {
     playSound('cheater');
-    setState((prev) => {
-      const newHandCount = prev.handCount + amount;
-      return {
-        ...prev,
-        handCount: newHandCount,
-        selectedHandCount: newHandCount,
-      };
-    });
+    setState((prev) => GameEngine.cheatAddHands(prev, amount));
   }, [playSound]);
 
   const cheatSetDevilsDeal = useCallback(() => {
     playSound('cheater');
-    setState((prev) => ({
-      ...prev,
-      devilsDealChancePurchases: 19, // 5% * 19 = 95%, base 5% = 100%
-      devilsDealCostReductionPurchases: 15, // 6% * 15 = 90%, base 10% - 90% = 1%
-    }));
+    setState((prev) => GameEngine.cheatSetDevilsDeal(prev));
   }, [playSound]);
 
   const updateStreakCounter = useCallback((
     newStreakCount: number,
-    roundSummary?: { highestCombo: number; highestMultiplier: number }
+    roundSummary?: StreakRoundSummary
   ) => {
-    setState((prev) => ({
-      ...prev,
-      streakCounter: newStreakCount,
-      currentStreakMultiplier: calculateStreakMultiplier(newStreakCount),
-      runHighestCombo: Math.max(prev.runHighestCombo, roundSummary?.highestCombo ?? newStreakCount),
-      runHighestMultiplier: Math.max(
-        prev.runHighestMultiplier,
-        roundSummary?.highestMultiplier ?? calculateStreakMultiplier(newStreakCount)
-      ),
-    }));
+    setState((prev) => GameEngine.updateStreakCounter(prev, newStreakCount, roundSummary));
   }, []);
 
   const toggleMusic = useCallback(() => {
@@ -673,22 +510,18 @@ export function useGameState() {
   }, [state.cardTheme]);
 
   const toggleDevilsDealHold = useCallback(() => {
-    setState((prev) => {
-      // Can't hold devil's deal if already holding 5 cards (hand is full)
-      if (prev.heldIndices.length >= 5 && !prev.devilsDealHeld) {
-        return prev;
-      }
-      return {
-        ...prev,
-        devilsDealHeld: !prev.devilsDealHeld,
-      };
-    });
+    setState((prev) => GameEngine.toggleDevilsDealHold(prev));
   }, []);
 
   return {
     state,
+    hasSavedRun,
+    savedRunGameModeId,
+    selectedGameModeId,
+    customGameModes,
     // Game actions
     ...gameActions,
+    dealHand,
     // Shop actions
     ...shopActions,
     // Navigation and other actions
@@ -697,13 +530,24 @@ export function useGameState() {
     upgradeRewardTable,
     returnToMenu,
     returnToPreDraw,
+    selectGameMode,
+    saveCustomGameMode,
+    deleteCustomGameMode,
     startNewRun,
+    startDailyChallenge,
+    continueRun,
+    importRun,
     endRun,
     buyAnotherHand,
     setBetAmount,
     setSelectedHandCount,
     moveToNextScreen,
     proceedFromResults,
+    recordHoldReview,
+    autoplay,
+    tutorial,
+    puzzle,
+    tips,
     cheatAddCredits,
     cheatAddHands,
     cheatSetDevilsDeal,
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GameState } from '../types';
+import { Puzzle } from '../config/puzzlesConfig';
+import {
+  DEFAULT_GAME_MODE_ID,
+  GameModeId,
+  getCurrentGameModeId,
+  setCurrentGameModeId,
+} from '../config/gameConfig';
+import { GameEngine } from '../utils/gameEngine';
+import {
+  PuzzleOutcome,
+  PuzzleStars,
+  getPuzzle,
+  getPuzzleOutcome,
+  loadPuzzleStars,
+  recordPuzzleStars,
+  startPuzzleRun,
+} from '../utils/puzzles';
+
+export interface PuzzlePlay {
+  /** Puzzle being played; null while no puzzle is running */
+  puzzle: Puzzle | null;
+  /** How the attempt ended; null while its goal is still open. Kept once decided */
+  outcome: PuzzleOutcome | null;
+  /** Best stars earned per puzzle */
+  stars: PuzzleStars;
+  start: (puzzleId: string) => void;
+  /** Start the running puzzle over */
+  retry: () => void;
+  /** Leave the puzzle for the main menu */
+  exit: () => void;
+}
+
+/**
+ * Hook for puzzles: runs a puzzle's run in the default mode on the real game screens, checks
+ * each state against its goal and keeps the best star rating. The puzzle's hand is dealt by
+ * useGameState through utils/puzzles.
+ *
+ * @param state - Current game state
+ * @param setState - React state setter function
+ * @returns The running puzzle, its outcome and controls
+ *
+ * @example
+ * ```tsx
+ * const puzzle = usePuzzle(state, setState);
+ * puzzle.start('flush-or-pair');
+ * ```
+ */
+export function usePuzzle(
+  state: GameState,
+  setState: React.Dispatch<React.SetStateAction<GameState>>
+): PuzzlePlay {
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [outcome, setOutcome] = useState<PuzzleOutcome | null>(null);
+  const [stars, setStars] = useState<PuzzleStars>(loadPuzzleStars);
+  // Mode that was active before the puzzle switched to the default mode
+  const previousGameModeIdRef = useRef<GameModeId>(DEFAULT_GAME_MODE_ID);
+
+  const start = useCallback((puzzleId: string) => {
+    const next = getPuzzle(puzzleId);
+    if (!next) return;
+    previousGameModeIdRef.current = getCurrentGameModeId();
+    setCurrentGameModeId(DEFAULT_GAME_MODE_ID);
+    setPuzzle(next);
+    setOutcome(null);
+    setState((prev) => startPuzzleRun(prev, next));
+  }, [setState]);
+
+  const retry = useCallback(() => {
+    if (!puzzle) return;
+    setOutcome(null);
+    setState((prev) => startPuzzleRun(prev, puzzle));
+  }, [puzzle, setState]);
+
+  const stop = useCallback(() => {
+    setPuzzle(null);
+    setOutcome(null);
+    setCurrentGameModeId(previousGameModeIdRef.current);
+  }, []);
+
+  const exit = useCallback(() => {
+    stop();
+    setState((prev) =>
+      GameEngine.createInitialState({
+        audioSettings: prev.audioSettings,
+        animationSpeedMode: prev.animationSpeedMode,
+        cardTheme: prev.cardTheme,
+      })
+    );
+  }, [setState, stop]);
+
+  useEffect(() => {
+    if (!puzzle || outcome) return;
+    // Left through the game's own menu button
+    if (state.screen === 'menu') {
+      stop();
+      return;
+    }
+    const decided = getPuzzleOutcome(puzzle, state);
+    if (decided) {
+      setOutcome(decided);
+      setStars(recordPuzzleStars(puzzle.id, decided.stars));
+    }
+  }, [puzzle, outcome, state, stop]);
+
+  return { puzzle, outcome, stars, start, retry, exit };
+}
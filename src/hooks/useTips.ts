@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GameState } from '../types';
+import { Tip, TipId, TIPS } from '../config/tipsConfig';
+import { getTriggeredTips, loadSeenTips, markTipSeen } from '../utils/tips';
+
+export interface Tips {
+  /** Tip to show; null when none is waiting */
+  tip: Tip | null;
+  /** Close the shown tip for good; the next waiting tip, if any, is shown */
+  dismiss: () => void;
+}
+
+/**
+ * Hook for first-time tips: watches game state changes for the events in config/tipsConfig and
+ * queues each unseen tip the first time its event happens. A tip counts as seen once dismissed.
+ *
+ * @param state - Current game state
+ * @param enabled - Watch for tips; changes made while disabled never trigger one
+ * @returns The tip to show and a way to dismiss it
+ *
+ * @example
+ * ```tsx
+ * const tips = useTips(state, !tutorial.isActive);
+ * {tips.tip && <GameTip tip={tips.tip} onDismiss={tips.dismiss} />}
+ * ```
+ */
+export function useTips(state: GameState, enabled: boolean): Tips {
+  const [seen, setSeen] = useState<TipId[]>(loadSeenTips);
+  const [queue, setQueue] = useState<TipId[]>([]);
+  const prevStateRef = useRef(state);
+
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+    if (!enabled || prev === state) return;
+
+    const triggered = getTriggeredTips(prev, state, seen).map((tip) => tip.id);
+    if (triggered.length > 0) {
+      setQueue((current) => [...current, ...triggered.filter((id) => !current.includes(id))]);
+    }
+  }, [state, enabled, seen]);
+
+  const dismiss = useCallback(() => {
+    const [id] = queue;
+    if (!id) return;
+    setSeen(markTipSeen(id));
+    setQueue((current) => current.filter((queued) => queued !== id));
+  }, [queue]);
+
+  return {
+    tip: TIPS.find((tip) => tip.id === queue[0]) ?? null,
+    dismiss,
+  };
+}
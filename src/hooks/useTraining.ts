@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from 'react';
+import { GameState, HoldReview } from '../types';
+import { GameEngine } from '../utils/gameEngine';
+import { createRunSeed } from '../utils/rng';
+import {
+  appendTrainingHistory,
+  createTrainingAttempt,
+  createTrainingTable,
+  dealTrainingHand,
+  DEFAULT_TRAINING_SETTINGS,
+  gradeTrainingHold,
+  loadTrainingHistory,
+  TrainingAttempt,
+  TrainingSettings,
+} from '../utils/training';
+
+export interface Training {
+  settings: TrainingSettings;
+  /** The drill hand, as a game state the GameTable can show */
+  table: GameState;
+  /** Grade of the submitted hold; null while the hold is being chosen */
+  review: HoldReview | null;
+  isGrading: boolean;
+  /** Graded hands, oldest first */
+  history: TrainingAttempt[];
+  /** Change the drill; a new hand is dealt with the new settings */
+  updateSettings: (settings: Partial<TrainingSettings>) => void;
+  toggleHold: (index: number) => void;
+  submitHold: () => void;
+  nextHand: () => void;
+}
+
+/**
+ * Hook for the training drill: deals drill hands onto a table of its own, so a saved run is
+ * never touched, grades the submitted hold and appends it to the stored training history.
+ *
+ * @param seed - Seed for the drill deals; a fresh one by default
+ * @returns Drill settings, the table, the grade of the last hold and the controls
+ *
+ * @example
+ * ```tsx
+ * const training = useTraining();
+ * training.updateSettings({ focus: 'low-pair', extraCardsInHand: 1 });
+ * training.toggleHold(0);
+ * training.submitHold();
+ * ```
+ */
+export function useTraining(seed?: number): Training {
+  const [settings, setSettings] = useState<TrainingSettings>(DEFAULT_TRAINING_SETTINGS);
+  const [table, setTable] = useState(() =>
+    dealTrainingHand(createTrainingTable(seed ?? createRunSeed()), DEFAULT_TRAINING_SETTINGS)
+  );
+  const [review, setReview] = useState<HoldReview | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [history, setHistory] = useState<TrainingAttempt[]>(loadTrainingHistory);
+
+  const updateSettings = useCallback(
+    (update: Partial<TrainingSettings>) => {
+      const next = { ...settings, ...update };
+      setSettings(next);
+      setTable((prev) => dealTrainingHand(prev, next));
+      setReview(null);
+      setIsGrading(false);
+    },
+    [settings]
+  );
+
+  const toggleHold = useCallback(
+    (index: number) => {
+      if (review || isGrading) return;
+      setTable((prev) => GameEngine.toggleHold(prev, index));
+    },
+    [review, isGrading]
+  );
+
+  const submitHold = useCallback(() => {
+    if (!review) setIsGrading(true);
+  }, [review]);
+
+  const nextHand = useCallback(() => {
+    setTable((prev) => dealTrainingHand(prev, settings));
+    setReview(null);
+    setIsGrading(false);
+  }, [settings]);
+
+  // Defer grading a tick so "Grading..." paints before the main thread is busy
+  useEffect(() => {
+    if (!isGrading) return;
+    const timer = setTimeout(() => {
+      const next = gradeTrainingHold(table);
+      if (next) {
+        setReview(next);
+        setHistory(appendTrainingHistory(createTrainingAttempt(settings, next, Date.now())));
+      }
+      setIsGrading(false);
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [isGrading, table, settings]);
+
+  return {
+    settings,
+    table,
+    review,
+    isGrading,
+    history,
+    updateSettings,
+    toggleHold,
+    submitHold,
+    nextHand,
+  };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GameState } from '../types';
+import { TUTORIAL_STEPS, TutorialStep } from '../config/tutorialConfig';
+import {
+  DEFAULT_GAME_MODE_ID,
+  GameModeId,
+  getCurrentGameModeId,
+  setCurrentGameModeId,
+} from '../config/gameConfig';
+import { GameEngine } from '../utils/gameEngine';
+import { isTutorialCompleted, setTutorialCompleted, startTutorialRun } from '../utils/tutorial';
+
+export interface Tutorial {
+  isActive: boolean;
+  /** Finished once; the menu offers the tutorial to players who have not */
+  isCompleted: boolean;
+  stepIndex: number;
+  /** Current step; null while the tutorial is not running */
+  step: TutorialStep | null;
+  start: () => void;
+  /** Go past a step that has no action to wait for; finishes the tutorial on the last step */
+  next: () => void;
+  /** Leave the tutorial for the main menu without finishing it */
+  exit: () => void;
+}
+
+/**
+ * Hook for the playable tutorial: runs a scripted run in the default mode on the real game
+ * screens and moves to the next step once the state shows the player did what the step asked.
+ * The scripted deals and shop are applied by useGameState through utils/tutorial.
+ *
+ * @param state - Current game state
+ * @param setState - React state setter function
+ * @returns Tutorial status, the current step and controls
+ *
+ * @example
+ * ```tsx
+ * const tutorial = useTutorial(state, setState);
+ * tutorial.start();
+ * ```
+ */
+export function useTutorial(
+  state: GameState,
+  setState: React.Dispatch<React.SetStateAction<GameState>>
+): Tutorial {
+  const [isActive, setIsActive] = useState(false);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isCompleted, setIsCompleted] = useState(isTutorialCompleted);
+  // Mode that was active before the tutorial switched to the default mode
+  const previousGameModeIdRef = useRef<GameModeId>(DEFAULT_GAME_MODE_ID);
+
+  const start = useCallback(() => {
+    previousGameModeIdRef.current = getCurrentGameModeId();
+    setCurrentGameModeId(DEFAULT_GAME_MODE_ID);
+    setStepIndex(0);
+    setIsActive(true);
+    setState((prev) => startTutorialRun(prev));
+  }, [setState]);
+
+  const stop = useCallback(() => {
+    setIsActive(false);
+    setCurrentGameModeId(previousGameModeIdRef.current);
+  }, []);
+
+  const exit = useCallback(() => {
+    stop();
+    setState((prev) =>
+      GameEngine.createInitialState({
+        audioSettings: prev.audioSettings,
+        animationSpeedMode: prev.animationSpeedMode,
+        cardTheme: prev.cardTheme,
+      })
+    );
+  }, [setState, stop]);
+
+  const next = useCallback(() => {
+    const step = TUTORIAL_STEPS[stepIndex];
+    if (!isActive || step.isComplete) return;
+    if (stepIndex < TUTORIAL_STEPS.length - 1) {
+      setStepIndex(stepIndex + 1);
+      return;
+    }
+    setTutorialCompleted();
+    setIsCompleted(true);
+    exit();
+  }, [isActive, stepIndex, exit]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    // Left through the game's own menu button
+    if (state.screen === 'menu') {
+      stop();
+      return;
+    }
+    if (TUTORIAL_STEPS[stepIndex].isComplete?.(state)) {
+      setStepIndex((prev) => prev + 1);
+    }
+  }, [isActive, state, stepIndex, stop]);
+
+  return {
+    isActive,
+    isCompleted,
+    stepIndex,
+    step: isActive ? TUTORIAL_STEPS[stepIndex] : null,
+    start,
+    next,
+    exit,
+  };
+}
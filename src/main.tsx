@@ -1,11 +1,31 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App.tsx';
+import { ErrorScreen } from './components/ErrorScreen';
+import { assertValidGameConfig } from './config/gameConfig';
+import { logger } from './utils/logger';
 import './styles/global.css';
 import './themes/Classic/theme.scss';
 
+// A broken config must stop the game before a run starts with an empty shop or a NaN bet
+let configError: Error | null = null;
+try {
+  assertValidGameConfig();
+} catch (error) {
+  configError = error as Error;
+  logger.error(configError.message);
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {configError ? (
+      <ErrorScreen
+        error={configError}
+        errorMessage="The game configuration is invalid."
+        showDetails
+      />
+    ) : (
+      <App />
+    )}
   </React.StrictMode>
 );
@@ -2,7 +2,7 @@
  * Shared test helpers for Pokerthing tests.
  * Uses getCurrentGameMode() for config-derived values to keep tests in sync with game config.
  */
-import { GameState, Card, Hand } from '../types';
+import { GameState, Card, Hand, RoundRecord } from '../types';
 import { getCurrentGameMode } from '../config/gameConfig';
 
 const mode = getCurrentGameMode();
@@ -27,10 +27,12 @@ export function createTestGameState(overrides: Partial<GameState> = {}): GameSta
     playerHand: [],
     heldIndices: [],
     parallelHands: [],
+    parallelHandsResult: null,
     handCount: mode.startingHandCount,
     rewardTable: getTestRewardTable(),
     credits: mode.startingCredits,
     currentRun: 1,
+    runSeed: 12345,
     additionalHandsBought: 0,
     betAmount: mode.startingBet,
     selectedHandCount: mode.startingHandCount,
@@ -68,6 +70,13 @@ export function createTestGameState(overrides: Partial<GameState> = {}): GameSta
     currentStreakMultiplier: 1.0,
     runHighestCombo: 0,
     runHighestMultiplier: 1.0,
+    gameModeId: 'normalGame',
+    dailyChallengeDate: null,
+    cheatsUsed: false,
+    runPeakCredits: mode.startingCredits,
+    runPurchases: {},
+    roundHistory: [],
+    roundLog: null,
     audioSettings: {
       musicEnabled: true,
       soundEffectsEnabled: true,
@@ -103,3 +112,30 @@ export function createTestHand(cards: Card[], id?: string): Hand {
     id: id || `hand-${Math.random()}`,
   };
 }
+
+/** Creates a hand history record for tests; credits grow by one per round. */
+export function createTestRoundRecord(
+  round: number,
+  overrides: Partial<RoundRecord> = {}
+): RoundRecord {
+  return {
+    creditsBefore: 1000,
+    dealtHand: [],
+    draws: [],
+    parallelHandsJob: null,
+    holdReview: null,
+    round,
+    betAmount: 5,
+    minimumBet: 2,
+    handCount: 10,
+    availableHandCount: 20,
+    handsWon: 4,
+    devilsDeal: null,
+    rankCounts: {},
+    payout: 50,
+    highestCombo: 0,
+    highestMultiplier: 1,
+    creditsAfter: 1000 + round,
+    ...overrides,
+  };
+}
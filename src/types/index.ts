@@ -1,3 +1,6 @@
+import type { ParallelHandsJob } from '../utils/parallelHandsRound';
+import type { RoundComboSummary } from '../utils/streakCalculator';
+
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
 export type Rank = '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
 
@@ -34,6 +37,75 @@ export interface HandResult {
   winningCards: Card[];
 }
 
+/** Rank and reward multiplier of a scored hand. */
+export interface HandScore {
+  rank: HandRank;
+  multiplier: number;
+}
+
+/** Scores and summary for a round's parallel hands, computed when the hands are generated. */
+export interface ParallelHandsResult {
+  /** One score per parallel hand, in play order */
+  scores: HandScore[];
+  summary: RoundComboSummary;
+}
+
+/** One draw step of a round: the cards held for it and the player's hand after it. */
+export interface RoundDraw {
+  heldIndices: number[];
+  hand: Card[];
+}
+
+/** How the hold of a round's last draw compared with the best hold; see utils/holdReview. */
+export interface HoldReview {
+  /** Indices into the hand on the table at the last draw */
+  heldIndices: number[];
+  bestHeldIndices: number[];
+  /** Expected credits across the round's parallel hands, before the streak multiplier */
+  expectedReturn: number;
+  bestExpectedReturn: number;
+}
+
+/** The round being played, recorded as it goes; see utils/roundHistory. */
+export interface RoundLog {
+  /** Credits before the bet was taken */
+  creditsBefore: number;
+  dealtHand: Card[];
+  draws: RoundDraw[];
+  /** Regenerates the round's parallel hands; set by the last draw */
+  parallelHandsJob: ParallelHandsJob | null;
+  /** Set when the player reviews the round's hold on the Results screen */
+  holdReview: HoldReview | null;
+}
+
+/** Devil's Deal offered in a round. */
+export interface RoundDevilsDeal {
+  card: Card;
+  cost: number;
+  taken: boolean;
+}
+
+/** A finished round in the run's hand history. */
+export interface RoundRecord extends RoundLog {
+  round: number;
+  betAmount: number;
+  minimumBet: number;
+  /** Parallel hands played */
+  handCount: number;
+  /** Parallel hands owned */
+  availableHandCount: number;
+  /** Parallel hands that paid out */
+  handsWon: number;
+  devilsDeal: RoundDevilsDeal | null;
+  /** Parallel hands per rank */
+  rankCounts: Partial<Record<HandRank, number>>;
+  payout: number;
+  highestCombo: number;
+  highestMultiplier: number;
+  /** Credits after the payout */
+  creditsAfter: number;
+}
+
 export interface RewardTable {
   [key: string]: number; // HandRank -> multiplier
 }
@@ -65,6 +137,9 @@ export type ShopOptionType =
   | 'devils-deal-cost-reduction'
   | 'extra-card-in-hand';
 
+/** Shop purchases made during a run, counted per shop option. */
+export type RunPurchases = Partial<Record<ShopOptionType, number>>;
+
 export type GamePhase = 'preDraw' | 'playing' | 'parallelHandsAnimation' | 'results';
 
 export interface DeckModifications {
@@ -130,10 +205,18 @@ export interface GameState {
   playerHand: Card[];
   heldIndices: number[];
   parallelHands: Hand[];
+  /** Precomputed scores for parallelHands; null when not generated this session (e.g. resumed). */
+  parallelHandsResult: ParallelHandsResult | null;
   handCount: number;
   rewardTable: RewardTable;
   credits: number;
   currentRun: number;
+  /**
+   * Seed the current run was started from. Every random decision is drawn from generators
+   * derived from it per purpose and round (see utils/rng), so a round's deal, shop offers and
+   * Devil's Deal roll don't depend on how the earlier rounds were played.
+   */
+  runSeed: number;
   additionalHandsBought: number;
   betAmount: number;
   selectedHandCount: number;
@@ -172,6 +255,20 @@ export interface GameState {
   currentStreakMultiplier: number; // Current active streak multiplier (1.0, 1.5, 2.0, etc.)
   runHighestCombo: number; // Best combo streak reached during the current run
   runHighestMultiplier: number; // Best streak multiplier reached during the current run
+  /** Game mode the run is played in (key of gameConfig.gameModes). */
+  gameModeId: string;
+  /** Local date (YYYY-MM-DD) of the daily challenge this run is the scored attempt for. */
+  dailyChallengeDate: string | null;
+  /** Whether a Settings cheat was used this run; cheated runs stay off ranked leaderboards. */
+  cheatsUsed: boolean;
+  /** Highest credit balance reached during the current run. */
+  runPeakCredits: number;
+  /** Shop purchases made during the current run. */
+  runPurchases: RunPurchases;
+  /** Finished rounds of the current run, oldest first (the last ROUND_HISTORY_LIMIT). */
+  roundHistory: RoundRecord[];
+  /** The round being played; null between rounds. */
+  roundLog: RoundLog | null;
   audioSettings: {
     musicEnabled: boolean;
     soundEffectsEnabled: boolean;
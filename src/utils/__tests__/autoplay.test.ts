@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AUTOPLAY_STRATEGIES,
+  AutoplaySettings,
+  DEFAULT_AUTOPLAY_SETTINGS,
+  getAutoplayStep,
+  getAutoplayStepDelay,
+  getAutoplayStrategy,
+} from '../autoplay';
+import { GameEngine } from '../gameEngine';
+import { GameState } from '../../types';
+
+const UNLIMITED: AutoplaySettings = {
+  ...DEFAULT_AUTOPLAY_SETTINGS,
+  rounds: null,
+  stopBelowCredits: null,
+  stopAtEndlessMode: false,
+};
+
+function startRun(): GameState {
+  return GameEngine.startNewRun(GameEngine.createInitialState(), 42);
+}
+
+describe('autoplay', () => {
+  describe('getAutoplayStrategy', () => {
+    it('finds strategies by id', () => {
+      expect(getAutoplayStrategy('optimal').hold).toBe('advisor');
+      expect(getAutoplayStrategy('hold-pairs').devilsDeal).toBe('never');
+      expect(new Set(AUTOPLAY_STRATEGIES.map((strategy) => strategy.id)).size).toBe(
+        AUTOPLAY_STRATEGIES.length
+      );
+    });
+  });
+
+  describe('getAutoplayStep', () => {
+    it('plays a round through deal, draw and collect', () => {
+      let state = startRun();
+      expect(getAutoplayStep(state, UNLIMITED, 0)).toEqual({ type: 'deal' });
+
+      state = GameEngine.dealHand(state);
+      expect(getAutoplayStep(state, UNLIMITED, 0)).toEqual({ type: 'draw' });
+      expect(getAutoplayStep({ ...state, isGeneratingHands: true }, UNLIMITED, 0)).toEqual({
+        type: 'wait',
+      });
+
+      state = GameEngine.drawParallelHands(state);
+      expect(getAutoplayStep(state, UNLIMITED, 0)).toEqual({ type: 'wait' });
+
+      state = GameEngine.moveToNextScreen(state);
+      expect(getAutoplayStep(state, UNLIMITED, 0)).toEqual({
+        type: 'collect',
+        payout: state.parallelHandsResult?.summary.totalPayout,
+      });
+    });
+
+    it('shops before the next deal', () => {
+      const state = { ...startRun(), showShopNextRound: true };
+      expect(getAutoplayStep(state, { ...UNLIMITED, rounds: 1 }, 1)).toEqual({ type: 'shop' });
+    });
+
+    it('checks stop conditions before dealing', () => {
+      const state = startRun();
+      expect(getAutoplayStep(state, { ...UNLIMITED, rounds: 3 }, 3)).toEqual({
+        type: 'stop',
+        reason: 'rounds-played',
+      });
+      expect(
+        getAutoplayStep(state, { ...UNLIMITED, stopBelowCredits: state.credits + 1 }, 0)
+      ).toEqual({ type: 'stop', reason: 'low-credits' });
+      expect(
+        getAutoplayStep(
+          { ...state, isEndlessMode: true },
+          { ...UNLIMITED, stopAtEndlessMode: true },
+          0
+        )
+      ).toEqual({ type: 'stop', reason: 'endless-mode' });
+      expect(
+        getAutoplayStep(
+          { ...state, betAmount: state.credits / state.selectedHandCount + 1 },
+          UNLIMITED,
+          0
+        )
+      ).toEqual({ type: 'stop', reason: 'bet-unaffordable' });
+    });
+
+    it('finishes a started round whatever the stop conditions', () => {
+      const state = GameEngine.dealHand(startRun());
+      expect(getAutoplayStep(state, { ...UNLIMITED, rounds: 0 }, 0)).toEqual({ type: 'draw' });
+    });
+
+    it('leaves an unaffordable round for PreDraw to end, then stops on game over', () => {
+      const broke = { ...startRun(), credits: 0 };
+      expect(getAutoplayStep(broke, UNLIMITED, 0)).toEqual({ type: 'wait' });
+      const ended = GameEngine.endRun(broke, 'insufficient-credits');
+      expect(getAutoplayStep(ended, UNLIMITED, 0)).toEqual({ type: 'stop', reason: 'game-over' });
+    });
+
+    it('stops when the player leaves the game', () => {
+      expect(getAutoplayStep(GameEngine.createInitialState(), UNLIMITED, 0)).toEqual({
+        type: 'stop',
+        reason: 'stopped',
+      });
+    });
+  });
+
+  describe('getAutoplayStepDelay', () => {
+    it('scales with the speed and is immediate when skipping', () => {
+      expect(getAutoplayStepDelay(1)).toBe(600);
+      expect(getAutoplayStepDelay(4)).toBe(150);
+      expect(getAutoplayStepDelay('skip')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_SIMULATION_STRATEGY,
+  runSimulation,
+  simulateRun,
+  summarizeDistribution,
+} from '../balanceSimulation';
+import {
+  getCurrentGameModeId,
+  getCustomGameModes,
+  getGameMode,
+  resolveGameModeOverrides,
+  setCurrentGameModeId,
+} from '../../config/gameConfig';
+
+describe('balanceSimulation', () => {
+  afterEach(() => {
+    setCurrentGameModeId('normalGame');
+  });
+
+  describe('summarizeDistribution', () => {
+    it('reports nearest-rank percentiles', () => {
+      const values = Array.from({ length: 100 }, (_, i) => 100 - i);
+      expect(summarizeDistribution(values)).toEqual({
+        min: 1,
+        p10: 11,
+        median: 51,
+        p90: 91,
+        max: 100,
+        mean: 50.5,
+      });
+    });
+  });
+
+  describe('simulateRun', () => {
+    it('replays the same run from the same seed', () => {
+      const first = simulateRun(7, DEFAULT_SIMULATION_STRATEGY, 40);
+      expect(simulateRun(7, DEFAULT_SIMULATION_STRATEGY, 40)).toEqual(first);
+      expect(first.creditsByRound).toHaveLength(first.roundsSurvived);
+    });
+
+    it('stops at the round limit', () => {
+      const run = simulateRun(3, DEFAULT_SIMULATION_STRATEGY, 2);
+      expect(run.roundsSurvived).toBe(2);
+      expect(run.endReason).toBe('round-limit');
+      expect(run.failureState).toBeNull();
+    });
+
+    it('ends the run when the minimum bet for the chosen hands is unaffordable', () => {
+      const run = simulateRun(3, { ...DEFAULT_SIMULATION_STRATEGY, betShare: 1 }, 40);
+      expect(run.endReason).toBe('insufficient-credits');
+      expect(run.roundsSurvived).toBeGreaterThan(0);
+    });
+  });
+
+  describe('runSimulation', () => {
+    it('plays the given mode and restores the active one', () => {
+      setCurrentGameModeId('hardMode');
+      const report = runSimulation({
+        mode: resolveGameModeOverrides({ displayName: 'Broke', startingCredits: 10 }),
+        runs: 5,
+        seed: 1,
+        maxRounds: 10,
+      });
+
+      expect(report.modeName).toBe('Broke');
+      expect(report.endReasons).toEqual({ 'insufficient-credits': 5 });
+      expect(report.roundsSurvived.max).toBe(0);
+      expect(report.creditsByRound).toEqual([]);
+      expect(getCurrentGameModeId()).toBe('hardMode');
+      expect(getCustomGameModes()).toEqual([]);
+    });
+
+    it('counts endless mode failure states and credits per round', () => {
+      const mode = getGameMode('normalGame');
+      const report = runSimulation({
+        mode: {
+          ...mode,
+          endlessMode: {
+            ...mode.endlessMode,
+            startRound: 2,
+            failureConditions: {
+              ...mode.endlessMode.failureConditions,
+              minimumWinPercent: {
+                enabled: true,
+                startPercent: 100,
+                incrementPerRound: 0,
+                maxPercent: 100,
+              },
+            },
+          },
+        },
+        runs: 4,
+        seed: 11,
+        maxRounds: 10,
+      });
+
+      expect(report.endReasons).toEqual({ 'minimum-win-percent': 4 });
+      expect(report.failureStates['minimum-win-percent'].runs).toBe(4);
+      // Checked from the end of the endless start round
+      expect(report.failureStates['minimum-win-percent'].rounds?.min).toBeGreaterThanOrEqual(2);
+      expect(report.failureStates['minimum-bet-multiplier']).toEqual({ runs: 0, rounds: null });
+      expect(report.creditsByRound[1]).toMatchObject({ round: 2, runs: 4 });
+    });
+
+    it('rejects invalid modes and run counts', () => {
+      expect(() =>
+        runSimulation({
+          mode: resolveGameModeOverrides({ startingCredits: -1 }),
+          runs: 1,
+          seed: 1,
+          maxRounds: 1,
+        })
+      ).toThrow('startingCredits');
+      expect(() => runSimulation({ runs: 0, seed: 1, maxRounds: 1 })).toThrow('runs');
+      expect(getCurrentGameModeId()).toBe('normalGame');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buyShopOptions,
+  chooseHolds,
+  chooseSimpleHolds,
+  prepareDraw,
+  shouldTakeDevilsDeal,
+} from '../botPlay';
+import { createRng } from '../rng';
+import { createTestCard, createTestGameState } from '../../test/testHelpers';
+
+const neverRandom = () => {
+  throw new Error('not a random decision');
+};
+
+describe('botPlay', () => {
+  describe('chooseSimpleHolds', () => {
+    it('keeps a made hand whole', () => {
+      const straight = [
+        createTestCard('9', 'hearts'),
+        createTestCard('10', 'clubs'),
+        createTestCard('J', 'spades'),
+        createTestCard('Q', 'hearts'),
+        createTestCard('K', 'diamonds'),
+      ];
+      expect(chooseSimpleHolds(straight, 11)).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('holds pairs with wild cards, low pairs included', () => {
+      const hand = [
+        createTestCard('4', 'hearts'),
+        createTestCard('A', 'clubs', { isWild: true }),
+        createTestCard('4', 'spades'),
+        createTestCard('Q', 'hearts'),
+        createTestCard('8', 'diamonds'),
+      ];
+      expect(chooseSimpleHolds(hand, 11)).toEqual([0, 1, 2]);
+    });
+
+    it('holds four to a flush, then high cards, and never a dead card', () => {
+      const flushDraw = [
+        createTestCard('2', 'hearts'),
+        createTestCard('7', 'hearts'),
+        createTestCard('K', 'clubs'),
+        createTestCard('9', 'hearts'),
+        createTestCard('J', 'hearts'),
+      ];
+      expect(chooseSimpleHolds(flushDraw, 11)).toEqual([0, 1, 3, 4]);
+
+      const highCards = [
+        createTestCard('2', 'hearts'),
+        createTestCard('A', 'spades', { isDead: true }),
+        createTestCard('K', 'clubs'),
+        createTestCard('9', 'diamonds'),
+        createTestCard('J', 'hearts'),
+      ];
+      expect(chooseSimpleHolds(highCards, 11)).toEqual([2, 4]);
+    });
+
+    it("leaves room for a Devil's Deal card", () => {
+      const trips = [
+        createTestCard('K', 'hearts'),
+        createTestCard('K', 'clubs'),
+        createTestCard('K', 'spades'),
+        createTestCard('A', 'clubs', { isWild: true }),
+        createTestCard('3', 'diamonds'),
+      ];
+      expect(chooseSimpleHolds(trips, 11, 4)).toHaveLength(4);
+    });
+
+    it('picks the best five of a bigger hand', () => {
+      const hand = [
+        createTestCard('2', 'clubs'),
+        createTestCard('5', 'hearts'),
+        createTestCard('6', 'hearts'),
+        createTestCard('7', 'hearts'),
+        createTestCard('K', 'spades'),
+        createTestCard('8', 'hearts'),
+        createTestCard('9', 'hearts'),
+      ];
+      expect(chooseSimpleHolds(hand, 11)).toEqual([1, 2, 3, 5, 6]);
+    });
+  });
+
+  describe('chooseHolds', () => {
+    const state = createTestGameState({
+      gamePhase: 'playing',
+      playerHand: [
+        createTestCard('A', 'hearts'),
+        createTestCard('A', 'spades'),
+        createTestCard('7', 'clubs'),
+        createTestCard('4', 'diamonds'),
+        createTestCard('2', 'hearts'),
+      ],
+    });
+
+    it('keeps the pair under the simple and advisor policies', () => {
+      expect(chooseHolds(state, 'simple', false, neverRandom)).toEqual([0, 1]);
+      expect(chooseHolds(state, 'advisor', false, neverRandom)).toEqual([0, 1]);
+      expect(chooseHolds(state, 'discard-all', false, neverRandom)).toEqual([]);
+    });
+
+    it("holds random cards, at most 4 with a Devil's Deal", () => {
+      const random = createRng(3).next;
+      for (let i = 0; i < 20; i++) {
+        const holds = chooseHolds(state, 'random', true, random);
+        expect(holds.length).toBeLessThanOrEqual(4);
+        expect(new Set(holds).size).toBe(holds.length);
+      }
+    });
+  });
+
+  describe("Devil's Deal", () => {
+    const offer = createTestGameState({
+      gamePhase: 'playing',
+      credits: 1000,
+      playerHand: [
+        createTestCard('K', 'hearts'),
+        createTestCard('K', 'spades'),
+        createTestCard('K', 'clubs'),
+        createTestCard('4', 'diamonds'),
+        createTestCard('2', 'hearts'),
+      ],
+      devilsDealCard: createTestCard('K', 'diamonds'),
+      devilsDealCost: 10,
+    });
+
+    it('takes a cheap deal that beats the best hold', () => {
+      expect(shouldTakeDevilsDeal(offer, 'advisor', neverRandom)).toBe(true);
+      expect(shouldTakeDevilsDeal({ ...offer, devilsDealCost: 900 }, 'advisor', neverRandom)).toBe(
+        false
+      );
+      expect(shouldTakeDevilsDeal(offer, 'never', neverRandom)).toBe(false);
+    });
+
+    it('never takes a deal it cannot pay for', () => {
+      expect(shouldTakeDevilsDeal({ ...offer, credits: 5 }, 'always', neverRandom)).toBe(false);
+    });
+
+    it('sets the holds and the deal card for the final draw', () => {
+      const prepared = prepareDraw({ ...offer, heldIndices: [4] }, 'simple', 'always', neverRandom);
+      expect(prepared.heldIndices).toEqual([0, 1, 2]);
+      expect(prepared.devilsDealHeld).toBe(true);
+    });
+
+    it('leaves the deal for the last of several draws', () => {
+      const firstOfTwo = { ...offer, maxDraws: 2, drawsCompletedThisRound: 0 };
+      const prepared = prepareDraw(firstOfTwo, 'simple', 'always', neverRandom);
+      expect(prepared.devilsDealHeld).toBe(false);
+      expect(prepared.heldIndices).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('buyShopOptions', () => {
+    it('buys offered options in priority order while keeping a reserve', () => {
+      const state = createTestGameState({
+        credits: 1000,
+        minimumBet: 10,
+        handCount: 10,
+        selectedShopOptions: ['parallel-hands-bundle-10', 'parallel-hands-bundle-5', 'wild-card'],
+      });
+      const next = buyShopOptions(
+        state,
+        ['extra-draw', 'parallel-hands-bundle-5', 'parallel-hands-bundle-10'],
+        5
+      );
+
+      expect(next.handCount).toBe(15);
+      expect(next.credits).toBeGreaterThanOrEqual(5 * 10 * 15);
+      expect(next.runPurchases).toEqual({ 'parallel-hands-bundle-5': 1 });
+    });
+  });
+});
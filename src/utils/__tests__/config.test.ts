@@ -1,6 +1,17 @@
-import { describe, it, expect } from 'vitest';
-import { getCreditsNeededForDisplayedRound, getCreditsNeededForNextRound } from '../config';
-import { getCurrentGameMode } from '../../config/gameConfig';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  getCreditsNeededForDisplayedRound,
+  getCreditsNeededForNextRound,
+} from '../config';
+import {
+  DEFAULT_GAME_MODE_ID,
+  gameConfig,
+  getCurrentGameMode,
+  getGameMode,
+  getGameModeIds,
+  isGameModeId,
+  setCurrentGameModeId,
+} from '../../config/gameConfig';
 
 describe('getCreditsNeededForNextRound', () => {
   const mode = getCurrentGameMode();
@@ -23,3 +34,36 @@ describe('getCreditsNeededForNextRound', () => {
     expect(getCreditsNeededForDisplayedRound(12, 5, 50)).toBe(60);
   });
 });
+
+describe('game modes', () => {
+  afterEach(() => {
+    setCurrentGameModeId(DEFAULT_GAME_MODE_ID);
+  });
+
+  it('ships Casual, Hard and Marathon alongside the default mode', () => {
+    expect(getGameModeIds()).toEqual(['normalGame', 'casualMode', 'hardMode', 'marathonMode']);
+    expect(isGameModeId('hardMode')).toBe(true);
+    expect(isGameModeId('toString')).toBe(false);
+  });
+
+  it('merges mode overrides over the default mode', () => {
+    const hard = getGameMode('hardMode');
+    expect(hard.startingCredits).toBe(3000);
+    expect(hard.shop.deadCard.creditReward).toBe(1500);
+    expect(hard.endlessMode.startRound).toBe(20);
+    // Untouched nested settings keep their defaults
+    expect(hard.shop.wildCard).toEqual(gameConfig.defaultGameMode.shop.wildCard);
+    expect(hard.endlessMode.failureConditions).toEqual(
+      gameConfig.defaultGameMode.endlessMode.failureConditions
+    );
+  });
+
+  it('drives cost and bet calculations from the active mode', () => {
+    const normalCost = getCreditsNeededForNextRound(5, 10, 10, 1, 1);
+    setCurrentGameModeId('marathonMode');
+    expect(getCurrentGameMode().displayName).toBe('Marathon');
+    // Marathon raises the minimum bet every 5 rounds instead of every 3
+    expect(getCreditsNeededForNextRound(5, 10, 10, 1, 1)).toBeGreaterThan(normalCost);
+    expect(getCreditsNeededForNextRound(6, 10, 10, 1, 1)).toBe(10);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  ConfigValidationError,
+  validateGameConfig,
+  validateGameModeConfig,
+} from '../configValidation';
+import { createCustomGameModeSettings } from '../customGameModes';
+import {
+  assertValidGameConfig,
+  gameConfig,
+  getGameMode,
+  resolveGameModeOverrides,
+  setCustomGameModes,
+} from '../../config/gameConfig';
+
+/** Deep copy of gameConfig with one path replaced. */
+function withConfigValue(path: string, value: unknown): Record<string, unknown> {
+  const copy = JSON.parse(JSON.stringify(gameConfig)) as Record<string, unknown>;
+  const keys = path.split('.');
+  const parent = keys
+    .slice(0, -1)
+    .reduce<Record<string, unknown>>((node, key) => node[key] as Record<string, unknown>, copy);
+  parent[keys[keys.length - 1]] = value;
+  return copy;
+}
+
+describe('configValidation', () => {
+  afterEach(() => {
+    setCustomGameModes([]);
+  });
+
+  it('accepts the shipped config and every built-in mode', () => {
+    expect(validateGameConfig(gameConfig)).toEqual([]);
+    expect(() => assertValidGameConfig()).not.toThrow();
+  });
+
+  describe('validateGameConfig', () => {
+    it('reports rarity chances that do not match maxRarity', () => {
+      const config = withConfigValue('shopOptions.default.shopSlots.2.rarityChances', [0.5, 0.5]);
+      expect(validateGameConfig(config)).toEqual([
+        {
+          path: 'shopOptions.default.shopSlots[2].rarityChances',
+          message: 'expected 3 chances for maxRarity 3, got 2',
+        },
+      ]);
+    });
+
+    it('reports rarity chances that do not sum to 1', () => {
+      const config = withConfigValue('shopOptions.premium.shopSlots.0.rarityChances', [
+        0.2, 0.2, 0.2,
+      ]);
+      expect(validateGameConfig(config)).toEqual([
+        {
+          path: 'shopOptions.premium.shopSlots[0].rarityChances',
+          message: 'chances must sum to 1, got 0.6',
+        },
+      ]);
+    });
+
+    it('reports unknown shop items', () => {
+      const config = withConfigValue('shopOptions.default.shopItems', {
+        'dead-card': { rarity: 1 },
+        'free-money': { rarity: 1 },
+      });
+      expect(validateGameConfig(config)).toEqual([
+        { path: 'shopOptions.default.shopItems.free-money', message: 'unknown shop item' },
+      ]);
+    });
+
+    it('reports beat phase ratios that do not add up to about one beat', () => {
+      const config = withConfigValue('animation.parallelHandsAbstractWave.cardsRatio', 0.9);
+      const issues = validateGameConfig(config);
+      expect(issues).toHaveLength(1);
+      expect(issues[0].path).toBe('animation.parallelHandsAbstractWave');
+      expect(issues[0].message).toContain('should sum to about 1');
+    });
+  });
+
+  describe('validateGameModeConfig', () => {
+    it('reports broken overrides with their full path', () => {
+      const mode = resolveGameModeOverrides({
+        startingBet: Number.NaN,
+        endlessMode: {
+          failureConditions: { minimumWinPercent: { startPercent: 50, maxPercent: 20 } },
+        },
+      });
+      expect(validateGameModeConfig(mode, 'gameModes.brokenMode')).toEqual([
+        { path: 'gameModes.brokenMode.startingBet', message: 'expected a finite number, got NaN' },
+        {
+          path: 'gameModes.brokenMode.endlessMode.failureConditions.minimumWinPercent.maxPercent',
+          message: 'must be at least startPercent (50), got 20',
+        },
+      ]);
+    });
+
+    it('requires a payout for every hand rank', () => {
+      const mode = { ...getGameMode('normalGame'), rewards: { flush: 6 } };
+      const paths = validateGameModeConfig(mode).map((issue) => issue.path);
+      expect(paths).toContain('rewards.royal-flush');
+      expect(paths).not.toContain('rewards.flush');
+    });
+  });
+
+  it('getGameMode fails loudly for an invalid mode', () => {
+    setCustomGameModes([
+      {
+        id: 'custom-broken',
+        settings: { ...createCustomGameModeSettings('normalGame'), shopFrequency: 0 },
+      },
+    ]);
+    expect(() => getGameMode('custom-broken')).toThrow(ConfigValidationError);
+    expect(() => getGameMode('custom-broken')).toThrow(
+      'customGameModes.custom-broken.shopFrequency: must be at least 1, got 0'
+    );
+    expect(() => getGameMode('custom-deleted')).toThrow('Unknown game mode: custom-deleted');
+  });
+});
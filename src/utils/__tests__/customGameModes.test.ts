@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CUSTOM_GAME_MODES_STORAGE_KEY,
+  createCustomGameModeId,
+  createCustomGameModeSettings,
+  deleteCustomGameMode,
+  loadCustomGameModes,
+  saveCustomGameMode,
+  setSettingAtPath,
+  validateCustomGameModeSettings,
+} from '../customGameModes';
+import {
+  CustomGameMode,
+  getGameMode,
+  getGameModeIds,
+  isGameModeId,
+  setCustomGameModes,
+} from '../../config/gameConfig';
+
+function createCustomMode(overrides: Partial<CustomGameMode> = {}): CustomGameMode {
+  return {
+    id: 'custom-test',
+    settings: { ...createCustomGameModeSettings('normalGame'), startingCredits: 777 },
+    ...overrides,
+  };
+}
+
+describe('customGameModes', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setCustomGameModes([]);
+  });
+
+  describe('validateCustomGameModeSettings', () => {
+    it('accepts settings copied from every built-in mode', () => {
+      for (const modeId of getGameModeIds()) {
+        expect(validateCustomGameModeSettings(createCustomGameModeSettings(modeId))).toEqual({});
+      }
+    });
+
+    it('reports out-of-range values by setting path', () => {
+      let settings = createCustomGameModeSettings('normalGame');
+      settings = setSettingAtPath(settings, 'startingCredits', 0);
+      settings = setSettingAtPath(settings, 'shopFrequency', 1.5);
+      settings = setSettingAtPath(settings, 'devilsDeal.baseChance', 150);
+      settings = setSettingAtPath(settings, 'rewards.flush', Number.NaN);
+      settings = setSettingAtPath(settings, 'displayName', '  ');
+
+      expect(validateCustomGameModeSettings(settings)).toEqual({
+        startingCredits: 'Must be at least 1',
+        shopFrequency: 'Must be a whole number',
+        'devilsDeal.baseChance': 'Must be at most 100',
+        'rewards.flush': 'Enter a number',
+        displayName: 'Name is required',
+      });
+    });
+
+    it('checks settings that depend on each other', () => {
+      let settings = createCustomGameModeSettings('normalGame');
+      settings = setSettingAtPath(
+        settings,
+        'endlessMode.failureConditions.minimumWinPercent.maxPercent',
+        10
+      );
+      settings = setSettingAtPath(settings, 'devilsDeal.costReductionPerPurchase', 80);
+
+      expect(Object.keys(validateCustomGameModeSettings(settings))).toEqual([
+        'endlessMode.failureConditions.minimumWinPercent.maxPercent',
+        'devilsDeal.costReductionPerPurchase',
+      ]);
+    });
+
+    it('rejects data that is not a settings object', () => {
+      expect(validateCustomGameModeSettings(null)).toHaveProperty('startingCredits');
+    });
+  });
+
+  it('setSettingAtPath leaves the original settings untouched', () => {
+    const settings = createCustomGameModeSettings('normalGame');
+    const updated = setSettingAtPath(settings, 'devilsDeal.baseChance', 40);
+    expect(updated.devilsDeal.baseChance).toBe(40);
+    expect(settings.devilsDeal.baseChance).toBe(getGameMode('normalGame').devilsDeal.baseChance);
+  });
+
+  it('createCustomGameModeId avoids ids that are taken', () => {
+    const first = createCustomGameModeId([], 1000);
+    const second = createCustomGameModeId([createCustomMode({ id: first })], 1000);
+    expect(first).toBe('custom-rs');
+    expect(second).toBe('custom-rs-2');
+  });
+
+  describe('storage', () => {
+    it('saves custom modes and makes them playable modes', () => {
+      saveCustomGameMode(createCustomMode());
+
+      expect(loadCustomGameModes()).toHaveLength(1);
+      expect(isGameModeId('custom-test')).toBe(true);
+      expect(getGameModeIds()).toContain('custom-test');
+      const mode = getGameMode('custom-test');
+      expect(mode.startingCredits).toBe(777);
+      // Settings the editor does not cover come from the default mode
+      expect(mode.shop).toEqual(getGameMode('normalGame').shop);
+    });
+
+    it('replaces a mode saved with the same id', () => {
+      saveCustomGameMode(createCustomMode());
+      const updated = createCustomMode();
+      updated.settings = { ...updated.settings, startingCredits: 999 };
+      expect(saveCustomGameMode(updated)).toHaveLength(1);
+      expect(getGameMode('custom-test').startingCredits).toBe(999);
+    });
+
+    it('deletes custom modes', () => {
+      saveCustomGameMode(createCustomMode());
+      expect(deleteCustomGameMode('custom-test')).toEqual([]);
+      expect(isGameModeId('custom-test')).toBe(false);
+    });
+
+    it('loads modes saved before the qualifying pair rank was editable', () => {
+      const legacy = createCustomMode();
+      const settings: Record<string, unknown> = { ...legacy.settings };
+      delete settings.minimumPairRank;
+      localStorage.setItem(
+        CUSTOM_GAME_MODES_STORAGE_KEY,
+        JSON.stringify([{ ...legacy, settings }])
+      );
+      expect(loadCustomGameModes()[0].settings.minimumPairRank).toBe(11);
+    });
+
+        it('skips invalid stored modes', () => {
+      const invalid = createCustomMode({ id: 'custom-bad' });
+      invalid.settings = { ...invalid.settings, startingCredits: -5 };
+      localStorage.setItem(
+        CUSTOM_GAME_MODES_STORAGE_KEY,
+        JSON.stringify([createCustomMode(), invalid, { id: 'hardMode', settings: {} }])
+      );
+      expect(loadCustomGameModes().map((mode) => mode.id)).toEqual(['custom-test']);
+    });
+  });
+});
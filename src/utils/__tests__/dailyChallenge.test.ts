@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DAILY_CHALLENGES_STORAGE_KEY,
+  DailyChallengeEntry,
+  DailyChallengeResult,
+  addDays,
+  createDailyChallengeResult,
+  getDailyChallengeCalendar,
+  getDailyChallengeDate,
+  getDailyChallengeSeed,
+  getDailyChallengeStreaks,
+  loadDailyChallenges,
+  recordDailyChallengeResult,
+  recordDailyChallengeStart,
+} from '../dailyChallenge';
+import { GameEngine } from '../gameEngine';
+import { createTestGameState } from '../../test/testHelpers';
+import { GameState } from '../../types';
+
+const RESULT: DailyChallengeResult = {
+  roundsSurvived: 12,
+  peakCredits: 4000,
+  finalCredits: 0,
+  totalEarnings: 9000,
+  gameOverReason: 'insufficient-credits',
+};
+
+function played(...dates: string[]): DailyChallengeEntry[] {
+  return dates.map((date) => ({ date, result: null }));
+}
+
+describe('dailyChallenge', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('dates and seeds', () => {
+    it('uses the local date', () => {
+      expect(getDailyChallengeDate(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    });
+
+    it('steps across month and year ends', () => {
+      expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+
+    it('gives each date its own fixed seed', () => {
+      expect(getDailyChallengeSeed('2026-01-05')).toBe(getDailyChallengeSeed('2026-01-05'));
+      expect(getDailyChallengeSeed('2026-01-05')).not.toBe(getDailyChallengeSeed('2026-01-06'));
+      expect(Number.isInteger(getDailyChallengeSeed('2026-01-05'))).toBe(true);
+    });
+
+    it("deals the same run to everyone playing the day's challenge", () => {
+      const deal = () =>
+        GameEngine.dealHand(
+          GameEngine.startDailyChallenge(GameEngine.createInitialState(), '2026-01-05')
+        );
+      const first = deal();
+      const second = deal();
+      expect(first.dailyChallengeDate).toBe('2026-01-05');
+      expect(first.runSeed).toBe(getDailyChallengeSeed('2026-01-05'));
+      expect(second.playerHand).toEqual(first.playerHand);
+      expect(second.devilsDealCard).toEqual(first.devilsDealCard);
+    });
+
+    it('deals the same later rounds and shops however the earlier rounds were played', () => {
+      const playFirstRound = (handCount: number, heldIndices: number[]) => {
+        let state = GameEngine.startDailyChallenge(GameEngine.createInitialState(), '2026-01-05');
+        state = GameEngine.dealHand(GameEngine.setSelectedHandCount(state, handCount));
+        state = heldIndices.reduce((held, i) => GameEngine.toggleHold(held, i), state);
+        state = GameEngine.moveToNextScreen(GameEngine.drawParallelHands(state));
+        return GameEngine.returnToPreDraw(state, state.parallelHandsResult?.summary.totalPayout);
+      };
+      const tenHands = playFirstRound(10, []);
+      const fiveHands = playFirstRound(5, [1, 3]);
+      expect(fiveHands.roundHistory[0].handCount).not.toBe(tenHands.roundHistory[0].handCount);
+
+      expect(tenHands.selectedShopOptions.length).toBeGreaterThan(0);
+      expect(fiveHands.selectedShopOptions).toEqual(tenHands.selectedShopOptions);
+      const secondRound = (state: GameState) =>
+        GameEngine.dealHand(GameEngine.proceedFromResults(state));
+      expect(secondRound(fiveHands).playerHand).toEqual(secondRound(tenHands).playerHand);
+      expect(secondRound(fiveHands).devilsDealCard).toEqual(secondRound(tenHands).devilsDealCard);
+    });
+  });
+
+  describe('recording attempts', () => {
+    it('records one attempt per day, oldest first', () => {
+      recordDailyChallengeStart('2026-01-06');
+      recordDailyChallengeStart('2026-01-05');
+      expect(recordDailyChallengeStart('2026-01-06')).toEqual(played('2026-01-05', '2026-01-06'));
+      expect(loadDailyChallenges()).toEqual(played('2026-01-05', '2026-01-06'));
+    });
+
+    it("keeps only the first result for a day's attempt", () => {
+      recordDailyChallengeStart('2026-01-05');
+      recordDailyChallengeResult('2026-01-05', RESULT);
+      recordDailyChallengeResult('2026-01-05', { ...RESULT, roundsSurvived: 40 });
+      expect(loadDailyChallenges()).toEqual([{ date: '2026-01-05', result: RESULT }]);
+    });
+
+    it('ignores results for days that were never started', () => {
+      expect(recordDailyChallengeResult('2026-01-05', RESULT)).toEqual([]);
+      expect(localStorage.getItem(DAILY_CHALLENGES_STORAGE_KEY)).toBeNull();
+    });
+
+    it('builds the result from the finished run', () => {
+      const state = createTestGameState({
+        round: 12,
+        credits: 0,
+        runPeakCredits: 4000,
+        totalEarnings: 9000,
+        gameOverReason: 'insufficient-credits',
+      });
+      expect(createDailyChallengeResult(state)).toEqual(RESULT);
+    });
+
+    it('skips invalid stored entries', () => {
+      localStorage.setItem(
+        DAILY_CHALLENGES_STORAGE_KEY,
+        JSON.stringify([
+          { date: '2026-01-05', result: null },
+          { date: 'yesterday', result: null },
+          { date: '2026-01-06', result: { roundsSurvived: 'many' } },
+        ])
+      );
+      expect(loadDailyChallenges()).toEqual(played('2026-01-05'));
+    });
+  });
+
+  describe('getDailyChallengeStreaks', () => {
+    it('counts the current streak up to today', () => {
+      const entries = played('2026-01-01', '2026-01-03', '2026-01-04', '2026-01-05');
+      expect(getDailyChallengeStreaks(entries, '2026-01-05')).toEqual({ current: 3, best: 3 });
+    });
+
+    it("keeps the streak alive until today's challenge is missed", () => {
+      const entries = played('2026-01-03', '2026-01-04');
+      expect(getDailyChallengeStreaks(entries, '2026-01-05').current).toBe(2);
+      expect(getDailyChallengeStreaks(entries, '2026-01-06').current).toBe(0);
+    });
+
+    it('remembers the best streak after it ends', () => {
+      const entries = played('2026-01-01', '2026-01-02', '2026-01-03', '2026-01-10');
+      expect(getDailyChallengeStreaks(entries, '2026-01-10')).toEqual({ current: 1, best: 3 });
+    });
+  });
+
+  it('lays out the calendar up to today', () => {
+    const entries = played('2026-01-04');
+    const calendar = getDailyChallengeCalendar(entries, '2026-01-05', 3);
+    expect(calendar).toEqual([
+      { date: '2026-01-03', entry: null },
+      { date: '2026-01-04', entry: entries[0] },
+      { date: '2026-01-05', entry: null },
+    ]);
+  });
+});
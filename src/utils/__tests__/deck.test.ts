@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { createDeck, createFullDeck, shuffleDeck, removeCardsFromDeck } from '../deck';
+import { createRng } from '../rng';
 import { Card } from '../../types';
 
 // Helper function to create a card
@@ -212,6 +213,15 @@ describe('Deck Operations', () => {
       expect(isDifferent).toBe(true);
     });
 
+    it('should produce same result with the same random source state', () => {
+      const deck = createDeck();
+
+      const shuffled1 = shuffleDeck(deck, createRng(777).next);
+      const shuffled2 = shuffleDeck(deck, createRng(777).next);
+
+      expect(shuffled1).toEqual(shuffled2);
+    });
+
     it('should maintain all cards after shuffle', () => {
       const deck = createDeck();
       const shuffled = shuffleDeck(deck);
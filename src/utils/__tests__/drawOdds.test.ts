@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { calculateDrawOdds, clearDrawOddsCache, getExpectedMultiplier } from '../drawOdds';
+import { createFullDeck, removeCardsFromDeck } from '../deck';
+import { PokerEvaluator } from '../pokerEvaluator';
+import { Card, HandRank } from '../../types';
+import { getTestRewardTable } from '../../test/testHelpers';
+
+/** Card with the same id createDeck gives it, so it is removed from the draw deck. */
+function deckCard(rank: Card['rank'], suit: Card['suit']): Card {
+  return { rank, suit, id: `${suit}-${rank}` };
+}
+
+/** Score every draw one by one; only practical for small draws. */
+function bruteForceCounts(baseHand: Card[], heldIndices: number[], deck: Card[]) {
+  const drawDeck = removeCardsFromDeck(deck, baseHand);
+  const held = baseHand.filter((_, i) => heldIndices.includes(i));
+  const drawCount = 5 - held.length;
+  const counts: Partial<Record<HandRank, number>> = {};
+  const visit = (start: number, drawn: Card[]) => {
+    if (drawn.length === drawCount) {
+      const { rank } = PokerEvaluator.evaluate([...held, ...drawn]);
+      counts[rank] = (counts[rank] ?? 0) + 1;
+      return;
+    }
+    for (let i = start; i < drawDeck.length; i++) visit(i + 1, [...drawn, drawDeck[i]]);
+  };
+  visit(0, []);
+  return counts;
+}
+
+function nonZeroCounts(counts: Record<HandRank, number>) {
+  return Object.fromEntries(Object.entries(counts).filter(([, count]) => count > 0));
+}
+
+const baseHand = [
+  deckCard('J', 'hearts'),
+  deckCard('10', 'hearts'),
+  deckCard('9', 'hearts'),
+  deckCard('J', 'clubs'),
+  deckCard('3', 'spades'),
+];
+
+describe('calculateDrawOdds', () => {
+  beforeEach(() => {
+    clearDrawOddsCache();
+  });
+
+  it('counts every draw of a standard deck', () => {
+    const odds = calculateDrawOdds(baseHand, [], createFullDeck());
+    const total = Object.values(odds.rankCounts).reduce((sum, count) => sum + count, 0);
+
+    expect(odds.totalDraws).toBe(1_533_939); // 47 choose 5
+    expect(total).toBe(odds.totalDraws);
+    // Only the diamond and spade royals avoid the cards in the base hand
+    expect(odds.rankCounts['royal-flush']).toBe(2);
+  });
+
+  it('matches scoring every draw one by one', () => {
+    const deck = createFullDeck();
+    const odds = calculateDrawOdds(baseHand, [0, 1, 2], deck);
+    expect(nonZeroCounts(odds.rankCounts)).toEqual(bruteForceCounts(baseHand, [0, 1, 2], deck));
+  });
+
+  it('matches scoring every draw with wild, dead and removed cards', () => {
+    const wildCards: Card[] = [
+      { rank: 'A', suit: 'spades', id: 'wild-1', isWild: true },
+      { rank: 'A', suit: 'spades', id: 'wild-2', isWild: true },
+    ];
+    const deadCards: Card[] = [{ rank: '2', suit: 'clubs', id: 'dead-1', isDead: true }];
+    const removedCards = [deckCard('Q', 'hearts'), deckCard('8', 'hearts')];
+    const deck = createFullDeck(deadCards, removedCards, wildCards);
+
+    for (const held of [[0, 1, 2], [0, 3], [0, 1, 2, 4]]) {
+      const odds = calculateDrawOdds(baseHand, held, deck);
+      expect(nonZeroCounts(odds.rankCounts)).toEqual(bruteForceCounts(baseHand, held, deck));
+    }
+  });
+
+  it('reuses results for the same deck composition', () => {
+    const first = calculateDrawOdds(baseHand, [0, 1, 2, 3], createFullDeck());
+    // Same cards under different ids (e.g. a rebuilt deck) hit the cache
+    const second = calculateDrawOdds(baseHand, [0, 1, 2, 3], createFullDeck());
+    expect(second).toBe(first);
+    expect(calculateDrawOdds(baseHand, [0, 1, 2, 3], createFullDeck(), 10)).not.toBe(first);
+  });
+
+  it('turns odds into an expected multiplier', () => {
+    const rewards = getTestRewardTable();
+    const odds = calculateDrawOdds(baseHand, [0, 1, 2, 3, 4], createFullDeck());
+    expect(odds.probabilities['one-pair']).toBe(1);
+    expect(getExpectedMultiplier(odds, rewards)).toBe(rewards['one-pair']);
+  });
+});
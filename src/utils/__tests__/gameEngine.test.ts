@@ -0,0 +1,341 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine, GameAction } from '../gameEngine';
+import {
+  DEFAULT_GAME_MODE_ID,
+  getCurrentGameMode,
+  getGameMode,
+  gameConfig,
+  setCurrentGameModeId,
+} from '../../config/gameConfig';
+import { runParallelHandsJob } from '../parallelHandsRound';
+import { createTestGameState, createTestCard } from '../../test/testHelpers';
+import { GameState } from '../../types';
+
+const mode = getCurrentGameMode();
+
+function startRun(seed = 42): GameState {
+  return GameEngine.startNewRun(GameEngine.createInitialState(), seed);
+}
+
+describe('GameEngine', () => {
+  describe('createInitialState / startNewRun', () => {
+    it('creates a menu state from the current game mode', () => {
+      const state = GameEngine.createInitialState();
+      expect(state.screen).toBe('menu');
+      expect(state.credits).toBe(mode.startingCredits);
+      expect(state.handCount).toBe(mode.startingHandCount);
+    });
+
+    it('starts a run seeded from the given seed', () => {
+      const state = startRun(99);
+      expect(state.screen).toBe('game');
+      expect(state.gamePhase).toBe('preDraw');
+      expect(state.currentRun).toBe(1);
+      expect(state.runSeed).toBe(99);
+    });
+
+    it('starts the run in the active game mode', () => {
+      setCurrentGameModeId('casualMode');
+      try {
+        const state = startRun(1);
+        expect(state.gameModeId).toBe('casualMode');
+        expect(state.credits).toBe(getGameMode('casualMode').startingCredits);
+      } finally {
+        setCurrentGameModeId(DEFAULT_GAME_MODE_ID);
+      }
+    });
+  });
+
+  describe('round flow', () => {
+    it('plays a full round without React', () => {
+      let state = startRun();
+      const totalBet = state.betAmount * state.selectedHandCount;
+
+      state = GameEngine.dealHand(state);
+      expect(state.gamePhase).toBe('playing');
+      expect(state.playerHand).toHaveLength(5);
+      expect(state.credits).toBe(mode.startingCredits - totalBet);
+
+      state = GameEngine.toggleHold(state, 0);
+      expect(state.heldIndices).toEqual([0]);
+
+      state = GameEngine.drawParallelHands(state);
+      expect(state.gamePhase).toBe('parallelHandsAnimation');
+      expect(state.parallelHands).toHaveLength(state.selectedHandCount);
+
+      state = GameEngine.moveToNextScreen(state);
+      expect(state.gamePhase).toBe('results');
+
+      const creditsBefore = state.credits;
+      state = GameEngine.returnToPreDraw(state, 100);
+      expect(state.gamePhase).toBe('preDraw');
+      expect(state.round).toBe(2);
+      expect(state.credits).toBe(creditsBefore + 100);
+      expect(state.totalEarnings).toBe(100);
+      expect(state.playerHand).toEqual([]);
+    });
+
+    it('splits the last draw into begin and complete for off-thread generation', () => {
+      const dealt = GameEngine.toggleHold(GameEngine.dealHand(startRun(3)), 1);
+      const begun = GameEngine.beginParallelHands(dealt);
+      expect(begun.isGeneratingHands).toBe(true);
+      expect(begun.gamePhase).toBe('playing');
+      expect(begun.parallelHands).toEqual([]);
+      expect(GameEngine.beginParallelHands(begun)).toBe(begun);
+      expect(GameEngine.toggleHold(begun, 2)).toBe(begun);
+
+      const result = runParallelHandsJob(GameEngine.getParallelHandsJob(begun));
+      const completed = GameEngine.completeParallelHands(begun, result);
+      expect(completed).toEqual(GameEngine.drawParallelHands(dealt));
+      expect(completed.isGeneratingHands).toBe(false);
+      expect(completed.parallelHandsResult?.scores).toHaveLength(completed.selectedHandCount);
+      expect(GameEngine.completeParallelHands(dealt, result)).toBe(dealt);
+    });
+
+    it('deals a fixed hand for the usual bet without a Devil\'s Deal', () => {
+      const start = startRun(3);
+      const hand = GameEngine.dealHand(start).playerHand.slice().reverse();
+      const state = GameEngine.dealFixedHand(start, hand);
+      expect(state.playerHand).toBe(hand);
+      expect(state.roundLog?.dealtHand).toBe(hand);
+      expect(state.devilsDealCard).toBeNull();
+      expect(state.credits).toBe(mode.startingCredits - state.betAmount * state.selectedHandCount);
+
+      const unaffordable = createTestGameState({
+        credits: 1,
+        betAmount: 10,
+        selectedHandCount: 10,
+      });
+      expect(GameEngine.dealFixedHand(unaffordable, hand)).toBe(unaffordable);
+    });
+
+    it('does not deal when the bet is unaffordable', () => {
+      const state = createTestGameState({ credits: 1, betAmount: 10, selectedHandCount: 10 });
+      expect(GameEngine.dealHand(state)).toBe(state);
+    });
+
+    it('rolls shop options when the shop appears next round', () => {
+      const state = createTestGameState({ round: mode.shopFrequency - 1, credits: 100000 });
+      const next = GameEngine.returnToPreDraw(state, 0);
+      expect(next.showShopNextRound).toBe(true);
+      expect(next.selectedShopOptions.length).toBeGreaterThan(0);
+      expect(next.creditsAtShopOpen).toBe(100000);
+    });
+
+    it('ends the game when credits cannot cover the minimum bet', () => {
+      const state = createTestGameState({ credits: 0, betAmount: 5, minimumBet: 5 });
+      const next = GameEngine.returnToPreDraw(state, 0);
+      expect(next.gameOver).toBe(true);
+      expect(next.gameOverReason).toBe('insufficient-credits');
+    });
+
+    it('endRun moves to game over and keeps run stats', () => {
+      const state = createTestGameState({ round: 7, totalEarnings: 500 });
+      const next = GameEngine.endRun(state);
+      expect(next.screen).toBe('gameOver');
+      expect(next.gameOverReason).toBe('voluntary');
+      expect(next.round).toBe(7);
+      expect(next.totalEarnings).toBe(500);
+      expect(GameEngine.endRun(state, 'minimum-win-percent').gameOverReason).toBe(
+        'minimum-win-percent'
+      );
+    });
+
+    it('replays identically from the same seed', () => {
+      const play = () => {
+        let state = startRun(7);
+        for (let i = 0; i < 3; i++) {
+          state = GameEngine.dealHand(state);
+          state = GameEngine.drawParallelHands(state);
+          state = GameEngine.moveToNextScreen(state);
+          state = GameEngine.returnToPreDraw(state, 0);
+          state = GameEngine.proceedFromResults(state);
+        }
+        return state;
+      };
+      expect(play()).toEqual(play());
+    });
+
+    it('deals a round and rolls its shop the same way whatever was played before', () => {
+      const playFirstRound = (handCount: number, heldIndices: number[]) => {
+        let state = GameEngine.dealHand(GameEngine.setSelectedHandCount(startRun(11), handCount));
+        state = heldIndices.reduce((held, i) => GameEngine.toggleHold(held, i), state);
+        state = GameEngine.moveToNextScreen(GameEngine.drawParallelHands(state));
+        return GameEngine.returnToPreDraw(state, 0);
+      };
+      const tenHands = playFirstRound(10, []);
+      const fiveHands = playFirstRound(5, [0, 2, 4]);
+      expect(tenHands.parallelHands).toEqual([]);
+      expect(tenHands.credits).not.toBe(fiveHands.credits);
+
+      expect(tenHands.showShopNextRound).toBe(true);
+      expect(fiveHands.selectedShopOptions).toEqual(tenHands.selectedShopOptions);
+      const dealCards = (state: GameState) =>
+        GameEngine.dealHand(GameEngine.proceedFromResults(state)).playerHand.map((c) => c.id);
+      expect(dealCards(fiveHands)).toEqual(dealCards(tenHands));
+    });
+  });
+
+  describe('holds', () => {
+    it('limits a 5-card hand to 5 holds including the Devil\'s Deal card', () => {
+      const state = createTestGameState({
+        playerHand: (['A', 'K', 'Q', 'J', '10'] as const).map((rank) =>
+          createTestCard(rank, 'spades')
+        ),
+        heldIndices: [0, 1, 2, 3],
+        devilsDealHeld: true,
+      });
+      expect(GameEngine.toggleHold(state, 4)).toBe(state);
+    });
+
+    it('blocks holding the Devil\'s Deal card with 5 cards held', () => {
+      const state = createTestGameState({ heldIndices: [0, 1, 2, 3, 4] });
+      expect(GameEngine.toggleDevilsDealHold(state)).toBe(state);
+    });
+  });
+
+  describe("Devil's Deal offers", () => {
+    const playerHand = [
+      createTestCard('7', 'spades'),
+      createTestCard('7', 'diamonds'),
+      createTestCard('Q', 'clubs'),
+      createTestCard('3', 'hearts'),
+      createTestCard('9', 'spades'),
+    ];
+
+    it('prices an offered card by the best hand it makes, across every hand played', () => {
+      const state = createTestGameState({ gamePhase: 'playing', playerHand });
+      const card = createTestCard('7', 'hearts');
+      const next = GameEngine.offerDevilsDeal(state, card);
+
+      const costPercent = mode.devilsDeal.baseCostPercent / 100;
+      expect(next.devilsDealCard).toBe(card);
+      expect(next.devilsDealHeld).toBe(false);
+      expect(next.devilsDealCost).toBe(
+        Math.round(
+          state.rewardTable['three-of-a-kind'] *
+            state.betAmount *
+            state.selectedHandCount *
+            costPercent
+        )
+      );
+    });
+
+    it('offers nothing outside the playing phase', () => {
+      const state = createTestGameState({ playerHand });
+      expect(GameEngine.offerDevilsDeal(state, createTestCard('7', 'hearts'))).toBe(state);
+    });
+  });
+
+  describe('shop purchases', () => {
+    it('adds a dead card for credits, rolled from the run seed', () => {
+      const state = createTestGameState({ credits: 0 });
+      const next = GameEngine.addDeadCard(state);
+      expect(next.credits).toBe(mode.shop.deadCard.creditReward);
+      expect(next.deckModifications.deadCards).toHaveLength(1);
+      expect(next.deckModifications.deadCards[0].isDead).toBe(true);
+      expect(GameEngine.addDeadCard({ ...state, credits: 500 }).deckModifications).toEqual(
+        next.deckModifications
+      );
+    });
+
+    it('refuses dead cards past the limit', () => {
+      const deadCards = Array.from({ length: gameConfig.deadCardLimit }, (_, i) => ({
+        ...createTestCard('2', 'hearts'),
+        id: `dead-${i}`,
+        isDead: true,
+      }));
+      const state = createTestGameState({
+        deckModifications: { deadCards, wildCards: [], removedCards: [], deadCardRemovalCount: 0 },
+      });
+      expect(GameEngine.addDeadCard(state)).toBe(state);
+    });
+
+    it('removes dead cards into removedCards', () => {
+      const deadCard = { ...createTestCard('2', 'hearts'), id: 'dead-0', isDead: true };
+      const state = createTestGameState({
+        credits: 10_000_000,
+        deckModifications: {
+          deadCards: [deadCard],
+          wildCards: [],
+          removedCards: [],
+          deadCardRemovalCount: 0,
+        },
+      });
+      const next = GameEngine.removeAllDeadCards(state);
+      expect(next.deckModifications.deadCards).toEqual([]);
+      expect(next.deckModifications.removedCards).toEqual([deadCard]);
+      expect(next.deckModifications.deadCardRemovalCount).toBe(1);
+      expect(next.credits).toBeLessThan(state.credits);
+    });
+
+    it('rejects purchases the player cannot afford', () => {
+      const state = createTestGameState({ credits: 0 });
+      expect(GameEngine.addWildCard(state)).toBe(state);
+      expect(GameEngine.purchaseExtraDraw(state)).toBe(state);
+      expect(GameEngine.addParallelHandsBundle(state, 10)).toBe(state);
+      expect(GameEngine.purchaseDevilsDealChance(state)).toBe(state);
+      expect(GameEngine.purchaseDevilsDealCostReduction(state)).toBe(state);
+      expect(GameEngine.purchaseExtraCardInHand(state)).toBe(state);
+    });
+
+    it('adds parallel hands and selects them all', () => {
+      const state = createTestGameState({ credits: 10_000_000 });
+      const next = GameEngine.addParallelHandsBundle(state, 10);
+      expect(next.handCount).toBe(state.handCount + 10);
+      expect(next.selectedHandCount).toBe(state.handCount + 10);
+      expect(next.credits).toBeLessThan(state.credits);
+    });
+
+    it('prices purchases from credits at shop open', () => {
+      const state = createTestGameState({ credits: 10_000_000, creditsAtShopOpen: 1000 });
+      const cheap = GameEngine.purchaseExtraCardInHand(state);
+      const rich = GameEngine.purchaseExtraCardInHand({ ...state, creditsAtShopOpen: null });
+      expect(cheap.extraCardsInHand).toBe(1);
+      expect(state.credits - cheap.credits).toBeLessThanOrEqual(state.credits - rich.credits);
+    });
+  });
+
+  describe('dispatch', () => {
+    it('applies actions the same way as the direct methods', () => {
+      const start = startRun(5);
+      const actions: GameAction[] = [
+        { type: 'dealHand' },
+        { type: 'toggleHold', index: 1 },
+        { type: 'drawParallelHands' },
+        { type: 'moveToNextScreen' },
+        { type: 'returnToPreDraw', payout: 50 },
+      ];
+      const dispatched = actions.reduce(GameEngine.dispatch.bind(GameEngine), start);
+
+      let direct = GameEngine.dealHand(start);
+      direct = GameEngine.toggleHold(direct, 1);
+      direct = GameEngine.drawParallelHands(direct);
+      direct = GameEngine.moveToNextScreen(direct);
+      direct = GameEngine.returnToPreDraw(direct, 50);
+
+      expect(dispatched).toEqual(direct);
+    });
+
+    it('routes cheats', () => {
+      const state = createTestGameState({ credits: 0, gameOver: true });
+      const next = GameEngine.dispatch(state, { type: 'cheatAddCredits', amount: 500 });
+      expect(next.credits).toBe(500);
+      expect(next.gameOver).toBe(false);
+    });
+
+    it('flags the run once any cheat is used', () => {
+      const state = startRun();
+      expect(state.cheatsUsed).toBe(false);
+      const cheats: GameAction[] = [
+        { type: 'cheatAddCredits', amount: 500 },
+        { type: 'cheatAddHands', amount: 10 },
+        { type: 'cheatSetDevilsDeal' },
+      ];
+      for (const cheat of cheats) {
+        expect(GameEngine.dispatch(state, cheat).cheatsUsed).toBe(true);
+      }
+      expect(GameEngine.startNewRun(GameEngine.cheatAddHands(state, 10), 1).cheatsUsed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeHolds, HoldAdvisorInput } from '../holdAdvisor';
+import { Card, DeckModifications } from '../../types';
+import { getTestRewardTable } from '../../test/testHelpers';
+
+/** Card with the same id createDeck gives it, so it is removed from the draw deck. */
+function deckCard(rank: Card['rank'], suit: Card['suit']): Card {
+  return { rank, suit, id: `${suit}-${rank}` };
+}
+
+const noModifications: DeckModifications = {
+  deadCards: [],
+  wildCards: [],
+  removedCards: [],
+  deadCardRemovalCount: 0,
+};
+
+function createInput(playerHand: Card[], overrides: Partial<HoldAdvisorInput> = {}) {
+  return {
+    playerHand,
+    deckModifications: noModifications,
+    rewardTable: getTestRewardTable(),
+    betAmount: 2,
+    selectedHandCount: 10,
+    ...overrides,
+  };
+}
+
+describe('analyzeHolds', () => {
+  it('offers all 32 holds for a 5-card hand, best first', () => {
+    const royal = [
+      deckCard('A', 'hearts'),
+      deckCard('K', 'hearts'),
+      deckCard('Q', 'hearts'),
+      deckCard('J', 'hearts'),
+      deckCard('10', 'hearts'),
+    ];
+    const rewards = getTestRewardTable();
+    const advice = analyzeHolds(createInput(royal));
+
+    expect(advice).toHaveLength(32);
+    expect(advice[0].heldIndices).toEqual([0, 1, 2, 3, 4]);
+    expect(advice[0].rankChances).toEqual({ 'royal-flush': 1 });
+    expect(advice[0].expectedMultiplier).toBe(rewards['royal-flush']);
+    expect(advice[0].expectedReturn).toBe(rewards['royal-flush'] * 2 * 10);
+  });
+
+  it('counts every one-card draw exactly', () => {
+    const fourToRoyal = [
+      deckCard('A', 'hearts'),
+      deckCard('K', 'hearts'),
+      deckCard('Q', 'hearts'),
+      deckCard('J', 'hearts'),
+      deckCard('2', 'clubs'),
+    ];
+    const hold = analyzeHolds(createInput(fourToRoyal)).find(
+      ({ heldIndices }) => heldIndices.join() === '0,1,2,3'
+    );
+
+    expect(hold?.rankChances['royal-flush']).toBeCloseTo(1 / 47);
+    expect(hold?.rankChances.flush).toBeCloseTo(8 / 47);
+    expect(hold?.rankChances.straight).toBeCloseTo(3 / 47);
+    expect(hold?.rankChances['one-pair']).toBeCloseTo(12 / 47);
+  });
+
+  it('gives exact odds when discarding every card', () => {
+    const hand = [
+      deckCard('2', 'clubs'),
+      deckCard('7', 'diamonds'),
+      deckCard('9', 'spades'),
+      deckCard('4', 'hearts'),
+      deckCard('K', 'clubs'),
+    ];
+    const discardAll = analyzeHolds(createInput(hand)).find(
+      ({ heldIndices }) => heldIndices.length === 0
+    );
+    const chances = Object.values(discardAll?.rankChances ?? {});
+
+    // The K♣ is gone, leaving 3 royal flushes out of 47 choose 5 draws
+    expect(discardAll?.rankChances['royal-flush']).toBeCloseTo(3 / 1_533_939, 12);
+    expect(chances.reduce((sum, chance) => sum + chance, 0)).toBeCloseTo(1);
+  });
+
+  it('keeps exactly 5 of a larger hand', () => {
+    const sixCards = [
+      deckCard('9', 'clubs'),
+      deckCard('9', 'diamonds'),
+      deckCard('9', 'spades'),
+      deckCard('4', 'hearts'),
+      deckCard('4', 'clubs'),
+      deckCard('K', 'clubs'),
+    ];
+    const advice = analyzeHolds(createInput(sixCards));
+
+    expect(advice).toHaveLength(6);
+    expect(advice[0].heldIndices).toEqual([0, 1, 2, 3, 4]);
+    expect(advice[0].rankChances).toEqual({ 'full-house': 1 });
+  });
+
+  it('scores wild and dead cards like PokerEvaluator', () => {
+    const wild: Card = { rank: 'A', suit: 'spades', id: 'wild-1', isWild: true };
+    const dead: Card = { rank: '3', suit: 'hearts', id: 'dead-1', isDead: true };
+    const hand = [
+      deckCard('9', 'clubs'),
+      deckCard('9', 'diamonds'),
+      wild,
+      dead,
+      deckCard('2', 'spades'),
+    ];
+    const advice = analyzeHolds(
+      createInput(hand, {
+        deckModifications: { ...noModifications, wildCards: [wild], deadCards: [dead] },
+      })
+    );
+    const holdAll = advice.find(({ heldIndices }) => heldIndices.length === 5);
+
+    expect(holdAll?.rankChances).toEqual({ 'three-of-a-kind': 1 });
+  });
+
+  it("fills the first open slot with a held Devil's Deal card", () => {
+    const hand = [
+      deckCard('2', 'clubs'),
+      deckCard('7', 'diamonds'),
+      deckCard('9', 'spades'),
+      deckCard('4', 'hearts'),
+      deckCard('K', 'clubs'),
+    ];
+    const advice = analyzeHolds(createInput(hand, { devilsDealCard: deckCard('K', 'diamonds') }));
+    const holdKing = advice.find(({ heldIndices }) => heldIndices.join() === '4');
+
+    // Holding 5 cards is not allowed alongside the deal card
+    expect(advice).toHaveLength(31);
+    expect(holdKing?.rankChances['high-card']).toBeUndefined();
+  });
+
+  it("takes the Devil's Deal cost off the expected return of every hold", () => {
+    const hand = [
+      deckCard('2', 'clubs'),
+      deckCard('7', 'diamonds'),
+      deckCard('9', 'spades'),
+      deckCard('4', 'hearts'),
+      deckCard('K', 'clubs'),
+    ];
+    const devilsDealCard = deckCard('K', 'diamonds');
+    const free = analyzeHolds(createInput(hand, { devilsDealCard }));
+    const paid = analyzeHolds(createInput(hand, { devilsDealCard, devilsDealCost: 15 }));
+
+    expect(paid.map((choice) => choice.heldIndices)).toEqual(
+      free.map((choice) => choice.heldIndices)
+    );
+    paid.forEach((choice, i) => {
+      expect(choice.expectedMultiplier).toBe(free[i].expectedMultiplier);
+      expect(choice.expectedReturn).toBeCloseTo(free[i].expectedReturn - 15);
+    });
+    expect(analyzeHolds(createInput(hand, { devilsDealCost: 15 }))[0].expectedReturn).toBe(
+      analyzeHolds(createInput(hand))[0].expectedReturn
+    );
+  });
+});
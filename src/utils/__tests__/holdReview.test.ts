@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getExpectedCreditsLost,
+  getReviewedDraw,
+  reviewHold,
+  summarizeHoldReviews,
+} from '../holdReview';
+import { analyzeHolds } from '../holdAdvisor';
+import { GameEngine } from '../gameEngine';
+import { createTestRoundRecord } from '../../test/testHelpers';
+import { GameState, HoldReview } from '../../types';
+
+function dealRound(seed: number = 11): GameState {
+  return GameEngine.dealHand(GameEngine.startNewRun(GameEngine.createInitialState(), seed));
+}
+
+/** Draw with the given holds and go to the Results screen. */
+function playToResults(dealt: GameState, heldIndices: number[]): GameState {
+  const held = heldIndices.reduce((state, i) => GameEngine.toggleHold(state, i), dealt);
+  return GameEngine.moveToNextScreen(GameEngine.drawParallelHands(held));
+}
+
+function getAdvice(state: GameState) {
+  return analyzeHolds({
+    playerHand: state.playerHand,
+    deckModifications: state.deckModifications,
+    rewardTable: state.rewardTable,
+    betAmount: state.betAmount,
+    selectedHandCount: state.selectedHandCount,
+  });
+}
+
+const review = (expectedReturn: number, bestExpectedReturn: number): HoldReview => ({
+  heldIndices: [0],
+  bestHeldIndices: [1],
+  expectedReturn,
+  bestExpectedReturn,
+});
+
+describe('holdReview', () => {
+  it('finds nothing given up when the best hold was played', () => {
+    const dealt = dealRound();
+    const [best] = getAdvice(dealt);
+    const result = reviewHold(playToResults(dealt, best.heldIndices));
+
+    expect(result).toEqual({
+      heldIndices: best.heldIndices,
+      bestHeldIndices: best.heldIndices,
+      expectedReturn: best.expectedReturn,
+      bestExpectedReturn: best.expectedReturn,
+    });
+    expect(getExpectedCreditsLost(result!)).toBe(0);
+  });
+
+  it('reports the best hold and the expected credits a worse hold gave up', () => {
+    const dealt = dealRound();
+    const advice = getAdvice(dealt);
+    const worst = advice[advice.length - 1];
+    const result = reviewHold(playToResults(dealt, worst.heldIndices))!;
+
+    expect(result.heldIndices).toEqual(worst.heldIndices);
+    expect(result.bestHeldIndices).toEqual(advice[0].heldIndices);
+    expect(getExpectedCreditsLost(result)).toBeCloseTo(
+      advice[0].expectedReturn - worst.expectedReturn
+    );
+  });
+
+  it('reviews the hand on the table at the last of several draws', () => {
+    const dealt = dealRound();
+    const log = {
+      ...dealt.roundLog!,
+      draws: [
+        { heldIndices: [0], hand: dealt.playerHand.slice().reverse() },
+        { heldIndices: [1, 2], hand: dealt.playerHand },
+      ],
+    };
+    expect(getReviewedDraw(log)).toEqual({
+      hand: dealt.playerHand.slice().reverse(),
+      heldIndices: [1, 2],
+    });
+    expect(getReviewedDraw(dealt.roundLog!)).toBeNull();
+  });
+
+  it('files the recorded review with the round once it is paid out', () => {
+    const results = playToResults(dealRound(), [0]);
+    const result = reviewHold(results)!;
+
+    expect(GameEngine.recordHoldReview(dealRound(), result).roundLog?.holdReview).toBeNull();
+    const reviewed = GameEngine.dispatch(results, { type: 'recordHoldReview', review: result });
+    const paid = GameEngine.returnToPreDraw(reviewed, 0);
+    expect(paid.roundHistory[0].holdReview).toEqual(result);
+  });
+
+  it('totals expected credits lost over the reviewed rounds', () => {
+    const history = [
+      createTestRoundRecord(1, { holdReview: review(10, 25) }),
+      createTestRoundRecord(2),
+      createTestRoundRecord(3, { holdReview: review(30, 30) }),
+      createTestRoundRecord(4, { holdReview: review(5, 7.5) }),
+    ];
+    expect(summarizeHoldReviews(history)).toEqual({
+      roundsReviewed: 3,
+      mistakes: 2,
+      expectedCreditsLost: 17.5,
+    });
+  });
+});
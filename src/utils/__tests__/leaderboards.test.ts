@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_PLAYER_NAME,
+  LEADERBOARD_RANKED_LIMIT,
+  LEADERBOARD_SEED_RANKED_LIMIT,
+  LEADERBOARD_STORAGE_KEY,
+  LEADERBOARD_UNRANKED_LIMIT,
+  LeaderboardEntry,
+  createLeaderboardEntry,
+  getRankedLeaderboard,
+  getUnrankedRuns,
+  loadLeaderboard,
+  loadPlayerName,
+  recordLeaderboardEntry,
+  savePlayerName,
+} from '../leaderboards';
+import { createTestGameState } from '../../test/testHelpers';
+
+function createEntry(overrides: Partial<LeaderboardEntry> = {}): LeaderboardEntry {
+  return {
+    endedAt: 1,
+    playerName: 'Ada',
+    gameModeId: 'normalGame',
+    seed: 7,
+    roundsSurvived: 10,
+    finalCredits: 1000,
+    totalEarnings: 5000,
+    runHighestMultiplier: 1.5,
+    gameOverReason: 'insufficient-credits',
+    cheatsUsed: false,
+    ...overrides,
+  };
+}
+
+describe('leaderboards', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('creates an entry from a finished run', () => {
+    const state = createTestGameState({
+      round: 12,
+      credits: 800,
+      totalEarnings: 9000,
+      runSeed: 99,
+      runHighestMultiplier: 2,
+      gameOverReason: 'minimum-win-percent',
+      cheatsUsed: true,
+    });
+    expect(createLeaderboardEntry(state, 'Ada', 42)).toEqual({
+      endedAt: 42,
+      playerName: 'Ada',
+      gameModeId: state.gameModeId,
+      seed: 99,
+      roundsSurvived: 12,
+      finalCredits: 800,
+      totalEarnings: 9000,
+      runHighestMultiplier: 2,
+      gameOverReason: 'minimum-win-percent',
+      cheatsUsed: true,
+    });
+  });
+
+  it('ranks by rounds, then final credits, then total earnings', () => {
+    const entries = [
+      createEntry({ endedAt: 1, roundsSurvived: 9, finalCredits: 9000 }),
+      createEntry({ endedAt: 2, totalEarnings: 100 }),
+      createEntry({ endedAt: 3, totalEarnings: 200 }),
+      createEntry({ endedAt: 4, finalCredits: 2000 }),
+      createEntry({ endedAt: 5, totalEarnings: 200 }),
+    ];
+    const ranked = getRankedLeaderboard(entries, { gameModeId: 'normalGame' });
+    expect(ranked.map((entry) => entry.endedAt)).toEqual([4, 3, 5, 2, 1]);
+  });
+
+  it('keys tables by mode and optionally seed, leaving cheated runs unranked', () => {
+    const entries = [
+      createEntry({ endedAt: 1 }),
+      createEntry({ endedAt: 2, seed: 8 }),
+      createEntry({ endedAt: 3, gameModeId: 'hardMode' }),
+      createEntry({ endedAt: 4, roundsSurvived: 99, cheatsUsed: true }),
+    ];
+    const times = (list: LeaderboardEntry[]) => list.map((entry) => entry.endedAt);
+    expect(times(getRankedLeaderboard(entries, { gameModeId: 'normalGame' }))).toEqual([1, 2]);
+    expect(times(getRankedLeaderboard(entries, { gameModeId: 'normalGame', seed: 8 }))).toEqual([
+      2,
+    ]);
+    expect(times(getRankedLeaderboard(entries, { gameModeId: 'hardMode' }))).toEqual([3]);
+    expect(times(getUnrankedRuns(entries, { gameModeId: 'normalGame' }))).toEqual([4]);
+    expect(getUnrankedRuns(entries, { gameModeId: 'normalGame', seed: 8 })).toEqual([]);
+  });
+
+  it("keeps each mode's best ranked runs and latest cheated runs", () => {
+    const ranked = Array.from({ length: LEADERBOARD_RANKED_LIMIT }, (_, i) =>
+      createEntry({ endedAt: i, roundsSurvived: i + 1 })
+    );
+    const cheated = Array.from({ length: LEADERBOARD_UNRANKED_LIMIT * 2 }, (_, i) =>
+      createEntry({ endedAt: LEADERBOARD_RANKED_LIMIT + i, cheatsUsed: true })
+    );
+    const hardMode = createEntry({ gameModeId: 'hardMode', roundsSurvived: 0 });
+    localStorage.setItem(
+      LEADERBOARD_STORAGE_KEY,
+      JSON.stringify([...ranked, ...cheated, hardMode])
+    );
+
+    const entries = recordLeaderboardEntry(createEntry({ endedAt: 999, roundsSurvived: 0 }));
+    expect(entries).toHaveLength(LEADERBOARD_RANKED_LIMIT + LEADERBOARD_UNRANKED_LIMIT + 1);
+    expect(loadLeaderboard()).toEqual(entries);
+    expect(entries.some((entry) => entry.endedAt === 999)).toBe(false);
+    expect(entries).toContainEqual(hardMode);
+    const unranked = getUnrankedRuns(entries, { gameModeId: 'normalGame' });
+    expect(unranked[unranked.length - 1].endedAt).toBe(
+      LEADERBOARD_RANKED_LIMIT + LEADERBOARD_UNRANKED_LIMIT
+    );
+  });
+
+  it("keeps each seed's best ranked runs below the mode's best", () => {
+    const ranked = Array.from({ length: LEADERBOARD_RANKED_LIMIT }, (_, i) =>
+      createEntry({ endedAt: i, roundsSurvived: 100 + i })
+    );
+    const otherSeed = Array.from({ length: LEADERBOARD_SEED_RANKED_LIMIT + 1 }, (_, i) =>
+      createEntry({ endedAt: 1000 + i, seed: 8, roundsSurvived: 1 + i })
+    );
+    localStorage.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify([...ranked, ...otherSeed]));
+
+    const entries = recordLeaderboardEntry(createEntry({ endedAt: 999, roundsSurvived: 0 }));
+    expect(entries).toHaveLength(LEADERBOARD_RANKED_LIMIT + LEADERBOARD_SEED_RANKED_LIMIT);
+    expect(entries.some((entry) => entry.endedAt === 999)).toBe(false);
+    const seedTable = getRankedLeaderboard(entries, { gameModeId: 'normalGame', seed: 8 });
+    expect(seedTable).toEqual(otherSeed.slice(1).reverse());
+  });
+
+  it('skips invalid stored entries', () => {
+    localStorage.setItem(
+      LEADERBOARD_STORAGE_KEY,
+      JSON.stringify([createEntry(), { ...createEntry(), cheatsUsed: 'no' }, null])
+    );
+    expect(loadLeaderboard()).toEqual([createEntry()]);
+  });
+
+  it('stores a trimmed player name and falls back to the default', () => {
+    expect(loadPlayerName()).toBe(DEFAULT_PLAYER_NAME);
+    expect(savePlayerName('  Ada Lovelace  ')).toBe('Ada Lovelace');
+    expect(loadPlayerName()).toBe('Ada Lovelace');
+    expect(savePlayerName('   ')).toBe(DEFAULT_PLAYER_NAME);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { LookupEvaluator } from '../lookupEvaluator';
+import { PokerEvaluator } from '../pokerEvaluator';
+import { createFullDeck } from '../deck';
+import { createRng } from '../rng';
+import { Card, HandResult } from '../../types';
+
+function createCard(rank: Card['rank'], suit: Card['suit'], options?: Partial<Card>): Card {
+  return { rank, suit, id: `${rank}-${suit}-${Math.random()}`, ...options };
+}
+
+/** Same rank, score and winning cards (the same card objects, in the same order). */
+function isSameResult(actual: HandResult, expected: HandResult): boolean {
+  return (
+    actual.rank === expected.rank &&
+    actual.score === expected.score &&
+    actual.winningCards.length === expected.winningCards.length &&
+    actual.winningCards.every((card, i) => card === expected.winningCards[i])
+  );
+}
+
+describe('LookupEvaluator', () => {
+  it(
+    'matches PokerEvaluator on all 2,598,960 standard hands',
+    () => {
+      const deck = createFullDeck();
+      const hand: Card[] = new Array(5);
+      let compared = 0;
+      let mismatches = 0;
+      for (let a = 0; a < 48; a++) {
+        hand[0] = deck[a];
+        for (let b = a + 1; b < 49; b++) {
+          hand[1] = deck[b];
+          for (let c = b + 1; c < 50; c++) {
+            hand[2] = deck[c];
+            for (let d = c + 1; d < 51; d++) {
+              hand[3] = deck[d];
+              for (let e = d + 1; e < 52; e++) {
+                hand[4] = deck[e];
+                compared++;
+                const expected = PokerEvaluator.evaluate(hand, 11);
+                if (!isSameResult(LookupEvaluator.evaluate(hand, 11), expected)) mismatches++;
+              }
+            }
+          }
+        }
+      }
+
+      expect(compared).toBe(2_598_960);
+      expect(mismatches).toBe(0);
+    },
+    300_000
+  );
+
+  it('matches PokerEvaluator with wild and dead cards at every pair threshold', () => {
+    const rng = createRng(9);
+    const deck = createFullDeck();
+    for (let i = 0; i < 20_000; i++) {
+      const picked = [...deck];
+      const hand = Array.from({ length: 5 }, () => {
+        const card = picked.splice(rng.nextInt(picked.length), 1)[0];
+        const roll = rng.next();
+        if (roll < 0.25) return { ...card, isWild: true };
+        if (roll < 0.35) return { ...card, isDead: true };
+        return card;
+      });
+      const minimumPairRank = 2 + (i % 13);
+
+      expect(LookupEvaluator.evaluate(hand, minimumPairRank)).toEqual(
+        PokerEvaluator.evaluate(hand, minimumPairRank)
+      );
+    }
+  });
+
+  it('completes a suited hand in its own suit', () => {
+    const hand = [
+      createCard('K', 'clubs'),
+      createCard('2', 'hearts', { isWild: true }),
+      createCard('3', 'hearts', { isWild: true }),
+      createCard('4', 'diamonds', { isWild: true }),
+      createCard('5', 'spades', { isWild: true }),
+    ];
+    const result = LookupEvaluator.evaluate(hand, 11);
+
+    expect(result.rank).toBe('royal-flush');
+    expect(result.winningCards.every((card) => card.suit === 'clubs')).toBe(true);
+    expect(result).toEqual(PokerEvaluator.evaluate(hand, 11));
+  });
+
+  it('hands out fresh stand-in cards that callers can change', () => {
+    const hand = [
+      createCard('A', 'hearts'),
+      createCard('A', 'clubs'),
+      createCard('A', 'spades'),
+      createCard('2', 'hearts', { isWild: true }),
+      createCard('3', 'diamonds'),
+    ];
+    const first = LookupEvaluator.evaluate(hand, 11);
+    const standIn = first.winningCards.find((card) => !hand.includes(card));
+    if (!standIn) throw new Error('No stand-in card');
+    standIn.rank = '2';
+    standIn.suit = 'clubs';
+
+    const second = LookupEvaluator.evaluate(hand, 11);
+    expect(second.winningCards).not.toContain(standIn);
+    expect(second).toEqual(PokerEvaluator.evaluate(hand, 11));
+  });
+
+  it('ignores dead cards and scores an all-dead hand as an empty high card', () => {
+    const dead = (rank: Card['rank']) => createCard(rank, 'spades', { isDead: true });
+    const pairOfAces = [
+      createCard('A', 'hearts'),
+      createCard('A', 'clubs'),
+      dead('K'),
+      dead('Q'),
+      dead('J'),
+    ];
+
+    expect(LookupEvaluator.evaluate(pairOfAces, 11)).toEqual(
+      PokerEvaluator.evaluate(pairOfAces, 11)
+    );
+    const allDead = (['2', '3', '4', '5', '6'] as const).map(dead);
+    expect(LookupEvaluator.evaluate(allDead, 11)).toEqual({
+      rank: 'high-card',
+      multiplier: 0,
+      score: 0,
+      winningCards: [],
+    });
+  });
+
+  it('handles hands a deck cannot deal', () => {
+    const hand = [
+      createCard('A', 'hearts'),
+      createCard('A', 'hearts'),
+      createCard('K', 'hearts'),
+      createCard('Q', 'hearts'),
+      createCard('J', 'hearts'),
+    ];
+
+    expect(LookupEvaluator.evaluate(hand, 11)).toEqual(PokerEvaluator.evaluate(hand, 11));
+  });
+
+  it('requires exactly 5 cards', () => {
+    expect(() => LookupEvaluator.evaluate([createCard('A', 'hearts')])).toThrow(
+      'Hand must contain exactly 5 cards'
+    );
+  });
+});
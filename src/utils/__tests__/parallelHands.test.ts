@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { generateParallelHands } from '../parallelHands';
 import { Card } from '../../types';
+import { createRng } from '../rng';
 
 // Helper function to create a card
 function createCard(rank: Card['rank'], suit: Card['suit'], options?: Partial<Card>): Card {
@@ -165,7 +166,7 @@ describe('generateParallelHands', () => {
         createCard('3', 'diamonds', { isDead: true }),
       ];
       
-      const result = generateParallelHands(baseHand, [], 30, deadCards);
+      const result = generateParallelHands(baseHand, [], 30, deadCards, [], [], createRng(1).next);
       
       // Check that some hands contain dead cards
       let hasDeadCard = false;
@@ -194,7 +195,7 @@ describe('generateParallelHands', () => {
         createCard('2', 'hearts', { isWild: true }),
       ];
       
-      const result = generateParallelHands(baseHand, [], 20, [], [], wildCards);
+      const result = generateParallelHands(baseHand, [], 20, [], [], wildCards, createRng(1).next);
       
       // Check that some hands contain wild cards
       let hasWildCard = false;
@@ -375,4 +376,31 @@ describe('generateParallelHands', () => {
       });
     });
   });
+
+  describe('Seeded Random Source', () => {
+    const baseHand: Card[] = [
+      createCard('A', 'hearts'),
+      createCard('K', 'diamonds'),
+      createCard('Q', 'clubs'),
+      createCard('J', 'spades'),
+      createCard('10', 'hearts'),
+    ];
+    const toKeys = (hands: ReturnType<typeof generateParallelHands>) =>
+      hands.map((hand) => hand.cards.map((c) => c.id).join(','));
+
+    it('should reproduce the same hands from the same RNG state', () => {
+      const first = generateParallelHands(baseHand, [0], 10, [], [], [], createRng(5).next);
+      const second = generateParallelHands(baseHand, [0], 10, [], [], [], createRng(5).next);
+
+      expect(toKeys(first)).toEqual(toKeys(second));
+    });
+
+    it('should draw different hands in consecutive rounds of the same run', () => {
+      const rng = createRng(5);
+      const roundOne = generateParallelHands(baseHand, [0], 10, [], [], [], rng.next);
+      const roundTwo = generateParallelHands(baseHand, [0], 10, [], [], [], rng.next);
+
+      expect(toKeys(roundOne)[0]).not.toBe(toKeys(roundTwo)[0]);
+    });
+  });
 });
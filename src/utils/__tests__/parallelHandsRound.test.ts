@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { runParallelHandsJob, ParallelHandsJob } from '../parallelHandsRound';
+import { generateParallelHands } from '../parallelHands';
+import { summarizeRoundCombos } from '../streakCalculator';
+import { createRng } from '../rng';
+import { createTestCard, getTestRewardTable } from '../../test/testHelpers';
+
+function createJob(overrides: Partial<ParallelHandsJob> = {}): ParallelHandsJob {
+  return {
+    baseHand: [
+      createTestCard('A', 'hearts'),
+      createTestCard('A', 'spades'),
+      createTestCard('7', 'clubs'),
+      createTestCard('4', 'diamonds'),
+      createTestCard('2', 'hearts'),
+    ],
+    heldIndices: [0, 1],
+    handCount: 120,
+    deckModifications: { deadCards: [], wildCards: [], removedCards: [], deadCardRemovalCount: 0 },
+    rngState: 2024,
+    rewardTable: getTestRewardTable(),
+    betAmount: 3,
+    initialStreak: 0,
+    minimumPairRank: 11,
+    ...overrides,
+  };
+}
+
+describe('runParallelHandsJob', () => {
+  it("draws the same hands as generateParallelHands from the job's generator", () => {
+    const job = createJob();
+    const rng = createRng(job.rngState);
+    const expected = generateParallelHands(
+      job.baseHand,
+      job.heldIndices,
+      job.handCount,
+      [],
+      [],
+      [],
+      rng.next
+    );
+
+    const result = runParallelHandsJob(job);
+
+    expect(result.parallelHands).toEqual(expected);
+  });
+
+  it('scores and summarizes the hands like summarizeRoundCombos', () => {
+    const job = createJob();
+    const result = runParallelHandsJob(job);
+
+    expect(result.scores).toHaveLength(job.handCount);
+    // Held aces always pay at least a pair of Jacks or better
+    expect(result.scores.every(({ multiplier }) => multiplier > 0)).toBe(true);
+    expect(result.summary).toEqual(
+      summarizeRoundCombos(result.parallelHands, job.rewardTable, job.betAmount)
+    );
+  });
+
+  it('uses the job pair rank instead of the active game mode', () => {
+    const job = createJob({
+      baseHand: [
+        createTestCard('5', 'hearts'),
+        createTestCard('5', 'spades'),
+        createTestCard('9', 'clubs'),
+        createTestCard('J', 'diamonds'),
+        createTestCard('K', 'hearts'),
+      ],
+      heldIndices: [0, 1, 2, 3, 4],
+      handCount: 3,
+    });
+
+    expect(runParallelHandsJob(job).summary.handsWon).toBe(0);
+    expect(runParallelHandsJob({ ...job, minimumPairRank: 2 }).summary.handsWon).toBe(3);
+  });
+
+  it('reports progress after each batch', () => {
+    const progress: number[] = [];
+    runParallelHandsJob(createJob(), (completed, total) => {
+      expect(total).toBe(120);
+      progress.push(completed);
+    });
+
+    expect(progress).toEqual([50, 100, 120]);
+  });
+});
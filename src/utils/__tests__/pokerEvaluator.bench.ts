@@ -0,0 +1,52 @@
+import { bench, describe } from 'vitest';
+import { PokerEvaluator } from '../pokerEvaluator';
+import { LookupEvaluator, buildLookupTable } from '../lookupEvaluator';
+import { createFullDeck } from '../deck';
+import { createRng } from '../rng';
+import { Card } from '../../types';
+
+const SAMPLE_SIZE = 10_000;
+const MINIMUM_PAIR_RANK = 11;
+
+/** Reproducible random hands; wildChance turns that share of cards wild. */
+function createSample(seed: number, wildChance: number): Card[][] {
+  const rng = createRng(seed);
+  const deck = createFullDeck();
+  return Array.from({ length: SAMPLE_SIZE }, () => {
+    const remaining = [...deck];
+    return Array.from({ length: 5 }, () => {
+      const card = remaining.splice(rng.nextInt(remaining.length), 1)[0];
+      return rng.next() < wildChance ? { ...card, isWild: true } : card;
+    });
+  });
+}
+
+const standardHands = createSample(1, 0);
+const wildHands = createSample(2, 0.3);
+
+// The tables are built when the module loads, before the first hand is scored
+describe('cold start', () => {
+  bench('build the lookup tables', () => {
+    buildLookupTable();
+  });
+});
+
+describe(`evaluate ${SAMPLE_SIZE} standard hands`, () => {
+  bench('PokerEvaluator', () => {
+    for (const hand of standardHands) PokerEvaluator.evaluate(hand, MINIMUM_PAIR_RANK);
+  });
+
+  bench('LookupEvaluator', () => {
+    for (const hand of standardHands) LookupEvaluator.evaluate(hand, MINIMUM_PAIR_RANK);
+  });
+});
+
+describe(`evaluate ${SAMPLE_SIZE} hands with wild cards`, () => {
+  bench('PokerEvaluator', () => {
+    for (const hand of wildHands) PokerEvaluator.evaluate(hand, MINIMUM_PAIR_RANK);
+  });
+
+  bench('LookupEvaluator', () => {
+    for (const hand of wildHands) LookupEvaluator.evaluate(hand, MINIMUM_PAIR_RANK);
+  });
+});
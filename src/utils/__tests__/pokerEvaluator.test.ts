@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { PokerEvaluator } from '../pokerEvaluator';
 import { Card } from '../../types';
+import { getGameMode, setCurrentGameModeId } from '../../config/gameConfig';
 
 // Helper function to create a card
 function createCard(rank: Card['rank'], suit: Card['suit'], options?: Partial<Card>): Card {
@@ -341,6 +342,54 @@ describe('PokerEvaluator', () => {
     });
   });
 
+  describe('Qualifying pair rank', () => {
+    const pairOfTens: Card[] = [
+      createCard('10', 'hearts'),
+      createCard('10', 'diamonds'),
+      createCard('5', 'clubs'),
+      createCard('8', 'spades'),
+      createCard('2', 'hearts'),
+    ];
+    const rewards = getGameMode('normalGame').rewards;
+
+    it('scores pairs at the given threshold (Tens or Better)', () => {
+      expect(PokerEvaluator.evaluate(pairOfTens, 10).rank).toBe('one-pair');
+      expect(PokerEvaluator.evaluate(pairOfTens, 11).rank).toBe('high-card');
+    });
+
+    it('raises the threshold for wild card pairs (Kings or Better)', () => {
+      const hand: Card[] = [
+        createCard('Q', 'hearts'),
+        createCard('A', 'diamonds', { isWild: true }),
+        createCard('5', 'clubs'),
+        createCard('8', 'spades'),
+        createCard('2', 'hearts'),
+      ];
+      // The wild pairs with the Queen under Jacks or Better; no regular card reaches Kings
+      expect(PokerEvaluator.evaluate(hand, 11).rank).toBe('one-pair');
+      expect(PokerEvaluator.evaluate(hand, 13).rank).toBe('high-card');
+    });
+
+    it('follows the active game mode by default', () => {
+      setCurrentGameModeId('casualMode');
+      try {
+        expect(getGameMode('casualMode').minimumPairRank).toBe(10);
+        expect(PokerEvaluator.evaluate(pairOfTens).rank).toBe('one-pair');
+      } finally {
+        setCurrentGameModeId('normalGame');
+      }
+      expect(PokerEvaluator.evaluate(pairOfTens).rank).toBe('high-card');
+    });
+
+    it('applyRewards pays nothing for a pair below the threshold', () => {
+      const result = PokerEvaluator.evaluate(pairOfTens, 10);
+      expect(PokerEvaluator.applyRewards(result, rewards, 10).multiplier).toBe(
+        rewards['one-pair']
+      );
+      expect(PokerEvaluator.applyRewards(result, rewards, 11).multiplier).toBe(0);
+    });
+  });
+
   describe('High Card', () => {
     it('should identify high card', () => {
       const hand: Card[] = [
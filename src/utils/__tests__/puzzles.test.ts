@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  PUZZLE_STARS_STORAGE_KEY,
+  dealPuzzleHand,
+  getPuzzle,
+  getPuzzleGoalLabel,
+  getPuzzleOutcome,
+  loadPuzzleStars,
+  recordPuzzleStars,
+  startPuzzleRun,
+} from '../puzzles';
+import { GameEngine } from '../gameEngine';
+import { prepareDraw } from '../botPlay';
+import { Puzzle, PUZZLES } from '../../config/puzzlesConfig';
+import { GameState } from '../../types';
+
+function getTestPuzzle(puzzleId: string): Puzzle {
+  const puzzle = getPuzzle(puzzleId);
+  if (!puzzle) {
+    throw new Error(`No puzzle ${puzzleId}`);
+  }
+  return puzzle;
+}
+
+function startPuzzle(puzzle: Puzzle): GameState {
+  return startPuzzleRun(GameEngine.createInitialState(), puzzle);
+}
+
+/** Draw with the given holds and collect the payout, as the Results screen does. */
+function playRound(state: GameState, heldIndices: number[], takeDevilsDeal = false): GameState {
+  let next = heldIndices.reduce((held, i) => GameEngine.toggleHold(held, i), state);
+  if (takeDevilsDeal) {
+    next = GameEngine.toggleDevilsDealHold(next);
+  }
+  next = GameEngine.moveToNextScreen(GameEngine.drawParallelHands(next));
+  return GameEngine.returnToPreDraw(next, next.parallelHandsResult?.summary.totalPayout ?? 0);
+}
+
+/** Play a round the way the optimal bot would, shopping skipped. */
+function playSurvivalRound(state: GameState, puzzle: Puzzle): GameState {
+  let next = prepareDraw(dealPuzzleHand(state, puzzle), 'advisor', 'never', () => 0.5);
+  next = GameEngine.moveToNextScreen(GameEngine.drawParallelHands(next));
+  next = GameEngine.returnToPreDraw(next, next.parallelHandsResult?.summary.totalPayout);
+  return next.showShopNextRound ? GameEngine.proceedFromResults(next) : next;
+}
+
+/** The intended first-round play of each earn puzzle, and a tempting one that falls short. */
+const EARN_SOLUTIONS: Record<string, { solution: number[]; tempting: number[]; deal?: boolean }> =
+  {
+    'flush-or-pair': { solution: [0, 1, 2, 3], tempting: [2, 4] },
+    'devils-bargain': { solution: [0, 1, 2, 3], tempting: [0, 1, 2, 3], deal: true },
+    'eight-cards': { solution: [0, 4, 5, 6, 7], tempting: [0, 1, 2, 3] },
+  };
+
+describe('puzzles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts the run from the puzzle setup', () => {
+    const state = startPuzzle(getTestPuzzle('last-stand'));
+    expect(state.screen).toBe('game');
+    expect(state.runSeed).toBe(7);
+    expect(state.credits).toBe(20000);
+    expect(state.betAmount).toBe(20);
+    expect(state.minimumBet).toBe(20);
+    expect(state.selectedHandCount).toBe(100);
+    expect(state.round).toBe(30);
+    expect(state.isEndlessMode).toBe(true);
+  });
+
+  it("deals the puzzle's hand from the deck, wild cards included, in the first round only", () => {
+    const puzzle = getTestPuzzle('eight-cards');
+    const state = dealPuzzleHand(startPuzzle(puzzle), puzzle);
+    expect(state.extraCardsInHand).toBe(3);
+    expect(state.playerHand.map((card) => card.id)).toEqual([
+      'wild-0',
+      'clubs-7',
+      'diamonds-7',
+      'spades-7',
+      'hearts-9',
+      'hearts-10',
+      'hearts-J',
+      'hearts-Q',
+    ]);
+    expect(state.credits).toBe(5000 - 10 * 50);
+
+    const nextRound = dealPuzzleHand(GameEngine.proceedFromResults(playRound(state, [])), puzzle);
+    expect(nextRound.round).toBe(2);
+    expect(nextRound.playerHand.map((card) => card.id)).not.toEqual(
+      state.playerHand.map((card) => card.id)
+    );
+  });
+
+  it("offers the puzzle's Devil's Deal with its hand", () => {
+    const puzzle = getTestPuzzle('devils-bargain');
+    const state = dealPuzzleHand(startPuzzle(puzzle), puzzle);
+    expect(state.devilsDealCard?.id).toBe('spades-10');
+    expect(state.devilsDealCost).toBeGreaterThan(0);
+  });
+
+  it.each(Object.entries(EARN_SOLUTIONS))(
+    'solves %s with its intended play only',
+    (puzzleId, { solution, tempting, deal }) => {
+      const puzzle = getTestPuzzle(puzzleId);
+      const dealt = dealPuzzleHand(startPuzzle(puzzle), puzzle);
+      expect(getPuzzleOutcome(puzzle, dealt)).toBeNull();
+
+      const solved = getPuzzleOutcome(puzzle, playRound(dealt, solution));
+      expect(solved).toMatchObject({ won: true, stars: 3 });
+      const missed = getPuzzleOutcome(puzzle, playRound(dealt, tempting, deal));
+      expect(missed).toMatchObject({ won: false, stars: 0 });
+    }
+  );
+
+  it('wins a survival puzzle once its rounds are played and loses it when the run ends', () => {
+    const puzzle = getTestPuzzle('last-stand');
+    let state = startPuzzle(puzzle);
+    for (let round = 0; round < 3; round++) {
+      expect(getPuzzleOutcome(puzzle, state)).toBeNull();
+      state = playSurvivalRound(state, puzzle);
+    }
+    expect(getPuzzleOutcome(puzzle, state)).toMatchObject({ won: true, score: state.credits });
+
+    const ended = GameEngine.endRun(startPuzzle(puzzle), 'minimum-win-percent');
+    expect(getPuzzleOutcome(puzzle, ended)).toMatchObject({ won: false, stars: 0 });
+  });
+
+  it('counts only end game rounds towards a survival goal', () => {
+    const lastStand = getTestPuzzle('last-stand');
+    const puzzle: Puzzle = { ...lastStand, setup: { ...lastStand.setup, round: 28 } };
+    let state = startPuzzle(puzzle);
+    expect(state.isEndlessMode).toBe(false);
+
+    // Rounds 28 and 29 come before the end game
+    for (let round = 0; round < 4; round++) {
+      state = playSurvivalRound(state, puzzle);
+      expect(getPuzzleOutcome(puzzle, state)).toBeNull();
+    }
+    state = playSurvivalRound(state, puzzle);
+    expect(state.roundHistory).toHaveLength(5);
+    expect(getPuzzleOutcome(puzzle, state)).toMatchObject({ won: true });
+  });
+
+  it('describes every goal', () => {
+    expect(PUZZLES.map((puzzle) => getPuzzleGoalLabel(puzzle.goal))).toContain(
+      'Survive 3 end game rounds'
+    );
+    expect(getPuzzleGoalLabel({ type: 'earn', credits: 50000 })).toBe(
+      'Profit 50,000 credits this round'
+    );
+  });
+
+  it('keeps the best stars per puzzle', () => {
+    recordPuzzleStars('flush-or-pair', 2);
+    recordPuzzleStars('flush-or-pair', 1);
+    expect(recordPuzzleStars('last-stand', 3)).toEqual({ 'flush-or-pair': 2, 'last-stand': 3 });
+
+    localStorage.setItem(
+      PUZZLE_STARS_STORAGE_KEY,
+      JSON.stringify({ 'flush-or-pair': 2, 'no-such-puzzle': 3, 'last-stand': 'many' })
+    );
+    expect(loadPuzzleStars()).toEqual({ 'flush-or-pair': 2 });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createRng, createRoundRng, createRunSeed } from '../rng';
+
+describe('createRng', () => {
+  it('should produce the same sequence for the same state', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const seqA = Array.from({ length: 10 }, () => a.next());
+    const seqB = Array.from({ length: 10 }, () => b.next());
+    expect(seqA).toEqual(seqB);
+  });
+
+  it('should produce different sequences for different states', () => {
+    const a = createRng(1);
+    const b = createRng(2);
+    expect(a.next()).not.toBe(b.next());
+  });
+
+  it('should return floats in [0, 1)', () => {
+    const rng = createRng(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should return integers in [0, max) from nextInt', () => {
+    const rng = createRng(99);
+    for (let i = 0; i < 500; i++) {
+      const value = rng.nextInt(13);
+      expect(Number.isInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(13);
+    }
+  });
+
+  it('should resume from a saved position', () => {
+    const original = createRng(2024);
+    original.next();
+    original.next();
+    const resumed = createRng(original.getState());
+    expect(resumed.next()).toBe(original.next());
+    expect(resumed.next()).toBe(original.next());
+  });
+});
+
+describe('createRoundRng', () => {
+  const firstDraws = (rng: ReturnType<typeof createRng>) =>
+    Array.from({ length: 5 }, () => rng.next());
+
+  it('should derive the same generator from the same seed, purpose, round and index', () => {
+    expect(firstDraws(createRoundRng(42, 'deal', 3))).toEqual(
+      firstDraws(createRoundRng(42, 'deal', 3, 0))
+    );
+  });
+
+  it('should give each seed, purpose, round and index its own stream', () => {
+    const base = firstDraws(createRoundRng(42, 'deal', 3));
+    expect(firstDraws(createRoundRng(43, 'deal', 3))).not.toEqual(base);
+    expect(firstDraws(createRoundRng(42, 'shop', 3))).not.toEqual(base);
+    expect(firstDraws(createRoundRng(42, 'deal', 4))).not.toEqual(base);
+    expect(firstDraws(createRoundRng(42, 'deal', 3, 1))).not.toEqual(base);
+  });
+});
+
+describe('createRunSeed', () => {
+  it('should return an unsigned 32-bit integer', () => {
+    const seed = createRunSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+});
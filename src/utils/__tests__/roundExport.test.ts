@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  exportPlayedRound,
+  exportRecordedRounds,
+  ROUND_EXPORT_CSV_COLUMNS,
+  ROUND_EXPORT_FORMAT,
+  RoundExport,
+  roundsToCsv,
+  roundsToJson,
+} from '../roundExport';
+import { GameEngine } from '../gameEngine';
+import { formatCard } from '../format';
+import { summarizeRoundCombos } from '../streakCalculator';
+import { GameState } from '../../types';
+
+/** A round on the Results screen, before it is paid out. */
+function playToResults(seed: number = 9): GameState {
+  const dealt = GameEngine.dealHand(GameEngine.startNewRun(GameEngine.createInitialState(), seed));
+  return GameEngine.moveToNextScreen(GameEngine.drawParallelHands(GameEngine.toggleHold(dealt, 0)));
+}
+
+const sampleRound: RoundExport = {
+  round: 3,
+  betAmount: 5,
+  totalPayout: 12,
+  hands: [
+    { hand: 1, cards: ['A♠', 'K♠'], rank: 'one-pair', streakMultiplier: 1, payout: 5 },
+    { hand: 2, cards: ['2♥', '7♦'], rank: 'high-card', streakMultiplier: 1.5, payout: 0 },
+  ],
+};
+
+describe('roundExport', () => {
+  it('exports every parallel hand with its rank, streak multiplier and payout', () => {
+    const state = playToResults();
+    const round = exportPlayedRound(
+      state.round,
+      state.betAmount,
+      state.parallelHands,
+      state.rewardTable,
+      state.parallelHandsResult
+    );
+    const { scores, summary } = state.parallelHandsResult!;
+
+    expect(round.hands).toHaveLength(state.parallelHands.length);
+    expect(round.hands[0]).toEqual({
+      hand: 1,
+      cards: state.parallelHands[0].cards.map(formatCard),
+      rank: scores[0].rank,
+      streakMultiplier: summary.streakMultipliers[0],
+      payout: summary.handPayouts[0],
+    });
+    expect(round.hands.reduce((sum, hand) => sum + hand.payout, 0)).toBe(summary.totalPayout);
+    expect(round.totalPayout).toBe(summary.totalPayout);
+  });
+
+  it('scores the hands itself when the round summary is missing', () => {
+    const state = playToResults();
+    const round = exportPlayedRound(
+      state.round,
+      state.betAmount,
+      state.parallelHands,
+      state.rewardTable
+    );
+    const summary = summarizeRoundCombos(state.parallelHands, state.rewardTable, state.betAmount);
+    expect(round.hands.map((hand) => hand.payout)).toEqual(summary.handPayouts);
+    expect(round.totalPayout).toBe(summary.totalPayout);
+  });
+
+  it('exports recorded rounds exactly as they were played, reporting progress', async () => {
+    const state = playToResults(4);
+    const played = exportPlayedRound(
+      state.round,
+      state.betAmount,
+      state.parallelHands,
+      state.rewardTable,
+      state.parallelHandsResult
+    );
+    const paid = GameEngine.returnToPreDraw(state, played.totalPayout);
+    const onProgress = vi.fn();
+
+    const rounds = await exportRecordedRounds(
+      [paid.roundHistory[0], paid.roundHistory[0]],
+      onProgress
+    ).promise;
+    expect(rounds).toEqual([played, played]);
+    expect(onProgress.mock.calls).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it('exports no hands for a round recorded without its job', async () => {
+    const state = playToResults();
+    const paid = GameEngine.returnToPreDraw(state, 0);
+    const record = { ...paid.roundHistory[0], parallelHandsJob: null };
+
+    const [round] = await exportRecordedRounds([record]).promise;
+    expect(round).toMatchObject({ round: 1, hands: [] });
+  });
+
+  it('stops exporting recorded rounds once cancelled', async () => {
+    const paid = GameEngine.returnToPreDraw(playToResults(), 0);
+    const onProgress = vi.fn();
+    const settled = vi.fn();
+
+    const recordedExport = exportRecordedRounds([paid.roundHistory[0]], onProgress);
+    recordedExport.promise.then(settled, settled);
+    recordedExport.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(onProgress).not.toHaveBeenCalled();
+    expect(settled).not.toHaveBeenCalled();
+  });
+
+  it('writes one CSV row per hand under a header', () => {
+    const rows = roundsToCsv([sampleRound]).split('\r\n');
+    expect(rows).toEqual([
+      ROUND_EXPORT_CSV_COLUMNS.join(','),
+      '3,5,1,A♠ K♠,one-pair,1,5',
+      '3,5,2,2♥ 7♦,high-card,1.5,0',
+    ]);
+  });
+
+  it('quotes CSV fields holding commas or quotes', () => {
+    const round: RoundExport = {
+      ...sampleRound,
+      hands: [{ ...sampleRound.hands[0], cards: ['A,"1"'] }],
+    };
+    expect(roundsToCsv([round]).split('\r\n')[1]).toBe('3,5,1,"A,""1""",one-pair,1,5');
+  });
+
+  it('writes JSON with the run seed and rounds', () => {
+    expect(JSON.parse(roundsToJson([sampleRound], 42))).toEqual({
+      format: ROUND_EXPORT_FORMAT,
+      runSeed: 42,
+      rounds: [sampleRound],
+    });
+  });
+});
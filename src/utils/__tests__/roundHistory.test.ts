@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { addRoundRecord, countRanks, getRoundHands, ROUND_HISTORY_LIMIT } from '../roundHistory';
+import { GameEngine } from '../gameEngine';
+import { toStoredRunState } from '../runPersistence';
+import { isStoredRunState } from '../typeGuards';
+import { GameState, RoundRecord } from '../../types';
+
+function startRun(seed: number = 21): GameState {
+  return GameEngine.startNewRun(GameEngine.createInitialState(), seed);
+}
+
+/** Play one round the way the UI does, holding the given cards. */
+function playRound(state: GameState, heldIndices: number[] = []): GameState {
+  let next = GameEngine.dealHand(state);
+  while (next.gamePhase === 'playing') {
+    next = heldIndices.reduce((current, i) => GameEngine.toggleHold(current, i), {
+      ...next,
+      heldIndices: [],
+    });
+    next = GameEngine.drawParallelHands(next);
+  }
+  next = GameEngine.moveToNextScreen(next);
+  return GameEngine.returnToPreDraw(next, next.parallelHandsResult?.summary.totalPayout ?? 0);
+}
+
+describe('roundHistory', () => {
+  it('records each round when it is paid out', () => {
+    const start = startRun();
+    const dealt = GameEngine.dealHand(start);
+    expect(dealt.roundLog).toMatchObject({
+      creditsBefore: start.credits,
+      dealtHand: dealt.playerHand,
+      draws: [],
+      parallelHandsJob: null,
+    });
+
+    const played = GameEngine.moveToNextScreen(
+      GameEngine.drawParallelHands(GameEngine.toggleHold(dealt, 0))
+    );
+    const summary = played.parallelHandsResult!.summary;
+    const paid = GameEngine.returnToPreDraw(played, summary.totalPayout);
+
+    expect(paid.roundLog).toBeNull();
+    expect(paid.roundHistory).toHaveLength(1);
+    const [record] = paid.roundHistory;
+    expect(record).toMatchObject({
+      round: 1,
+      betAmount: start.betAmount,
+      minimumBet: start.minimumBet,
+      handCount: start.selectedHandCount,
+      availableHandCount: start.handCount,
+      handsWon: paid.winningHandsLastRound,
+      creditsBefore: start.credits,
+      creditsAfter: paid.credits,
+      payout: summary.totalPayout,
+      highestCombo: summary.highestCombo,
+      highestMultiplier: summary.highestMultiplier,
+      devilsDeal: null,
+      rankCounts: countRanks(played.parallelHandsResult!.scores),
+    });
+    expect(record.draws).toEqual([{ heldIndices: [0], hand: played.playerHand }]);
+  });
+
+  it('regenerates exactly the parallel hands that were played', () => {
+    const dealt = GameEngine.dealHand(startRun(5));
+    const played = GameEngine.drawParallelHands(GameEngine.toggleHold(dealt, 2));
+    const paid = GameEngine.returnToPreDraw(GameEngine.moveToNextScreen(played), 0);
+
+    const hands = getRoundHands(paid.roundHistory[0]);
+    expect(hands.map((hand) => hand.cards)).toEqual(
+      played.parallelHands.map((hand) => hand.cards)
+    );
+    expect(hands.map((hand) => hand.rank)).toEqual(
+      played.parallelHandsResult!.scores.map((score) => score.rank)
+    );
+  });
+
+  it('logs every draw step with its holds', () => {
+    const state = playRound({ ...startRun(), extraDrawPurchased: true }, [0, 1]);
+    const [record] = state.roundHistory;
+    expect(record.draws.map((draw) => draw.heldIndices)).toEqual([
+      [0, 1],
+      [0, 1],
+    ]);
+    expect(record.draws[0].hand.slice(0, 2)).toEqual(record.dealtHand.slice(0, 2));
+  });
+
+  it("records whether an offered Devil's Deal was taken and what it cost", () => {
+    const dealt = GameEngine.dealHand(GameEngine.cheatSetDevilsDeal(startRun()));
+    const card = dealt.devilsDealCard!;
+    const played = GameEngine.drawParallelHands(GameEngine.toggleDevilsDealHold(dealt));
+    const paid = GameEngine.returnToPreDraw(GameEngine.moveToNextScreen(played), 0);
+
+    expect(paid.roundHistory[0].devilsDeal).toEqual({
+      card,
+      cost: dealt.devilsDealCost,
+      taken: true,
+    });
+  });
+
+  it('keeps the last ROUND_HISTORY_LIMIT rounds', () => {
+    const record = { round: 1 } as RoundRecord;
+    const full = Array.from({ length: ROUND_HISTORY_LIMIT }, (_, i) => ({ ...record, round: i }));
+    const next = addRoundRecord(full, { ...record, round: ROUND_HISTORY_LIMIT });
+    expect(next).toHaveLength(ROUND_HISTORY_LIMIT);
+    expect(next[0].round).toBe(1);
+    expect(next[next.length - 1].round).toBe(ROUND_HISTORY_LIMIT);
+  });
+
+  it('is saved with the run', () => {
+    let state = startRun();
+    for (let i = 0; i < 3; i++) state = playRound(state);
+    const stored = JSON.parse(JSON.stringify(toStoredRunState(state)));
+    expect(isStoredRunState(stored)).toBe(true);
+    expect(isStoredRunState({ ...stored, roundHistory: [{ round: 1 }] })).toBe(false);
+  });
+
+  it('starts empty for each new run', () => {
+    const played = playRound(startRun());
+    expect(GameEngine.startNewRun(played, 3).roundHistory).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { getChartPolylinePoints, getRunChartData } from '../runCharts';
+import { getMinimumWinPercentForRound } from '../failureConditions';
+import { GAME_OVER_REASON_LABELS } from '../gameOverDisplay';
+import { getCurrentGameMode } from '../../config/gameConfig';
+import { createTestRoundRecord } from '../../test/testHelpers';
+
+describe('runCharts', () => {
+  const endlessStartRound = getCurrentGameMode().endlessMode!.startRound;
+
+  it('charts credits, bets, win percentage and hand counts by round', () => {
+    const history = [
+      createTestRoundRecord(1),
+      createTestRoundRecord(2, { betAmount: 8, handsWon: 10 }),
+    ];
+    const { charts } = getRunChartData(history, null);
+    const byId = Object.fromEntries(charts.map((chart) => [chart.id, chart]));
+
+    expect(byId.credits.series[0].points).toEqual([
+      { round: 1, value: 1001 },
+      { round: 2, value: 1002 },
+    ]);
+    expect(byId.bet.series.map((series) => series.points.map((point) => point.value))).toEqual([
+      [5, 8],
+      [2, 2],
+    ]);
+    expect(byId['win-percent'].series[0].points.map((point) => point.value)).toEqual([40, 100]);
+    expect(byId['hand-count'].series.map((series) => series.reference)).toEqual([false, true]);
+  });
+
+  it('plots the win percentage requirement only for endless rounds', () => {
+    const history = [
+      createTestRoundRecord(endlessStartRound - 1),
+      createTestRoundRecord(endlessStartRound + 2),
+    ];
+    const { charts } = getRunChartData(history, null);
+    const required = charts.find((chart) => chart.id === 'win-percent')!.series[1];
+
+    expect(required.reference).toBe(true);
+    expect(required.points).toEqual([
+      { round: endlessStartRound + 2, value: getMinimumWinPercentForRound(endlessStartRound + 2) },
+    ]);
+  });
+
+  it('marks where endless mode began and the round the run failed', () => {
+    const history = [
+      createTestRoundRecord(endlessStartRound - 1),
+      createTestRoundRecord(endlessStartRound),
+      createTestRoundRecord(endlessStartRound + 1),
+    ];
+    expect(getRunChartData(history, 'minimum-win-percent').markers).toEqual([
+      { type: 'endless', round: endlessStartRound, label: 'Endless mode' },
+      {
+        type: 'failure',
+        round: endlessStartRound + 1,
+        label: GAME_OVER_REASON_LABELS['minimum-win-percent'],
+      },
+    ]);
+  });
+
+  it('marks nothing for a short run the player walked away from', () => {
+    expect(getRunChartData([createTestRoundRecord(1)], 'voluntary').markers).toEqual([]);
+  });
+
+  it('spreads rounds over the width and values over the height', () => {
+    const points = [
+      { round: 1, value: 0 },
+      { round: 3, value: 50 },
+      { round: 5, value: 100 },
+    ];
+    expect(getChartPolylinePoints(points, 1, 5, 100, 100, 40)).toBe('0,40 50,20 100,0');
+    expect(getChartPolylinePoints([{ round: 7, value: 5 }], 7, 7, 10, 100, 40)).toBe('50,20');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RUN_HISTORY_STORAGE_KEY,
+  RUN_HISTORY_LIMIT,
+  RunHistoryEntry,
+  createRunHistoryEntry,
+  loadRunHistory,
+  appendRunHistory,
+  getBestRuns,
+  calculateLifetimeStats,
+} from '../runHistory';
+import { createTestGameState } from '../../test/testHelpers';
+
+function createEntry(overrides: Partial<RunHistoryEntry> = {}): RunHistoryEntry {
+  return {
+    ...createRunHistoryEntry(createTestGameState({ gameOverReason: 'insufficient-credits' }), 1),
+    ...overrides,
+  };
+}
+
+describe('runHistory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createRunHistoryEntry', () => {
+    it('captures the final run state', () => {
+      const state = createTestGameState({
+        runSeed: 42,
+        round: 17,
+        credits: 300,
+        runPeakCredits: 5000,
+        totalEarnings: 9000,
+        gameOverReason: 'minimum-bet-multiplier',
+        runPurchases: { 'dead-card': 2 },
+      });
+
+      expect(createRunHistoryEntry(state, 1000)).toEqual({
+        endedAt: 1000,
+        seed: 42,
+        gameModeId: state.gameModeId,
+        roundsSurvived: 17,
+        peakCredits: 5000,
+        finalCredits: 300,
+        totalEarnings: 9000,
+        runHighestCombo: state.runHighestCombo,
+        runHighestMultiplier: state.runHighestMultiplier,
+        gameOverReason: 'minimum-bet-multiplier',
+        purchases: { 'dead-card': 2 },
+      });
+    });
+  });
+
+  describe('storage', () => {
+    it('appends entries oldest first', () => {
+      appendRunHistory(createEntry({ endedAt: 1 }));
+      appendRunHistory(createEntry({ endedAt: 2 }));
+      expect(loadRunHistory().map((run) => run.endedAt)).toEqual([1, 2]);
+    });
+
+    it('drops the oldest entries past the limit', () => {
+      const full = Array.from({ length: RUN_HISTORY_LIMIT }, (_, i) => createEntry({ endedAt: i }));
+      localStorage.setItem(RUN_HISTORY_STORAGE_KEY, JSON.stringify(full));
+
+      appendRunHistory(createEntry({ endedAt: RUN_HISTORY_LIMIT }));
+
+      const history = loadRunHistory();
+      expect(history).toHaveLength(RUN_HISTORY_LIMIT);
+      expect(history[0].endedAt).toBe(1);
+    });
+
+    it('skips invalid entries and corrupt storage', () => {
+      localStorage.setItem(RUN_HISTORY_STORAGE_KEY, JSON.stringify([createEntry(), { seed: 1 }]));
+      expect(loadRunHistory()).toHaveLength(1);
+
+      localStorage.setItem(RUN_HISTORY_STORAGE_KEY, 'not json');
+      expect(loadRunHistory()).toEqual([]);
+    });
+  });
+
+  it('getBestRuns ranks by rounds survived, then peak credits', () => {
+    const history = [
+      createEntry({ endedAt: 1, roundsSurvived: 10, peakCredits: 100 }),
+      createEntry({ endedAt: 2, roundsSurvived: 20, peakCredits: 50 }),
+      createEntry({ endedAt: 3, roundsSurvived: 10, peakCredits: 900 }),
+    ];
+    expect(getBestRuns(history, 2).map((run) => run.endedAt)).toEqual([2, 3]);
+  });
+
+  it('calculateLifetimeStats aggregates every run', () => {
+    const stats = calculateLifetimeStats([
+      createEntry({
+        roundsSurvived: 10,
+        totalEarnings: 1000,
+        runHighestCombo: 4,
+        purchases: { 'wild-card': 1, 'extra-draw': 2 },
+      }),
+      createEntry({ roundsSurvived: 25, totalEarnings: 500, gameOverReason: 'voluntary' }),
+    ]);
+
+    expect(stats).toMatchObject({
+      runsPlayed: 2,
+      totalRoundsSurvived: 35,
+      totalEarnings: 1500,
+      bestRoundsSurvived: 25,
+      bestCombo: 4,
+      totalPurchases: 3,
+      endReasons: { 'insufficient-credits': 1, voluntary: 1 },
+    });
+  });
+});
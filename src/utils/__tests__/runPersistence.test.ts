@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RUN_SAVE_STORAGE_KEY,
+  RUN_SAVE_VERSION,
+  isSafeSavePoint,
+  toStoredRunState,
+  migrateRunSave,
+  parseRunSave,
+  saveRun,
+  loadSavedRun,
+  clearSavedRun,
+} from '../runPersistence';
+import { isStoredRunState } from '../typeGuards';
+import { GameEngine } from '../gameEngine';
+import { createTestGameState, createTestCard, createTestRoundRecord } from '../../test/testHelpers';
+
+function createSavedRunState() {
+  return toStoredRunState(
+    createTestGameState({
+      round: 40,
+      credits: 12345,
+      playerHand: [createTestCard('A', 'spades')],
+      selectedShopOptions: ['dead-card', 'wild-card'],
+      gameOverReason: null,
+      devilsDealCard: createTestCard('K', 'hearts'),
+    })
+  );
+}
+
+describe('runPersistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('isSafeSavePoint', () => {
+    it('saves on PreDraw (including the shop) and Results only', () => {
+      expect(isSafeSavePoint(createTestGameState({ gamePhase: 'preDraw' }))).toBe(true);
+      expect(isSafeSavePoint(createTestGameState({ gamePhase: 'results' }))).toBe(true);
+      expect(isSafeSavePoint(createTestGameState({ screen: 'shop' }))).toBe(true);
+      expect(isSafeSavePoint(createTestGameState({ gamePhase: 'playing' }))).toBe(false);
+      expect(
+        isSafeSavePoint(createTestGameState({ gamePhase: 'parallelHandsAnimation' }))
+      ).toBe(false);
+      expect(isSafeSavePoint(createTestGameState({ screen: 'menu' }))).toBe(false);
+      expect(isSafeSavePoint(createTestGameState({ screen: 'gameOver' }))).toBe(false);
+    });
+  });
+
+  describe('toStoredRunState', () => {
+    it('leaves out player settings and transient flags', () => {
+      const stored = toStoredRunState(createTestGameState());
+      expect(stored).not.toHaveProperty('audioSettings');
+      expect(stored).not.toHaveProperty('animationSpeedMode');
+      expect(stored).not.toHaveProperty('cardTheme');
+      expect(stored).not.toHaveProperty('isGeneratingHands');
+      expect(isStoredRunState(stored)).toBe(true);
+    });
+  });
+
+  describe('save and load', () => {
+    it('round-trips a run through localStorage', () => {
+      const state = createTestGameState({ round: 40, credits: 999, runSeed: 77 });
+      saveRun(state);
+
+      const save = loadSavedRun();
+      expect(save?.version).toBe(RUN_SAVE_VERSION);
+      expect(save?.state).toEqual(toStoredRunState(state));
+
+      const resumed = GameEngine.resumeRun(GameEngine.createInitialState(), save!.state);
+      expect(resumed.round).toBe(40);
+      expect(resumed.credits).toBe(999);
+      expect(resumed.runSeed).toBe(77);
+    });
+
+    it('returns null when nothing is saved', () => {
+      expect(loadSavedRun()).toBeNull();
+    });
+
+    it('discards a corrupt save', () => {
+      localStorage.setItem(RUN_SAVE_STORAGE_KEY, '{not json');
+      expect(loadSavedRun()).toBeNull();
+      expect(localStorage.getItem(RUN_SAVE_STORAGE_KEY)).toBeNull();
+    });
+
+    it('clearSavedRun removes the save', () => {
+      saveRun(createTestGameState());
+      clearSavedRun();
+      expect(loadSavedRun()).toBeNull();
+    });
+  });
+
+  describe('parseRunSave', () => {
+    it('rejects saves from a newer version', () => {
+      const json = JSON.stringify({
+        version: RUN_SAVE_VERSION + 1,
+        savedAt: 0,
+        state: createSavedRunState(),
+      });
+      expect(parseRunSave(json)).toBeNull();
+    });
+
+    it('rejects states with missing or mistyped fields', () => {
+      const valid = createSavedRunState();
+      const cases = [
+        { ...valid, credits: 'lots' },
+        { ...valid, gamePhase: 'bonusRound' },
+        { ...valid, playerHand: [{ suit: 'stars', rank: 'A', id: 'x' }] },
+        { ...valid, selectedShopOptions: ['free-money'] },
+        { ...valid, gameOverReason: 'bored' },
+        { ...valid, deckModifications: { deadCards: [] } },
+        { ...valid, creditsAtShopOpen: undefined },
+      ];
+      for (const state of cases) {
+        const json = JSON.stringify({ version: RUN_SAVE_VERSION, savedAt: 0, state });
+        expect(parseRunSave(json)).toBeNull();
+      }
+    });
+  });
+
+  describe('migrateRunSave', () => {
+    it('applies migrations in order from the saved version', () => {
+      const { credits, ...withoutCredits } = createSavedRunState();
+      const save = { version: RUN_SAVE_VERSION - 1, savedAt: 5, state: withoutCredits };
+      const migrated = migrateRunSave(save, {
+        [RUN_SAVE_VERSION - 1]: (state) => ({ ...state, credits }),
+      });
+      expect(migrated?.version).toBe(RUN_SAVE_VERSION);
+      expect(migrated?.state.credits).toBe(credits);
+    });
+
+    it('rejects a save with no migration path', () => {
+      const save = { version: RUN_SAVE_VERSION - 1, savedAt: 5, state: createSavedRunState() };
+      expect(migrateRunSave(save, {})).toBeNull();
+    });
+
+    it('upgrades version 1 saves with run tracking fields', () => {
+      const v1State: Record<string, unknown> = { ...createSavedRunState() };
+      delete v1State.gameModeId;
+      delete v1State.runPeakCredits;
+      delete v1State.runPurchases;
+      const migrated = migrateRunSave({ version: 1, savedAt: 5, state: v1State });
+      expect(migrated?.state).toMatchObject({
+        gameModeId: 'normalGame',
+        runPeakCredits: v1State.credits,
+        runPurchases: {},
+      });
+    });
+
+    it('upgrades version 2 saves with an empty hand history', () => {
+      const v2State: Record<string, unknown> = { ...createSavedRunState() };
+      delete v2State.roundHistory;
+      delete v2State.roundLog;
+      const migrated = migrateRunSave({ version: 2, savedAt: 5, state: v2State });
+      expect(migrated?.state).toMatchObject({ roundHistory: [], roundLog: null });
+    });
+
+    it('upgrades version 3 hand history records with round analytics', () => {
+      const dealt = GameEngine.dealHand(GameEngine.startNewRun(createTestGameState(), 3));
+      const played = GameEngine.moveToNextScreen(GameEngine.drawParallelHands(dealt));
+      const state = GameEngine.returnToPreDraw(played, 0);
+      const [record] = state.roundHistory;
+      const v3Record: Record<string, unknown> = { ...record };
+      delete v3Record.minimumBet;
+      delete v3Record.availableHandCount;
+      delete v3Record.handsWon;
+      const v3State = { ...toStoredRunState(state), roundHistory: [v3Record] };
+
+      const migrated = migrateRunSave({ version: 3, savedAt: 5, state: v3State });
+      expect(migrated?.state.roundHistory[0]).toMatchObject({
+        minimumBet: record.betAmount,
+        availableHandCount: record.handCount,
+        handsWon: record.handCount - (record.rankCounts['high-card'] ?? 0),
+      });
+    });
+
+    it('upgrades version 4 saves with unreviewed rounds', () => {
+      const v4Record: Record<string, unknown> = { ...createTestRoundRecord(1) };
+      delete v4Record.holdReview;
+      const v4State = {
+        ...createSavedRunState(),
+        roundHistory: [v4Record],
+        roundLog: { creditsBefore: 10, dealtHand: [], draws: [], parallelHandsJob: null },
+      };
+      const migrated = migrateRunSave({ version: 4, savedAt: 5, state: v4State });
+      expect(migrated?.state.roundHistory[0].holdReview).toBeNull();
+      expect(migrated?.state.roundLog?.holdReview).toBeNull();
+    });
+
+    it('upgrades version 5 saves as runs that are not daily challenges', () => {
+      const v5State: Record<string, unknown> = { ...createSavedRunState() };
+      delete v5State.dailyChallengeDate;
+      const migrated = migrateRunSave({ version: 5, savedAt: 5, state: v5State });
+      expect(migrated?.state.dailyChallengeDate).toBeNull();
+    });
+
+    it('upgrades version 6 saves as runs without cheats', () => {
+      const v6State: Record<string, unknown> = { ...createSavedRunState() };
+      delete v6State.cheatsUsed;
+      const migrated = migrateRunSave({ version: 6, savedAt: 5, state: v6State });
+      expect(migrated?.state.cheatsUsed).toBe(false);
+    });
+
+    it('upgrades version 7 saves by dropping the single RNG position', () => {
+      const state = createSavedRunState();
+      const migrated = migrateRunSave({
+        version: 7,
+        savedAt: 5,
+        state: { ...state, rngState: 12345 },
+      });
+      expect(migrated?.state).toEqual(state);
+    });
+  });
+});
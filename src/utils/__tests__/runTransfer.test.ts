@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RUN_CODE_PREFIX,
+  computeChecksum,
+  encodeRunCode,
+  decodeRunCode,
+  exportRunFile,
+  parseRunFile,
+  importRun,
+} from '../runTransfer';
+import { toStoredRunState } from '../runPersistence';
+import { createTestGameState, createTestCard } from '../../test/testHelpers';
+
+const lateGameState = createTestGameState({
+  round: 40,
+  credits: 987654,
+  runSeed: 31337,
+  streakCounter: 12,
+  currentStreakMultiplier: 2.5,
+  devilsDealChancePurchases: 3,
+  extraCardsInHand: 1,
+  deckModifications: {
+    deadCards: [{ ...createTestCard('7', 'clubs'), id: 'dead-0', isDead: true }],
+    wildCards: [{ ...createTestCard('A', 'hearts'), id: 'wild-0', isWild: true }],
+    removedCards: [],
+    deadCardRemovalCount: 0,
+  },
+});
+
+describe('runTransfer', () => {
+  describe('run codes', () => {
+    it('round-trips the full run state', () => {
+      const code = encodeRunCode(lateGameState);
+      expect(code.startsWith(`${RUN_CODE_PREFIX}.`)).toBe(true);
+
+      const result = decodeRunCode(code);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.save.state).toEqual(toStoredRunState(lateGameState));
+      }
+    });
+
+    it('rejects a code whose payload was tampered with', () => {
+      const [prefix, payload, checksum] = encodeRunCode(lateGameState).split('.');
+      const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+      const tampered = btoa(json.replace('"credits":987654', '"credits":999999999'))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+      const result = decodeRunCode(`${prefix}.${tampered}.${checksum}`);
+      expect(result).toEqual({ ok: false, error: expect.stringContaining('Checksum') });
+    });
+
+    it('rejects a code with a valid checksum but an invalid GameState', () => {
+      const json = JSON.stringify({ version: 1, savedAt: 0, state: { credits: 5 } });
+      const payload = btoa(json).replace(/=+$/, '');
+      const result = decodeRunCode(`${RUN_CODE_PREFIX}.${payload}.${computeChecksum(json)}`);
+      expect(result.ok).toBe(false);
+    });
+
+    it('rejects text that is not a run code', () => {
+      expect(decodeRunCode('hello').ok).toBe(false);
+      expect(decodeRunCode(`${RUN_CODE_PREFIX}.!!!.00000000`).ok).toBe(false);
+    });
+  });
+
+  describe('run files', () => {
+    it('round-trips the full run state', () => {
+      const result = parseRunFile(exportRunFile(lateGameState));
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.save.state).toEqual(toStoredRunState(lateGameState));
+      }
+    });
+
+    it('rejects a file whose state was edited', () => {
+      const file = JSON.parse(exportRunFile(lateGameState));
+      file.state.credits = 1e12;
+      const result = parseRunFile(JSON.stringify(file));
+      expect(result).toEqual({ ok: false, error: expect.stringContaining('Checksum') });
+    });
+
+    it('rejects JSON that is not a run file', () => {
+      expect(parseRunFile('{"hello": "world"}').ok).toBe(false);
+      expect(parseRunFile('not json').ok).toBe(false);
+    });
+  });
+
+  it('importRun accepts either a code or a file', () => {
+    expect(importRun(encodeRunCode(lateGameState)).ok).toBe(true);
+    expect(importRun(exportRunFile(lateGameState)).ok).toBe(true);
+  });
+
+  it('importRun leaves the run unranked and out of the Daily Challenge', () => {
+    const dailyRun = { ...lateGameState, cheatsUsed: false, dailyChallengeDate: '2026-10-19' };
+    for (const text of [encodeRunCode(dailyRun), exportRunFile(dailyRun)]) {
+      const result = importRun(text);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.save.state).toEqual({
+          ...toStoredRunState(dailyRun),
+          cheatsUsed: true,
+          dailyChallengeDate: null,
+        });
+      }
+    }
+  });
+
+  it('importRun refuses a run from a mode this device does not have', () => {
+    const customRun = { ...lateGameState, gameModeId: 'custom-elsewhere' };
+    expect(importRun(encodeRunCode(customRun))).toEqual({
+      ok: false,
+      error: "This run was played in a custom mode that isn't on this device.",
+    });
+  });
+});
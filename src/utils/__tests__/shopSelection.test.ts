@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { selectRandomShopOptions, selectShopOptionsByRarity } from '../shopSelection';
 import type { ShopRarityMode } from '../shopSelection';
+import { createRng } from '../rng';
 
 describe('selectShopOptionsByRarity', () => {
   it('returns one option per slot', () => {
@@ -20,6 +21,21 @@ describe('selectShopOptionsByRarity', () => {
     expect(result).toHaveLength(3);
   });
 
+  it('returns the same options for the same random source state', () => {
+    const mode: ShopRarityMode = {
+      shopSlots: [{ maxRarity: 2 }, { maxRarity: 2 }],
+      shopItems: {
+        'dead-card': { rarity: 1 },
+        'wild-card': { rarity: 2 },
+        'extra-draw': { rarity: 1 },
+        'extra-card-in-hand': { rarity: 2 },
+      },
+    };
+    expect(selectShopOptionsByRarity(mode, createRng(11).next)).toEqual(
+      selectShopOptionsByRarity(mode, createRng(11).next)
+    );
+  });
+
   it('returns empty when no shopSlots or shopItems', () => {
     expect(selectShopOptionsByRarity({})).toEqual([]);
     expect(selectShopOptionsByRarity({ shopSlots: [] })).toEqual([]);
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SEEN_TIPS_STORAGE_KEY, getTriggeredTips, loadSeenTips, markTipSeen } from '../tips';
+import { GameEngine } from '../gameEngine';
+import { gameConfig } from '../../config/gameConfig';
+import { createTestCard } from '../../test/testHelpers';
+import { GameState } from '../../types';
+
+function startRun(): GameState {
+  return GameEngine.startNewRun(GameEngine.createInitialState(), 11);
+}
+
+function getTipIds(prev: GameState, next: GameState, seen = loadSeenTips()): string[] {
+  return getTriggeredTips(prev, next, seen).map((tip) => tip.id);
+}
+
+describe('tips', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('getTriggeredTips', () => {
+    const run = startRun();
+
+    it("triggers on the first Devil's Deal offer of a hand", () => {
+      const offered = { ...run, devilsDealCard: createTestCard('A', 'spades') };
+      expect(getTipIds(run, offered)).toEqual(['devils-deal']);
+      expect(getTipIds(offered, { ...offered, devilsDealHeld: true })).toEqual([]);
+    });
+
+    it('triggers when the run enters the end game', () => {
+      expect(getTipIds(run, { ...run, isEndlessMode: true })).toEqual(['endless-mode']);
+    });
+
+    it('triggers when the shop opens as the premium shop', () => {
+      const { creditsThreshold } = gameConfig.shopOptions.premium;
+      const shop = { ...run, showShopNextRound: true, creditsAtShopOpen: creditsThreshold };
+      expect(getTipIds(run, shop)).toEqual(['vip-shop']);
+      expect(getTipIds(run, { ...shop, creditsAtShopOpen: creditsThreshold - 1 })).toEqual([]);
+    });
+
+    it('triggers on buying a dead card and on reaching a multiplier tier', () => {
+      expect(getTipIds(run, GameEngine.addDeadCard(run))).toEqual(['dead-card']);
+      expect(getTipIds(run, GameEngine.updateStreakCounter(run, 100))).toEqual(['streak-tier']);
+    });
+
+    it('skips seen tips', () => {
+      markTipSeen('endless-mode');
+      expect(getTipIds(run, { ...run, isEndlessMode: true })).toEqual([]);
+    });
+
+    it('ignores starting or continuing a run from the menu', () => {
+      const menu = GameEngine.createInitialState();
+      expect(getTipIds(menu, { ...run, isEndlessMode: true })).toEqual([]);
+    });
+  });
+
+  describe('seen tips', () => {
+    it('records each tip once and skips unknown ids', () => {
+      localStorage.setItem(SEEN_TIPS_STORAGE_KEY, JSON.stringify(['retired-tip']));
+      markTipSeen('dead-card');
+      expect(markTipSeen('dead-card')).toEqual(['dead-card']);
+      expect(loadSeenTips()).toEqual(['dead-card']);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  TRAINING_HISTORY_LIMIT,
+  TRAINING_HISTORY_STORAGE_KEY,
+  TrainingAttempt,
+  TrainingFocus,
+  appendTrainingHistory,
+  calculateTrainingAccuracy,
+  createTrainingAttempt,
+  createTrainingTable,
+  dealTrainingHand,
+  getTrainingAccuracyByFocus,
+  getTrainingHandFeatures,
+  gradeTrainingHold,
+  loadTrainingHistory,
+  matchesTrainingFocus,
+  DEFAULT_TRAINING_SETTINGS,
+} from '../training';
+import { analyzeHolds } from '../holdAdvisor';
+import { GameEngine } from '../gameEngine';
+import { createTestCard } from '../../test/testHelpers';
+import { GameState } from '../../types';
+
+function createAttempt(overrides: Partial<TrainingAttempt> = {}): TrainingAttempt {
+  return {
+    playedAt: 1,
+    focus: 'any',
+    handSize: 5,
+    wildCards: 0,
+    deadCards: 0,
+    bestHold: true,
+    expectedReturnLost: 0,
+    ...overrides,
+  };
+}
+
+function hold(table: GameState, heldIndices: number[]): GameState {
+  return heldIndices.reduce((state, i) => GameEngine.toggleHold(state, i), table);
+}
+
+describe('training', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('getTrainingHandFeatures', () => {
+    it('spots four to a flush beside a low pair', () => {
+      const hand = [
+        createTestCard('4', 'hearts'),
+        createTestCard('4', 'clubs'),
+        createTestCard('9', 'hearts'),
+        createTestCard('Q', 'hearts'),
+        createTestCard('2', 'hearts'),
+      ];
+      expect(getTrainingHandFeatures(hand, 11)).toEqual({
+        madeRank: 'high-card',
+        lowPair: true,
+        fourToAFlush: true,
+        fourToAStraight: false,
+      });
+      expect(matchesTrainingFocus(hand, 'flush-draw-vs-low-pair')).toBe(true);
+      expect(matchesTrainingFocus(hand, 'nothing')).toBe(false);
+    });
+
+    it('counts wild cards toward draws and judges big hands by their best five', () => {
+      const hand = [
+        createTestCard('A', 'spades'),
+        createTestCard('2', 'clubs'),
+        createTestCard('3', 'hearts'),
+        createTestCard('A', 'hearts', { isWild: true }),
+        createTestCard('9', 'diamonds'),
+        createTestCard('K', 'clubs'),
+        createTestCard('K', 'diamonds'),
+      ];
+      const features = getTrainingHandFeatures(hand, 11);
+      expect(features.madeRank).toBe('three-of-a-kind');
+      expect(features.fourToAStraight).toBe(true);
+      expect(matchesTrainingFocus(hand, 'paying-hand')).toBe(true);
+    });
+
+    it('sees nothing in a hand without pairs or draws', () => {
+      const hand = [
+        createTestCard('2', 'spades'),
+        createTestCard('5', 'clubs'),
+        createTestCard('9', 'hearts'),
+        createTestCard('J', 'diamonds'),
+        createTestCard('K', 'spades', { isDead: true }),
+      ];
+      expect(getTrainingHandFeatures(hand, 11)).toEqual({
+        madeRank: 'high-card',
+        lowPair: false,
+        fourToAFlush: false,
+        fourToAStraight: false,
+      });
+    });
+  });
+
+  describe('dealTrainingHand', () => {
+    it.each<TrainingFocus>(['flush-draw-vs-low-pair', 'four-to-a-straight', 'nothing'])(
+      'deals a %s hand with nothing held',
+      (focus) => {
+        const table = dealTrainingHand(createTrainingTable(5), {
+          ...DEFAULT_TRAINING_SETTINGS,
+          focus,
+        });
+        expect(table.playerHand).toHaveLength(5);
+        expect(table.heldIndices).toEqual([]);
+        expect(matchesTrainingFocus(table.playerHand, focus)).toBe(true);
+      }
+    );
+
+    it('deals bigger hands from a deck with the chosen wild and dead cards', () => {
+      const settings = { focus: 'any' as const, wildCards: 2, deadCards: 3, extraCardsInHand: 3 };
+      const table = dealTrainingHand(createTrainingTable(8), settings);
+
+      expect(table.playerHand).toHaveLength(8);
+      expect(table.extraCardsInHand).toBe(3);
+      expect(table.deckModifications.wildCards).toHaveLength(2);
+      expect(table.deckModifications.deadCards).toHaveLength(3);
+      expect(table.deckModifications.deadCards.every((card) => card.isDead)).toBe(true);
+    });
+
+    it('deals the same hands from the same seed', () => {
+      const deal = () => dealTrainingHand(createTrainingTable(42), DEFAULT_TRAINING_SETTINGS);
+      expect(deal().playerHand).toEqual(deal().playerHand);
+      expect(dealTrainingHand(deal(), DEFAULT_TRAINING_SETTINGS).playerHand).not.toEqual(
+        deal().playerHand
+      );
+    });
+  });
+
+  describe('gradeTrainingHold', () => {
+    const table = dealTrainingHand(createTrainingTable(3), DEFAULT_TRAINING_SETTINGS);
+    const advice = analyzeHolds({
+      playerHand: table.playerHand,
+      deckModifications: table.deckModifications,
+      rewardTable: table.rewardTable,
+      betAmount: 1,
+      selectedHandCount: 1,
+    });
+
+    it('grades the best hold as best, priced per credit bet', () => {
+      const review = gradeTrainingHold(hold(table, advice[0].heldIndices))!;
+      expect(review.expectedReturn).toBe(advice[0].expectedMultiplier);
+      expect(createTrainingAttempt(DEFAULT_TRAINING_SETTINGS, review, 7)).toEqual(
+        createAttempt({ playedAt: 7 })
+      );
+    });
+
+    it('records what a worse hold gave up', () => {
+      const worst = advice[advice.length - 1];
+      const review = gradeTrainingHold(hold(table, worst.heldIndices))!;
+      const attempt = createTrainingAttempt(DEFAULT_TRAINING_SETTINGS, review, 7);
+
+      expect(review.bestHeldIndices).toEqual(advice[0].heldIndices);
+      expect(attempt.bestHold).toBe(false);
+      expect(attempt.expectedReturnLost).toBeCloseTo(
+        advice[0].expectedReturn - worst.expectedReturn
+      );
+    });
+
+    it('does not grade fewer than 5 cards kept from a bigger hand', () => {
+      const big = dealTrainingHand(createTrainingTable(3), {
+        ...DEFAULT_TRAINING_SETTINGS,
+        extraCardsInHand: 1,
+      });
+      expect(gradeTrainingHold(hold(big, [0, 1, 2]))).toBeNull();
+    });
+  });
+
+  describe('training history', () => {
+    it('appends attempts and reads them back, skipping invalid entries', () => {
+      localStorage.setItem(TRAINING_HISTORY_STORAGE_KEY, JSON.stringify([{ focus: 'any' }]));
+      appendTrainingHistory(createAttempt());
+      expect(loadTrainingHistory()).toEqual([createAttempt()]);
+    });
+
+    it('keeps only the most recent attempts', () => {
+      const history = Array.from({ length: TRAINING_HISTORY_LIMIT }, (_, i) =>
+        createAttempt({ playedAt: i })
+      );
+      localStorage.setItem(TRAINING_HISTORY_STORAGE_KEY, JSON.stringify(history));
+
+      const updated = appendTrainingHistory(createAttempt({ playedAt: -1 }));
+      expect(updated).toHaveLength(TRAINING_HISTORY_LIMIT);
+      expect(loadTrainingHistory()[0].playedAt).toBe(1);
+    });
+
+    it('totals accuracy overall and by focus', () => {
+      const history = [
+        createAttempt(),
+        createAttempt({ focus: 'low-pair', bestHold: false, expectedReturnLost: 0.25 }),
+        createAttempt({ focus: 'low-pair' }),
+      ];
+      expect(calculateTrainingAccuracy(history)).toEqual({
+        attempts: 3,
+        bestHolds: 2,
+        expectedReturnLost: 0.25,
+      });
+      expect(getTrainingAccuracyByFocus(history)).toEqual({
+        any: { attempts: 1, bestHolds: 1, expectedReturnLost: 0 },
+        'low-pair': { attempts: 2, bestHolds: 1, expectedReturnLost: 0.25 },
+      });
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  TUTORIAL_COMPLETED_STORAGE_KEY,
+  TUTORIAL_SEED,
+  TUTORIAL_SHOP_OPTIONS,
+  dealTutorialHand,
+  isTutorialCompleted,
+  returnToTutorialPreDraw,
+  setTutorialCompleted,
+  startTutorialRun,
+} from '../tutorial';
+import { GameEngine } from '../gameEngine';
+import { TUTORIAL_DEALS, TUTORIAL_STEPS } from '../../config/tutorialConfig';
+import { GameState } from '../../types';
+
+function hold(state: GameState, heldIndices: number[]): GameState {
+  return heldIndices.reduce((next, i) => GameEngine.toggleHold(next, i), state);
+}
+
+/** Index of the step the tutorial is on once every step the state completes is passed. */
+function getStepIndex(state: GameState, from: number): number {
+  let index = from;
+  while (TUTORIAL_STEPS[index].isComplete?.(state)) {
+    index++;
+  }
+  return index;
+}
+
+function getStepId(state: GameState, from: number): string {
+  return TUTORIAL_STEPS[getStepIndex(state, from)].id;
+}
+
+function playRound(state: GameState): GameState {
+  const played = GameEngine.moveToNextScreen(GameEngine.drawParallelHands(state));
+  expect(played.gamePhase).toBe('results');
+  return played;
+}
+
+describe('tutorial', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts a seeded run', () => {
+    const state = startTutorialRun(GameEngine.createInitialState());
+    expect(state.screen).toBe('game');
+    expect(state.runSeed).toBe(TUTORIAL_SEED);
+    expect(TUTORIAL_STEPS[getStepIndex(state, 0)].id).toBe('deal');
+  });
+
+  it("deals the scripted hands as deck cards with the scripted Devil's Deal", () => {
+    let state = dealTutorialHand(startTutorialRun(GameEngine.createInitialState()));
+    expect(state.playerHand.map(({ rank, suit }) => ({ rank, suit }))).toEqual(
+      TUTORIAL_DEALS[0].hand
+    );
+    expect(state.playerHand[0].id).toBe('spades-K');
+    expect(state.roundLog?.dealtHand).toEqual(state.playerHand);
+    expect(state.devilsDealCard).toBeNull();
+
+    state = returnToTutorialPreDraw(playRound(state), 0);
+    state = dealTutorialHand(GameEngine.proceedFromResults(state));
+    expect(state.playerHand[0].id).toBe('spades-7');
+    expect(state.devilsDealCard?.id).toBe('hearts-7');
+    expect(state.devilsDealCost).toBeGreaterThan(0);
+  });
+
+  it('opens a shop selling a wild card the player can afford after the first round', () => {
+    let state = dealTutorialHand(startTutorialRun(GameEngine.createInitialState()));
+    state = playRound(state);
+    // Only just enough left to play on
+    state = returnToTutorialPreDraw(
+      { ...state, credits: state.betAmount * state.selectedHandCount },
+      0
+    );
+
+    expect(state.showShopNextRound).toBe(true);
+    expect(state.selectedShopOptions).toEqual(TUTORIAL_SHOP_OPTIONS);
+
+    const bought = GameEngine.addWildCard(state);
+    expect(bought.wildCardCount).toBe(1);
+    expect(bought.credits).toBe(state.betAmount * state.selectedHandCount);
+  });
+
+  it('walks through every step with the actions each step asks for', () => {
+    let state = startTutorialRun(GameEngine.createInitialState());
+    let step = 0;
+    const expectStep = (id: string) => {
+      step = getStepIndex(state, step);
+      expect(TUTORIAL_STEPS[step].id).toBe(id);
+    };
+
+    expectStep('deal');
+    state = dealTutorialHand(state);
+    expectStep('hold-pair');
+    state = hold(state, [0]);
+    expectStep('hold-pair');
+    state = hold(state, [2]);
+    expectStep('play-hands');
+    state = GameEngine.drawParallelHands(state);
+    expectStep('watch-multiplier');
+    state = GameEngine.moveToNextScreen(state);
+    expectStep('collect');
+    state = returnToTutorialPreDraw(state, 0);
+    expectStep('buy-wild-card');
+    state = GameEngine.addWildCard(state);
+    expectStep('leave-shop');
+    state = GameEngine.proceedFromResults(state);
+    expectStep('deal-again');
+    state = dealTutorialHand(state);
+    expectStep('hold-sevens');
+    state = hold(state, TUTORIAL_DEALS[1].holdIndices);
+    expectStep('take-devils-deal');
+    state = GameEngine.toggleDevilsDealHold(state);
+    expectStep('play-devils-deal');
+    state = GameEngine.drawParallelHands(state);
+    expectStep('watch-devils-deal');
+    state = GameEngine.moveToNextScreen(state);
+    expectStep('finish');
+    expect(step).toBe(TUTORIAL_STEPS.length - 1);
+    expect(state.parallelHandsResult?.scores.every(({ multiplier }) => multiplier > 0)).toBe(
+      true
+    );
+  });
+
+  it('does not move on from a step until its action is done', () => {
+    const dealt = dealTutorialHand(startTutorialRun(GameEngine.createInitialState()));
+    expect(getStepId(hold(dealt, [0, 1]), 1)).toBe('hold-pair');
+    expect(getStepId(hold(dealt, [0, 2, 3]), 1)).toBe('hold-pair');
+  });
+
+  it('remembers that the tutorial was finished', () => {
+    expect(isTutorialCompleted()).toBe(false);
+    setTutorialCompleted();
+    expect(localStorage.getItem(TUTORIAL_COMPLETED_STORAGE_KEY)).toBe('true');
+    expect(isTutorialCompleted()).toBe(true);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Autoplay: a bot that plays rounds for the player with a chosen strategy until a stop
+ * condition is met. Strategies are plain data built from the bot policies in utils/botPlay;
+ * add an entry to AUTOPLAY_STRATEGIES to offer another one. The useAutoplay hook presses the
+ * buttons; this module decides what to press.
+ */
+
+import { GameState, ShopOptionType } from '../types';
+import { DEFAULT_SHOP_PRIORITY, DevilsDealPolicy, HoldPolicy } from './botPlay';
+import { summarizeRoundCombos } from './streakCalculator';
+
+export type AutoplayStrategyId = 'optimal' | 'hold-pairs' | 'random';
+
+export interface AutoplayStrategy {
+  id: AutoplayStrategyId;
+  label: string;
+  description: string;
+  hold: HoldPolicy;
+  devilsDeal: DevilsDealPolicy;
+  /** Shop options bought when offered, most wanted first */
+  shopPriority: ShopOptionType[];
+}
+
+export const AUTOPLAY_STRATEGIES: AutoplayStrategy[] = [
+  {
+    id: 'optimal',
+    label: 'Optimal',
+    description:
+      "Holds the cards with the best expected return and takes Devil's Deals that pay off.",
+    hold: 'advisor',
+    devilsDeal: 'advisor',
+    shopPriority: DEFAULT_SHOP_PRIORITY,
+  },
+  {
+    id: 'hold-pairs',
+    label: 'Hold pairs',
+    description: "Keeps made hands, pairs, flush draws and high cards. Skips Devil's Deals.",
+    hold: 'simple',
+    devilsDeal: 'never',
+    shopPriority: DEFAULT_SHOP_PRIORITY,
+  },
+  {
+    id: 'random',
+    label: 'Random',
+    description: "Holds cards and takes Devil's Deals on a coin flip.",
+    hold: 'random',
+    devilsDeal: 'random',
+    shopPriority: DEFAULT_SHOP_PRIORITY,
+  },
+];
+
+/** Shop purchases must leave this many rounds of minimum bets. */
+export const AUTOPLAY_SHOP_RESERVE_ROUNDS = 3;
+
+export interface AutoplaySettings {
+  strategyId: AutoplayStrategyId;
+  /** Animation speed while autoplaying; the player's own setting is left alone */
+  animationSpeed: number | 'skip';
+  /** Rounds to play; null plays until another stop condition */
+  rounds: number | null;
+  /** Stop once credits fall below this; null never stops for credits */
+  stopBelowCredits: number | null;
+  stopAtEndlessMode: boolean;
+}
+
+export const DEFAULT_AUTOPLAY_SETTINGS: AutoplaySettings = {
+  strategyId: 'hold-pairs',
+  animationSpeed: 2,
+  rounds: 10,
+  stopBelowCredits: null,
+  stopAtEndlessMode: true,
+};
+
+export type AutoplayStopReason =
+  | 'stopped'
+  | 'rounds-played'
+  | 'low-credits'
+  | 'endless-mode'
+  | 'bet-unaffordable'
+  | 'game-over';
+
+export const AUTOPLAY_STOP_REASON_LABELS: Record<AutoplayStopReason, string> = {
+  stopped: 'Autoplay stopped',
+  'rounds-played': 'Autoplay finished its rounds',
+  'low-credits': 'Autoplay stopped: credits fell below the limit',
+  'endless-mode': 'Autoplay stopped: endless mode reached',
+  'bet-unaffordable': 'Autoplay stopped: credits no longer cover the bet',
+  'game-over': 'Autoplay stopped: game over',
+};
+
+/** What autoplay does next on the current screen. */
+export type AutoplayStep =
+  | { type: 'deal' }
+  | { type: 'draw' }
+  | { type: 'collect'; payout: number }
+  | { type: 'shop' }
+  /** The screen plays itself (animation, hands being generated) */
+  | { type: 'wait' }
+  | { type: 'stop'; reason: AutoplayStopReason };
+
+export function getAutoplayStrategy(strategyId: AutoplayStrategyId): AutoplayStrategy {
+  return (
+    AUTOPLAY_STRATEGIES.find((strategy) => strategy.id === strategyId) ?? AUTOPLAY_STRATEGIES[0]
+  );
+}
+
+/**
+ * The next autoplay step. Stop conditions are checked before each deal, so a started round
+ * always plays out.
+ * @param roundsPlayed - Rounds finished since autoplay started
+ */
+export function getAutoplayStep(
+  state: GameState,
+  settings: AutoplaySettings,
+  roundsPlayed: number
+): AutoplayStep {
+  if (state.screen === 'gameOver') return { type: 'stop', reason: 'game-over' };
+  if (state.screen !== 'game') return { type: 'stop', reason: 'stopped' };
+
+  switch (state.gamePhase) {
+    case 'playing':
+      return state.isGeneratingHands ? { type: 'wait' } : { type: 'draw' };
+    case 'parallelHandsAnimation':
+      return { type: 'wait' };
+    case 'results': {
+      // Same payout the Results screen's Continue button pays
+      const summary =
+        state.parallelHandsResult?.summary ??
+        summarizeRoundCombos(state.parallelHands, state.rewardTable, state.betAmount);
+      return { type: 'collect', payout: summary.totalPayout };
+    }
+    default:
+      break;
+  }
+
+  if (state.showShopNextRound) return { type: 'shop' };
+  // PreDraw ends the run itself
+  if (state.gameOver || state.credits < state.minimumBet * state.handCount) {
+    return { type: 'wait' };
+  }
+  if (settings.rounds !== null && roundsPlayed >= settings.rounds) {
+    return { type: 'stop', reason: 'rounds-played' };
+  }
+  if (settings.stopBelowCredits !== null && state.credits < settings.stopBelowCredits) {
+    return { type: 'stop', reason: 'low-credits' };
+  }
+  if (settings.stopAtEndlessMode && state.isEndlessMode) {
+    return { type: 'stop', reason: 'endless-mode' };
+  }
+  // Rounds are dealt at the player's bet and hand count, which may cost more than the minimum
+  if (state.credits < state.betAmount * state.selectedHandCount) {
+    return { type: 'stop', reason: 'bet-unaffordable' };
+  }
+  return { type: 'deal' };
+}
+
+/** Pause before each autoplay step, so rounds can be followed at the chosen speed. */
+export function getAutoplayStepDelay(animationSpeed: number | 'skip'): number {
+  return animationSpeed === 'skip' ? 0 : Math.round(600 / animationSpeed);
+}
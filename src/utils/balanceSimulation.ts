@@ -0,0 +1,321 @@
+/**
+ * Balance simulation: plays many complete runs headlessly with a fixed strategy and summarizes
+ * how long they last, why they end and how credits develop. Used by `npm run simulate` to try
+ * out mode settings (minimum bet growth, shop costs, endless failure conditions) before tuning
+ * gameConfig.
+ *
+ * Rounds are played through GameEngine the way the UI plays them: PreDraw ends the run when
+ * the minimum bet for the chosen hands can't be paid, the round pays the parallel hands
+ * summary's total payout, and the shop is visited whenever returnToPreDraw rolls one.
+ */
+
+import {
+  CustomGameModeId,
+  GameModeConfig,
+  getCurrentGameModeId,
+  getGameMode,
+  getCustomGameModes,
+  setCurrentGameModeId,
+  setCustomGameModes,
+} from '../config/gameConfig';
+import { FailureStateType, GameOverReason, GameState, ShopOptionType } from '../types';
+import {
+  buyShopOptions,
+  DEFAULT_SHOP_PRIORITY,
+  DevilsDealPolicy,
+  HoldPolicy,
+  prepareDraw,
+} from './botPlay';
+import { GameEngine } from './gameEngine';
+import { createRng, RandomSource } from './rng';
+
+export interface SimulationStrategy {
+  hold: HoldPolicy;
+  /** Share of credits bet each round, spread over the hands played; never below the minimum bet */
+  betShare: number;
+  /** Hands played each round: every hand owned, or at most this many */
+  handCount: 'all' | number;
+  /** Shop options to buy when offered, most wanted first */
+  shopPriority: ShopOptionType[];
+  /** Rounds of minimum bets that must remain after a shop purchase */
+  shopReserveRounds: number;
+  devilsDeal: DevilsDealPolicy;
+}
+
+/** Plays like the UI: minimum bet on every hand, sensible holds, steady shop upgrades. */
+export const DEFAULT_SIMULATION_STRATEGY: SimulationStrategy = {
+  hold: 'simple',
+  betShare: 0,
+  handCount: 'all',
+  shopPriority: DEFAULT_SHOP_PRIORITY,
+  shopReserveRounds: 3,
+  devilsDeal: 'never',
+};
+
+export interface SimulationOptions {
+  /** Mode to play; the active game mode when omitted */
+  mode?: GameModeConfig;
+  runs: number;
+  /** Run i is seeded with seed + i, so a report can be reproduced */
+  seed: number;
+  /** Runs still alive after this many rounds stop with the 'round-limit' reason */
+  maxRounds: number;
+  strategy?: Partial<SimulationStrategy>;
+}
+
+export type SimulationEndReason = GameOverReason | 'round-limit';
+
+export interface SimulatedRun {
+  seed: number;
+  /** Rounds fully played (the game over screen shows the round after the last one) */
+  roundsSurvived: number;
+  endReason: SimulationEndReason;
+  /** Failure condition that ended the run in endless mode */
+  failureState: FailureStateType;
+  /** Credits after each round's payout, before shopping */
+  creditsByRound: number[];
+  finalCredits: number;
+  peakCredits: number;
+}
+
+export interface DistributionSummary {
+  min: number;
+  p10: number;
+  median: number;
+  p90: number;
+  max: number;
+  mean: number;
+}
+
+export interface RoundCreditsSummary {
+  round: number;
+  /** Runs that finished this round */
+  runs: number;
+  credits: DistributionSummary;
+}
+
+export interface FailureStateSummary {
+  /** Runs this failure condition ended */
+  runs: number;
+  /** Rounds survived by those runs; null when it never triggered */
+  rounds: DistributionSummary | null;
+}
+
+export interface SimulationReport {
+  modeName: string;
+  runs: number;
+  seed: number;
+  maxRounds: number;
+  strategy: SimulationStrategy;
+  roundsSurvived: DistributionSummary;
+  endReasons: Partial<Record<SimulationEndReason, number>>;
+  creditsByRound: RoundCreditsSummary[];
+  failureStates: Record<Exclude<FailureStateType, null>, FailureStateSummary>;
+}
+
+const FAILURE_STATES: Exclude<FailureStateType, null>[] = [
+  'minimum-bet-multiplier',
+  'minimum-credit-efficiency',
+  'minimum-winning-hands',
+  'minimum-win-percent',
+];
+
+/** Mode id the simulated mode is registered under while runs are played. */
+const SIMULATION_MODE_ID: CustomGameModeId = 'custom-balance-simulation';
+
+/** Offset from the run seed to the seed of a run's bot decisions. */
+const BOT_SEED_OFFSET = 0x9e3779b9;
+
+function getHandsToPlay(state: GameState, strategy: SimulationStrategy): number {
+  return strategy.handCount === 'all'
+    ? state.handCount
+    : Math.max(1, Math.min(state.handCount, Math.floor(strategy.handCount)));
+}
+
+/** Apply the bet and hand count policy; null when the minimum bet can't be paid. */
+function placeBet(state: GameState, strategy: SimulationStrategy): GameState | null {
+  const hands = getHandsToPlay(state, strategy);
+  if (state.credits < state.minimumBet * hands) return null;
+
+  let next = GameEngine.setBetAmount(state, state.minimumBet);
+  next = GameEngine.setSelectedHandCount(next, hands);
+  const bet = Math.floor((state.credits * strategy.betShare) / hands);
+  return bet > state.minimumBet ? GameEngine.setBetAmount(next, bet) : next;
+}
+
+/**
+ * Play one run in the active game mode until it ends or reaches maxRounds.
+ */
+export function simulateRun(
+  seed: number,
+  strategy: SimulationStrategy,
+  maxRounds: number
+): SimulatedRun {
+  // Random decisions get their own stream so they don't shift the run's deals
+  const random: RandomSource = createRng(seed + BOT_SEED_OFFSET).next;
+  let state = GameEngine.startNewRun(GameEngine.createInitialState(), seed);
+  const creditsByRound: number[] = [];
+  let endReason: SimulationEndReason = 'round-limit';
+
+  while (creditsByRound.length < maxRounds) {
+    const withBet = placeBet(state, strategy);
+    const dealt = withBet ? GameEngine.dealHand(withBet) : null;
+    if (!dealt || dealt === withBet) {
+      state = GameEngine.endRun(state, 'insufficient-credits');
+      endReason = 'insufficient-credits';
+      break;
+    }
+
+    state = dealt;
+    while (state.gamePhase === 'playing') {
+      state = GameEngine.drawParallelHands(
+        prepareDraw(state, strategy.hold, strategy.devilsDeal, random)
+      );
+    }
+
+    const summary = state.parallelHandsResult?.summary;
+    state = GameEngine.updateStreakCounter(
+      state,
+      summary?.comboProgression[summary.comboProgression.length - 1] ?? 0,
+      summary && {
+        highestCombo: summary.highestCombo,
+        highestMultiplier: summary.highestMultiplier,
+      }
+    );
+    state = GameEngine.moveToNextScreen(state);
+    state = GameEngine.returnToPreDraw(state, summary?.totalPayout ?? 0);
+    creditsByRound.push(state.credits);
+
+    if (state.gameOver) {
+      state = GameEngine.endRun(state);
+      endReason = state.gameOverReason ?? 'voluntary';
+      break;
+    }
+    if (state.showShopNextRound) {
+      state = buyShopOptions(state, strategy.shopPriority, strategy.shopReserveRounds, (next) =>
+        getHandsToPlay(next, strategy)
+      );
+    }
+    state = GameEngine.proceedFromResults(state);
+  }
+
+  return {
+    seed,
+    roundsSurvived: creditsByRound.length,
+    endReason,
+    failureState: endReason === 'round-limit' ? null : state.currentFailureState,
+    creditsByRound,
+    finalCredits: state.credits,
+    peakCredits: Math.max(state.runPeakCredits, state.credits),
+  };
+}
+
+function getPercentile(sorted: number[], fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+/** Min, max, mean and nearest-rank percentiles of a non-empty list. */
+export function summarizeDistribution(values: number[]): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    p10: getPercentile(sorted, 0.1),
+    median: getPercentile(sorted, 0.5),
+    p90: getPercentile(sorted, 0.9),
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((total, value) => total + value, 0) / sorted.length,
+  };
+}
+
+/** What a report was made with. */
+export type SimulationReportSettings = Pick<
+  SimulationReport,
+  'modeName' | 'seed' | 'maxRounds' | 'strategy'
+>;
+
+/** Summarize finished runs. */
+export function createSimulationReport(
+  results: SimulatedRun[],
+  settings: SimulationReportSettings
+): SimulationReport {
+  const endReasons: Partial<Record<SimulationEndReason, number>> = {};
+  for (const run of results) {
+    endReasons[run.endReason] = (endReasons[run.endReason] ?? 0) + 1;
+  }
+
+  const longestRun = Math.max(0, ...results.map((run) => run.roundsSurvived));
+  const creditsByRound = Array.from({ length: longestRun }, (_, i) => {
+    const credits = results
+      .filter((run) => run.creditsByRound.length > i)
+      .map((run) => run.creditsByRound[i]);
+    return { round: i + 1, runs: credits.length, credits: summarizeDistribution(credits) };
+  });
+
+  const failureStates = Object.fromEntries(
+    FAILURE_STATES.map((failureState) => {
+      const rounds = results
+        .filter((run) => run.failureState === failureState)
+        .map((run) => run.roundsSurvived);
+      return [
+        failureState,
+        { runs: rounds.length, rounds: rounds.length > 0 ? summarizeDistribution(rounds) : null },
+      ];
+    })
+  ) as SimulationReport['failureStates'];
+
+  return {
+    ...settings,
+    runs: results.length,
+    roundsSurvived: summarizeDistribution(results.map((run) => run.roundsSurvived)),
+    endReasons,
+    creditsByRound,
+    failureStates,
+  };
+}
+
+/**
+ * Play options.runs runs and summarize them. The mode is only active while the runs are played;
+ * the previously active mode is restored afterwards.
+ * @throws ConfigValidationError if options.mode is invalid
+ * @throws Error if runs or maxRounds is not a positive whole number
+ */
+export function runSimulation(
+  options: SimulationOptions,
+  onRunComplete?: (completed: number, total: number) => void
+): SimulationReport {
+  if (!Number.isInteger(options.runs) || options.runs < 1) {
+    throw new Error('runs must be a positive whole number');
+  }
+  if (!Number.isInteger(options.maxRounds) || options.maxRounds < 1) {
+    throw new Error('maxRounds must be a positive whole number');
+  }
+
+  const strategy = { ...DEFAULT_SIMULATION_STRATEGY, ...options.strategy };
+  const previousModeId = getCurrentGameModeId();
+  const previousCustomModes = getCustomGameModes();
+  if (options.mode) {
+    setCustomGameModes([
+      ...previousCustomModes,
+      { id: SIMULATION_MODE_ID, settings: options.mode },
+    ]);
+    setCurrentGameModeId(SIMULATION_MODE_ID);
+  }
+
+  try {
+    const mode = getGameMode(getCurrentGameModeId());
+    const results: SimulatedRun[] = [];
+    for (let i = 0; i < options.runs; i++) {
+      results.push(simulateRun(options.seed + i, strategy, options.maxRounds));
+      onRunComplete?.(i + 1, options.runs);
+    }
+    return createSimulationReport(results, {
+      modeName: mode.displayName,
+      seed: options.seed,
+      maxRounds: options.maxRounds,
+      strategy,
+    });
+  } finally {
+    setCustomGameModes(previousCustomModes);
+    setCurrentGameModeId(previousModeId);
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Player decisions for bots: which cards to hold, whether to take a Devil's Deal and what to buy
+ * in the shop. Shared by autoplay (see utils/autoplay) and the balance simulation.
+ * Every decision is a pure function of the game state; random choices read from the random
+ * source passed in, so a seeded source makes a bot reproducible.
+ */
+
+import { getCurrentGameMode } from '../config/gameConfig';
+import { Card, GameState, HandRank, ShopOptionType } from '../types';
+import { GameEngine } from './gameEngine';
+import { analyzeHolds, HoldAdvice } from './holdAdvisor';
+import { LookupEvaluator } from './lookupEvaluator';
+import { RandomSource } from './rng';
+
+/**
+ * How cards are held before each draw.
+ * - `simple`: made hands, then pairs, four to a flush, then high cards (fast)
+ * - `advisor`: the hold with the best expected return (exact odds; roughly 100ms per draw)
+ * - `random`: each card held on a coin flip
+ * - `discard-all`: never hold anything (a floor for comparisons)
+ */
+export type HoldPolicy = 'simple' | 'advisor' | 'random' | 'discard-all';
+
+/**
+ * When an offered Devil's Deal card is held.
+ * - `advisor`: when its expected gain beats its cost (uses the hold advisor)
+ * - `random`: on a coin flip
+ */
+export type DevilsDealPolicy = 'never' | 'always' | 'advisor' | 'random';
+
+/** Upgrades first, then the biggest hand bundle the reserve allows. */
+export const DEFAULT_SHOP_PRIORITY: ShopOptionType[] = [
+  'extra-draw',
+  'wild-card',
+  'remove-all-dead-cards',
+  'remove-single-dead-card',
+  'parallel-hands-bundle-1000',
+  'parallel-hands-bundle-500',
+  'parallel-hands-bundle-250',
+  'parallel-hands-bundle-100',
+  'parallel-hands-bundle-50',
+  'parallel-hands-bundle-25',
+  'parallel-hands-bundle-10',
+  'parallel-hands-bundle-5',
+];
+
+/** Ranks made by five cards together; held whole rather than broken up for a draw. */
+const MADE_HANDS = new Set<HandRank>([
+  'royal-flush',
+  'straight-flush',
+  'five-of-a-kind',
+  'four-of-a-kind',
+  'full-house',
+  'flush',
+  'straight',
+]);
+
+const RANK_VALUES: Record<Card['rank'], number> = {
+  '2': 2,
+  '3': 3,
+  '4': 4,
+  '5': 5,
+  '6': 6,
+  '7': 7,
+  '8': 8,
+  '9': 9,
+  '10': 10,
+  J: 11,
+  Q: 12,
+  K: 13,
+  A: 14,
+};
+
+/** Every 5-card index set of an n-card hand. */
+function getFiveCardSubsets(handSize: number): number[][] {
+  const subsets: number[][] = [];
+  const extend = (subset: number[], from: number) => {
+    if (subset.length === 5) {
+      subsets.push(subset);
+      return;
+    }
+    for (let i = from; i < handSize; i++) extend([...subset, i], i + 1);
+  };
+  extend([], 0);
+  return subsets;
+}
+
+/** Cards to hold under the simple policy, at most maxHeld of them. */
+export function chooseSimpleHolds(
+  hand: Card[],
+  minimumPairRank: number,
+  maxHeld: number = 5
+): number[] {
+  // A straight or better among any five cards is kept whole
+  let bestMade: { indices: number[]; score: number } | null = null;
+  for (const indices of getFiveCardSubsets(hand.length)) {
+    const result = LookupEvaluator.evaluate(indices.map((i) => hand[i]), minimumPairRank);
+    if (MADE_HANDS.has(result.rank) && (!bestMade || result.score > bestMade.score)) {
+      bestMade = { indices, score: result.score };
+    }
+  }
+  if (bestMade) return bestMade.indices.slice(0, maxHeld);
+
+  const wilds: number[] = [];
+  const byRank = new Map<Card['rank'], number[]>();
+  const bySuit = new Map<Card['suit'], number[]>();
+  hand.forEach((card, i) => {
+    if (card.isDead) return;
+    if (card.isWild) {
+      wilds.push(i);
+      return;
+    }
+    byRank.set(card.rank, [...(byRank.get(card.rank) ?? []), i]);
+    bySuit.set(card.suit, [...(bySuit.get(card.suit) ?? []), i]);
+  });
+  const byValue = (a: number, b: number) => RANK_VALUES[hand[b].rank] - RANK_VALUES[hand[a].rank];
+  const hold = (indices: number[]) =>
+    [...wilds, ...indices].slice(0, maxHeld).sort((a, b) => a - b);
+
+  const groups = [...byRank.values()]
+    .filter((indices) => indices.length >= 2)
+    .sort((a, b) => b.length - a.length || byValue(a[0], b[0]));
+  if (groups.length > 0) return hold(groups.flat());
+
+  const flushDraw = [...bySuit.values()].find((indices) => indices.length + wilds.length >= 4);
+  if (flushDraw) return hold([...flushDraw].sort(byValue));
+
+  const highCards = hand
+    .map((_, i) => i)
+    .filter((i) => !hand[i].isDead && !hand[i].isWild)
+    .filter((i) => RANK_VALUES[hand[i].rank] >= minimumPairRank)
+    .sort(byValue);
+  return hold(highCards);
+}
+
+function getBestAdvice(state: GameState, devilsDealCard: Card | null): HoldAdvice | undefined {
+  return analyzeHolds({
+    playerHand: state.playerHand,
+    deckModifications: state.deckModifications,
+    rewardTable: state.rewardTable,
+    betAmount: state.betAmount,
+    selectedHandCount: state.selectedHandCount,
+    devilsDealCard,
+    devilsDealCost: state.devilsDealCost,
+  })[0];
+}
+
+/**
+ * Cards to hold for the next draw.
+ * @param withDevilsDeal - The Devil's Deal card will be held too, so at most 4 cards are picked
+ */
+export function chooseHolds(
+  state: GameState,
+  policy: HoldPolicy,
+  withDevilsDeal: boolean,
+  random: RandomSource
+): number[] {
+  const maxHeld = withDevilsDeal ? 4 : 5;
+  switch (policy) {
+    case 'discard-all':
+      return [];
+    case 'random':
+      return state.playerHand
+        .map((_, i) => i)
+        .filter(() => random() < 0.5)
+        .slice(0, maxHeld);
+    case 'advisor':
+      return (
+        getBestAdvice(state, withDevilsDeal ? state.devilsDealCard : null)?.heldIndices ?? []
+      );
+    default:
+      return chooseSimpleHolds(
+        state.playerHand,
+        getCurrentGameMode().minimumPairRank,
+        maxHeld
+      );
+  }
+}
+
+/** Whether to hold the offered Devil's Deal card; never when its cost can't be paid. */
+export function shouldTakeDevilsDeal(
+  state: GameState,
+  policy: DevilsDealPolicy,
+  random: RandomSource
+): boolean {
+  if (!state.devilsDealCard || state.credits < state.devilsDealCost) return false;
+  switch (policy) {
+    case 'always':
+      return true;
+    case 'random':
+      return random() < 0.5;
+    case 'advisor': {
+      const withDeal = getBestAdvice(state, state.devilsDealCard);
+      const withoutDeal = getBestAdvice(state, null);
+      if (!withDeal || !withoutDeal) return false;
+      return withDeal.expectedReturn > withoutDeal.expectedReturn;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Set the holds (and Devil's Deal) for the next draw without drawing. The Devil's Deal card is
+ * only considered for the last draw of the round, where it takes effect.
+ */
+export function prepareDraw(
+  state: GameState,
+  holdPolicy: HoldPolicy,
+  devilsDealPolicy: DevilsDealPolicy,
+  random: RandomSource
+): GameState {
+  const isFinalDraw = (state.maxDraws ?? 1) - state.drawsCompletedThisRound <= 1;
+  const takeDevilsDeal = isFinalDraw && shouldTakeDevilsDeal(state, devilsDealPolicy, random);
+  const holds = chooseHolds(state, holdPolicy, takeDevilsDeal, random);
+
+  let next = state.devilsDealHeld ? GameEngine.toggleDevilsDealHold(state) : state;
+  next = next.heldIndices.reduce((current, i) => GameEngine.toggleHold(current, i), next);
+  next = holds.reduce((current, i) => GameEngine.toggleHold(current, i), next);
+  return takeDevilsDeal ? GameEngine.toggleDevilsDealHold(next) : next;
+}
+
+function buyShopOption(state: GameState, option: ShopOptionType): GameState {
+  switch (option) {
+    case 'dead-card':
+      return GameEngine.addDeadCard(state);
+    case 'wild-card':
+      return GameEngine.addWildCard(state);
+    case 'extra-draw':
+      return GameEngine.purchaseExtraDraw(state);
+    case 'remove-single-dead-card':
+      return GameEngine.removeSingleDeadCard(state);
+    case 'remove-all-dead-cards':
+      return GameEngine.removeAllDeadCards(state);
+    case 'devils-deal-chance':
+      return GameEngine.purchaseDevilsDealChance(state);
+    case 'devils-deal-cost-reduction':
+      return GameEngine.purchaseDevilsDealCostReduction(state);
+    case 'extra-card-in-hand':
+      return GameEngine.purchaseExtraCardInHand(state);
+    default:
+      return GameEngine.addParallelHandsBundle(
+        state,
+        Number(option.replace('parallel-hands-bundle-', ''))
+      );
+  }
+}
+
+/**
+ * Buy the offered shop options in priority order, each at most once, skipping any purchase
+ * that would leave less than reserveRounds rounds of minimum bets.
+ * @param getHandsToPlay - Hands the bot plays per round (every hand owned by default)
+ */
+export function buyShopOptions(
+  state: GameState,
+  priority: ShopOptionType[],
+  reserveRounds: number,
+  getHandsToPlay: (state: GameState) => number = (current) => current.handCount
+): GameState {
+  return priority
+    .filter((option) => state.selectedShopOptions.includes(option))
+    .reduce((current, option) => {
+      const next = buyShopOption(current, option);
+      const reserve = reserveRounds * next.minimumBet * getHandsToPlay(next);
+      return next !== current && next.credits >= reserve ? next : current;
+    }, state);
+}
@@ -3,9 +3,6 @@ import { gameConfig, getCurrentGameMode } from '../config/gameConfig';
 export type GameConfig = typeof gameConfig;
 export const config = gameConfig;
 
-// Get current game mode settings
-const currentMode = getCurrentGameMode();
-
 /**
  * Returns the cost multiplier for shop items when in premium store (credits >= threshold).
  * Returns 1 when below threshold.
@@ -27,7 +24,7 @@ export function applyShopCostMultiplier(baseCost: number, credits: number): numb
  */
 export function getParallelHandsBundleBaseCost(bundleSize: number, credits: number): number {
   const premium = gameConfig.shopOptions.premium;
-  const defaultPrice = currentMode.shop.parallelHandsBundles.basePricePerHand;
+  const defaultPrice = getCurrentGameMode().shop.parallelHandsBundles.basePricePerHand;
   const isPremiumStore = credits >= premium.creditsThreshold;
   const useLargeBundlePrice =
     isPremiumStore &&
@@ -41,12 +38,14 @@ export function getParallelHandsBundleBaseCost(bundleSize: number, credits: numb
 
 // Helper functions for cost calculations
 export function calculateWildCardCost(wildCardCount: number): number {
+  const currentMode = getCurrentGameMode();
   const baseCost = currentMode.shop.wildCard.baseCost;
   const multiplier = 1 + currentMode.shop.wildCard.increasePercent / 100;
   return Math.floor(baseCost * Math.pow(multiplier, wildCardCount));
 }
 
 export function calculateSingleDeadCardRemovalCost(removalCount: number): number {
+  const currentMode = getCurrentGameMode();
   const baseCost = currentMode.shop.singleDeadCardRemoval.baseCost;
   const multiplier = 1 + currentMode.shop.singleDeadCardRemoval.increasePercent / 100;
   return Math.floor(baseCost * Math.pow(multiplier, removalCount));
@@ -61,18 +60,21 @@ export function calculateAllDeadCardsRemovalCost(
 }
 
 export function calculateDevilsDealChanceCost(purchaseCount: number): number {
+  const currentMode = getCurrentGameMode();
   const baseCost = currentMode.shop.devilsDealChance.baseCost;
   const multiplier = 1 + currentMode.shop.devilsDealChance.increasePercent / 100;
   return Math.floor(baseCost * Math.pow(multiplier, purchaseCount));
 }
 
 export function calculateDevilsDealCostReductionCost(purchaseCount: number): number {
+  const currentMode = getCurrentGameMode();
   const baseCost = currentMode.shop.devilsDealCostReduction.baseCost;
   const multiplier = 1 + currentMode.shop.devilsDealCostReduction.increasePercent / 100;
   return Math.floor(baseCost * Math.pow(multiplier, purchaseCount));
 }
 
 export function calculateExtraCardInHandCost(currentCount: number): number {
+  const currentMode = getCurrentGameMode();
   const baseCost = currentMode.shop.extraCardInHand.baseCost;
   const multiplier = 1 + currentMode.shop.extraCardInHand.increasePercent / 100;
   return Math.floor(baseCost * Math.pow(multiplier, currentCount));
@@ -90,6 +92,7 @@ export function getCreditsNeededForNextRound(
   selectedHandCount: number,
   handCount: number
 ): number {
+  const currentMode = getCurrentGameMode();
   const interval = currentMode.minimumBetIncreaseInterval;
   const percent = currentMode.minimumBetIncreasePercent;
   const shouldIncrease = nextRound % interval === 0;
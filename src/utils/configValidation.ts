@@ -0,0 +1,336 @@
+/**
+ * Runtime validation for gameConfig and resolved game modes.
+ * TypeScript only checks the shape of the config; these checks catch values that type-check
+ * but break the game, such as rarity chances that do not match a slot's maxRarity or a
+ * mode override that leaves a NaN bet. Every problem is reported with its config path.
+ */
+
+import type { GameConfig } from '../config/gameConfig';
+import { HandRank } from '../types';
+import { isShopOptionType } from './typeGuards';
+
+export interface ConfigIssue {
+  /** Path into the config, e.g. 'shopOptions.default.shopSlots[2].rarityChances'. */
+  path: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    const details = issues.map(({ path, message }) => `  ${path}: ${message}`).join('\n');
+    super(`Invalid game config:\n${details}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+const HAND_RANKS: readonly HandRank[] = [
+  'royal-flush',
+  'five-of-a-kind',
+  'straight-flush',
+  'four-of-a-kind',
+  'full-house',
+  'flush',
+  'straight',
+  'three-of-a-kind',
+  'two-pair',
+  'one-pair',
+  'high-card',
+];
+
+/** Highest rarity the shop roller supports (see shopSelection). */
+const MAX_SHOP_RARITY = 4;
+
+/** Allowed spread of summed beat phase ratios around 1 (the phases run back to back). */
+const BEAT_RATIO_SUM_TOLERANCE = 0.1;
+
+const BEAT_PHASE_RATIOS = ['entryRatio', 'cardsRatio', 'resultRatio', 'exitRatio', 'gapRatio'];
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+/** Read a dotted path; undefined when any step is missing. */
+export function getValueAtPath(root: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, root);
+}
+
+/** Join path segments and show array indexes in brackets: 'shopSlots.2' -> 'shopSlots[2]'. */
+function formatPath(basePath: string, path: string): string {
+  const joined = basePath ? `${basePath}.${path}` : path;
+  return joined.replace(/\.(\d+)(?=\.|$)/g, '[$1]');
+}
+
+/** Collects issues for values under one config object. */
+function createChecker(root: unknown, basePath: string, issues: ConfigIssue[]) {
+  const report = (path: string, message: string) => {
+    issues.push({ path: formatPath(basePath, path), message });
+  };
+
+  const number = (path: string, rule: NumberRule = {}): number | undefined => {
+    const value = getValueAtPath(root, path);
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      const shown = typeof value === 'number' ? value : (JSON.stringify(value) ?? 'undefined');
+      report(path, `expected a finite number, got ${shown}`);
+      return undefined;
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      report(path, `expected a whole number, got ${value}`);
+    } else if (rule.min !== undefined && value < rule.min) {
+      report(path, `must be at least ${rule.min}, got ${value}`);
+    } else if (rule.max !== undefined && value > rule.max) {
+      report(path, `must be at most ${rule.max}, got ${value}`);
+    } else {
+      return value;
+    }
+    return undefined;
+  };
+
+  const boolean = (path: string) => {
+    if (typeof getValueAtPath(root, path) !== 'boolean') report(path, 'expected true or false');
+  };
+
+  const text = (path: string, { allowEmpty = false } = {}) => {
+    const value = getValueAtPath(root, path);
+    if (typeof value !== 'string' || (!allowEmpty && value.trim() === '')) {
+      report(path, allowEmpty ? 'expected text' : 'expected non-empty text');
+    }
+  };
+
+  return { report, number, boolean, text };
+}
+
+/**
+ * Validate a resolved game mode (defaultGameMode with overrides merged in).
+ * @param basePath - Prefix for reported paths, e.g. 'gameModes.hardMode'
+ */
+export function validateGameModeConfig(mode: unknown, basePath = ''): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const { report, number, boolean, text } = createChecker(mode, basePath, issues);
+
+  text('displayName');
+  text('description', { allowEmpty: true });
+  number('startingCredits', { min: 1 });
+  number('startingBet', { min: 1, integer: true });
+  number('startingHandCount', { min: 1, integer: true });
+  const maxHandSize = number('maxHandSize', { min: 5, integer: true });
+  number('maxDraws', { min: 1, integer: true });
+  number('minimumBetIncreasePercent', { min: 0 });
+  number('minimumBetIncreaseInterval', { min: 1, integer: true });
+  number('shopFrequency', { min: 1, integer: true });
+  number('minimumPairRank', { min: 2, max: 14, integer: true });
+
+  number('devilsDeal.baseChance', { min: 0, max: 100 });
+  number('devilsDeal.chanceIncreasePerPurchase', { min: 0 });
+  number('devilsDeal.maxChancePurchases', { min: 0, integer: true });
+  const baseCostPercent = number('devilsDeal.baseCostPercent', { min: 0 });
+  const costReduction = number('devilsDeal.costReductionPerPurchase', { min: 0 });
+  const reductionPurchases = number('devilsDeal.maxCostReductionPurchases', {
+    min: 0,
+    integer: true,
+  });
+  if (
+    baseCostPercent !== undefined &&
+    costReduction !== undefined &&
+    reductionPurchases !== undefined &&
+    costReduction * reductionPurchases > baseCostPercent
+  ) {
+    report(
+      'devilsDeal.costReductionPerPurchase',
+      `all ${reductionPurchases} reductions (${costReduction * reductionPurchases}%) exceed ` +
+        `baseCostPercent (${baseCostPercent}%)`
+    );
+  }
+
+  const conditions = 'endlessMode.failureConditions';
+  number('endlessMode.startRound', { min: 1, integer: true });
+  boolean(`${conditions}.minimumBetMultiplier.enabled`);
+  number(`${conditions}.minimumBetMultiplier.value`, { min: 1 });
+  boolean(`${conditions}.minimumCreditEfficiency.enabled`);
+  number(`${conditions}.minimumCreditEfficiency.value`, { min: 0 });
+  boolean(`${conditions}.minimumWinningHandsPerRound.enabled`);
+  number(`${conditions}.minimumWinningHandsPerRound.value`, { min: 0, integer: true });
+  boolean(`${conditions}.minimumWinPercent.enabled`);
+  const startPercent = number(`${conditions}.minimumWinPercent.startPercent`, { min: 0 });
+  number(`${conditions}.minimumWinPercent.incrementPerRound`, { min: 0 });
+  const maxPercent = number(`${conditions}.minimumWinPercent.maxPercent`, { min: 0 });
+  if (startPercent !== undefined && maxPercent !== undefined && maxPercent < startPercent) {
+    report(
+      `${conditions}.minimumWinPercent.maxPercent`,
+      `must be at least startPercent (${startPercent}), got ${maxPercent}`
+    );
+  }
+
+  number('shop.deadCard.creditReward', { min: 0 });
+  number('shop.wildCard.baseCost', { min: 0 });
+  number('shop.wildCard.increasePercent', { min: 0 });
+  number('shop.wildCard.maxCount', { min: 0, integer: true });
+  number('shop.singleDeadCardRemoval.baseCost', { min: 0 });
+  number('shop.singleDeadCardRemoval.increasePercent', { min: 0 });
+  number('shop.parallelHandsBundles.basePricePerHand', { min: 0 });
+  const bundles = getValueAtPath(mode, 'shop.parallelHandsBundles.bundles');
+  if (!Array.isArray(bundles) || bundles.length === 0) {
+    report('shop.parallelHandsBundles.bundles', 'expected a non-empty list of bundle sizes');
+  } else {
+    bundles.forEach((_, i) =>
+      number(`shop.parallelHandsBundles.bundles.${i}`, { min: 1, integer: true })
+    );
+  }
+  number('shop.extraDraw.cost', { min: 0 });
+  number('shop.extraDraw.increasePercent', { min: 0 });
+  number('shop.extraDraw.maxPurchases', { min: 0, integer: true });
+  number('shop.extraCardInHand.baseCost', { min: 0 });
+  number('shop.extraCardInHand.increasePercent', { min: 0 });
+  const extraCardPurchases = number('shop.extraCardInHand.maxPurchases', {
+    min: 0,
+    integer: true,
+  });
+  if (
+    maxHandSize !== undefined &&
+    extraCardPurchases !== undefined &&
+    5 + extraCardPurchases > maxHandSize
+  ) {
+    report(
+      'shop.extraCardInHand.maxPurchases',
+      `5 + ${extraCardPurchases} extra cards exceeds maxHandSize (${maxHandSize})`
+    );
+  }
+  number('shop.devilsDealChance.baseCost', { min: 0 });
+  number('shop.devilsDealChance.increasePercent', { min: 0 });
+  number('shop.devilsDealCostReduction.baseCost', { min: 0 });
+  number('shop.devilsDealCostReduction.increasePercent', { min: 0 });
+
+  const rewards = getValueAtPath(mode, 'rewards');
+  if (rewards === null || typeof rewards !== 'object') {
+    report('rewards', 'expected a payout for every hand rank');
+  } else {
+    for (const rank of HAND_RANKS) {
+      number(`rewards.${rank}`, { min: 0 });
+    }
+    for (const key of Object.keys(rewards)) {
+      if (!HAND_RANKS.includes(key as HandRank)) {
+        report(`rewards.${key}`, 'unknown hand rank');
+      }
+    }
+  }
+
+  return issues;
+}
+
+function validateShopOptions(shop: unknown, basePath: string, issues: ConfigIssue[]): void {
+  const { report, number, text } = createChecker(shop, basePath, issues);
+
+  text('name');
+  number('shopOptionCount', { min: 1, integer: true });
+
+  const slots = getValueAtPath(shop, 'shopSlots');
+  if (!Array.isArray(slots) || slots.length === 0) {
+    report('shopSlots', 'expected at least one shop slot');
+  } else {
+    slots.forEach((slot: unknown, i) => {
+      const slotChecker = createChecker(slot, `${basePath}.shopSlots.${i}`, issues);
+      const maxRarity = slotChecker.number('maxRarity', {
+        min: 1,
+        max: MAX_SHOP_RARITY,
+        integer: true,
+      });
+      const chances = getValueAtPath(slot, 'rarityChances');
+      if (chances === undefined) return;
+      if (!Array.isArray(chances)) {
+        slotChecker.report('rarityChances', 'expected a list of chances');
+        return;
+      }
+      if (maxRarity !== undefined && chances.length !== maxRarity) {
+        slotChecker.report(
+          'rarityChances',
+          `expected ${maxRarity} chances for maxRarity ${maxRarity}, got ${chances.length}`
+        );
+      }
+      const validChances = chances.map((_, c) =>
+        slotChecker.number(`rarityChances.${c}`, { min: 0, max: 1 })
+      );
+      if (validChances.every((chance) => chance !== undefined)) {
+        const sum = (validChances as number[]).reduce((total, chance) => total + chance, 0);
+        if (Math.abs(sum - 1) > 1e-6) {
+          const shown = Number(sum.toFixed(3));
+          slotChecker.report('rarityChances', `chances must sum to 1, got ${shown}`);
+        }
+      }
+    });
+  }
+
+  const items = getValueAtPath(shop, 'shopItems');
+  if (items === null || typeof items !== 'object' || Object.keys(items).length === 0) {
+    report('shopItems', 'expected at least one shop item');
+    return;
+  }
+  for (const key of Object.keys(items)) {
+    if (!isShopOptionType(key)) {
+      report(`shopItems.${key}`, 'unknown shop item');
+      continue;
+    }
+    number(`shopItems.${key}.rarity`, { min: 1, max: MAX_SHOP_RARITY, integer: true });
+  }
+}
+
+/**
+ * Validate the global parts of gameConfig plus defaultGameMode.
+ * Resolved modes are checked separately with validateGameModeConfig.
+ */
+export function validateGameConfig(config: GameConfig | Record<string, unknown>): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const { report, number } = createChecker(config, '', issues);
+
+  number('deadCardLimit', { min: 0, integer: true });
+  number('shopOptionCount', { min: 1, integer: true });
+
+  validateShopOptions(getValueAtPath(config, 'shopOptions.default'), 'shopOptions.default', issues);
+  validateShopOptions(getValueAtPath(config, 'shopOptions.premium'), 'shopOptions.premium', issues);
+  number('shopOptions.premium.creditsThreshold', { min: 0 });
+  number('shopOptions.premium.costPercentIncrease', { min: 0 });
+  number('shopOptions.premium.basePricePerHandLargeBundles', { min: 0 });
+
+  const wave = 'animation.parallelHandsAbstractWave';
+  const individualMax = number(`${wave}.individualMaxHands`, { min: 1, integer: true });
+  const mediumMax = number(`${wave}.mediumMaxHands`, { min: 1, integer: true });
+  if (individualMax !== undefined && mediumMax !== undefined && mediumMax < individualMax) {
+    report(`${wave}.mediumMaxHands`, `must be at least individualMaxHands (${individualMax})`);
+  }
+  const minMs = number(`${wave}.minMsPerBeat`, { min: 1 });
+  const maxMs = number(`${wave}.maxMsPerBeat`, { min: 1 });
+  if (minMs !== undefined && maxMs !== undefined && maxMs < minMs) {
+    report(`${wave}.maxMsPerBeat`, `must be at least minMsPerBeat (${minMs})`);
+  }
+  const ratios = BEAT_PHASE_RATIOS.map((key) => number(`${wave}.${key}`, { min: 0, max: 1 }));
+  if (ratios.every((ratio) => ratio !== undefined)) {
+    const sum = (ratios as number[]).reduce((total, ratio) => total + ratio, 0);
+    if (Math.abs(sum - 1) > BEAT_RATIO_SUM_TOLERANCE) {
+      report(
+        wave,
+        `${BEAT_PHASE_RATIOS.join(' + ')} should sum to about 1, got ${Number(sum.toFixed(3))}`
+      );
+    }
+  }
+  for (const key of ['winnerCardsMultiplier', 'winnerResultMultiplier', 'winnerExitMultiplier']) {
+    number(`${wave}.${key}`, { min: 1 });
+  }
+
+  issues.push(
+    ...validateGameModeConfig(getValueAtPath(config, 'defaultGameMode'), 'defaultGameMode')
+  );
+  return issues;
+}
+
+/** Throws a ConfigValidationError when there are any issues. */
+export function assertNoConfigIssues(issues: ConfigIssue[]): void {
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * Player-made game modes from the ruleset editor.
+ * A custom mode is a CustomGameModeSettings override merged over defaultGameMode, saved to
+ * localStorage and registered with gameConfig so the mode picker and every
+ * getCurrentGameMode() consumer can use it like a built-in mode.
+ */
+
+import {
+  CustomGameMode,
+  CustomGameModeId,
+  CustomGameModeSettings,
+  GameModeId,
+  gameConfig,
+  getGameMode,
+  isCustomGameModeId,
+  resolveGameModeOverrides,
+  setCustomGameModes,
+} from '../config/gameConfig';
+import { HandRank } from '../types';
+import { getValueAtPath, validateGameModeConfig } from './configValidation';
+import { logger } from './logger';
+
+export const CUSTOM_GAME_MODES_STORAGE_KEY = 'customGameModes';
+
+export const CUSTOM_MODE_NAME_MAX_LENGTH = 24;
+export const CUSTOM_MODE_DESCRIPTION_MAX_LENGTH = 120;
+
+/** Validation messages keyed by setting path, e.g. 'devilsDeal.baseChance'. */
+export type CustomModeValidationErrors = Record<string, string>;
+
+export type CustomModeField =
+  | {
+      kind: 'number';
+      path: string;
+      label: string;
+      min: number;
+      max?: number;
+      integer?: boolean;
+    }
+  | { kind: 'toggle'; path: string; label: string };
+
+export interface CustomModeFieldSection {
+  title: string;
+  fields: CustomModeField[];
+}
+
+const REWARD_LABELS: Record<HandRank, string> = {
+  'royal-flush': 'Royal Flush',
+  'five-of-a-kind': 'Five of a Kind',
+  'straight-flush': 'Straight Flush',
+  'four-of-a-kind': 'Four of a Kind',
+  'full-house': 'Full House',
+  flush: 'Flush',
+  straight: 'Straight',
+  'three-of-a-kind': 'Three of a Kind',
+  'two-pair': 'Two Pair',
+  'one-pair': 'One Pair',
+  'high-card': 'High Card',
+};
+
+/** Numeric and on/off settings the editor shows, with the range each one accepts. */
+export const CUSTOM_MODE_SECTIONS: CustomModeFieldSection[] = [
+  {
+    title: 'Economy',
+    fields: [
+      { kind: 'number', path: 'startingCredits', label: 'Starting credits', min: 1, integer: true },
+      { kind: 'number', path: 'startingBet', label: 'Starting bet', min: 1, integer: true },
+      {
+        kind: 'number',
+        path: 'minimumBetIncreasePercent',
+        label: 'Minimum bet increase (%)',
+        min: 0,
+        max: 1000,
+      },
+      {
+        kind: 'number',
+        path: 'minimumBetIncreaseInterval',
+        label: 'Rounds between bet increases',
+        min: 1,
+        max: 100,
+        integer: true,
+      },
+      {
+        kind: 'number',
+        path: 'shopFrequency',
+        label: 'Rounds between shops',
+        min: 1,
+        max: 100,
+        integer: true,
+      },
+    ],
+  },
+  {
+    title: "Devil's Deal",
+    fields: [
+      { kind: 'number', path: 'devilsDeal.baseChance', label: 'Base chance (%)', min: 0, max: 100 },
+      {
+        kind: 'number',
+        path: 'devilsDeal.chanceIncreasePerPurchase',
+        label: 'Chance per purchase (%)',
+        min: 0,
+        max: 100,
+      },
+      {
+        kind: 'number',
+        path: 'devilsDeal.maxChancePurchases',
+        label: 'Max chance purchases',
+        min: 0,
+        max: 20,
+        integer: true,
+      },
+      {
+        kind: 'number',
+        path: 'devilsDeal.baseCostPercent',
+        label: 'Base cost (% of payout)',
+        min: 0,
+        max: 10000,
+      },
+      {
+        kind: 'number',
+        path: 'devilsDeal.costReductionPerPurchase',
+        label: 'Cost reduction per purchase (%)',
+        min: 0,
+        max: 100,
+      },
+      {
+        kind: 'number',
+        path: 'devilsDeal.maxCostReductionPurchases',
+        label: 'Max cost reduction purchases',
+        min: 0,
+        max: 20,
+        integer: true,
+      },
+    ],
+  },
+  {
+    title: 'Endless Mode',
+    fields: [
+      {
+        kind: 'number',
+        path: 'endlessMode.startRound',
+        label: 'Endless starts at round',
+        min: 1,
+        max: 1000,
+        integer: true,
+      },
+      {
+        kind: 'toggle',
+        path: 'endlessMode.failureConditions.minimumBetMultiplier.enabled',
+        label: 'Require a minimum bet multiplier',
+      },
+      {
+        kind: 'number',
+        path: 'endlessMode.failureConditions.minimumBetMultiplier.value',
+        label: 'Minimum bet multiplier',
+        min: 1,
+        max: 1000,
+      },
+      {
+        kind: 'toggle',
+        path: 'endlessMode.failureConditions.minimumCreditEfficiency.enabled',
+        label: 'Require a minimum credit efficiency',
+      },
+      {
+        kind: 'number',
+        path: 'endlessMode.failureConditions.minimumCreditEfficiency.value',
+        label: 'Minimum credit efficiency',
+        min: 0,
+      },
+      {
+        kind: 'toggle',
+        path: 'endlessMode.failureConditions.minimumWinningHandsPerRound.enabled',
+        label: 'Require winning hands each round',
+      },
+      {
+        kind: 'number',
+        path: 'endlessMode.failureConditions.minimumWinningHandsPerRound.value',
+        label: 'Minimum winning hands',
+        min: 0,
+        integer: true,
+      },
+      {
+        kind: 'toggle',
+        path: 'endlessMode.failureConditions.minimumWinPercent.enabled',
+        label: 'Require a minimum win percentage',
+      },
+      {
+        kind: 'number',
+        path: 'endlessMode.failureConditions.minimumWinPercent.startPercent',
+        label: 'Win % at endless start',
+        min: 0,
+        max: 1000,
+      },
+      {
+        kind: 'number',
+        path: 'endlessMode.failureConditions.minimumWinPercent.incrementPerRound',
+        label: 'Win % added per round',
+        min: 0,
+        max: 1000,
+      },
+      {
+        kind: 'number',
+        path: 'endlessMode.failureConditions.minimumWinPercent.maxPercent',
+        label: 'Win % cap',
+        min: 0,
+        max: 1000,
+      },
+    ],
+  },
+  {
+    title: 'Payouts (x bet)',
+    fields: [
+      {
+        kind: 'number',
+        path: 'minimumPairRank',
+        label: 'Lowest paying pair (10 = Tens, 11 = Jacks)',
+        min: 2,
+        max: 14,
+        integer: true,
+      },
+      ...(Object.keys(REWARD_LABELS) as HandRank[]).map((rank) => ({
+        kind: 'number' as const,
+        path: `rewards.${rank}`,
+        label: REWARD_LABELS[rank],
+        min: 0,
+        max: 1_000_000,
+      })),
+    ],
+  },
+];
+
+/** Copy of settings with one dotted path replaced. */
+export function setSettingAtPath(
+  settings: CustomGameModeSettings,
+  path: string,
+  value: unknown
+): CustomGameModeSettings {
+  const update = (target: Record<string, unknown>, keys: string[]): Record<string, unknown> => {
+    const [key, ...rest] = keys;
+    return {
+      ...target,
+      [key]: rest.length === 0 ? value : update(target[key] as Record<string, unknown>, rest),
+    };
+  };
+  return update(
+    settings as unknown as Record<string, unknown>,
+    path.split('.')
+  ) as unknown as CustomGameModeSettings;
+}
+
+function validateNumberField(
+  field: Extract<CustomModeField, { kind: 'number' }>,
+  value: unknown
+): string | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'Enter a number';
+  if (field.integer && !Number.isInteger(value)) return 'Must be a whole number';
+  if (value < field.min) return `Must be at least ${field.min}`;
+  if (field.max !== undefined && value > field.max) return `Must be at most ${field.max}`;
+  return null;
+}
+
+/**
+ * Check custom mode settings. Accepts unknown input so it can also vet stored data.
+ * @returns Errors keyed by setting path; empty when the settings are valid
+ */
+export function validateCustomGameModeSettings(settings: unknown): CustomModeValidationErrors {
+  const errors: CustomModeValidationErrors = {};
+
+  const displayName = getValueAtPath(settings, 'displayName');
+  if (typeof displayName !== 'string' || displayName.trim() === '') {
+    errors.displayName = 'Name is required';
+  } else if (displayName.length > CUSTOM_MODE_NAME_MAX_LENGTH) {
+    errors.displayName = `Use at most ${CUSTOM_MODE_NAME_MAX_LENGTH} characters`;
+  }
+  const description = getValueAtPath(settings, 'description');
+  if (typeof description !== 'string') {
+    errors.description = 'Description must be text';
+  } else if (description.length > CUSTOM_MODE_DESCRIPTION_MAX_LENGTH) {
+    errors.description = `Use at most ${CUSTOM_MODE_DESCRIPTION_MAX_LENGTH} characters`;
+  }
+
+  for (const { fields } of CUSTOM_MODE_SECTIONS) {
+    for (const field of fields) {
+      const value = getValueAtPath(settings, field.path);
+      const error =
+        field.kind === 'number'
+          ? validateNumberField(field, value)
+          : typeof value === 'boolean'
+            ? null
+            : 'Must be on or off';
+      if (error) errors[field.path] = error;
+    }
+  }
+
+  const winPercent = 'endlessMode.failureConditions.minimumWinPercent';
+  const startPercent = getValueAtPath(settings, `${winPercent}.startPercent`);
+  const maxPercent = getValueAtPath(settings, `${winPercent}.maxPercent`);
+  if (
+    !errors[`${winPercent}.maxPercent`] &&
+    typeof startPercent === 'number' &&
+    typeof maxPercent === 'number' &&
+    maxPercent < startPercent
+  ) {
+    errors[`${winPercent}.maxPercent`] = 'Cap must be at least the starting win %';
+  }
+
+  // Fully bought cost reductions must not push the Devil's Deal cost below zero
+  const baseCost = getValueAtPath(settings, 'devilsDeal.baseCostPercent');
+  const reduction = getValueAtPath(settings, 'devilsDeal.costReductionPerPurchase');
+  const reductionPurchases = getValueAtPath(settings, 'devilsDeal.maxCostReductionPurchases');
+  if (
+    !errors['devilsDeal.costReductionPerPurchase'] &&
+    typeof baseCost === 'number' &&
+    typeof reduction === 'number' &&
+    typeof reductionPurchases === 'number' &&
+    reduction * reductionPurchases > baseCost
+  ) {
+    errors['devilsDeal.costReductionPerPurchase'] =
+      'All cost reductions together exceed the base cost';
+  }
+
+  // The full mode check catches anything the editor's own rules miss
+  if (settings !== null && typeof settings === 'object') {
+    for (const { path, message } of validateGameModeConfig(resolveGameModeOverrides(settings))) {
+      if (!errors[path]) errors[path] = message.charAt(0).toUpperCase() + message.slice(1);
+    }
+  }
+
+  return errors;
+}
+
+/** Editable settings for a new custom mode, copied from an existing mode. */
+export function createCustomGameModeSettings(baseModeId: GameModeId): CustomGameModeSettings {
+  const base = getGameMode(baseModeId);
+  return {
+    displayName: `${base.displayName} (Custom)`.slice(0, CUSTOM_MODE_NAME_MAX_LENGTH),
+    description: base.description,
+    startingCredits: base.startingCredits,
+    startingBet: base.startingBet,
+    minimumBetIncreasePercent: base.minimumBetIncreasePercent,
+    minimumBetIncreaseInterval: base.minimumBetIncreaseInterval,
+    shopFrequency: base.shopFrequency,
+    minimumPairRank: base.minimumPairRank,
+    devilsDeal: base.devilsDeal,
+    endlessMode: base.endlessMode,
+    rewards: base.rewards,
+  };
+}
+
+export function createCustomGameModeId(
+  existing: CustomGameMode[],
+  now = Date.now()
+): CustomGameModeId {
+  const taken = new Set(existing.map((mode) => mode.id));
+  let id: CustomGameModeId = `custom-${now.toString(36)}`;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `custom-${now.toString(36)}-${suffix}`;
+  }
+  return id;
+}
+
+/** Fill settings added after a mode was saved, so older saves stay loadable. */
+function upgradeStoredCustomGameMode(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value;
+  const { settings } = value as Record<string, unknown>;
+  if (settings === null || typeof settings !== 'object' || 'minimumPairRank' in settings) {
+    return value;
+  }
+  return {
+    ...value,
+    settings: { ...settings, minimumPairRank: gameConfig.defaultGameMode.minimumPairRank },
+  };
+}
+
+function isCustomGameMode(value: unknown): value is CustomGameMode {
+  if (value === null || typeof value !== 'object') return false;
+  const { id, settings } = value as Record<string, unknown>;
+  return (
+    typeof id === 'string' &&
+    isCustomGameModeId(id) &&
+    Object.keys(validateCustomGameModeSettings(settings)).length === 0
+  );
+}
+
+function writeCustomGameModes(modes: CustomGameMode[]): void {
+  try {
+    localStorage.setItem(CUSTOM_GAME_MODES_STORAGE_KEY, JSON.stringify(modes));
+  } catch (error) {
+    logger.warn(`Failed to save custom game modes: ${String(error)}`);
+  }
+  setCustomGameModes(modes);
+}
+
+/**
+ * Load saved custom modes and register them with gameConfig. Invalid entries are skipped.
+ */
+export function loadCustomGameModes(): CustomGameMode[] {
+  let modes: CustomGameMode[] = [];
+  if (typeof window !== 'undefined') {
+    try {
+      const parsed: unknown = JSON.parse(
+        localStorage.getItem(CUSTOM_GAME_MODES_STORAGE_KEY) ?? '[]'
+      );
+      modes = Array.isArray(parsed)
+        ? parsed.map(upgradeStoredCustomGameMode).filter(isCustomGameMode)
+        : [];
+    } catch {
+      modes = [];
+    }
+  }
+  setCustomGameModes(modes);
+  return modes;
+}
+
+/** Add or replace a custom mode; returns the updated list. */
+export function saveCustomGameMode(mode: CustomGameMode): CustomGameMode[] {
+  const modes = loadCustomGameModes();
+  const index = modes.findIndex((existing) => existing.id === mode.id);
+  const updated =
+    index === -1 ? [...modes, mode] : modes.map((existing, i) => (i === index ? mode : existing));
+  writeCustomGameModes(updated);
+  return updated;
+}
+
+/** Remove a custom mode; returns the updated list. */
+export function deleteCustomGameMode(modeId: CustomGameModeId): CustomGameMode[] {
+  const updated = loadCustomGameModes().filter((mode) => mode.id !== modeId);
+  writeCustomGameModes(updated);
+  return updated;
+}
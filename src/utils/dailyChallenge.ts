@@ -0,0 +1,190 @@
+/**
+ * Daily Challenge: one run a day, seeded from the local date so everyone who plays that day gets
+ * the same deals, shop rolls and Devil's Deal offers. The first run started each day is the
+ * scored attempt; its result is kept in localStorage as a calendar of past days.
+ */
+
+import { DEFAULT_GAME_MODE_ID } from '../config/gameConfig';
+import { GameOverReason, GameState } from '../types';
+import { logger } from './logger';
+import { isDailyChallengeEntry } from './typeGuards';
+
+export const DAILY_CHALLENGES_STORAGE_KEY = 'dailyChallenges';
+
+/** Oldest days are dropped past this many entries to keep storage bounded. */
+export const DAILY_CHALLENGES_LIMIT = 366;
+
+/** Every daily challenge is played in the default mode, so everyone plays the same rules. */
+export const DAILY_CHALLENGE_GAME_MODE_ID = DEFAULT_GAME_MODE_ID;
+
+export interface DailyChallengeResult {
+  /** Round reached, as shown on the game over screen. */
+  roundsSurvived: number;
+  peakCredits: number;
+  finalCredits: number;
+  totalEarnings: number;
+  gameOverReason: GameOverReason;
+}
+
+export interface DailyChallengeEntry {
+  /** Local date (YYYY-MM-DD) of the challenge. */
+  date: string;
+  /** Result of the scored attempt; null until that run ends. */
+  result: DailyChallengeResult | null;
+}
+
+export interface DailyChallengeStreaks {
+  /** Days in a row with an attempt, up to today (or yesterday, while today is still open). */
+  current: number;
+  best: number;
+}
+
+export interface DailyChallengeCalendarDay {
+  date: string;
+  /** The day's attempt; null when the challenge was not played. */
+  entry: DailyChallengeEntry | null;
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Local midnight of a YYYY-MM-DD date, for display. */
+export function parseDailyChallengeDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** The date the given number of days from a YYYY-MM-DD date (negative for earlier days). */
+export function addDays(date: string, days: number): string {
+  const start = parseDailyChallengeDate(date);
+  start.setDate(start.getDate() + days);
+  return formatDate(start);
+}
+
+/** Today's challenge date, in local time. */
+export function getDailyChallengeDate(now: Date = new Date()): string {
+  return formatDate(now);
+}
+
+/**
+ * Run seed for a challenge date (a 32-bit FNV-1a hash of the date), the same on every device.
+ */
+export function getDailyChallengeSeed(date: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `daily-${date}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** The result to record for a daily challenge run that just ended. */
+export function createDailyChallengeResult(state: GameState): DailyChallengeResult {
+  return {
+    roundsSurvived: state.round,
+    peakCredits: Math.max(state.runPeakCredits, state.credits),
+    finalCredits: state.credits,
+    totalEarnings: state.totalEarnings,
+    gameOverReason: state.gameOverReason ?? 'voluntary',
+  };
+}
+
+/**
+ * Load the played daily challenges, oldest first. Invalid entries are skipped.
+ */
+export function loadDailyChallenges(): DailyChallengeEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(DAILY_CHALLENGES_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isDailyChallengeEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveDailyChallenges(entries: DailyChallengeEntry[]): void {
+  try {
+    localStorage.setItem(
+      DAILY_CHALLENGES_STORAGE_KEY,
+      JSON.stringify(entries.slice(-DAILY_CHALLENGES_LIMIT))
+    );
+  } catch (error) {
+    logger.warn(`Failed to save daily challenges: ${String(error)}`);
+  }
+}
+
+export function hasPlayedDailyChallenge(entries: DailyChallengeEntry[], date: string): boolean {
+  return entries.some((entry) => entry.date === date);
+}
+
+/**
+ * Record that the day's scored attempt has started, so the day can't be attempted again.
+ * @returns Every played daily challenge
+ */
+export function recordDailyChallengeStart(date: string): DailyChallengeEntry[] {
+  const entries = loadDailyChallenges();
+  if (hasPlayedDailyChallenge(entries, date)) return entries;
+  const updated = [...entries, { date, result: null }].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+  saveDailyChallenges(updated);
+  return updated;
+}
+
+/**
+ * Record the result of a day's scored attempt. Days that were never started, or that already
+ * have a result, are left alone.
+ * @returns Every played daily challenge
+ */
+export function recordDailyChallengeResult(
+  date: string,
+  result: DailyChallengeResult
+): DailyChallengeEntry[] {
+  const entries = loadDailyChallenges();
+  if (!entries.some((entry) => entry.date === date && entry.result === null)) return entries;
+  const updated = entries.map((entry) => (entry.date === date ? { ...entry, result } : entry));
+  saveDailyChallenges(updated);
+  return updated;
+}
+
+export function getDailyChallengeStreaks(
+  entries: DailyChallengeEntry[],
+  today: string
+): DailyChallengeStreaks {
+  const played = new Set(entries.map((entry) => entry.date));
+
+  let best = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const date of [...played].sort()) {
+    run = previous !== null && addDays(previous, 1) === date ? run + 1 : 1;
+    best = Math.max(best, run);
+    previous = date;
+  }
+
+  let current = 0;
+  let date = played.has(today) ? today : addDays(today, -1);
+  while (played.has(date)) {
+    current++;
+    date = addDays(date, -1);
+  }
+
+  return { current, best };
+}
+
+/** The given number of days up to and including today, oldest first. */
+export function getDailyChallengeCalendar(
+  entries: DailyChallengeEntry[],
+  today: string,
+  days: number
+): DailyChallengeCalendarDay[] {
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(today, index - days + 1);
+    return { date, entry: entries.find((entry) => entry.date === date) ?? null };
+  });
+}
@@ -1,4 +1,5 @@
 import { Card, Suit, Rank } from '../types';
+import { RandomSource } from './rng';
 
 const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
@@ -17,6 +18,18 @@ export function createDeck(): Card[] {
   return deck;
 }
 
+/**
+ * The standard deck's card of a rank and suit, with the deck's id, so a hand built from it is
+ * taken out of the draws like a dealt one.
+ */
+export function findDeckCard({ rank, suit }: Pick<Card, 'rank' | 'suit'>): Card {
+  const card = createDeck().find((deckCard) => deckCard.rank === rank && deckCard.suit === suit);
+  if (!card) {
+    throw new Error(`No ${rank} of ${suit} in the deck`);
+  }
+  return card;
+}
+
 export function createFullDeck(deadCards: Card[] = [], removedCards: Card[] = [], wildCards: Card[] = []): Card[] {
   const deck = createDeck();
   const removedCardIds = new Set(removedCards.map(card => card.id));
@@ -31,13 +44,15 @@ export function createFullDeck(deadCards: Card[] = [], removedCards: Card[] = []
 
 /**
  * Fisher-Yates shuffle algorithm
- * Deterministic if seed is provided
+ * Deterministic if a numeric seed or a seeded random source (see utils/rng) is provided
  */
-export function shuffleDeck<T>(array: T[], seed?: number): T[] {
+export function shuffleDeck<T>(array: T[], seed?: number | RandomSource): T[] {
   const shuffled = [...array];
-  let random: () => number;
+  let random: RandomSource;
   
-  if (seed !== undefined) {
+  if (typeof seed === 'function') {
+    random = seed;
+  } else if (seed !== undefined) {
     // Simple seeded random number generator (Linear Congruential Generator)
     let seedValue = seed;
     random = () => {
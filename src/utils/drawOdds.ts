@@ -0,0 +1,187 @@
+/**
+ * Exact draw odds: how often each hand rank comes up over every possible draw.
+ *
+ * Rather than scoring each of the up to ~1.5M draws, draws are grouped by what the evaluator
+ * can tell apart: how many wild and dead cards were drawn, the multiset of regular ranks drawn,
+ * and whether the drawn regular cards share one suit. One representative hand per group is
+ * scored with LookupEvaluator and weighted by the number of real draws in the group, so dead,
+ * wild and removed cards count exactly as they do in play.
+ */
+
+import { getCurrentGameMode } from '../config/gameConfig';
+import { Card, HandRank, RewardTable } from '../types';
+import { removeCardsFromDeck } from './deck';
+import { LookupEvaluator } from './lookupEvaluator';
+
+export interface DrawOdds {
+  /** Number of distinct draws (unordered card sets) counted */
+  totalDraws: number;
+  /** Draws making each hand rank */
+  rankCounts: Record<HandRank, number>;
+  /** rankCounts / totalDraws */
+  probabilities: Record<HandRank, number>;
+}
+
+const RANKS: Card['rank'][] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+const SUITS: Card['suit'][] = ['hearts', 'diamonds', 'clubs', 'spades'];
+const HAND_RANKS: HandRank[] = [
+  'royal-flush',
+  'five-of-a-kind',
+  'straight-flush',
+  'four-of-a-kind',
+  'full-house',
+  'flush',
+  'straight',
+  'three-of-a-kind',
+  'two-pair',
+  'one-pair',
+  'high-card',
+];
+
+const MAX_CACHE_ENTRIES = 256;
+const oddsCache = new Map<string, DrawOdds>();
+
+/** Forget cached odds (e.g. between tests). */
+export function clearDrawOddsCache(): void {
+  oddsCache.clear();
+}
+
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let count = 1;
+  for (let i = 0; i < k; i++) count = (count * (n - i)) / (i + 1);
+  return Math.round(count);
+}
+
+function describeCard(card: Card): string {
+  if (card.isDead) return 'dead';
+  if (card.isWild) return 'wild';
+  return `${card.rank}-${card.suit}`;
+}
+
+function createEmptyCounts(): Record<HandRank, number> {
+  return Object.fromEntries(HAND_RANKS.map((rank) => [rank, 0])) as Record<HandRank, number>;
+}
+
+/**
+ * Exact odds of each hand rank when the unheld cards of baseHand are redrawn, matching
+ * generateParallelHands: replacements come from deck minus the 5 base cards.
+ * @param deck - Modified deck from createFullDeck (dead, wild and removed cards applied)
+ * @param minimumPairRank - Lowest paying pair; defaults to the active game mode's
+ */
+export function calculateDrawOdds(
+  baseHand: Card[],
+  heldIndices: number[],
+  deck: Card[],
+  minimumPairRank: number = getCurrentGameMode().minimumPairRank
+): DrawOdds {
+  if (baseHand.length !== 5) {
+    throw new Error('Base hand must contain exactly 5 cards');
+  }
+
+  const heldCards = baseHand.filter((_, i) => heldIndices.includes(i));
+  const drawDeck = removeCardsFromDeck(deck, baseHand);
+  const drawCount = Math.min(5 - heldCards.length, drawDeck.length);
+
+  // Only what the evaluator can see goes into the key, so equivalent decks share an entry
+  const deadCards = drawDeck.filter((card) => card.isDead);
+  const wildCards = drawDeck.filter((card) => card.isWild && !card.isDead);
+  const regularCards = drawDeck.filter((card) => !card.isWild && !card.isDead);
+  const cacheKey = [
+    minimumPairRank,
+    drawCount,
+    heldCards.map(describeCard).sort().join(','),
+    regularCards.map(describeCard).sort().join(','),
+    `wild${wildCards.length}`,
+    `dead${deadCards.length}`,
+  ].join('|');
+  const cached = oddsCache.get(cacheKey);
+  if (cached) return cached;
+
+  const cardsByRank = new Map<Card['rank'], Card[]>(RANKS.map((rank) => [rank, []]));
+  for (const card of regularCards) cardsByRank.get(card.rank)?.push(card);
+  const cardAt = (rank: Card['rank'], suit: Card['suit']) =>
+    cardsByRank.get(rank)?.find((card) => card.suit === suit);
+
+  const rankCounts = createEmptyCounts();
+  const score = (drawn: Card[], ways: number) => {
+    if (ways === 0) return;
+    const rank = LookupEvaluator.evaluate([...heldCards, ...drawn], minimumPairRank).rank;
+    rankCounts[rank] += ways;
+  };
+
+  for (let wilds = 0; wilds <= Math.min(drawCount, wildCards.length); wilds++) {
+    for (let deads = 0; deads <= Math.min(drawCount - wilds, deadCards.length); deads++) {
+      const regularCount = drawCount - wilds - deads;
+      if (regularCount > regularCards.length) continue;
+      const specialWays = choose(wildCards.length, wilds) * choose(deadCards.length, deads);
+      const specials = [...wildCards.slice(0, wilds), ...deadCards.slice(0, deads)];
+
+      const scoreRankGroup = (ranks: Card['rank'][], ways: number) => {
+        if (ranks.length === 0) {
+          score(specials, ways);
+          return;
+        }
+        // Draws whose regular cards all share a suit can make flushes; score each suit
+        let suitedWays = 0;
+        if (new Set(ranks).size === ranks.length) {
+          for (const suit of SUITS) {
+            const suited = ranks.map((rank) => cardAt(rank, suit));
+            if (suited.every((card): card is Card => card !== undefined)) {
+              score([...suited, ...specials], specialWays);
+              suitedWays += specialWays;
+            }
+          }
+        }
+        // Any mixed-suit draw scores the same, so one synthetic representative covers them
+        const mixed = ranks.map((rank, i) => ({
+          rank,
+          suit: i === 0 ? SUITS[0] : SUITS[1],
+          id: `draw-odds-${i}`,
+        }));
+        score([...mixed, ...specials], ways - suitedWays);
+      };
+
+      // Walk every multiset of regular ranks with regularCount cards
+      const drawnRanks: Card['rank'][] = [];
+      const visitRanks = (rankIndex: number, remaining: number, ways: number) => {
+        if (remaining === 0) {
+          scoreRankGroup(drawnRanks, ways * specialWays);
+          return;
+        }
+        if (rankIndex === RANKS.length) return;
+        const rank = RANKS[rankIndex];
+        const available = cardsByRank.get(rank)?.length ?? 0;
+        for (let count = 0; count <= Math.min(available, remaining); count++) {
+          for (let i = 0; i < count; i++) drawnRanks.push(rank);
+          visitRanks(rankIndex + 1, remaining - count, ways * choose(available, count));
+          drawnRanks.length -= count;
+        }
+      };
+
+      visitRanks(0, regularCount, 1);
+    }
+  }
+
+  const totalDraws = choose(drawDeck.length, drawCount);
+  const probabilities = createEmptyCounts();
+  for (const rank of HAND_RANKS) {
+    probabilities[rank] = totalDraws > 0 ? rankCounts[rank] / totalDraws : 0;
+  }
+  const odds: DrawOdds = { totalDraws, rankCounts, probabilities };
+
+  if (oddsCache.size >= MAX_CACHE_ENTRIES) {
+    const oldestKey = oddsCache.keys().next().value;
+    if (oldestKey !== undefined) oddsCache.delete(oldestKey);
+  }
+  oddsCache.set(cacheKey, odds);
+  return odds;
+}
+
+/** Average reward multiplier per hand for the given odds. */
+export function getExpectedMultiplier(odds: DrawOdds, rewardTable: RewardTable): number {
+  return HAND_RANKS.reduce(
+    (total, rank) => total + odds.probabilities[rank] * (rewardTable[rank] || 0),
+    0
+  );
+}
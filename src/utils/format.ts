@@ -1,3 +1,5 @@
+import { Card, HandRank } from '../types';
+
 /**
  * Format a credit amount with thousands separators (e.g. 5000 → "5,000").
  */
@@ -11,3 +13,72 @@ export function formatCredits(amount: number): string {
 export function formatCreditsWithSuffix(amount: number): string {
   return `${amount.toLocaleString()} credits`;
 }
+
+const PAIR_RANK_NAMES: Record<number, string> = {
+  2: 'Twos',
+  3: 'Threes',
+  4: 'Fours',
+  5: 'Fives',
+  6: 'Sixes',
+  7: 'Sevens',
+  8: 'Eights',
+  9: 'Nines',
+  10: 'Tens',
+  11: 'Jacks',
+  12: 'Queens',
+  13: 'Kings',
+  14: 'Aces',
+};
+
+/**
+ * Plural name of a card rank value (e.g. 10 → "Tens", 11 → "Jacks").
+ */
+export function formatPairRank(rankValue: number): string {
+  return PAIR_RANK_NAMES[rankValue] ?? `${rankValue}s`;
+}
+
+/**
+ * Name of a mode's qualifying pair rule (e.g. 11 → "Jacks or Better", 2 → "Any Pair").
+ */
+export function formatQualifyingPair(minimumPairRank: number): string {
+  if (minimumPairRank <= 2) return 'Any Pair';
+  if (minimumPairRank >= 14) return 'Aces Only';
+  return `${formatPairRank(minimumPairRank)} or Better`;
+}
+
+/** Display names of hand ranks, best first. */
+export const HAND_RANK_LABELS: Record<HandRank, string> = {
+  'royal-flush': 'Royal Flush',
+  'five-of-a-kind': 'Five of a Kind',
+  'straight-flush': 'Straight Flush',
+  'four-of-a-kind': 'Four of a Kind',
+  'full-house': 'Full House',
+  flush: 'Flush',
+  straight: 'Straight',
+  'three-of-a-kind': 'Three of a Kind',
+  'two-pair': 'Two Pair',
+  'one-pair': 'One Pair',
+  'high-card': 'High Card',
+};
+
+const SUIT_SYMBOLS: Record<Card['suit'], string> = {
+  hearts: '♥',
+  diamonds: '♦',
+  clubs: '♣',
+  spades: '♠',
+};
+
+/**
+ * Short text for a card (e.g. "10♥"); wild and dead cards show as "Wild" and "Dead".
+ */
+export function formatCard(card: Card): string {
+  if (card.isWild) return 'Wild';
+  if (card.isDead) return 'Dead';
+  return `${card.rank}${SUIT_SYMBOLS[card.suit]}`;
+}
+
+/** A hold choice as text, e.g. "Hold K♠ K♥" or "Discard all". */
+export function formatHold(hand: Card[], heldIndices: number[]): string {
+  if (heldIndices.length === 0) return 'Discard all';
+  return `Hold ${heldIndices.map((i) => formatCard(hand[i])).join(' ')}`;
+}
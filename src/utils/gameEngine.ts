@@ -0,0 +1,1346 @@
+import {
+  GameState,
+  GameOverReason,
+  HandRank,
+  Card,
+  HoldReview,
+  ShopOptionType,
+  RunPurchases,
+} from '../types';
+import { createFullDeck, shuffleDeck, removeCardsFromDeck } from './deck';
+import { ParallelHandsJob, ParallelHandsJobResult, runParallelHandsJob } from './parallelHandsRound';
+import { findBestDevilsDealCards } from './devilsDeal';
+import { selectShopOptionsByRarity } from './shopSelection';
+import { checkFailureConditions } from './failureConditions';
+import { PokerEvaluator } from './pokerEvaluator';
+import { calculateStreakMultiplier, scoreParallelHand } from './streakCalculator';
+import { createRoundRng } from './rng';
+import { getDailyChallengeSeed } from './dailyChallenge';
+import { addRoundRecord, createRoundRecord } from './roundHistory';
+import { StoredRunState } from './typeGuards';
+import {
+  calculateWildCardCost,
+  calculateSingleDeadCardRemovalCost,
+  calculateAllDeadCardsRemovalCost,
+  calculateDevilsDealChanceCost,
+  calculateDevilsDealCostReductionCost,
+  calculateExtraCardInHandCost,
+  applyShopCostMultiplier,
+  getParallelHandsBundleBaseCost,
+} from './config';
+import {
+  gameConfig,
+  GameModeConfig,
+  getCurrentGameMode,
+  getCurrentGameModeId,
+  getShopModeForCredits,
+} from '../config/gameConfig';
+
+/** Player settings carried across runs; everything else in GameState belongs to a run. */
+export type GameSettings = Pick<GameState, 'audioSettings' | 'animationSpeedMode' | 'cardTheme'>;
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  audioSettings: {
+    musicEnabled: true,
+    soundEffectsEnabled: true,
+    musicVolume: 0.7,
+    soundEffectsVolume: 1.0,
+    handScoringMinVolumePercent: 0,
+  },
+  animationSpeedMode: 1,
+  cardTheme: 'dark',
+};
+
+/** Summary of a finished parallel-hands animation, used to record the run's best streak. */
+export interface StreakRoundSummary {
+  highestCombo: number;
+  highestMultiplier: number;
+}
+
+/**
+ * Every game rule action the engine understands.
+ * Settings (audio, animation, theme) are not game actions.
+ */
+export type GameAction =
+  | { type: 'startNewRun'; seed: number }
+  | { type: 'startDailyChallenge'; date: string }
+  | { type: 'resumeRun'; savedRun: StoredRunState }
+  | { type: 'dealHand' }
+  | { type: 'dealFixedHand'; hand: Card[] }
+  | { type: 'toggleHold'; index: number }
+  | { type: 'toggleDevilsDealHold' }
+  | { type: 'offerDevilsDeal'; card: Card }
+  | { type: 'drawParallelHands' }
+  | { type: 'moveToNextScreen' }
+  | { type: 'updateStreakCounter'; streakCount: number; roundSummary?: StreakRoundSummary }
+  | { type: 'returnToPreDraw'; payout: number }
+  | { type: 'proceedFromResults' }
+  | { type: 'recordHoldReview'; review: HoldReview }
+  | { type: 'endRun'; reason?: GameOverReason }
+  | { type: 'buyAnotherHand' }
+  | { type: 'setBetAmount'; amount: number }
+  | { type: 'setSelectedHandCount'; count: number }
+  | { type: 'openShop' }
+  | { type: 'closeShop' }
+  | { type: 'upgradeRewardTable'; rank: HandRank; cost: number }
+  | { type: 'addDeadCard' }
+  | { type: 'removeSingleDeadCard' }
+  | { type: 'removeAllDeadCards' }
+  | { type: 'addWildCard' }
+  | { type: 'purchaseExtraDraw' }
+  | { type: 'addParallelHandsBundle'; bundleSize: number }
+  | { type: 'purchaseDevilsDealChance' }
+  | { type: 'purchaseDevilsDealCostReduction' }
+  | { type: 'purchaseExtraCardInHand' }
+  | { type: 'cheatAddCredits'; amount: number }
+  | { type: 'cheatAddHands'; amount: number }
+  | { type: 'cheatSetDevilsDeal' };
+
+/** Max draw steps for a fresh hand: mode base plus the purchased extra draw. */
+function getMaxDrawsForHand(state: GameState): number {
+  const mode = getCurrentGameMode();
+  const baseDraws = Math.max(1, (mode as { maxDraws?: number }).maxDraws ?? 1);
+  return baseDraws + (state.extraDrawPurchased ? 1 : 0);
+}
+
+/**
+ * Price of a Devil's Deal card: what the best hand it makes from the first 5 cards pays per
+ * hand, times the hands played and the mode's cost percent after purchased reductions.
+ */
+function getDevilsDealCost(
+  state: GameState,
+  handForDeal: Card[],
+  card: Card,
+  devilsDealConfig: GameModeConfig['devilsDeal']
+): number {
+  let bestMultiplier = 0;
+  let bestRank = 'high-card';
+  for (let position = 0; position < 5; position++) {
+    const testHand = [...handForDeal];
+    testHand[position] = card;
+    const result = PokerEvaluator.evaluate(testHand);
+    const withRewards = PokerEvaluator.applyRewards(result, state.rewardTable);
+    if (withRewards.multiplier > bestMultiplier) {
+      bestMultiplier = withRewards.multiplier;
+      bestRank = result.rank;
+    } else if (withRewards.multiplier === bestMultiplier && result.rank !== 'high-card') {
+      bestRank = result.rank;
+    }
+  }
+
+  // When card creates a pair or better that doesn't pay (below the qualifying pair),
+  // use minimum multiplier 1 for cost so Devil's Deal isn't free
+  const effectiveMultiplier =
+    bestMultiplier > 0 ? bestMultiplier : bestRank !== 'high-card' ? 1 : 0;
+
+  // Formula: (multiplier * betAmount * selectedHandCount) * (costPercent / 100)
+  const costPercent =
+    devilsDealConfig.baseCostPercent -
+    state.devilsDealCostReductionPurchases * devilsDealConfig.costReductionPerPurchase;
+  // Ensure cost is always positive (minimum 1%); round to avoid decimals
+  const finalCostPercent = Math.max(1, costPercent);
+  return Math.round(
+    (effectiveMultiplier * state.betAmount * state.selectedHandCount * finalCostPercent) / 100
+  );
+}
+
+/** Count one more purchase of a shop option for the run history. */
+function addPurchase(purchases: RunPurchases, option: ShopOptionType): RunPurchases {
+  return { ...purchases, [option]: (purchases[option] ?? 0) + 1 };
+}
+
+/**
+ * Headless game engine: every game rule as a pure (state, input) → state function.
+ * Runs without React, so simulations, bots and tests can play full games directly.
+ * Hooks are thin adapters that pass these functions to setState and add side effects (audio).
+ * Invalid actions (unaffordable, out of phase, over a limit) return the same state object.
+ *
+ * @example
+ * ```typescript
+ * let state = GameEngine.startNewRun(GameEngine.createInitialState(), 1234);
+ * state = GameEngine.dealHand(state);
+ * state = GameEngine.dispatch(state, { type: 'toggleHold', index: 0 });
+ * state = GameEngine.drawParallelHands(state);
+ * ```
+ */
+export class GameEngine {
+  /**
+   * Creates the menu state before any run, using the current game mode's starting values.
+   */
+  static createInitialState(settings: GameSettings = DEFAULT_GAME_SETTINGS): GameState {
+    const mode = getCurrentGameMode();
+    return {
+      screen: 'menu',
+      gamePhase: 'preDraw',
+      isGeneratingHands: false,
+      playerHand: [],
+      heldIndices: [],
+      parallelHands: [],
+      parallelHandsResult: null,
+      handCount: mode.startingHandCount,
+      rewardTable: mode.rewards,
+      credits: mode.startingCredits,
+      currentRun: 0,
+      runSeed: 0,
+      additionalHandsBought: 0,
+      betAmount: mode.startingBet,
+      selectedHandCount: mode.startingHandCount,
+      minimumBet: mode.startingBet,
+      baseMinimumBet: mode.startingBet,
+      round: 1,
+      totalEarnings: 0,
+      deckModifications: {
+        deadCards: [],
+        wildCards: [],
+        removedCards: [],
+        deadCardRemovalCount: 0,
+      },
+      extraDrawPurchased: false,
+      maxDraws: 1,
+      drawsCompletedThisRound: 0,
+      wildCardCount: 0,
+      gameOver: false,
+      gameOverReason: null,
+      showShopNextRound: false,
+      selectedShopOptions: [],
+      creditsAtShopOpen: null,
+      prevRoundMinimumBet: null,
+      shopDisplayBetAmount: null,
+      isEndlessMode: false,
+      currentFailureState: null,
+      winningHandsLastRound: 0,
+      devilsDealCard: null,
+      devilsDealCost: 0,
+      devilsDealHeld: false,
+      devilsDealChancePurchases: 0,
+      devilsDealCostReductionPurchases: 0,
+      extraCardsInHand: 0,
+      streakCounter: 0,
+      currentStreakMultiplier: 1.0,
+      runHighestCombo: 0,
+      runHighestMultiplier: 1.0,
+      gameModeId: getCurrentGameModeId(),
+      dailyChallengeDate: null,
+      cheatsUsed: false,
+      runPeakCredits: mode.startingCredits,
+      runPurchases: {},
+      roundHistory: [],
+      roundLog: null,
+      audioSettings: settings.audioSettings,
+      animationSpeedMode: settings.animationSpeedMode,
+      cardTheme: settings.cardTheme,
+    };
+  }
+
+  /**
+   * Apply any game action. Useful for bots, replays and anything that stores actions as data.
+   */
+  static dispatch(state: GameState, action: GameAction): GameState {
+    switch (action.type) {
+      case 'startNewRun':
+        return this.startNewRun(state, action.seed);
+      case 'startDailyChallenge':
+        return this.startDailyChallenge(state, action.date);
+      case 'resumeRun':
+        return this.resumeRun(state, action.savedRun);
+      case 'dealHand':
+        return this.dealHand(state);
+      case 'dealFixedHand':
+        return this.dealFixedHand(state, action.hand);
+      case 'toggleHold':
+        return this.toggleHold(state, action.index);
+      case 'toggleDevilsDealHold':
+        return this.toggleDevilsDealHold(state);
+      case 'offerDevilsDeal':
+        return this.offerDevilsDeal(state, action.card);
+      case 'drawParallelHands':
+        return this.drawParallelHands(state);
+      case 'moveToNextScreen':
+        return this.moveToNextScreen(state);
+      case 'updateStreakCounter':
+        return this.updateStreakCounter(state, action.streakCount, action.roundSummary);
+      case 'returnToPreDraw':
+        return this.returnToPreDraw(state, action.payout);
+      case 'proceedFromResults':
+        return this.proceedFromResults(state);
+      case 'recordHoldReview':
+        return this.recordHoldReview(state, action.review);
+      case 'endRun':
+        return this.endRun(state, action.reason);
+      case 'buyAnotherHand':
+        return this.buyAnotherHand(state);
+      case 'setBetAmount':
+        return this.setBetAmount(state, action.amount);
+      case 'setSelectedHandCount':
+        return this.setSelectedHandCount(state, action.count);
+      case 'openShop':
+        return this.openShop(state);
+      case 'closeShop':
+        return this.closeShop(state);
+      case 'upgradeRewardTable':
+        return this.upgradeRewardTable(state, action.rank, action.cost);
+      case 'addDeadCard':
+        return this.addDeadCard(state);
+      case 'removeSingleDeadCard':
+        return this.removeSingleDeadCard(state);
+      case 'removeAllDeadCards':
+        return this.removeAllDeadCards(state);
+      case 'addWildCard':
+        return this.addWildCard(state);
+      case 'purchaseExtraDraw':
+        return this.purchaseExtraDraw(state);
+      case 'addParallelHandsBundle':
+        return this.addParallelHandsBundle(state, action.bundleSize);
+      case 'purchaseDevilsDealChance':
+        return this.purchaseDevilsDealChance(state);
+      case 'purchaseDevilsDealCostReduction':
+        return this.purchaseDevilsDealCostReduction(state);
+      case 'purchaseExtraCardInHand':
+        return this.purchaseExtraCardInHand(state);
+      case 'cheatAddCredits':
+        return this.cheatAddCredits(state, action.amount);
+      case 'cheatAddHands':
+        return this.cheatAddHands(state, action.amount);
+      case 'cheatSetDevilsDeal':
+        return this.cheatSetDevilsDeal(state);
+      default:
+        return state;
+    }
+  }
+
+  /**
+   * Start a new run in the active game mode. Run state is reset to the mode's starting values;
+   * player settings are kept. Every random decision in the run is drawn from generators derived
+   * from this seed (see utils/rng), so the same seed reproduces the same deals, shop rolls and
+   * Devil's Deal offers round by round, whatever the player did in earlier rounds.
+   */
+  static startNewRun(prev: GameState, seed: number): GameState {
+    return {
+      ...this.createInitialState({
+        audioSettings: prev.audioSettings,
+        animationSpeedMode: prev.animationSpeedMode,
+        cardTheme: prev.cardTheme,
+      }),
+      screen: 'game',
+      currentRun: prev.currentRun + 1,
+      runSeed: seed,
+    };
+  }
+
+  /**
+   * Start the scored attempt at a day's daily challenge: a new run from the date's seed, in the
+   * active game mode (see utils/dailyChallenge for the mode every challenge uses).
+   */
+  static startDailyChallenge(prev: GameState, date: string): GameState {
+    return {
+      ...this.startNewRun(prev, getDailyChallengeSeed(date)),
+      dailyChallengeDate: date,
+    };
+  }
+
+  /**
+   * Resume a saved run. Player settings from the current session are kept.
+   */
+  static resumeRun(prev: GameState, savedRun: StoredRunState): GameState {
+    return {
+      ...prev,
+      ...savedRun,
+      isGeneratingHands: false,
+      parallelHandsResult: null,
+    };
+  }
+
+  /**
+   * Deal a new hand to the player
+   * Deducts bet amount, rolls for a Devil's Deal and sets up the playing phase
+   */
+  static dealHand(prev: GameState): GameState {
+    const totalBet = prev.betAmount * prev.selectedHandCount;
+
+    // Check if player can afford the bet
+    if (prev.credits < totalBet) {
+      return prev;
+    }
+
+    const currentMode = getCurrentGameMode();
+    const rng = createRoundRng(prev.runSeed, 'deal', prev.round);
+    const maxHandSize = (currentMode as { maxHandSize?: number }).maxHandSize ?? 5 + ((currentMode.shop?.extraCardInHand as { maxPurchases?: number })?.maxPurchases ?? 3);
+    const handSize = Math.min(maxHandSize, 5 + (prev.extraCardsInHand ?? 0));
+    const deck = shuffleDeck(
+      createFullDeck(
+        prev.deckModifications.deadCards,
+        prev.deckModifications.removedCards,
+        prev.deckModifications.wildCards
+      ),
+      rng.next
+    );
+    const newHand: Card[] = deck.slice(0, handSize);
+
+    // Check for Devil's Deal
+    const devilsDealConfig = currentMode.devilsDeal;
+    let devilsDealCard: Card | null = null;
+    let devilsDealCost = 0;
+
+    if (devilsDealConfig) {
+      // Calculate effective chance
+      const effectiveChance =
+        devilsDealConfig.baseChance +
+        prev.devilsDealChancePurchases * devilsDealConfig.chanceIncreasePerPurchase;
+      const devilsDealRng = createRoundRng(prev.runSeed, 'devilsDeal', prev.round);
+      const roll = devilsDealRng.next() * 100;
+
+      if (roll < effectiveChance) {
+        // Get available deck (full deck minus playerHand)
+        const fullDeck = createFullDeck(
+          prev.deckModifications.deadCards,
+          prev.deckModifications.removedCards,
+          prev.deckModifications.wildCards
+        );
+        const availableDeck = removeCardsFromDeck(fullDeck, newHand);
+
+        // Devil's Deal considers first 5 cards only (same as standard hand)
+        const handForDeal = newHand.slice(0, 5);
+        const bestCards = findBestDevilsDealCards(
+          handForDeal,
+          availableDeck,
+          prev.rewardTable,
+          prev.betAmount
+        );
+
+        // Randomly select one from top 3
+        if (bestCards.length > 0) {
+          const selectedCard = bestCards[devilsDealRng.nextInt(bestCards.length)];
+
+          devilsDealCost = getDevilsDealCost(prev, handForDeal, selectedCard, devilsDealConfig);
+          devilsDealCard = selectedCard;
+        }
+      }
+    }
+
+    return {
+      ...prev,
+      playerHand: newHand,
+      heldIndices: [],
+      parallelHands: [],
+      parallelHandsResult: null,
+      additionalHandsBought: 0,
+      credits: prev.credits - totalBet,
+      screen: 'game',
+      gamePhase: 'playing',
+      maxDraws: getMaxDrawsForHand(prev),
+      drawsCompletedThisRound: 0,
+      selectedHandCount: prev.selectedHandCount || prev.handCount,
+      devilsDealCard,
+      devilsDealCost,
+      devilsDealHeld: false,
+      roundLog: {
+        creditsBefore: prev.credits,
+        dealtHand: newHand,
+        draws: [],
+        parallelHandsJob: null,
+        holdReview: null,
+      },
+    };
+  }
+
+  /**
+   * Deal a chosen hand instead of a shuffled one; the bet is taken as for any deal. No Devil's
+   * Deal is rolled, but one can be offered with offerDevilsDeal. Cards should be the deck's own
+   * (same ids), so the draws leave them out as they would a dealt card.
+   */
+  static dealFixedHand(prev: GameState, hand: Card[]): GameState {
+    const next = this.dealHand(prev);
+    if (next === prev || !next.roundLog) {
+      return next;
+    }
+    return {
+      ...next,
+      playerHand: hand,
+      devilsDealCard: null,
+      devilsDealCost: 0,
+      roundLog: { ...next.roundLog, dealtHand: hand },
+    };
+  }
+
+  /**
+   * Offer a chosen card as the round's Devil's Deal, priced as a rolled offer would be.
+   * Ignored outside the playing phase, once the draw has begun or when the mode has no deal.
+   */
+  static offerDevilsDeal(prev: GameState, card: Card): GameState {
+    const devilsDealConfig = getCurrentGameMode().devilsDeal;
+    if (!devilsDealConfig || prev.gamePhase !== 'playing' || prev.isGeneratingHands) {
+      return prev;
+    }
+    return {
+      ...prev,
+      devilsDealCard: card,
+      devilsDealCost: getDevilsDealCost(prev, prev.playerHand.slice(0, 5), card, devilsDealConfig),
+      devilsDealHeld: false,
+    };
+  }
+
+  /**
+   * Toggle hold status of a card at the specified index
+   * Enforces 5-card limit (including Devil's Deal card)
+   */
+  static toggleHold(prev: GameState, index: number): GameState {
+    // The hand is settled once its parallel hands are being generated
+    if (prev.isGeneratingHands) {
+      return prev;
+    }
+    const isCurrentlyHeld = prev.heldIndices.includes(index);
+    const handSize = prev.playerHand.length;
+
+    // When we have more than 5 cards (e.g. 6), we can hold at most 5 (pick 5 to keep)
+    if (handSize > 5) {
+      if (isCurrentlyHeld) {
+        const heldIndices = prev.heldIndices.filter((i) => i !== index);
+        return { ...prev, heldIndices };
+      }
+      if (prev.heldIndices.length >= 5) {
+        // Replace oldest held with this index so we keep exactly 5
+        const heldIndices = [...prev.heldIndices.slice(1), index];
+        return { ...prev, heldIndices };
+      }
+      const heldIndices = [...prev.heldIndices, index];
+      return { ...prev, heldIndices };
+    }
+
+    // Standard 5-card hand: check 5-card limit (including Devil's Deal)
+    if (!isCurrentlyHeld) {
+      const totalHeld = prev.heldIndices.length + (prev.devilsDealHeld ? 1 : 0);
+      if (totalHeld >= 5) {
+        return prev;
+      }
+    }
+
+    const heldIndices = isCurrentlyHeld
+      ? prev.heldIndices.filter((i) => i !== index)
+      : [...prev.heldIndices, index];
+
+    return { ...prev, heldIndices };
+  }
+
+  static toggleDevilsDealHold(prev: GameState): GameState {
+    // Can't hold devil's deal if already holding 5 cards (hand is full) or the hand is settled
+    if (prev.isGeneratingHands || (prev.heldIndices.length >= 5 && !prev.devilsDealHeld)) {
+      return prev;
+    }
+    return {
+      ...prev,
+      devilsDealHeld: !prev.devilsDealHeld,
+    };
+  }
+
+  /**
+   * One draw step: replace non-held cards with new cards from deck, then either
+   * stay in playing (if draws left) or generate parallel hands and go to animation.
+   * Works for any hand size (5–8). Draw count is driven by maxDraws vs drawsCompletedThisRound.
+   * Generates the hands synchronously; the UI uses beginParallelHands and a worker instead.
+   */
+  static drawParallelHands(prev: GameState): GameState {
+    const next = GameEngine.beginParallelHands(prev);
+    if (!next.isGeneratingHands || prev.isGeneratingHands) {
+      return next;
+    }
+    return GameEngine.completeParallelHands(
+      next,
+      runParallelHandsJob(GameEngine.getParallelHandsJob(next))
+    );
+  }
+
+  /**
+   * Like drawParallelHands, but the last draw stops short of generating the parallel hands:
+   * it settles the final 5-card hand, pays for the Devil's Deal and sets isGeneratingHands.
+   * Run getParallelHandsJob (e.g. in a worker) and pass the result to completeParallelHands.
+   */
+  static beginParallelHands(prev: GameState): GameState {
+    const handSize = prev.playerHand.length;
+    if (handSize < 5 || prev.parallelHands.length > 0 || prev.isGeneratingHands) {
+      return prev;
+    }
+
+    const maxDraws = prev.maxDraws ?? 1;
+    const rng = createRoundRng(
+      prev.runSeed,
+      'draw',
+      prev.round,
+      prev.drawsCompletedThisRound ?? 0
+    );
+    const fullDeck = createFullDeck(
+      prev.deckModifications.deadCards,
+      prev.deckModifications.removedCards,
+      prev.deckModifications.wildCards
+    );
+
+    // When maxDraws === 1 we don't replace cards; go straight to generate from current hand
+    let updatedHand = prev.playerHand;
+    let drawsCompletedThisRound = prev.drawsCompletedThisRound ?? 0;
+
+    if (maxDraws >= 2) {
+      // One draw step: replace non-held cards with new cards (deck = full deck minus current hand)
+      drawsCompletedThisRound += 1;
+      const deckWithoutHand = removeCardsFromDeck(fullDeck, prev.playerHand);
+      const shuffled = shuffleDeck(deckWithoutHand, rng.next);
+      const needCount = handSize - prev.heldIndices.length;
+      const drawn = shuffled.slice(0, needCount);
+      updatedHand = [...prev.playerHand];
+      let drawIndex = 0;
+      for (let i = 0; i < handSize; i++) {
+        if (!prev.heldIndices.includes(i)) {
+          updatedHand[i] = drawn[drawIndex++];
+        }
+      }
+    }
+
+    // If we have more draws left (only when maxDraws >= 2), stay in playing phase
+    if (maxDraws >= 2 && drawsCompletedThisRound < maxDraws) {
+      return {
+        ...prev,
+        playerHand: updatedHand,
+        drawsCompletedThisRound,
+        roundLog: prev.roundLog && {
+          ...prev.roundLog,
+          draws: [...prev.roundLog.draws, { heldIndices: prev.heldIndices, hand: updatedHand }],
+        },
+      };
+    }
+
+    // All draws used (or single draw): build 5-card hand and generate parallel hands
+    let baseHand: Card[];
+    let baseHeldIndices: number[];
+    if (updatedHand.length === 5) {
+      baseHand = [...updatedHand];
+      baseHeldIndices = [...prev.heldIndices];
+    } else {
+      const heldCards = prev.heldIndices.map((i) => updatedHand[i]);
+      const needFromDeck = 5 - heldCards.length;
+      const deckWithoutUpdated = removeCardsFromDeck(fullDeck, updatedHand);
+      const shuffled2 = shuffleDeck(deckWithoutUpdated, rng.next);
+      const fill = shuffled2.slice(0, needFromDeck);
+      baseHand = [...heldCards, ...fill];
+      baseHeldIndices = heldCards.length > 0 ? Array.from({ length: heldCards.length }, (_, i) => i) : [];
+    }
+
+    let finalHand = baseHand;
+    let finalHeldIndices = [...baseHeldIndices];
+    let creditsAfterDeal = prev.credits;
+    if (prev.devilsDealHeld && prev.devilsDealCard) {
+      const modifiedHand = [...baseHand];
+      for (let i = 0; i < 5; i++) {
+        if (!baseHeldIndices.includes(i)) {
+          modifiedHand[i] = prev.devilsDealCard!;
+          finalHeldIndices = [...baseHeldIndices, i];
+          break;
+        }
+      }
+      finalHand = modifiedHand;
+      creditsAfterDeal = prev.credits - prev.devilsDealCost;
+    }
+
+    const next: GameState = {
+      ...prev,
+      isGeneratingHands: true,
+      playerHand: finalHand,
+      heldIndices: finalHeldIndices,
+      credits: creditsAfterDeal,
+      drawsCompletedThisRound: 0,
+    };
+    return {
+      ...next,
+      roundLog: prev.roundLog && {
+        ...prev.roundLog,
+        draws: [...prev.roundLog.draws, { heldIndices: prev.heldIndices, hand: finalHand }],
+        parallelHandsJob: GameEngine.getParallelHandsJob(next),
+      },
+    };
+  }
+
+  /** Everything needed to generate and score the parallel hands of a begun draw. */
+  static getParallelHandsJob(state: GameState): ParallelHandsJob {
+    return {
+      baseHand: state.playerHand,
+      heldIndices: state.heldIndices,
+      handCount: state.selectedHandCount,
+      deckModifications: state.deckModifications,
+      rngState: createRoundRng(state.runSeed, 'parallelHands', state.round).getState(),
+      rewardTable: state.rewardTable,
+      betAmount: state.betAmount,
+      initialStreak: state.streakCounter,
+      minimumPairRank: getCurrentGameMode().minimumPairRank,
+    };
+  }
+
+  /**
+   * Store the generated parallel hands and their scores, then go to the animation.
+   * Ignored unless a draw is waiting on its hands (e.g. after the run was left).
+   */
+  static completeParallelHands(prev: GameState, result: ParallelHandsJobResult): GameState {
+    if (!prev.isGeneratingHands) {
+      return prev;
+    }
+    return {
+      ...prev,
+      isGeneratingHands: false,
+      parallelHands: result.parallelHands,
+      parallelHandsResult: { scores: result.scores, summary: result.summary },
+      gamePhase: 'parallelHandsAnimation',
+    };
+  }
+
+  /** Advance from the parallel hands animation to the results phase. */
+  static moveToNextScreen(prev: GameState): GameState {
+    if (prev.gamePhase === 'parallelHandsAnimation') {
+      return {
+        ...prev,
+        gamePhase: 'results',
+      };
+    }
+    return prev;
+  }
+
+  /**
+   * Store the streak reached at the end of the round and track the run's best combo/multiplier.
+   */
+  static updateStreakCounter(
+    prev: GameState,
+    newStreakCount: number,
+    roundSummary?: StreakRoundSummary
+  ): GameState {
+    return {
+      ...prev,
+      streakCounter: newStreakCount,
+      currentStreakMultiplier: calculateStreakMultiplier(newStreakCount),
+      runHighestCombo: Math.max(prev.runHighestCombo, roundSummary?.highestCombo ?? newStreakCount),
+      runHighestMultiplier: Math.max(
+        prev.runHighestMultiplier,
+        roundSummary?.highestMultiplier ?? calculateStreakMultiplier(newStreakCount)
+      ),
+    };
+  }
+
+  /**
+   * Finish the round: pay out, advance the round, raise the minimum bet on schedule,
+   * enter endless mode, check failure conditions and roll the next shop.
+   */
+  static returnToPreDraw(prev: GameState, payout: number = 0): GameState {
+    const currentMode = getCurrentGameMode();
+
+    // Count winning hands from last round (hands with payout > 0)
+    const scores =
+      prev.parallelHandsResult?.scores ??
+      prev.parallelHands.map((hand) => scoreParallelHand(hand, prev.rewardTable));
+    const winningHandsCount = scores.filter(
+      ({ multiplier }) => prev.betAmount * multiplier > 0
+    ).length;
+
+    // Add payout to credits and total earnings
+    const newCredits = prev.credits + payout;
+    const newTotalEarnings = prev.totalEarnings + payout;
+
+    // Increment round
+    const newRound = prev.round + 1;
+
+    // Check if we should enter endless mode (at or above startRound)
+    const endlessConfig = currentMode.endlessMode;
+    const shouldEnterEndlessMode =
+      endlessConfig && newRound >= endlessConfig.startRound && !prev.isEndlessMode;
+
+    // Update minimum bet - only increase every X rounds (based on minimumBetIncreaseInterval)
+    let newMinimumBet = prev.minimumBet;
+    let newBaseMinimumBet = prev.baseMinimumBet;
+
+    if (shouldEnterEndlessMode) {
+      // When entering endless mode, set base minimum bet to current minimum bet
+      newBaseMinimumBet = prev.minimumBet;
+    }
+
+    // Increase minimum bet every X rounds based on minimumBetIncreaseInterval and minimumBetIncreasePercent
+    const shouldIncreaseMinBet =
+      newRound % currentMode.minimumBetIncreaseInterval === 0;
+    if (shouldIncreaseMinBet) {
+      const minBetMultiplier = 1 + currentMode.minimumBetIncreasePercent / 100;
+      newMinimumBet = Math.floor(prev.minimumBet * minBetMultiplier);
+    }
+
+    // Ensure bet is at least minimum bet
+    let adjustedBet = Math.max(newMinimumBet, prev.betAmount);
+    let adjustedHandCount = prev.selectedHandCount;
+    let gameOver = false;
+    let currentFailureState = prev.currentFailureState;
+
+    // Check if player can still afford their previous bet/hand count
+    const previousTotalCost = adjustedBet * adjustedHandCount;
+    const canAffordPrevious = newCredits >= previousTotalCost;
+
+    // Only adjust if player can't afford their previous bet/hand count
+    if (!canAffordPrevious) {
+      // Auto-adjust bet and hand count if player can't afford current bet
+      // Step 1: Try reducing bet size until affordable (but not below minimum)
+      const maxAffordableBet = Math.floor(newCredits / adjustedHandCount);
+      if (maxAffordableBet >= newMinimumBet) {
+        // Can afford by reducing bet (bet will be >= minimum)
+        adjustedBet = maxAffordableBet;
+      } else {
+        // Step 2: Bet reached minimum bet, try reducing hand count
+        adjustedBet = newMinimumBet;
+        adjustedHandCount = Math.max(1, Math.floor(newCredits / adjustedBet));
+        adjustedHandCount = Math.min(prev.handCount, adjustedHandCount);
+      }
+    }
+
+    // Step 3: If still can't afford, trigger game over
+    let gameOverReason: GameOverReason | null = null;
+    if (newCredits < adjustedBet * adjustedHandCount) {
+      gameOver = true;
+      gameOverReason = 'insufficient-credits';
+    }
+
+    // Check if we're in endless mode (or should enter it)
+    const isEndlessMode = shouldEnterEndlessMode || prev.isEndlessMode;
+
+    // If in endless mode, check failure conditions
+    if (isEndlessMode && !gameOver) {
+      // Create temporary state for failure condition checking
+      const tempState: GameState = {
+        ...prev,
+        round: newRound,
+        credits: newCredits,
+        totalEarnings: newTotalEarnings,
+        minimumBet: newMinimumBet,
+        baseMinimumBet: newBaseMinimumBet,
+        betAmount: adjustedBet,
+        winningHandsLastRound: winningHandsCount,
+        isEndlessMode: true,
+      };
+
+      currentFailureState = checkFailureConditions(tempState);
+
+      // If a failure condition is active, trigger game over
+      if (currentFailureState !== null) {
+        gameOver = true;
+        gameOverReason = currentFailureState;
+      }
+    }
+
+    // Check if shop should appear next round and generate options if so
+    const showShopNextRound = newRound % currentMode.shopFrequency === 0;
+    const selectedShopOptions = showShopNextRound
+      ? selectShopOptionsByRarity(
+          getShopModeForCredits(newCredits),
+          createRoundRng(prev.runSeed, 'shop', newRound).next
+        )
+      : [];
+
+    const roundRecord = createRoundRecord(prev, payout, scores, newCredits);
+
+    return {
+      ...prev,
+      gamePhase: 'preDraw',
+      playerHand: [],
+      heldIndices: [],
+      parallelHands: [],
+      parallelHandsResult: null,
+      drawsCompletedThisRound: 0,
+      devilsDealCard: null,
+      devilsDealCost: 0,
+      devilsDealHeld: false,
+      round: newRound,
+      minimumBet: newMinimumBet,
+      baseMinimumBet: newBaseMinimumBet,
+      credits: newCredits,
+      runPeakCredits: Math.max(prev.runPeakCredits, newCredits),
+      totalEarnings: newTotalEarnings,
+      betAmount: adjustedBet,
+      selectedHandCount: adjustedHandCount,
+      gameOver,
+      gameOverReason,
+      showShopNextRound,
+      selectedShopOptions,
+      creditsAtShopOpen: showShopNextRound ? newCredits : null,
+      prevRoundMinimumBet: showShopNextRound ? prev.minimumBet : null,
+      shopDisplayBetAmount: showShopNextRound ? prev.betAmount : null,
+      isEndlessMode,
+      currentFailureState,
+      winningHandsLastRound: winningHandsCount,
+      streakCounter: 0, // Reset streak counter at the start of each round
+      currentStreakMultiplier: 1.0, // Reset multiplier at the start of each round
+      roundHistory: roundRecord ? addRoundRecord(prev.roundHistory, roundRecord) : prev.roundHistory,
+      roundLog: null,
+    };
+  }
+
+  /**
+   * Keep the strategy review of the round on the Results screen in its log, so it is filed
+   * with the round's record when it is paid out.
+   */
+  static recordHoldReview(prev: GameState, review: HoldReview): GameState {
+    if (prev.gamePhase !== 'results' || !prev.roundLog) {
+      return prev;
+    }
+    return { ...prev, roundLog: { ...prev.roundLog, holdReview: review } };
+  }
+
+  /** Leave the results/shop and go back to PreDraw. */
+  static proceedFromResults(prev: GameState): GameState {
+    // Always hide the shop and go to PreDraw
+    return {
+      ...prev,
+      screen: 'game',
+      gamePhase: 'preDraw',
+      showShopNextRound: false,
+      selectedShopOptions: [],
+      creditsAtShopOpen: null,
+      prevRoundMinimumBet: null,
+      shopDisplayBetAmount: null,
+    };
+  }
+
+  /**
+   * End the current run and show game over summary screen.
+   * Preserves stats (round, totalEarnings, credits) for display.
+   * @param reason - Why the run ended; if omitted, uses state.gameOverReason or 'voluntary'
+   */
+  static endRun(prev: GameState, reason?: GameOverReason): GameState {
+    return {
+      ...prev,
+      screen: 'gameOver',
+      gamePhase: 'preDraw',
+      gameOver: true,
+      gameOverReason: reason ?? prev.gameOverReason ?? 'voluntary',
+      playerHand: [],
+      heldIndices: [],
+      parallelHands: [],
+      parallelHandsResult: null,
+      additionalHandsBought: 0,
+      drawsCompletedThisRound: 0,
+      showShopNextRound: false,
+      selectedShopOptions: [],
+      creditsAtShopOpen: null,
+      prevRoundMinimumBet: null,
+      shopDisplayBetAmount: null,
+    };
+  }
+
+  static buyAnotherHand(prev: GameState): GameState {
+    if (prev.playerHand.length !== 5 || prev.parallelHands.length === 0) {
+      return prev;
+    }
+
+    // Calculate cost: parallelHands.length * (additionalHandsBought % 10)
+    const cost = prev.parallelHands.length * (prev.additionalHandsBought % 10);
+
+    if (prev.credits < cost) {
+      return prev;
+    }
+
+    // Deal a completely new hand from a fresh deck (including deck modifications). Every re-deal
+    // follows a draw, so the round's draw count numbers it apart from the round's first deal.
+    const rng = createRoundRng(prev.runSeed, 'deal', prev.round, prev.roundLog?.draws.length ?? 1);
+    const deck = shuffleDeck(
+      createFullDeck(
+        prev.deckModifications.deadCards,
+        prev.deckModifications.removedCards,
+        prev.deckModifications.wildCards
+      ),
+      rng.next
+    );
+    const newHand: Card[] = deck.slice(0, 5);
+
+    // Reset the entire hand state while maintaining the rest of the game state
+    const totalBet = prev.betAmount * prev.selectedHandCount;
+    if (prev.credits - cost < totalBet) {
+      return prev;
+    }
+
+    return {
+      ...prev,
+      playerHand: newHand,
+      heldIndices: [],
+      parallelHands: [],
+      parallelHandsResult: null,
+      additionalHandsBought: 0,
+      credits: prev.credits - cost,
+      maxDraws: getMaxDrawsForHand(prev),
+      drawsCompletedThisRound: 0,
+    };
+  }
+
+  static setBetAmount(prev: GameState, amount: number): GameState {
+    // Validate input is a valid number
+    if (isNaN(amount) || !isFinite(amount)) {
+      return prev;
+    }
+
+    // Ensure amount is not negative
+    if (amount < 0) {
+      return prev;
+    }
+
+    // Ensure amount meets minimum bet requirement
+    if (amount < prev.minimumBet) {
+      return prev;
+    }
+
+    // Floor the amount to ensure it's an integer
+    const validAmount = Math.floor(amount);
+
+    return {
+      ...prev,
+      betAmount: validAmount,
+    };
+  }
+
+  static setSelectedHandCount(prev: GameState, count: number): GameState {
+    // Validate input is a valid number
+    if (isNaN(count) || !isFinite(count)) {
+      return prev;
+    }
+
+    // Ensure count is positive
+    if (count < 1) {
+      return prev;
+    }
+
+    // Ensure count doesn't exceed available hands
+    if (count > prev.handCount) {
+      return prev;
+    }
+
+    // Floor the count to ensure it's an integer
+    const validCount = Math.floor(count);
+
+    // Check if player can afford bet with this hand count
+    const totalBet = prev.betAmount * validCount;
+    if (prev.credits < totalBet) {
+      return prev;
+    }
+
+    return {
+      ...prev,
+      selectedHandCount: validCount,
+    };
+  }
+
+  static openShop(prev: GameState): GameState {
+    return {
+      ...prev,
+      screen: 'shop',
+    };
+  }
+
+  static closeShop(prev: GameState): GameState {
+    return {
+      ...prev,
+      screen: 'game',
+    };
+  }
+
+  static upgradeRewardTable(prev: GameState, rank: HandRank, cost: number): GameState {
+    if (prev.credits < cost) {
+      return prev;
+    }
+    return {
+      ...prev,
+      rewardTable: {
+        ...prev.rewardTable,
+        [rank]: (prev.rewardTable[rank] || 0) + 1,
+      },
+      credits: prev.credits - cost,
+    };
+  }
+
+  /**
+   * Add a dead card to the deck for credits
+   * Dead cards are drawn but don't count toward hand evaluation
+   */
+  static addDeadCard(prev: GameState): GameState {
+    // Check if adding a dead card would exceed the limit
+    if (prev.deckModifications.deadCards.length >= gameConfig.deadCardLimit) {
+      return prev; // Don't add if at limit
+    }
+
+    const reward = getCurrentGameMode().shop.deadCard.creditReward;
+
+    // Create a dead card (random suit/rank, marked as dead)
+    const suits: Array<'hearts' | 'diamonds' | 'clubs' | 'spades'> = [
+      'hearts',
+      'diamonds',
+      'clubs',
+      'spades',
+    ];
+    const ranks: Array<
+      '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A'
+    > = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+
+    // Every dead card ever added is either still in the deck or counted as removed
+    const deadCardNumber =
+      prev.deckModifications.deadCards.length + prev.deckModifications.deadCardRemovalCount;
+    const rng = createRoundRng(prev.runSeed, 'deadCard', prev.round, deadCardNumber);
+    const randomSuit = suits[rng.nextInt(suits.length)];
+    const randomRank = ranks[rng.nextInt(ranks.length)];
+
+    const deadCard: Card = {
+      suit: randomSuit,
+      rank: randomRank,
+      id: `dead-${deadCardNumber}`,
+      isDead: true,
+    };
+
+    return {
+      ...prev,
+      credits: prev.credits + reward,
+      runPeakCredits: Math.max(prev.runPeakCredits, prev.credits + reward),
+      runPurchases: addPurchase(prev.runPurchases, 'dead-card'),
+      deckModifications: {
+        ...prev.deckModifications,
+        deadCards: [...prev.deckModifications.deadCards, deadCard],
+      },
+    };
+  }
+
+  static removeSingleDeadCard(prev: GameState): GameState {
+    // Check if there are any dead cards
+    if (prev.deckModifications.deadCards.length === 0) {
+      return prev;
+    }
+
+    const creditsForPricing = prev.creditsAtShopOpen ?? prev.credits;
+    const cost = applyShopCostMultiplier(
+      calculateSingleDeadCardRemovalCost(prev.deckModifications.deadCardRemovalCount),
+      creditsForPricing
+    );
+
+    if (prev.credits < cost) {
+      return prev;
+    }
+
+    // Remove the first dead card
+    const cardToRemove = prev.deckModifications.deadCards[0];
+    const updatedDeadCards = prev.deckModifications.deadCards.filter(
+      (c) => c.id !== cardToRemove.id
+    );
+
+    return {
+      ...prev,
+      credits: prev.credits - cost,
+      runPurchases: addPurchase(prev.runPurchases, 'remove-single-dead-card'),
+      deckModifications: {
+        ...prev.deckModifications,
+        deadCards: updatedDeadCards,
+        removedCards: [...prev.deckModifications.removedCards, cardToRemove],
+        deadCardRemovalCount: prev.deckModifications.deadCardRemovalCount + 1,
+      },
+    };
+  }
+
+  static removeAllDeadCards(prev: GameState): GameState {
+    // Check if there are any dead cards
+    if (prev.deckModifications.deadCards.length === 0) {
+      return prev;
+    }
+
+    const deadCardCount = prev.deckModifications.deadCards.length;
+    const creditsForPricing = prev.creditsAtShopOpen ?? prev.credits;
+    const cost = applyShopCostMultiplier(
+      calculateAllDeadCardsRemovalCost(
+        prev.deckModifications.deadCardRemovalCount,
+        deadCardCount
+      ),
+      creditsForPricing
+    );
+
+    if (prev.credits < cost) {
+      return prev;
+    }
+
+    // Remove all dead cards
+    const cardsToRemove = prev.deckModifications.deadCards;
+
+    return {
+      ...prev,
+      credits: prev.credits - cost,
+      runPurchases: addPurchase(prev.runPurchases, 'remove-all-dead-cards'),
+      deckModifications: {
+        ...prev.deckModifications,
+        deadCards: [],
+        removedCards: [...prev.deckModifications.removedCards, ...cardsToRemove],
+        deadCardRemovalCount: prev.deckModifications.deadCardRemovalCount + deadCardCount,
+      },
+    };
+  }
+
+  static addWildCard(prev: GameState): GameState {
+    const creditsForPricing = prev.creditsAtShopOpen ?? prev.credits;
+    const cost = applyShopCostMultiplier(
+      calculateWildCardCost(prev.wildCardCount),
+      creditsForPricing
+    );
+    if (prev.credits < cost || prev.wildCardCount >= getCurrentGameMode().shop.wildCard.maxCount) {
+      return prev;
+    }
+
+    // Create a wild card
+    const wildCard: Card = {
+      suit: 'hearts', // Suit doesn't matter for wild cards
+      rank: 'A', // Rank doesn't matter for wild cards
+      id: `wild-${prev.wildCardCount}`,
+      isWild: true,
+    };
+
+    return {
+      ...prev,
+      credits: prev.credits - cost,
+      wildCardCount: prev.wildCardCount + 1,
+      runPurchases: addPurchase(prev.runPurchases, 'wild-card'),
+      deckModifications: {
+        ...prev.deckModifications,
+        wildCards: [...prev.deckModifications.wildCards, wildCard],
+      },
+    };
+  }
+
+  static purchaseExtraDraw(prev: GameState): GameState {
+    const creditsForPricing = prev.creditsAtShopOpen ?? prev.credits;
+    const cost = applyShopCostMultiplier(
+      getCurrentGameMode().shop.extraDraw.cost,
+      creditsForPricing
+    );
+    if (prev.credits < cost || prev.extraDrawPurchased) {
+      return prev;
+    }
+    return {
+      ...prev,
+      credits: prev.credits - cost,
+      extraDrawPurchased: true,
+      runPurchases: addPurchase(prev.runPurchases, 'extra-draw'),
+    };
+  }
+
+  static addParallelHandsBundle(prev: GameState, bundleSize: number): GameState {
+    const creditsForPricing = prev.creditsAtShopOpen ?? prev.credits;
+    const baseCost = getParallelHandsBundleBaseCost(bundleSize, creditsForPricing);
+    const cost = applyShopCostMultiplier(baseCost, creditsForPricing);
+    if (prev.credits < cost) {
+      return prev;
+    }
+    const newHandCount = prev.handCount + bundleSize;
+    return {
+      ...prev,
+      handCount: newHandCount,
+      selectedHandCount: newHandCount, // Play with all hands; round cost updates
+      credits: prev.credits - cost,
+      runPurchases: addPurchase(
+        prev.runPurchases,
+        `parallel-hands-bundle-${bundleSize}` as ShopOptionType
+      ),
+    };
+  }
+
+  static purchaseDevilsDealChance(prev: GameState): GameState {
+    const devilsDealConfig = getCurrentGameMode().devilsDeal;
+    if (!devilsDealConfig) {
+      return prev;
+    }
+
+    // Check if max purchases reached
+    if (prev.devilsDealChancePurchases >= devilsDealConfig.maxChancePurchases) {
+      return prev;
+    }
+
+    const creditsForPricing = prev.creditsAtShopOpen ?? prev.credits;
+    const cost = applyShopCostMultiplier(
+      calculateDevilsDealChanceCost(prev.devilsDealChancePurchases),
+      creditsForPricing
+    );
+    if (prev.credits < cost) {
+      return prev;
+    }
+
+    return {
+      ...prev,
+      credits: prev.credits - cost,
+      devilsDealChancePurchases: prev.devilsDealChancePurchases + 1,
+      runPurchases: addPurchase(prev.runPurchases, 'devils-deal-chance'),
+    };
+  }
+
+  static purchaseDevilsDealCostReduction(prev: GameState): GameState {
+    const devilsDealConfig = getCurrentGameMode().devilsDeal;
+    if (!devilsDealConfig) {
+      return prev;
+    }
+
+    // Check if max purchases reached
+    if (prev.devilsDealCostReductionPurchases >= devilsDealConfig.maxCostReductionPurchases) {
+      return prev;
+    }
+
+    const creditsForPricing = prev.creditsAtShopOpen ?? prev.credits;
+    const cost = applyShopCostMultiplier(
+      calculateDevilsDealCostReductionCost(prev.devilsDealCostReductionPurchases),
+      creditsForPricing
+    );
+    if (prev.credits < cost) {
+      return prev;
+    }
+
+    return {
+      ...prev,
+      credits: prev.credits - cost,
+      devilsDealCostReductionPurchases: prev.devilsDealCostReductionPurchases + 1,
+      runPurchases: addPurchase(prev.runPurchases, 'devils-deal-cost-reduction'),
+    };
+  }
+
+  static purchaseExtraCardInHand(prev: GameState): GameState {
+    const { maxPurchases } = getCurrentGameMode().shop.extraCardInHand;
+    if (prev.extraCardsInHand >= maxPurchases) {
+      return prev;
+    }
+    const creditsForPricing = prev.creditsAtShopOpen ?? prev.credits;
+    const cost = applyShopCostMultiplier(
+      calculateExtraCardInHandCost(prev.extraCardsInHand),
+      creditsForPricing
+    );
+    if (prev.credits < cost) {
+      return prev;
+    }
+    return {
+      ...prev,
+      credits: prev.credits - cost,
+      extraCardsInHand: prev.extraCardsInHand + 1,
+      runPurchases: addPurchase(prev.runPurchases, 'extra-card-in-hand'),
+    };
+  }
+
+  static cheatAddCredits(prev: GameState, amount: number): GameState {
+    return {
+      ...prev,
+      credits: prev.credits + amount,
+      runPeakCredits: Math.max(prev.runPeakCredits, prev.credits + amount),
+      gameOver: false,
+      gameOverReason: null,
+      cheatsUsed: true,
+    };
+  }
+
+  static cheatAddHands(prev: GameState, amount: number): GameState {
+    const newHandCount = prev.handCount + amount;
+    return {
+      ...prev,
+      handCount: newHandCount,
+      selectedHandCount: newHandCount,
+      cheatsUsed: true,
+    };
+  }
+
+  static cheatSetDevilsDeal(prev: GameState): GameState {
+    return {
+      ...prev,
+      devilsDealChancePurchases: 19, // 5% * 19 = 95%, base 5% = 100%
+      devilsDealCostReductionPurchases: 15, // 6% * 15 = 90%, base 10% - 90% = 1%
+      cheatsUsed: true,
+    };
+  }
+}
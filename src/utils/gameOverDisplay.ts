@@ -14,6 +14,16 @@ export interface GameOverDisplay {
   isVoluntaryEnd: boolean;
 }
 
+/** Short label for each way a run can end (stats and history lists). */
+export const GAME_OVER_REASON_LABELS: Record<GameOverReason, string> = {
+  voluntary: 'Walked away',
+  'insufficient-credits': 'Out of credits',
+  'minimum-bet-multiplier': 'Bet requirement missed',
+  'minimum-credit-efficiency': 'Credit efficiency too low',
+  'minimum-winning-hands': 'Too few winning hands',
+  'minimum-win-percent': 'Win rate too low',
+};
+
 export interface GameOverDisplayContext {
   minimumBet?: number;
   handCount?: number;
@@ -0,0 +1,116 @@
+/**
+ * Hold advisor: expected payout of every hold choice for the hand on the table.
+ *
+ * Draws are modelled the way drawParallelHands builds the final parallel-hand draw:
+ * a 5-card hand refills its unheld slots from the modified deck minus the base hand,
+ * a held Devil's Deal card takes the first unheld slot, and 6–8 card hands keep
+ * exactly 5 cards (4 plus the Devil's Deal card). Odds come from the exact draw enumerator
+ * (see drawOdds), so wild and dead cards count exactly as they do in play.
+ *
+ * Only the round's last draw is modelled. Before an extra draw the advice scores each hold
+ * as if that draw were the last, so the UI offers it on the last draw only.
+ */
+
+import { Card, DeckModifications, HandRank, RewardTable } from '../types';
+import { createFullDeck } from './deck';
+import { calculateDrawOdds, getExpectedMultiplier } from './drawOdds';
+
+export interface HoldAdvisorInput {
+  playerHand: Card[];
+  deckModifications: DeckModifications;
+  rewardTable: RewardTable;
+  betAmount: number;
+  selectedHandCount: number;
+  /** Devil's Deal card held for this draw, if any */
+  devilsDealCard?: Card | null;
+  /** Credits paid for the held Devil's Deal card, taken off every expected return */
+  devilsDealCost?: number;
+}
+
+export interface HoldAdvice {
+  /** Indices into playerHand to hold */
+  heldIndices: number[];
+  /** Average reward multiplier per parallel hand */
+  expectedMultiplier: number;
+  /**
+   * Expected credits paid across all selected parallel hands (before the streak multiplier),
+   * less the cost of a held Devil's Deal card
+   */
+  expectedReturn: number;
+  /** Chance (0–1) of each hand rank; ranks that cannot be made are omitted */
+  rankChances: Partial<Record<HandRank, number>>;
+}
+
+/** Call visit with every k-element index combination of 0..n-1 (the array is reused). */
+function forEachCombination(n: number, k: number, visit: (indices: number[]) => void): void {
+  const indices = Array.from({ length: k }, (_, i) => i);
+  if (k > n) return;
+  for (;;) {
+    visit(indices);
+    let i = k - 1;
+    while (i >= 0 && indices[i] === n - k + i) i--;
+    if (i < 0) return;
+    indices[i]++;
+    for (let j = i + 1; j < k; j++) indices[j] = indices[j - 1] + 1;
+  }
+}
+
+/** Hold choices the table allows: any subset of a 5-card hand, or exactly 5 cards otherwise. */
+function getHoldChoices(handSize: number, hasDevilsDeal: boolean): number[][] {
+  const maxHeld = hasDevilsDeal ? 4 : 5;
+  const choices: number[][] = [];
+  if (handSize === 5) {
+    for (let size = 0; size <= maxHeld; size++) {
+      forEachCombination(handSize, size, (indices) => choices.push([...indices]));
+    }
+  } else {
+    forEachCombination(handSize, maxHeld, (indices) => choices.push([...indices]));
+  }
+  return choices;
+}
+
+function analyzeHold(input: HoldAdvisorInput, fullDeck: Card[], heldIndices: number[]): HoldAdvice {
+  const { playerHand, devilsDealCard, devilsDealCost = 0 } = input;
+
+  // Mirror drawParallelHands: the base hand keeps every card when 5 are dealt, otherwise
+  // only the held cards; the Devil's Deal card then takes the first unheld slot.
+  const baseHand =
+    playerHand.length === 5 ? [...playerHand] : heldIndices.map((i) => playerHand[i]);
+  let baseHeld = playerHand.length === 5 ? [...heldIndices] : baseHand.map((_, i) => i);
+  if (devilsDealCard) {
+    const slot = [0, 1, 2, 3, 4].find((i) => !baseHeld.includes(i)) as number;
+    baseHand[slot] = devilsDealCard;
+    baseHeld = [...baseHeld, slot];
+  }
+
+  const odds = calculateDrawOdds(baseHand, baseHeld, fullDeck);
+  const rankChances: Partial<Record<HandRank, number>> = {};
+  for (const [rank, chance] of Object.entries(odds.probabilities) as [HandRank, number][]) {
+    if (chance > 0) rankChances[rank] = chance;
+  }
+  const expectedMultiplier = getExpectedMultiplier(odds, input.rewardTable);
+
+  return {
+    heldIndices,
+    expectedMultiplier,
+    expectedReturn:
+      expectedMultiplier * input.betAmount * input.selectedHandCount -
+      (devilsDealCard ? devilsDealCost : 0),
+    rankChances,
+  };
+}
+
+/**
+ * Expected payout of every hold choice, best first, from the exact draw odds of each hold.
+ * The hand's next draw is taken to be the round's last.
+ */
+export function analyzeHolds(input: HoldAdvisorInput): HoldAdvice[] {
+  if (input.playerHand.length < 5) return [];
+
+  const { deadCards, removedCards, wildCards } = input.deckModifications;
+  const fullDeck = createFullDeck(deadCards, removedCards, wildCards);
+
+  return getHoldChoices(input.playerHand.length, Boolean(input.devilsDealCard))
+    .map((heldIndices) => analyzeHold(input, fullDeck, heldIndices))
+    .sort((a, b) => b.expectedMultiplier - a.expectedMultiplier);
+}
@@ -0,0 +1,93 @@
+/**
+ * Strategy review: how the hold of a round's last draw compared with the best hold, by the
+ * hold advisor's expected value. It judges the decision, not the luck of the parallel draws.
+ * Reviews are computed on request from the Results screen and kept in the round's log, so
+ * Game Over can total the expected credits given up over the reviewed rounds.
+ */
+
+import { Card, GameState, HoldReview, RoundLog, RoundRecord } from '../types';
+import { analyzeHolds, HoldAdvisorInput } from './holdAdvisor';
+
+/** Expected credits below the best hold that still count as the best hold (float noise). */
+const EXPECTED_RETURN_TOLERANCE = 1e-6;
+
+export interface HoldReviewSummary {
+  roundsReviewed: number;
+  /** Reviewed rounds whose hold gave up expected credits */
+  mistakes: number;
+  expectedCreditsLost: number;
+}
+
+/** The hand on the table at the round's last draw and the cards held for it. */
+export function getReviewedDraw(log: RoundLog): { hand: Card[]; heldIndices: number[] } | null {
+  const { draws } = log;
+  if (draws.length === 0) return null;
+  return {
+    hand: draws.length > 1 ? draws[draws.length - 2].hand : log.dealtHand,
+    heldIndices: draws[draws.length - 1].heldIndices,
+  };
+}
+
+/**
+ * Compares a hold of the advisor's input hand with the best hold. Null when the hold isn't
+ * one the advisor rates (fewer than 5 cards kept from a 6–8 card hand).
+ */
+export function reviewHoldChoice(
+  input: HoldAdvisorInput,
+  heldIndices: number[]
+): HoldReview | null {
+  const choices = analyzeHolds(input);
+  const heldKey = [...heldIndices].sort((a, b) => a - b).join(',');
+  const chosen = choices.find((choice) => choice.heldIndices.join(',') === heldKey);
+  if (!chosen) return null;
+
+  const [best] = choices;
+  return {
+    heldIndices: chosen.heldIndices,
+    bestHeldIndices: best.heldIndices,
+    expectedReturn: chosen.expectedReturn,
+    bestExpectedReturn: best.expectedReturn,
+  };
+}
+
+/**
+ * Review of the round on the Results screen. Null when the round wasn't logged or its hold
+ * isn't one the advisor rates.
+ */
+export function reviewHold(state: GameState): HoldReview | null {
+  const job = state.roundLog?.parallelHandsJob;
+  const draw = state.roundLog && getReviewedDraw(state.roundLog);
+  if (!job || !draw) return null;
+
+  return reviewHoldChoice(
+    {
+      playerHand: draw.hand,
+      deckModifications: job.deckModifications,
+      rewardTable: job.rewardTable,
+      betAmount: job.betAmount,
+      selectedHandCount: job.handCount,
+      devilsDealCard: state.devilsDealHeld ? state.devilsDealCard : null,
+      devilsDealCost: state.devilsDealCost,
+    },
+    draw.heldIndices
+  );
+}
+
+/** Expected credits the hold gave up against the best hold. */
+export function getExpectedCreditsLost(review: HoldReview): number {
+  const lost = review.bestExpectedReturn - review.expectedReturn;
+  return lost > EXPECTED_RETURN_TOLERANCE ? lost : 0;
+}
+
+/** Run totals over the rounds whose hold was reviewed. */
+export function summarizeHoldReviews(history: RoundRecord[]): HoldReviewSummary {
+  const summary: HoldReviewSummary = { roundsReviewed: 0, mistakes: 0, expectedCreditsLost: 0 };
+  for (const { holdReview } of history) {
+    if (!holdReview) continue;
+    const lost = getExpectedCreditsLost(holdReview);
+    summary.roundsReviewed += 1;
+    summary.expectedCreditsLost += lost;
+    if (lost > 0) summary.mistakes += 1;
+  }
+  return summary;
+}
@@ -0,0 +1,175 @@
+/**
+ * Local leaderboards: finished runs ranked per game mode, and optionally per seed within a mode.
+ * A run is recorded when it reaches the game over screen, under the player name set on the
+ * Leaderboards screen. Runs that used a Settings cheat are kept but flagged, and never ranked.
+ */
+
+import { GameOverReason, GameState } from '../types';
+import { logger } from './logger';
+import { isLeaderboardEntry } from './typeGuards';
+
+export const LEADERBOARD_STORAGE_KEY = 'leaderboard';
+export const LEADERBOARD_PLAYER_NAME_STORAGE_KEY = 'leaderboardPlayerName';
+
+/** Ranked runs kept per game mode. */
+export const LEADERBOARD_RANKED_LIMIT = 100;
+
+/** Ranked runs kept per seed within a game mode, on top of the mode's best. */
+export const LEADERBOARD_SEED_RANKED_LIMIT = 20;
+
+/** Most recent cheated runs kept per game mode. */
+export const LEADERBOARD_UNRANKED_LIMIT = 20;
+
+export const DEFAULT_PLAYER_NAME = 'Player';
+export const PLAYER_NAME_MAX_LENGTH = 20;
+
+export interface LeaderboardEntry {
+  /** Epoch milliseconds when the run ended. */
+  endedAt: number;
+  playerName: string;
+  gameModeId: string;
+  seed: number;
+  /** Round reached, as shown on the game over screen. */
+  roundsSurvived: number;
+  finalCredits: number;
+  totalEarnings: number;
+  runHighestMultiplier: number;
+  gameOverReason: GameOverReason;
+  /** Set when a Settings cheat was used; such runs are left out of ranked tables. */
+  cheatsUsed: boolean;
+}
+
+/** Which table to show: a game mode's, or only its runs from one seed. */
+export interface LeaderboardQuery {
+  gameModeId: string;
+  seed?: number;
+}
+
+/** Builds the leaderboard entry for a run that just ended. */
+export function createLeaderboardEntry(
+  state: GameState,
+  playerName: string,
+  endedAt: number
+): LeaderboardEntry {
+  return {
+    endedAt,
+    playerName,
+    gameModeId: state.gameModeId,
+    seed: state.runSeed,
+    roundsSurvived: state.round,
+    finalCredits: state.credits,
+    totalEarnings: state.totalEarnings,
+    runHighestMultiplier: state.runHighestMultiplier,
+    gameOverReason: state.gameOverReason ?? 'voluntary',
+    cheatsUsed: state.cheatsUsed,
+  };
+}
+
+/**
+ * Ranking order: most rounds survived, then most final credits, then most total earnings.
+ * Full ties go to the run that got there first.
+ */
+export function compareLeaderboardEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return (
+    b.roundsSurvived - a.roundsSurvived ||
+    b.finalCredits - a.finalCredits ||
+    b.totalEarnings - a.totalEarnings ||
+    a.endedAt - b.endedAt
+  );
+}
+
+function matchesQuery(entry: LeaderboardEntry, query: LeaderboardQuery): boolean {
+  return (
+    entry.gameModeId === query.gameModeId && (query.seed === undefined || entry.seed === query.seed)
+  );
+}
+
+/**
+ * Load every recorded run, ranked and flagged alike. Invalid entries are skipped.
+ */
+export function loadLeaderboard(): LeaderboardEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(LEADERBOARD_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isLeaderboardEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Keeps each mode's best ranked runs, each seed's best ranked runs so seed tables stay full
+ * when the mode's table has moved on, and each mode's latest cheated runs.
+ */
+function pruneLeaderboard(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  const gameModeIds = new Set(entries.map((entry) => entry.gameModeId));
+  return [...gameModeIds].flatMap((gameModeId) => {
+    const runsPerSeed = new Map<number, number>();
+    const ranked = getRankedLeaderboard(entries, { gameModeId }).filter((entry, rank) => {
+      const seedRank = runsPerSeed.get(entry.seed) ?? 0;
+      runsPerSeed.set(entry.seed, seedRank + 1);
+      return rank < LEADERBOARD_RANKED_LIMIT || seedRank < LEADERBOARD_SEED_RANKED_LIMIT;
+    });
+    return [
+      ...ranked,
+      ...getUnrankedRuns(entries, { gameModeId }).slice(0, LEADERBOARD_UNRANKED_LIMIT),
+    ];
+  });
+}
+
+export function recordLeaderboardEntry(entry: LeaderboardEntry): LeaderboardEntry[] {
+  const entries = pruneLeaderboard([...loadLeaderboard(), entry]);
+  try {
+    localStorage.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    logger.warn(`Failed to save leaderboard: ${String(error)}`);
+  }
+  return entries;
+}
+
+/** The ranked table for a mode (and seed), best first. Cheated runs are left out. */
+export function getRankedLeaderboard(
+  entries: LeaderboardEntry[],
+  query: LeaderboardQuery
+): LeaderboardEntry[] {
+  return entries
+    .filter((entry) => !entry.cheatsUsed && matchesQuery(entry, query))
+    .sort(compareLeaderboardEntries);
+}
+
+/** Cheated runs for a mode (and seed), most recent first. */
+export function getUnrankedRuns(
+  entries: LeaderboardEntry[],
+  query: LeaderboardQuery
+): LeaderboardEntry[] {
+  return entries
+    .filter((entry) => entry.cheatsUsed && matchesQuery(entry, query))
+    .sort((a, b) => b.endedAt - a.endedAt);
+}
+
+/** Trims a name for the leaderboard; blank names become the default. */
+export function normalizePlayerName(name: string): string {
+  return name.trim().slice(0, PLAYER_NAME_MAX_LENGTH) || DEFAULT_PLAYER_NAME;
+}
+
+export function loadPlayerName(): string {
+  if (typeof window === 'undefined') return DEFAULT_PLAYER_NAME;
+  try {
+    return normalizePlayerName(localStorage.getItem(LEADERBOARD_PLAYER_NAME_STORAGE_KEY) ?? '');
+  } catch {
+    return DEFAULT_PLAYER_NAME;
+  }
+}
+
+/** Save the name later runs are recorded under; returns it as stored. */
+export function savePlayerName(name: string): string {
+  const normalized = normalizePlayerName(name);
+  try {
+    localStorage.setItem(LEADERBOARD_PLAYER_NAME_STORAGE_KEY, normalized);
+  } catch (error) {
+    logger.warn(`Failed to save player name: ${String(error)}`);
+  }
+  return normalized;
+}
@@ -0,0 +1,631 @@
+/**
+ * Table-driven hand evaluator: a drop-in for PokerEvaluator.evaluate on hot paths
+ * (parallel hand scoring, draw odds).
+ *
+ * Once dead cards are dropped, PokerEvaluator's result depends only on the multiset of regular
+ * ranks, the number of wild cards and whether the regular cards share one suit. Each such
+ * pattern is keyed by the product of one prime per regular rank, and its entry holds the rank,
+ * the score and a template for winningCards. Every entry is built when the module loads by
+ * scoring one representative hand per pattern with PokerEvaluator's rules: the same checks in
+ * the same order, and for wild cards the same search for the best hand, so results match it
+ * exactly, wild card choices included. Patterns whose result hinges on the qualifying pair rank
+ * get one entry per threshold.
+ */
+
+import { getCurrentGameMode } from '../config/gameConfig';
+import { Card, HandRank, HandResult } from '../types';
+
+/** One winningCards slot: the nth regular card (in rank order) or a card standing in for a wild. */
+type WinningCardTemplate =
+  | { regularIndex: number }
+  | { card: Card; takesHandSuit: boolean };
+
+interface LookupEntry {
+  rank: HandRank;
+  score: number;
+  /** null when winningCards is just the regular cards in rank order */
+  winningCards: WinningCardTemplate[] | null;
+}
+
+/** A pattern's entry, or its entries by qualifying pair rank (see getThresholdIndex). */
+type LookupTableValue = LookupEntry | LookupEntry[];
+
+export type LookupTable = Map<number, LookupTableValue>;
+
+/** A card of a representative hand: its rank value, suit and winningCards slot. */
+interface PatternCard {
+  value: number;
+  suit: Card['suit'];
+  slot: WinningCardTemplate;
+}
+
+interface RankedHand {
+  rank: HandRank;
+  score: number;
+}
+
+interface PatternResult extends RankedHand {
+  cards: PatternCard[];
+}
+
+const RANKS: Card['rank'][] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+const RANK_INDEX: Record<string, number> = Object.fromEntries(RANKS.map((rank, i) => [rank, i]));
+const RANK_PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41];
+
+/** Suits in the order PokerEvaluator tries them for wild cards. */
+const SUITS: Card['suit'][] = ['hearts', 'diamonds', 'clubs', 'spades'];
+const ROYAL_VALUES = [10, 11, 12, 13, 14];
+const WHEEL_VALUES = [2, 3, 4, 5, 14];
+const ACE = 14;
+/** Rank values of each straight from 2-6 up to 10-A, lowest first. */
+const STRAIGHT_RUNS = [2, 3, 4, 5, 6, 7, 8, 9, 10].map((start) =>
+  [0, 1, 2, 3, 4].map((i) => start + i)
+);
+
+/** Qualifying pair ranks that can score differently; lower and higher ones act like the ends. */
+const LOWEST_PAIR_THRESHOLD = 2;
+const HIGHEST_PAIR_THRESHOLD = ACE + 1;
+
+/**
+ * Suit of suited representatives. PokerEvaluator only picks spades for a wild when searching
+ * suits for a flush, so a spade stand-in in a suited entry takes the real hand's suit.
+ */
+const SUITED_SUIT: Card['suit'] = 'spades';
+
+function getKey(rankProduct: number, wilds: number, suited: boolean): number {
+  return (rankProduct * 6 + wilds) * 2 + (suited ? 1 : 0);
+}
+
+function getThresholdIndex(minimumPairRank: number): number {
+  const threshold = Math.ceil(minimumPairRank);
+  return (
+    Math.min(Math.max(threshold, LOWEST_PAIR_THRESHOLD), HIGHEST_PAIR_THRESHOLD) -
+    LOWEST_PAIR_THRESHOLD
+  );
+}
+
+function isStraight(ranks: number[]): boolean {
+  for (let i = 1; i < ranks.length; i++) {
+    if (ranks[i] !== ranks[i - 1] + 1) {
+      return WHEEL_VALUES.every((value, j) => ranks[j] === value);
+    }
+  }
+  return true;
+}
+
+/**
+ * Called with each rank value compared against the qualifying pair rank while scoring:
+ * the result holds for every threshold that compares the same way.
+ */
+type PairRankCheck = (value: number) => void;
+
+/**
+ * Rank and score sorted rank values as PokerEvaluator does: its evaluate for hands without
+ * wild cards, or the check it runs on each completed hand while searching wild card choices
+ * (which also counts a short run of ranks as a straight and takes the fifth card as the high card).
+ */
+function rankValues(
+  ranks: number[],
+  flush: boolean,
+  withWilds: boolean,
+  minimumPairRank: number,
+  onPairRankCheck: PairRankCheck
+): RankedHand {
+  const counts = new Array<number>(ACE + 1).fill(0);
+  for (const value of ranks) counts[value]++;
+  const result = (rank: HandRank, score: number): RankedHand => ({ rank, score });
+  const findRank = (count: number) => {
+    for (let value = 2; value <= ACE; value++) {
+      if (counts[value] === count) return value;
+    }
+    return undefined;
+  };
+
+  const straight = (withWilds || ranks.length === 5) && isStraight(ranks);
+  if (straight && flush) {
+    return ranks[0] === 10 && ranks[4] === ACE
+      ? result('royal-flush', 10000)
+      : result('straight-flush', 9000 + ranks[4]);
+  }
+  const fiveKind = findRank(5);
+  if (fiveKind !== undefined) return result('five-of-a-kind', 8500 + fiveKind);
+  const fourKind = findRank(4);
+  if (fourKind !== undefined) return result('four-of-a-kind', 8000 + fourKind);
+  const threeKind = findRank(3);
+  const pair = findRank(2);
+  if (threeKind !== undefined && pair !== undefined) return result('full-house', 7000 + threeKind);
+  if (flush) return result('flush', 6000 + ranks[4]);
+  if (straight) return result('straight', 5000 + ranks[4]);
+  if (threeKind !== undefined) return result('three-of-a-kind', 4000 + threeKind);
+  const pairs = ranks.filter((value, i) => counts[value] === 2 && value !== ranks[i - 1]);
+  if (pairs.length === 2) return result('two-pair', 3000 + Math.max(...pairs));
+  if (pair !== undefined) {
+    onPairRankCheck(pair);
+    if (pair >= minimumPairRank) return result('one-pair', 2000 + pair);
+  }
+  return result('high-card', 1000 + (withWilds ? ranks[4] : ranks[ranks.length - 1]));
+}
+
+/** rankValues for one completed choice of wild cards, keeping its cards in rank order. */
+function scoreCards(
+  cards: PatternCard[],
+  minimumPairRank: number,
+  onPairRankCheck: PairRankCheck
+): PatternResult {
+  const sorted = [...cards].sort((a, b) => a.value - b.value);
+  const flush = sorted.length === 5 && sorted.every((card) => card.suit === sorted[0].suit);
+  const ranks = sorted.map((card) => card.value);
+  return {
+    ...rankValues(ranks, flush, true, minimumPairRank, onPairRankCheck),
+    cards: sorted,
+  };
+}
+
+/** A representative hand with wild cards, and the threshold it is scored at. */
+interface WildPattern {
+  regulars: PatternCard[];
+  /** Regular cards per rank value */
+  counts: number[];
+  wilds: number;
+  suited: boolean;
+  /** Suits a wild can complete a flush in: the regular cards' own, or any when there are none */
+  flushSuits: Card['suit'][];
+  minimumPairRank: number;
+  onPairRankCheck: PairRankCheck;
+}
+
+/** One step of PokerEvaluator's wild card search: the hand it makes, or null to go on. */
+type WildSearch = (pattern: WildPattern) => PatternResult | null;
+
+function standIn(
+  pattern: WildPattern,
+  suit: Card['suit'],
+  value: number,
+  id: string,
+  isWild = true
+): PatternCard {
+  return {
+    value,
+    suit,
+    slot: {
+      card: { suit, rank: RANKS[value - 2], id, isWild },
+      takesHandSuit: pattern.suited && pattern.regulars.length > 0 && suit === SUITED_SUIT,
+    },
+  };
+}
+
+function copies(count: number, make: (i: number) => PatternCard): PatternCard[] {
+  return Array.from({ length: count }, (_, i) => make(i));
+}
+
+/** The base cards and stand-ins, then a stand-in for each wild left over. */
+function complete(
+  pattern: WildPattern,
+  base: PatternCard[],
+  standIns: PatternCard[],
+  fill: (i: number) => PatternCard
+): PatternCard[] {
+  const cards = [...base, ...standIns];
+  for (let i = standIns.length; i < pattern.wilds; i++) cards.push(fill(i));
+  return cards;
+}
+
+/** The regular cards and stand-ins, then stand-ins for wilds left over up to 5 cards. */
+function completeShort(
+  pattern: WildPattern,
+  standIns: PatternCard[],
+  fill: (length: number) => PatternCard
+): PatternCard[] {
+  const { regulars, wilds } = pattern;
+  const cards = [...regulars, ...standIns];
+  while (cards.length < 5 && cards.length - regulars.length < wilds) {
+    cards.push(fill(cards.length));
+  }
+  return cards;
+}
+
+function score(pattern: WildPattern, cards: PatternCard[]): PatternResult {
+  return scoreCards(cards, pattern.minimumPairRank, pattern.onPairRankCheck);
+}
+
+function missingValues(pattern: WildPattern, values: number[]): number[] {
+  return values.filter((value) => pattern.counts[value] === 0);
+}
+
+const findRoyalFlush: WildSearch = (pattern) => {
+  for (const suit of pattern.flushSuits) {
+    const needed = missingValues(pattern, ROYAL_VALUES);
+    if (needed.length > pattern.wilds) continue;
+    const cards = complete(
+      pattern,
+      pattern.regulars,
+      needed.map((value, i) => standIn(pattern, suit, value, `wild-royal-${i}`)),
+      (i) => standIn(pattern, suit, ACE, `wild-royal-fill-${i}`)
+    );
+    const result = score(pattern, cards);
+    if (result.rank === 'royal-flush') return result;
+  }
+  return null;
+};
+
+/** The first straight flush found, lowest first. */
+const findStraightFlush: WildSearch = (pattern) => {
+  for (const suit of pattern.flushSuits) {
+    for (const values of STRAIGHT_RUNS) {
+      const needed = missingValues(pattern, values);
+      if (needed.length > pattern.wilds) continue;
+      const cards = complete(
+        pattern,
+        pattern.regulars,
+        needed.map((value) => standIn(pattern, suit, value, `wild-sf-${RANKS[value - 2]}`)),
+        (i) => standIn(pattern, suit, ACE, `wild-sf-fill-${i}`)
+      );
+      const result = score(pattern, cards);
+      if (result.rank === 'straight-flush') return result;
+    }
+  }
+  return null;
+};
+
+const findFiveOfAKind: WildSearch = (pattern) => {
+  for (let value = 2; value <= ACE; value++) {
+    const count = pattern.counts[value];
+    if (count === 0 || count + pattern.wilds < 5) continue;
+    const result = score(pattern, [
+      ...pattern.regulars,
+      ...copies(5 - count, (i) => standIn(pattern, 'hearts', value, `wild-5k-${i}`)),
+    ]);
+    if (result.rank === 'four-of-a-kind' || result.rank === 'five-of-a-kind') {
+      return { ...result, rank: 'five-of-a-kind', score: 8500 + value };
+    }
+  }
+  return null;
+};
+
+/** Four of a kind, padded with a kicker when dead cards leave it short. */
+const findFourOfAKind: WildSearch = (pattern) => {
+  for (let value = 2; value <= ACE; value++) {
+    const count = pattern.counts[value];
+    if (count + pattern.wilds < 4) continue;
+    const cards = complete(
+      pattern,
+      pattern.regulars,
+      copies(Math.max(0, 4 - count), (i) => standIn(pattern, 'hearts', value, `wild-4k-${i}`)),
+      (i) => standIn(pattern, 'hearts', ACE, `wild-4k-fill-${i}`)
+    );
+    const kicker = value === 2 ? 3 : 2;
+    while (cards.length < 5) {
+      cards.push(standIn(pattern, 'hearts', kicker, `wild-4k-kicker-${cards.length}`, false));
+    }
+    if (cards.length !== 5) continue;
+    const result = score(pattern, cards);
+    if (result.rank === 'four-of-a-kind' || result.rank === 'five-of-a-kind') return result;
+  }
+  return null;
+};
+
+const findFullHouse: WildSearch = (pattern) => {
+  const { counts, wilds } = pattern;
+  for (let tripsValue = 2; tripsValue <= ACE; tripsValue++) {
+    if (counts[tripsValue] + wilds < 3) continue;
+    const tripsNeeded = Math.max(0, 3 - counts[tripsValue]);
+    for (let pairValue = 2; pairValue <= ACE; pairValue++) {
+      const remaining = wilds - tripsNeeded;
+      const pairNeeded = Math.max(0, 2 - counts[pairValue]);
+      if (pairValue === tripsValue || counts[pairValue] + remaining < 2) continue;
+      if (pairNeeded > remaining) continue;
+      const cards = complete(
+        pattern,
+        pattern.regulars,
+        [
+          ...copies(tripsNeeded, (i) => standIn(pattern, 'hearts', tripsValue, `wild-fh-3k-${i}`)),
+          ...copies(pairNeeded, (i) => standIn(pattern, 'diamonds', pairValue, `wild-fh-2k-${i}`)),
+        ],
+        (i) => standIn(pattern, 'clubs', ACE, `wild-fh-fill-${i}`)
+      );
+      if (cards.length !== 5) continue;
+      const result = score(pattern, cards);
+      if (result.rank === 'full-house') return result;
+    }
+  }
+  return null;
+};
+
+/** A flush, the wilds taking the lowest ranks not held. */
+const findFlush: WildSearch = (pattern) => {
+  for (const suit of pattern.flushSuits) {
+    const standIns: PatternCard[] = [];
+    for (let i = 0, value = 2; i < pattern.wilds; i++, value++) {
+      while (pattern.counts[value] > 0) value++;
+      standIns.push(standIn(pattern, suit, value, `wild-flush-${i}`));
+    }
+    const result = score(pattern, [...pattern.regulars, ...standIns]);
+    if (
+      result.rank === 'flush' ||
+      result.rank === 'straight-flush' ||
+      result.rank === 'royal-flush'
+    ) {
+      return result;
+    }
+  }
+  return null;
+};
+
+/** The wheel, then the first straight found, lowest first. */
+const findStraight: WildSearch = (pattern) => {
+  if (pattern.regulars.length + pattern.wilds < 5) return null;
+  for (const values of [WHEEL_VALUES, ...STRAIGHT_RUNS]) {
+    const needed = missingValues(pattern, values);
+    if (needed.length > pattern.wilds) continue;
+    const id = values === WHEEL_VALUES ? 'wild-straight-wheel' : 'wild-straight';
+    const cards = complete(
+      pattern,
+      pattern.regulars,
+      needed.map((value) => standIn(pattern, 'hearts', value, `${id}-${RANKS[value - 2]}`)),
+      (i) => standIn(pattern, 'hearts', ACE, `${id}-fill-${i}`)
+    );
+    const result = score(pattern, cards);
+    if (result.rank === 'straight') return result;
+  }
+  return null;
+};
+
+const findThreeOfAKind: WildSearch = (pattern) => {
+  for (let value = 2; value <= ACE; value++) {
+    const count = pattern.counts[value];
+    if (count + pattern.wilds < 3) continue;
+    const cards = completeShort(
+      pattern,
+      copies(Math.max(0, 3 - count), (i) => standIn(pattern, 'hearts', value, `wild-3k-${i}`)),
+      (length) => standIn(pattern, 'hearts', ACE, `wild-3k-fill-${length}`)
+    );
+    if (cards.length < 3) continue;
+    const result = score(pattern, cards);
+    if (result.rank === 'three-of-a-kind') return result;
+  }
+  return null;
+};
+
+const findTwoPair: WildSearch = (pattern) => {
+  const { counts, wilds } = pattern;
+  for (let firstValue = 2; firstValue <= ACE; firstValue++) {
+    if (counts[firstValue] + wilds < 2) continue;
+    const firstNeeded = Math.max(0, 2 - counts[firstValue]);
+    for (let secondValue = firstValue + 1; secondValue <= ACE; secondValue++) {
+      const remaining = wilds - firstNeeded;
+      const secondNeeded = Math.max(0, 2 - counts[secondValue]);
+      if (counts[secondValue] + remaining < 2 || secondNeeded > remaining) continue;
+      const cards = completeShort(
+        pattern,
+        [
+          ...copies(firstNeeded, (i) => standIn(pattern, 'hearts', firstValue, `wild-2p-1-${i}`)),
+          ...copies(secondNeeded, (i) =>
+            standIn(pattern, 'diamonds', secondValue, `wild-2p-2-${i}`)
+          ),
+        ],
+        (length) => standIn(pattern, 'clubs', ACE, `wild-2p-fill-${length}`)
+      );
+      if (cards.length < 4) continue;
+      const result = score(pattern, cards);
+      if (result.rank === 'two-pair') return result;
+    }
+  }
+  return null;
+};
+
+/** The lowest qualifying pair. */
+const findPair: WildSearch = (pattern) => {
+  for (let value = 2; value <= ACE; value++) {
+    const count = pattern.counts[value];
+    if (count + pattern.wilds < 2) continue;
+    pattern.onPairRankCheck(value);
+    if (value < pattern.minimumPairRank) continue;
+    const cards = completeShort(
+      pattern,
+      copies(Math.max(0, 2 - count), (i) => standIn(pattern, 'hearts', value, `wild-pair-${i}`)),
+      (length) => standIn(pattern, 'hearts', ACE, `wild-pair-fill-${length}`)
+    );
+    if (cards.length < 2) continue;
+    const result = score(pattern, cards);
+    if (result.rank === 'one-pair') return result;
+  }
+  return null;
+};
+
+/** PokerEvaluator's wild card search, best hand rank first. */
+const WILD_SEARCHES: WildSearch[] = [
+  findRoyalFlush,
+  findStraightFlush,
+  findFiveOfAKind,
+  findFourOfAKind,
+  findFullHouse,
+  findFlush,
+  findStraight,
+  findThreeOfAKind,
+  findTwoPair,
+  findPair,
+];
+
+/**
+ * Score a representative hand with wild cards the way PokerEvaluator does: by trying wild card
+ * choices from the best hand rank down and keeping the first choice that makes it.
+ */
+function scoreWildPattern(
+  ranks: number[],
+  wilds: number,
+  suited: boolean,
+  minimumPairRank: number,
+  onPairRankCheck: PairRankCheck
+): PatternResult {
+  const regulars: PatternCard[] = ranks.map((rankIndex, i) => ({
+    value: rankIndex + 2,
+    suit: suited || i > 0 ? SUITED_SUIT : 'hearts',
+    slot: { regularIndex: i },
+  }));
+  const counts = new Array<number>(ACE + 1).fill(0);
+  for (const card of regulars) counts[card.value]++;
+  const canFlush = suited && regulars.length + wilds === 5;
+  const pattern: WildPattern = {
+    regulars,
+    counts,
+    wilds,
+    suited,
+    flushSuits: !canFlush ? [] : regulars.length > 0 ? [SUITED_SUIT] : SUITS,
+    minimumPairRank,
+    onPairRankCheck,
+  };
+
+  for (const search of WILD_SEARCHES) {
+    const result = search(pattern);
+    if (result) return result;
+  }
+  // Otherwise every wild is an ace
+  return score(
+    pattern,
+    complete(pattern, regulars, [], (i) => standIn(pattern, 'hearts', ACE, `wild-default-${i}`))
+  );
+}
+
+function createEntry(
+  ranks: number[],
+  wilds: number,
+  suited: boolean,
+  minimumPairRank: number,
+  onPairRankCheck: PairRankCheck
+): LookupEntry {
+  if (wilds === 0) {
+    const values = ranks.map((rankIndex) => rankIndex + 2);
+    const flush = suited && ranks.length === 5;
+    return {
+      ...rankValues(values, flush, false, minimumPairRank, onPairRankCheck),
+      winningCards: null,
+    };
+  }
+  const result = scoreWildPattern(ranks, wilds, suited, minimumPairRank, onPairRankCheck);
+  const template = result.cards.map((card) => card.slot);
+  const isSortedRegulars =
+    template.length === ranks.length &&
+    template.every((slot, i) => 'regularIndex' in slot && slot.regularIndex === i);
+
+  return {
+    rank: result.rank,
+    score: result.score,
+    winningCards: isSortedRegulars ? null : template,
+  };
+}
+
+/** Call visit with every rank multiset of the given size, ascending. */
+function forEachRankMultiset(size: number, visit: (ranks: number[]) => void): void {
+  const ranks: number[] = [];
+  const extend = (fromRank: number) => {
+    if (ranks.length === size) {
+      visit(ranks);
+      return;
+    }
+    for (let rank = fromRank; rank < RANKS.length; rank++) {
+      ranks.push(rank);
+      extend(rank);
+      ranks.pop();
+    }
+  };
+  extend(0);
+}
+
+/**
+ * Build the entry of every pattern a 5-card hand can have, hands no deck can deal included.
+ * Runs once at module load; exported for the cold-start benchmark.
+ */
+export function buildLookupTable(): LookupTable {
+  const table: LookupTable = new Map();
+  for (let wilds = 0; wilds <= 5; wilds++) {
+    for (let size = 0; size + wilds <= 5; size++) {
+      if (size + wilds === 0) continue;
+      forEachRankMultiset(size, (ranks) => {
+        const product = ranks.reduce((total, rank) => total * RANK_PRIMES[rank], 1);
+        const addEntry = (suited: boolean) => {
+          // Score once per run of thresholds that compare every checked rank the same way
+          const entries: LookupEntry[] = [];
+          for (let threshold = LOWEST_PAIR_THRESHOLD; threshold <= HIGHEST_PAIR_THRESHOLD; ) {
+            let lastThreshold = HIGHEST_PAIR_THRESHOLD;
+            const entry = createEntry(ranks, wilds, suited, threshold, (value) => {
+              if (value >= threshold) lastThreshold = Math.min(lastThreshold, value);
+            });
+            for (; threshold <= lastThreshold; threshold++) entries.push(entry);
+          }
+          const [first] = entries;
+          table.set(
+            getKey(product, wilds, suited),
+            entries.every((entry) => entry === first) ? first : entries
+          );
+        };
+        // One or no regular card is trivially suited; fewer than 5 cards can't make a flush
+        if (size >= 2) addEntry(false);
+        if (size < 2 || size + wilds === 5) addEntry(true);
+      });
+    }
+  }
+  return table;
+}
+
+const TABLE = buildLookupTable();
+
+export class LookupEvaluator {
+  /**
+   * Evaluates a 5-card hand; same result as PokerEvaluator.evaluate.
+   * Cards standing in for wilds are fresh copies on every call.
+   * @param minimumPairRank - Lowest pair rank value that scores as One Pair;
+   *   defaults to the active game mode's threshold
+   */
+  static evaluate(
+    hand: Card[],
+    minimumPairRank: number = getCurrentGameMode().minimumPairRank
+  ): HandResult {
+    if (hand.length !== 5) {
+      throw new Error('Hand must contain exactly 5 cards');
+    }
+
+    // Regular cards in rank order (stable, like PokerEvaluator's sort), wilds counted
+    const regulars: Card[] = [];
+    let wilds = 0;
+    let product = 1;
+    for (const card of hand) {
+      if (card.isDead) continue;
+      if (card.isWild) {
+        wilds++;
+        continue;
+      }
+      const rankIndex = RANK_INDEX[card.rank];
+      product *= RANK_PRIMES[rankIndex];
+      let i = regulars.length;
+      while (i > 0 && RANK_INDEX[regulars[i - 1].rank] > rankIndex) {
+        regulars[i] = regulars[i - 1];
+        i--;
+      }
+      regulars[i] = card;
+    }
+
+    if (regulars.length + wilds === 0) {
+      return { rank: 'high-card', multiplier: 0, score: 0, winningCards: [] };
+    }
+
+    const handSuit = regulars.length > 0 ? regulars[0].suit : SUITED_SUIT;
+    const suited =
+      regulars.length < 2 ||
+      (regulars.length + wilds === 5 && regulars.every((card) => card.suit === handSuit));
+
+    const value = TABLE.get(getKey(product, wilds, suited)) as LookupTableValue;
+    const entry = Array.isArray(value) ? value[getThresholdIndex(minimumPairRank)] : value;
+
+    return {
+      rank: entry.rank,
+      multiplier: 0,
+      score: entry.score,
+      winningCards: entry.winningCards
+        ? entry.winningCards.map((slot) => {
+            if ('regularIndex' in slot) return regulars[slot.regularIndex];
+            return { ...slot.card, suit: slot.takesHandSuit ? handSuit : slot.card.suit };
+          })
+        : regulars,
+    };
+  }
+}
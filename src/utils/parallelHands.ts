@@ -1,5 +1,6 @@
 import { Card, Hand } from '../types';
 import { createFullDeck, shuffleDeck, removeCardsFromDeck } from './deck';
+import { RandomSource } from './rng';
 
 /**
  * Generates N parallel hands from a base hand and held indices.
@@ -10,6 +11,9 @@ import { createFullDeck, shuffleDeck, removeCardsFromDeck } from './deck';
  * @param handCount - Number of parallel hands to generate
  * @param deadCards - Dead cards to include in deck
  * @param removedCards - Cards removed from deck
+ * @param wildCards - Wild cards to include in deck
+ * @param random - Random source for the shuffles; pass the run RNG so every round draws
+ *   differently while staying reproducible from the run seed
  * @returns Array of parallel hands
  */
 export function generateParallelHands(
@@ -18,7 +22,8 @@ export function generateParallelHands(
   handCount: number,
   deadCards: Card[] = [],
   removedCards: Card[] = [],
-  wildCards: Card[] = []
+  wildCards: Card[] = [],
+  random: RandomSource = Math.random
 ): Hand[] {
   if (baseHand.length !== 5) {
     throw new Error('Base hand must contain exactly 5 cards');
@@ -33,8 +38,8 @@ export function generateParallelHands(
     // Remove the original 5 cards from the deck
     const availableDeck = removeCardsFromDeck(fullDeck, baseHand);
     
-    // Shuffle with a seed based on hand index for determinism (optional)
-    const shuffledDeck = shuffleDeck(availableDeck, i);
+    // Shuffle from the shared random source so hands differ across rounds
+    const shuffledDeck = shuffleDeck(availableDeck, random);
     
     // Build the parallel hand: held cards + new draws
     const newHand: Card[] = [...baseHand];
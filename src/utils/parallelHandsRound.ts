@@ -0,0 +1,76 @@
+/**
+ * One round's parallel hands, generated and scored in a single pass.
+ *
+ * A job holds everything needed to play the round out (no module state such as the active
+ * game mode is read), so it can run in the parallel hands worker and give exactly the result
+ * GameEngine.drawParallelHands would compute on the main thread.
+ */
+
+import { Card, DeckModifications, Hand, HandScore, RewardTable } from '../types';
+import { generateParallelHands } from './parallelHands';
+import { createRng } from './rng';
+import { RoundComboSummary, scoreParallelHand, summarizeScoredHands } from './streakCalculator';
+
+export interface ParallelHandsJob {
+  /** Final 5-card hand, Devil's Deal card included */
+  baseHand: Card[];
+  heldIndices: number[];
+  handCount: number;
+  deckModifications: DeckModifications;
+  /** Seed of the round's parallel hands generator (see createRoundRng) */
+  rngState: number;
+  rewardTable: RewardTable;
+  betAmount: number;
+  initialStreak: number;
+  minimumPairRank: number;
+}
+
+export interface ParallelHandsJobResult {
+  parallelHands: Hand[];
+  scores: HandScore[];
+  summary: RoundComboSummary;
+}
+
+/** Hands generated and scored between progress reports. */
+const BATCH_SIZE = 50;
+
+/**
+ * Generate, score and summarize a round's parallel hands.
+ * Draws come from the job's generator in the same order as generateParallelHands.
+ *
+ * @param onProgress - Called after each batch with the number of hands done so far
+ */
+export function runParallelHandsJob(
+  job: ParallelHandsJob,
+  onProgress?: (completed: number, total: number) => void
+): ParallelHandsJobResult {
+  const rng = createRng(job.rngState);
+  const { deadCards, removedCards, wildCards } = job.deckModifications;
+  const parallelHands: Hand[] = [];
+  const scores: HandScore[] = [];
+
+  while (parallelHands.length < job.handCount) {
+    const offset = parallelHands.length;
+    const batch = generateParallelHands(
+      job.baseHand,
+      job.heldIndices,
+      Math.min(BATCH_SIZE, job.handCount - offset),
+      deadCards,
+      removedCards,
+      wildCards,
+      rng.next
+    );
+    for (const [i, hand] of batch.entries()) {
+      const numbered = { ...hand, id: `parallel-hand-${offset + i}` };
+      parallelHands.push(numbered);
+      scores.push(scoreParallelHand(numbered, job.rewardTable, job.minimumPairRank));
+    }
+    onProgress?.(parallelHands.length, job.handCount);
+  }
+
+  return {
+    parallelHands,
+    scores,
+    summary: summarizeScoredHands(scores, job.betAmount, job.initialStreak),
+  };
+}
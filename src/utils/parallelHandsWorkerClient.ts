@@ -0,0 +1,109 @@
+/**
+ * Runs parallel hands jobs in the parallel hands worker so large hand counts don't block the UI.
+ * One worker is kept between rounds so its evaluator tables stay warm; it is replaced only after
+ * a cancelled or failed job. Where Worker is unavailable (tests, very old browsers) the job runs
+ * on the main thread instead.
+ */
+
+import { ParallelHandsJob, ParallelHandsJobResult, runParallelHandsJob } from './parallelHandsRound';
+
+export type ParallelHandsWorkerRequest = { type: 'run'; job: ParallelHandsJob };
+
+export type ParallelHandsWorkerResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; result: ParallelHandsJobResult }
+  | { type: 'error'; message: string };
+
+export interface ParallelHandsRun {
+  /** Settles with the job result; never settles once cancelled */
+  promise: Promise<ParallelHandsJobResult>;
+  /** Stop the job and ignore any result still on its way */
+  cancel: () => void;
+}
+
+let sharedWorker: Worker | null = null;
+
+function getWorker(): Worker {
+  if (!sharedWorker) {
+    sharedWorker = new Worker(new URL('../workers/parallelHands.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+  }
+  return sharedWorker;
+}
+
+function discardWorker(worker: Worker): void {
+  worker.terminate();
+  if (sharedWorker === worker) sharedWorker = null;
+}
+
+/**
+ * Start a parallel hands job in the worker.
+ * @param onProgress - Called with the number of hands generated so far
+ */
+export function runParallelHandsInWorker(
+  job: ParallelHandsJob,
+  onProgress?: (completed: number, total: number) => void
+): ParallelHandsRun {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    return {
+      promise: new Promise((resolve, reject) => {
+        // Defer like a worker would, so callers see the same async order either way
+        setTimeout(() => {
+          if (cancelled) return;
+          try {
+            resolve(runParallelHandsJob(job, onProgress));
+          } catch (error) {
+            reject(error);
+          }
+        }, 0);
+      }),
+      cancel: () => {
+        cancelled = true;
+      },
+    };
+  }
+
+  const worker = getWorker();
+  let removeListeners = () => {};
+
+  const promise = new Promise<ParallelHandsJobResult>((resolve, reject) => {
+    const handleMessage = (event: MessageEvent<ParallelHandsWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.completed, message.total);
+        return;
+      }
+      removeListeners();
+      if (message.type === 'done') {
+        resolve(message.result);
+      } else {
+        discardWorker(worker);
+        reject(new Error(message.message));
+      }
+    };
+    const handleError = (event: ErrorEvent) => {
+      removeListeners();
+      discardWorker(worker);
+      reject(new Error(event.message || 'Parallel hands worker failed'));
+    };
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    removeListeners = () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+    };
+  });
+
+  const request: ParallelHandsWorkerRequest = { type: 'run', job };
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      removeListeners();
+      discardWorker(worker);
+    },
+  };
+}
@@ -20,8 +20,13 @@ const RANK_VALUES: { [key: string]: number } = {
 export class PokerEvaluator {
   /**
    * Evaluates a 5-card hand and returns the hand result
+   * @param minimumPairRank - Lowest pair rank value that scores as One Pair (11 = Jacks or Better);
+   *   defaults to the active game mode's threshold
    */
-  static evaluate(hand: Card[]): HandResult {
+  static evaluate(
+    hand: Card[],
+    minimumPairRank: number = getCurrentGameMode().minimumPairRank
+  ): HandResult {
     if (hand.length !== 5) {
       throw new Error('Hand must contain exactly 5 cards');
     }
@@ -46,7 +51,7 @@ export class PokerEvaluator {
 
     // If we have wild cards, evaluate with best possible hand
     if (wildCards.length > 0) {
-      return this.evaluateWithWildCards(regularCards, wildCards);
+      return this.evaluateWithWildCards(regularCards, wildCards, minimumPairRank);
     }
 
     const sortedHand = [...activeHand].sort((a, b) => RANK_VALUES[a.rank] - RANK_VALUES[b.rank]);
@@ -159,11 +164,11 @@ export class PokerEvaluator {
       };
     }
 
-    // One Pair (jacks or better only)
+    // One Pair (qualifying pairs only)
     if (pair) {
       const pairRank = parseInt(pair[0]);
       // Only score pairs at or above the minimum pair rank (e.g., Jacks or Better)
-      if (pairRank >= getCurrentGameMode().minimumPairRank) {
+      if (pairRank >= minimumPairRank) {
         return {
           rank: 'one-pair',
           multiplier: 0,
@@ -187,7 +192,7 @@ export class PokerEvaluator {
   /**
    * Evaluates a regular hand (no wild cards)
    */
-  private static evaluateRegularHand(hand: Card[]): HandResult {
+  private static evaluateRegularHand(hand: Card[], minimumPairRank: number): HandResult {
     const sortedHand = [...hand].sort((a, b) => RANK_VALUES[a.rank] - RANK_VALUES[b.rank]);
 
     const rankCounts = this.getRankCounts(sortedHand);
@@ -295,10 +300,10 @@ export class PokerEvaluator {
       };
     }
 
-    // One Pair (jacks or better only)
+    // One Pair (qualifying pairs only)
     if (pair) {
       const pairRank = parseInt(pair[0]);
-      if (pairRank >= 11) {
+      if (pairRank >= minimumPairRank) {
         return {
           rank: 'one-pair',
           multiplier: 0,
@@ -355,12 +360,19 @@ export class PokerEvaluator {
   }
 
   /**
-   * Applies reward table multipliers to hand results
+   * Applies reward table multipliers to hand results.
+   * A One Pair result below minimumPairRank (e.g. evaluated under a lower threshold) pays nothing.
    */
-  static applyRewards(result: HandResult, rewardTable: { [key: string]: number }): HandResult {
+  static applyRewards(
+    result: HandResult,
+    rewardTable: { [key: string]: number },
+    minimumPairRank: number = getCurrentGameMode().minimumPairRank
+  ): HandResult {
+    // One Pair scores are 2000 + pair rank value
+    const isNonQualifyingPair = result.rank === 'one-pair' && result.score - 2000 < minimumPairRank;
     return {
       ...result,
-      multiplier: rewardTable[result.rank] || 0,
+      multiplier: isNonQualifyingPair ? 0 : rewardTable[result.rank] || 0,
     };
   }
 
@@ -368,7 +380,11 @@ export class PokerEvaluator {
    * Evaluates hand with wild cards by trying to form the best possible hand
    * Wild cards can be any suit, rank, and face value
    */
-  private static evaluateWithWildCards(regularCards: Card[], wildCards: Card[]): HandResult {
+  private static evaluateWithWildCards(
+    regularCards: Card[],
+    wildCards: Card[],
+    minimumPairRank: number
+  ): HandResult {
     const numWilds = wildCards.length;
     const numRegular = regularCards.length;
     const allRanks = Object.keys(RANK_VALUES) as Array<keyof typeof RANK_VALUES>;
@@ -425,7 +441,7 @@ export class PokerEvaluator {
               isWild: true,
             });
           }
-          const result = this.evaluateRegularHand(expanded);
+          const result = this.evaluateRegularHand(expanded, minimumPairRank);
           if (result.rank === 'royal-flush') {
             return result;
           }
@@ -464,7 +480,7 @@ export class PokerEvaluator {
             });
           }
           if (expanded.length === 5) {
-            const result = this.evaluateRegularHand(expanded);
+            const result = this.evaluateRegularHand(expanded, minimumPairRank);
             if (result.rank === 'straight-flush') {
               if (!bestHand || scoreHand(result) > scoreHand(bestHand)) {
                 bestHand = result;
@@ -495,7 +511,7 @@ export class PokerEvaluator {
               isWild: true,
             });
           }
-          const result = this.evaluateRegularHand(expanded);
+          const result = this.evaluateRegularHand(expanded, minimumPairRank);
           if (result.rank === 'four-of-a-kind' || result.rank === 'five-of-a-kind') {
             const fiveKindResult: HandResult = {
               ...result,
@@ -547,7 +563,7 @@ export class PokerEvaluator {
           });
         }
         if (expanded.length === 5) {
-          const result = this.evaluateRegularHand(expanded);
+          const result = this.evaluateRegularHand(expanded, minimumPairRank);
           if (result.rank === 'four-of-a-kind' || result.rank === 'five-of-a-kind') {
             return result;
           }
@@ -595,7 +611,7 @@ export class PokerEvaluator {
                 });
               }
               if (expanded.length === 5) {
-                const result = this.evaluateRegularHand(expanded);
+                const result = this.evaluateRegularHand(expanded, minimumPairRank);
                 if (result.rank === 'full-house') {
                   return result;
                 }
@@ -637,7 +653,7 @@ export class PokerEvaluator {
           });
         }
         if (expanded.length === 5) {
-          const result = this.evaluateRegularHand(expanded);
+          const result = this.evaluateRegularHand(expanded, minimumPairRank);
           if (
             result.rank === 'flush' ||
             result.rank === 'straight-flush' ||
@@ -672,7 +688,7 @@ export class PokerEvaluator {
         });
       }
       if (expanded.length === 5) {
-        const result = this.evaluateRegularHand(expanded);
+        const result = this.evaluateRegularHand(expanded, minimumPairRank);
         if (result.rank === 'straight') {
           if (!bestHand || scoreHand(result) > scoreHand(bestHand)) {
             bestHand = result;
@@ -710,7 +726,7 @@ export class PokerEvaluator {
           });
         }
         if (expanded.length === 5) {
-          const result = this.evaluateRegularHand(expanded);
+          const result = this.evaluateRegularHand(expanded, minimumPairRank);
           if (result.rank === 'straight') {
             if (!bestHand || scoreHand(result) > scoreHand(bestHand)) {
               bestHand = result;
@@ -748,7 +764,7 @@ export class PokerEvaluator {
         }
         // Evaluate if we have at least 3 cards
         if (expanded.length >= 3) {
-          const result = this.evaluateRegularHand(expanded);
+          const result = this.evaluateRegularHand(expanded, minimumPairRank);
           if (result.rank === 'three-of-a-kind') {
             return result;
           }
@@ -798,7 +814,7 @@ export class PokerEvaluator {
             }
             // Evaluate if we have at least 4 cards (two pairs)
             if (expanded.length >= 4) {
-              const result = this.evaluateRegularHand(expanded);
+              const result = this.evaluateRegularHand(expanded, minimumPairRank);
               if (result.rank === 'two-pair') {
                 return result;
               }
@@ -808,10 +824,10 @@ export class PokerEvaluator {
       }
     }
 
-    // Try One Pair (Jacks or better with wilds)
+    // Try One Pair (qualifying pairs with wilds)
     for (const rank of allRanks) {
       const rankValue = RANK_VALUES[rank];
-      if (rankValue < getCurrentGameMode().minimumPairRank) continue;
+      if (rankValue < minimumPairRank) continue;
 
       const count = regularCards.filter((c) => c.rank === rank).length;
       if (count + numWilds >= 2) {
@@ -836,7 +852,7 @@ export class PokerEvaluator {
         }
         // Evaluate if we have at least 2 cards (one pair)
         if (expanded.length >= 2) {
-          const result = this.evaluateRegularHand(expanded);
+          const result = this.evaluateRegularHand(expanded, minimumPairRank);
           if (result.rank === 'one-pair') {
             return result;
           }
@@ -854,6 +870,6 @@ export class PokerEvaluator {
         isWild: true,
       });
     }
-    return this.evaluateRegularHand(expanded);
+    return this.evaluateRegularHand(expanded, minimumPairRank);
   }
 }
@@ -0,0 +1,188 @@
+/**
+ * Puzzle runs: a seeded run set up from a puzzle in config/puzzlesConfig, whose first hand is
+ * the puzzle's hand instead of a shuffled one. The run plays by the normal rules; each state is
+ * checked against the puzzle's goal, and the best star rating per puzzle is kept in localStorage.
+ */
+
+import { Card, GameState } from '../types';
+import { getCurrentGameMode } from '../config/gameConfig';
+import { Puzzle, PuzzleGoal, PUZZLES } from '../config/puzzlesConfig';
+import { findDeckCard } from './deck';
+import { formatCredits } from './format';
+import { GameEngine } from './gameEngine';
+import { logger } from './logger';
+
+export const PUZZLE_STARS_STORAGE_KEY = 'puzzleStars';
+
+/** Most stars a puzzle awards. */
+export const PUZZLE_MAX_STARS = 3;
+
+/** How a puzzle attempt ended. */
+export interface PuzzleOutcome {
+  won: boolean;
+  /** Round profit for earn goals, final credits for survival goals */
+  score: number;
+  /** 0 when lost, 1–3 when won */
+  stars: number;
+}
+
+/** Best stars earned per puzzle id. */
+export type PuzzleStars = Record<string, number>;
+
+export function getPuzzle(puzzleId: string): Puzzle | undefined {
+  return PUZZLES.find((puzzle) => puzzle.id === puzzleId);
+}
+
+export function getPuzzleGoalLabel(goal: PuzzleGoal): string {
+  switch (goal.type) {
+    case 'earn':
+      return `Profit ${formatCredits(goal.credits)} credits this round`;
+    case 'survive-endless-rounds':
+      return `Survive ${goal.rounds} end game round${goal.rounds === 1 ? '' : 's'}`;
+  }
+}
+
+/** Start a puzzle's run in place of any run in progress, in the active game mode. */
+export function startPuzzleRun(prev: GameState, puzzle: Puzzle): GameState {
+  const { setup } = puzzle;
+  const run = GameEngine.startNewRun(prev, puzzle.seed);
+  const round = setup.round ?? 1;
+  const endlessStartRound = getCurrentGameMode().endlessMode?.startRound;
+  const minimumBet = setup.minimumBet ?? setup.betAmount;
+  // Shaped like the shop's, so they behave the same in the deck
+  const wildCards: Card[] = Array.from({ length: setup.wildCards ?? 0 }, (_, i) => ({
+    suit: 'hearts',
+    rank: 'A',
+    id: `wild-${i}`,
+    isWild: true,
+  }));
+  const deadCards: Card[] = (setup.deadCards ?? []).map((card, i) => ({
+    ...card,
+    id: `dead-${i}`,
+    isDead: true,
+  }));
+
+  return {
+    ...run,
+    credits: setup.credits,
+    runPeakCredits: setup.credits,
+    betAmount: setup.betAmount,
+    minimumBet,
+    baseMinimumBet: minimumBet,
+    handCount: setup.handCount,
+    selectedHandCount: setup.handCount,
+    round,
+    isEndlessMode: endlessStartRound !== undefined && round >= endlessStartRound,
+    extraCardsInHand: Math.max(0, setup.hand.length - 5),
+    extraDrawPurchased: setup.extraDraw ?? false,
+    wildCardCount: wildCards.length,
+    deckModifications: {
+      ...run.deckModifications,
+      wildCards,
+      deadCards,
+      removedCards: (setup.removedCards ?? []).map(findDeckCard),
+    },
+  };
+}
+
+/**
+ * Deal the puzzle's hand and Devil's Deal offer in its first round. Later rounds are dealt
+ * normally.
+ */
+export function dealPuzzleHand(prev: GameState, puzzle: Puzzle): GameState {
+  if (prev.roundHistory.length > 0) {
+    return GameEngine.dealHand(prev);
+  }
+
+  const wildCards = [...prev.deckModifications.wildCards];
+  const hand = puzzle.setup.hand.map((card) => {
+    if (card !== 'wild') {
+      return findDeckCard(card);
+    }
+    const wildCard = wildCards.shift();
+    if (!wildCard) {
+      throw new Error(`Puzzle ${puzzle.id} deals more wild cards than its deck holds`);
+    }
+    return wildCard;
+  });
+  const dealt = GameEngine.dealFixedHand(prev, hand);
+  const { devilsDealCard } = puzzle.setup;
+  return devilsDealCard && dealt !== prev
+    ? GameEngine.offerDevilsDeal(dealt, findDeckCard(devilsDealCard))
+    : dealt;
+}
+
+function getStars(puzzle: Puzzle, score: number): number {
+  return 1 + puzzle.starThresholds.filter((threshold) => score >= threshold).length;
+}
+
+/**
+ * Whether a puzzle run has been won or lost; null while the goal is still open.
+ */
+export function getPuzzleOutcome(puzzle: Puzzle, state: GameState): PuzzleOutcome | null {
+  const isOver = state.gameOver || state.screen === 'gameOver';
+
+  switch (puzzle.goal.type) {
+    case 'earn': {
+      const [firstRound] = state.roundHistory;
+      if (!firstRound) {
+        return isOver ? { won: false, score: 0, stars: 0 } : null;
+      }
+      const score = firstRound.creditsAfter - firstRound.creditsBefore;
+      return score >= puzzle.goal.credits
+        ? { won: true, score, stars: getStars(puzzle, score) }
+        : { won: false, score, stars: 0 };
+    }
+    case 'survive-endless-rounds': {
+      const score = state.credits;
+      if (isOver) {
+        return { won: false, score, stars: 0 };
+      }
+      // Rounds played before the end game don't count, should the puzzle start earlier
+      const endlessStartRound = getCurrentGameMode().endlessMode?.startRound;
+      const endlessRounds =
+        endlessStartRound === undefined
+          ? 0
+          : state.roundHistory.filter((record) => record.round >= endlessStartRound).length;
+      return endlessRounds >= puzzle.goal.rounds
+        ? { won: true, score, stars: getStars(puzzle, score) }
+        : null;
+    }
+  }
+}
+
+/**
+ * Load the best stars earned per puzzle. Unknown puzzles are skipped.
+ */
+export function loadPuzzleStars(): PuzzleStars {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(PUZZLE_STARS_STORAGE_KEY);
+    if (!stored) return {};
+    const parsed: unknown = JSON.parse(stored);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        ([puzzleId, stars]) => getPuzzle(puzzleId) !== undefined && typeof stars === 'number'
+      )
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record the stars earned on a puzzle, if more than its best so far.
+ * @returns The best stars per puzzle
+ */
+export function recordPuzzleStars(puzzleId: string, stars: number): PuzzleStars {
+  const best = loadPuzzleStars();
+  if (stars <= (best[puzzleId] ?? 0)) return best;
+  const updated = { ...best, [puzzleId]: stars };
+  try {
+    localStorage.setItem(PUZZLE_STARS_STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    logger.warn(`Failed to save puzzle stars: ${String(error)}`);
+  }
+  return updated;
+}
@@ -0,0 +1,77 @@
+/**
+ * Seedable random number generators for runs.
+ * Every random game decision (deals, draws, shop rolls, Devil's Deal, dead cards) reads from a
+ * generator derived from the run seed, the decision's purpose and the round it is made in. No
+ * decision shifts another's draws, so everyone who plays a seed is dealt the same round-N hand
+ * and offered the same round-N shop, however they played the rounds before.
+ *
+ * Derived generators keep state updaters pure: nothing about the generator is stored on GameState.
+ *
+ * @example
+ * ```typescript
+ * const rng = createRoundRng(prev.runSeed, 'deal', prev.round);
+ * const deck = shuffleDeck(createFullDeck(), rng.next);
+ * ```
+ */
+
+/** A function returning a float in [0, 1), compatible with Math.random. */
+export type RandomSource = () => number;
+
+export interface Rng {
+  /** Next float in [0, 1). */
+  next: RandomSource;
+  /** Next integer in [0, maxExclusive). */
+  nextInt: (maxExclusive: number) => number;
+  /** Current generator position; pass to createRng to resume from here. */
+  getState: () => number;
+}
+
+/**
+ * Creates a Mulberry32 generator starting at the given state.
+ * The same state always produces the same sequence.
+ */
+export function createRng(state: number): Rng {
+  let current = state >>> 0;
+
+  const next: RandomSource = () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    nextInt: (maxExclusive: number) => Math.floor(next() * maxExclusive),
+    getState: () => current,
+  };
+}
+
+/** What a derived generator is used for; each purpose draws from its own stream. */
+export type RngStream = 'deal' | 'devilsDeal' | 'draw' | 'parallelHands' | 'shop' | 'deadCard';
+
+/**
+ * Creates the generator for one purpose in one round of a run. The result depends only on its
+ * arguments, never on earlier draws.
+ *
+ * @param index - Which use of the purpose within the round (e.g. the second draw), 0 for the first
+ */
+export function createRoundRng(runSeed: number, stream: RngStream, round: number, index = 0): Rng {
+  // FNV-1a over the generator's key
+  const key = `${runSeed >>> 0}:${stream}:${round}:${index}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return createRng(hash);
+}
+
+/**
+ * Creates a fresh 32-bit run seed. This is the only non-deterministic input to a run.
+ */
+export function createRunSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
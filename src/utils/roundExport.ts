@@ -0,0 +1,176 @@
+/**
+ * Round results export for spreadsheets: every parallel hand of a round with its cards, rank,
+ * the streak multiplier applied to it and its payout, as CSV (one row per hand) or JSON.
+ * Payouts come from the same round summary the Results screen pays out. Recorded rounds are
+ * regenerated from their ParallelHandsJob in the parallel hands worker, one round at a time, so a
+ * whole run's history can be exported too without blocking the UI.
+ */
+
+import { Hand, HandRank, HandScore, ParallelHandsResult, RewardTable, RoundRecord } from '../types';
+import { formatCard } from './format';
+import { ParallelHandsRun, runParallelHandsInWorker } from './parallelHandsWorkerClient';
+import { RoundComboSummary, scoreParallelHand, summarizeRoundCombos } from './streakCalculator';
+
+export type RoundExportFormat = 'csv' | 'json';
+
+/** `format` marker in exported JSON files. */
+export const ROUND_EXPORT_FORMAT = 'oubliette-rounds';
+
+export interface ExportedHand {
+  /** 1-based position in play order */
+  hand: number;
+  cards: string[];
+  rank: HandRank;
+  streakMultiplier: number;
+  payout: number;
+}
+
+export interface RoundExport {
+  round: number;
+  betAmount: number;
+  totalPayout: number;
+  hands: ExportedHand[];
+}
+
+export const ROUND_EXPORT_CSV_COLUMNS = [
+  'round',
+  'bet',
+  'hand',
+  'cards',
+  'rank',
+  'streak_multiplier',
+  'payout',
+] as const;
+
+function toRoundExport(
+  round: number,
+  betAmount: number,
+  parallelHands: Hand[],
+  scores: HandScore[],
+  summary: RoundComboSummary
+): RoundExport {
+  const { handPayouts, streakMultipliers, totalPayout } = summary;
+  return {
+    round,
+    betAmount,
+    totalPayout,
+    hands: parallelHands.map((parallelHand, i) => ({
+      hand: i + 1,
+      cards: parallelHand.cards.map(formatCard),
+      rank: scores[i].rank,
+      streakMultiplier: streakMultipliers[i],
+      payout: handPayouts[i],
+    })),
+  };
+}
+
+/**
+ * Export of the round on the Results screen, scored the same way the screen scores it.
+ * @param result - Scores and summary computed with the hands; recomputed when absent
+ */
+export function exportPlayedRound(
+  round: number,
+  betAmount: number,
+  parallelHands: Hand[],
+  rewardTable: RewardTable,
+  result?: ParallelHandsResult | null
+): RoundExport {
+  const scores =
+    result?.scores ?? parallelHands.map((hand) => scoreParallelHand(hand, rewardTable));
+  const summary = result?.summary ?? summarizeRoundCombos(parallelHands, rewardTable, betAmount);
+  return toRoundExport(round, betAmount, parallelHands, scores, summary);
+}
+
+export interface RecordedRoundsExport {
+  /** Settles with the rounds in order; never settles once cancelled */
+  promise: Promise<RoundExport[]>;
+  /** Stop regenerating rounds */
+  cancel: () => void;
+}
+
+/**
+ * Export rounds from the hand history; rounds logged without a job export no hands.
+ * @param onProgress - Called with the number of rounds exported so far
+ */
+export function exportRecordedRounds(
+  records: RoundRecord[],
+  onProgress?: (completed: number, total: number) => void
+): RecordedRoundsExport {
+  let cancelled = false;
+  let current: ParallelHandsRun | null = null;
+
+  const exportRounds = async (): Promise<RoundExport[]> => {
+    const rounds: RoundExport[] = [];
+    for (const record of records) {
+      if (cancelled) return new Promise<RoundExport[]>(() => {});
+      const { round, betAmount, payout, parallelHandsJob } = record;
+      if (!parallelHandsJob) {
+        rounds.push({ round, betAmount, totalPayout: payout, hands: [] });
+      } else {
+        current = runParallelHandsInWorker(parallelHandsJob);
+        const { parallelHands, scores, summary } = await current.promise;
+        rounds.push(toRoundExport(round, betAmount, parallelHands, scores, summary));
+      }
+      onProgress?.(rounds.length, records.length);
+    }
+    return rounds;
+  };
+
+  return {
+    promise: exportRounds(),
+    cancel: () => {
+      cancelled = true;
+      current?.cancel();
+    },
+  };
+}
+
+/** Quotes a CSV field when it holds a delimiter, quote or line break. */
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per parallel hand under a header row; cards are space separated. */
+export function roundsToCsv(rounds: RoundExport[]): string {
+  const rows = rounds.flatMap((round) =>
+    round.hands.map((hand) => [
+      round.round,
+      round.betAmount,
+      hand.hand,
+      hand.cards.join(' '),
+      hand.rank,
+      hand.streakMultiplier,
+      hand.payout,
+    ])
+  );
+  return [ROUND_EXPORT_CSV_COLUMNS, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+export function roundsToJson(rounds: RoundExport[], runSeed: number): string {
+  return JSON.stringify({ format: ROUND_EXPORT_FORMAT, runSeed, rounds }, null, 2);
+}
+
+/**
+ * Downloads rounds as `<fileName>.csv` or `<fileName>.json`.
+ * @param fileName - File name without extension
+ */
+export function downloadRounds(
+  rounds: RoundExport[],
+  format: RoundExportFormat,
+  runSeed: number,
+  fileName: string
+): void {
+  const blob =
+    format === 'csv'
+      ? new Blob([roundsToCsv(rounds)], { type: 'text/csv' })
+      : new Blob([roundsToJson(rounds, runSeed)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
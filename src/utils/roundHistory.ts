@@ -0,0 +1,78 @@
+/**
+ * Hand history of the current run, one record per round.
+ * GameEngine logs the round being played in state.roundLog (dealt hand, each draw) and files it
+ * in state.roundHistory when returnToPreDraw pays the round out. Parallel hands are not stored:
+ * a round's ParallelHandsJob regenerates exactly the hands that were played, which keeps the
+ * history small enough to autosave with the run.
+ */
+
+import { Card, GameState, HandRank, HandScore, RoundRecord } from '../types';
+import { runParallelHandsJob } from './parallelHandsRound';
+import { summarizeScoredHands } from './streakCalculator';
+
+/** Oldest rounds are dropped past this many records to keep saves bounded. */
+export const ROUND_HISTORY_LIMIT = 200;
+
+/** A regenerated parallel hand and the rank it scored. */
+export interface RoundHandRecord {
+  cards: Card[];
+  rank: HandRank;
+}
+
+/** Parallel hands per rank. */
+export function countRanks(scores: HandScore[]): Partial<Record<HandRank, number>> {
+  const counts: Partial<Record<HandRank, number>> = {};
+  for (const { rank } of scores) {
+    counts[rank] = (counts[rank] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Record of the round being paid out; null when it wasn't logged (e.g. resumed from a save
+ * made before hand history existed).
+ * @param scores - Scores of the round's parallel hands, in play order
+ * @param creditsAfter - Credits after the payout
+ */
+export function createRoundRecord(
+  state: GameState,
+  payout: number,
+  scores: HandScore[],
+  creditsAfter: number
+): RoundRecord | null {
+  const log = state.roundLog;
+  if (!log) return null;
+  const summary =
+    state.parallelHandsResult?.summary ??
+    summarizeScoredHands(scores, state.betAmount, log.parallelHandsJob?.initialStreak ?? 0);
+
+  return {
+    ...log,
+    round: state.round,
+    betAmount: state.betAmount,
+    minimumBet: state.minimumBet,
+    handCount: scores.length,
+    availableHandCount: state.handCount,
+    handsWon: scores.filter(({ multiplier }) => multiplier > 0).length,
+    devilsDeal: state.devilsDealCard
+      ? { card: state.devilsDealCard, cost: state.devilsDealCost, taken: state.devilsDealHeld }
+      : null,
+    rankCounts: countRanks(scores),
+    payout,
+    highestCombo: summary.highestCombo,
+    highestMultiplier: summary.highestMultiplier,
+    creditsAfter,
+  };
+}
+
+/** History with the record appended, keeping the last ROUND_HISTORY_LIMIT rounds. */
+export function addRoundRecord(history: RoundRecord[], record: RoundRecord): RoundRecord[] {
+  return [...history, record].slice(-ROUND_HISTORY_LIMIT);
+}
+
+/** Every parallel hand of a recorded round with its rank, in play order. */
+export function getRoundHands(record: RoundRecord): RoundHandRecord[] {
+  if (!record.parallelHandsJob) return [];
+  const { parallelHands, scores } = runParallelHandsJob(record.parallelHandsJob);
+  return parallelHands.map((hand, i) => ({ cards: hand.cards, rank: scores[i].rank }));
+}
@@ -0,0 +1,157 @@
+/**
+ * Post-run analytics for the Game Over screen, built from the run's hand history: the series
+ * of each chart and the rounds where the run entered endless mode and where it failed.
+ * RunCharts draws them as SVG polylines, like the combo graph on the Results screen.
+ */
+
+import { getCurrentGameMode } from '../config/gameConfig';
+import { GameOverReason, RoundRecord } from '../types';
+import { getMinimumWinPercentForRound } from './failureConditions';
+import { GAME_OVER_REASON_LABELS } from './gameOverDisplay';
+
+export interface RunChartPoint {
+  round: number;
+  value: number;
+}
+
+export interface RunChartSeries {
+  label: string;
+  /** Minimums and requirements the run is measured against */
+  reference: boolean;
+  points: RunChartPoint[];
+}
+
+export type RunChartId = 'credits' | 'bet' | 'win-percent' | 'hand-count';
+
+export interface RunChart {
+  id: RunChartId;
+  title: string;
+  series: RunChartSeries[];
+}
+
+export interface RunChartMarker {
+  type: 'endless' | 'failure';
+  round: number;
+  label: string;
+}
+
+export interface RunChartData {
+  charts: RunChart[];
+  markers: RunChartMarker[];
+}
+
+function toSeries(
+  label: string,
+  history: RoundRecord[],
+  getValue: (record: RoundRecord) => number | null,
+  reference = false
+): RunChartSeries {
+  const points: RunChartPoint[] = [];
+  for (const record of history) {
+    const value = getValue(record);
+    if (value !== null) points.push({ round: record.round, value });
+  }
+  return { label, reference, points };
+}
+
+/**
+ * Charts of a finished run: credits, chosen versus minimum bet, win percentage versus the
+ * endless requirement, and hands played versus owned. Rounds missing from the history (e.g.
+ * played before it existed) are skipped.
+ * @param gameOverReason - How the run ended; any reason but walking away marks its last round
+ */
+export function getRunChartData(
+  history: RoundRecord[],
+  gameOverReason: GameOverReason | null
+): RunChartData {
+  const charts: RunChart[] = [
+    {
+      id: 'credits',
+      title: 'Credits',
+      series: [toSeries('Credits', history, (record) => record.creditsAfter)],
+    },
+    {
+      id: 'bet',
+      title: 'Bet',
+      series: [
+        toSeries('Chosen bet', history, (record) => record.betAmount),
+        toSeries('Minimum bet', history, (record) => record.minimumBet, true),
+      ],
+    },
+    {
+      id: 'win-percent',
+      title: 'Win %',
+      series: [
+        toSeries('Hands won', history, (record) =>
+          record.handCount > 0 ? (record.handsWon / record.handCount) * 100 : 0
+        ),
+        toSeries(
+          'Required',
+          history,
+          (record) => getMinimumWinPercentForRound(record.round),
+          true
+        ),
+      ],
+    },
+    {
+      id: 'hand-count',
+      title: 'Parallel hands',
+      series: [
+        toSeries('Played', history, (record) => record.handCount),
+        toSeries('Owned', history, (record) => record.availableHandCount, true),
+      ],
+    },
+  ];
+
+  const markers: RunChartMarker[] = [];
+  const endlessStartRound = getCurrentGameMode().endlessMode?.startRound;
+  const endlessRecord =
+    endlessStartRound != null
+      ? history.find((record) => record.round >= endlessStartRound)
+      : undefined;
+  if (endlessRecord) {
+    markers.push({ type: 'endless', round: endlessRecord.round, label: 'Endless mode' });
+  }
+  const lastRecord = history[history.length - 1];
+  if (lastRecord && gameOverReason && gameOverReason !== 'voluntary') {
+    markers.push({
+      type: 'failure',
+      round: lastRecord.round,
+      label: GAME_OVER_REASON_LABELS[gameOverReason],
+    });
+  }
+
+  return { charts, markers };
+}
+
+/** Horizontal position of a round, with a single round centred. */
+export function getChartX(
+  round: number,
+  firstRound: number,
+  lastRound: number,
+  width: number
+): number {
+  const roundSpan = lastRound - firstRound;
+  return roundSpan > 0 ? ((round - firstRound) / roundSpan) * width : width / 2;
+}
+
+/**
+ * SVG polyline points for a series, with rounds spread over the width and values from 0 up to
+ * maxValue over the height (y grows downwards).
+ */
+export function getChartPolylinePoints(
+  points: RunChartPoint[],
+  firstRound: number,
+  lastRound: number,
+  maxValue: number,
+  width: number,
+  height: number
+): string {
+  return points
+    .map(({ round, value }) => {
+      const x = getChartX(round, firstRound, lastRound, width);
+      const y = maxValue > 0 ? height - (value / maxValue) * height : height;
+      return `${Number(x.toFixed(2))},${Number(y.toFixed(2))}`;
+    })
+    .join(' ');
+}
@@ -0,0 +1,123 @@
+/**
+ * Persistent history of finished runs and lifetime statistics derived from it.
+ * A run is appended when it reaches the game over screen; the Stats screen reads it back.
+ */
+
+import { GameOverReason, GameState, RunPurchases } from '../types';
+import { isRunHistoryEntry } from './typeGuards';
+import { logger } from './logger';
+
+export const RUN_HISTORY_STORAGE_KEY = 'runHistory';
+
+/** Oldest runs are dropped past this many entries to keep storage bounded. */
+export const RUN_HISTORY_LIMIT = 500;
+
+export interface RunHistoryEntry {
+  /** Epoch milliseconds when the run ended. */
+  endedAt: number;
+  seed: number;
+  gameModeId: string;
+  /** Round reached, as shown on the game over screen. */
+  roundsSurvived: number;
+  peakCredits: number;
+  finalCredits: number;
+  totalEarnings: number;
+  runHighestCombo: number;
+  runHighestMultiplier: number;
+  gameOverReason: GameOverReason;
+  purchases: RunPurchases;
+}
+
+export interface LifetimeStats {
+  runsPlayed: number;
+  totalRoundsSurvived: number;
+  totalEarnings: number;
+  bestRoundsSurvived: number;
+  bestPeakCredits: number;
+  bestCombo: number;
+  bestMultiplier: number;
+  /** Shop purchases summed over all runs. */
+  totalPurchases: number;
+  /** How many runs ended for each reason. */
+  endReasons: Partial<Record<GameOverReason, number>>;
+}
+
+/** Builds the history entry for a run that just ended. */
+export function createRunHistoryEntry(state: GameState, endedAt: number): RunHistoryEntry {
+  return {
+    endedAt,
+    seed: state.runSeed,
+    gameModeId: state.gameModeId,
+    roundsSurvived: state.round,
+    peakCredits: Math.max(state.runPeakCredits, state.credits),
+    finalCredits: state.credits,
+    totalEarnings: state.totalEarnings,
+    runHighestCombo: state.runHighestCombo,
+    runHighestMultiplier: state.runHighestMultiplier,
+    gameOverReason: state.gameOverReason ?? 'voluntary',
+    purchases: { ...state.runPurchases },
+  };
+}
+
+/**
+ * Load run history, oldest first. Invalid entries are skipped.
+ */
+export function loadRunHistory(): RunHistoryEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(RUN_HISTORY_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isRunHistoryEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function appendRunHistory(entry: RunHistoryEntry): void {
+  const history = [...loadRunHistory(), entry].slice(-RUN_HISTORY_LIMIT);
+  try {
+    localStorage.setItem(RUN_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    logger.warn(`Failed to save run history: ${String(error)}`);
+  }
+}
+
+/**
+ * Best runs first: most rounds survived, then highest peak credits.
+ */
+export function getBestRuns(history: RunHistoryEntry[], count: number): RunHistoryEntry[] {
+  return [...history]
+    .sort((a, b) => b.roundsSurvived - a.roundsSurvived || b.peakCredits - a.peakCredits)
+    .slice(0, count);
+}
+
+export function calculateLifetimeStats(history: RunHistoryEntry[]): LifetimeStats {
+  const stats: LifetimeStats = {
+    runsPlayed: history.length,
+    totalRoundsSurvived: 0,
+    totalEarnings: 0,
+    bestRoundsSurvived: 0,
+    bestPeakCredits: 0,
+    bestCombo: 0,
+    bestMultiplier: 1,
+    totalPurchases: 0,
+    endReasons: {},
+  };
+
+  for (const run of history) {
+    stats.totalRoundsSurvived += run.roundsSurvived;
+    stats.totalEarnings += run.totalEarnings;
+    stats.bestRoundsSurvived = Math.max(stats.bestRoundsSurvived, run.roundsSurvived);
+    stats.bestPeakCredits = Math.max(stats.bestPeakCredits, run.peakCredits);
+    stats.bestCombo = Math.max(stats.bestCombo, run.runHighestCombo);
+    stats.bestMultiplier = Math.max(stats.bestMultiplier, run.runHighestMultiplier);
+    stats.totalPurchases += Object.values(run.purchases).reduce(
+      (sum, count) => sum + (count ?? 0),
+      0
+    );
+    stats.endReasons[run.gameOverReason] = (stats.endReasons[run.gameOverReason] ?? 0) + 1;
+  }
+
+  return stats;
+}
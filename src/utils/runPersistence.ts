@@ -0,0 +1,206 @@
+/**
+ * In-progress run persistence.
+ * The run is autosaved to localStorage at safe points (PreDraw, Shop, Results) so a refresh
+ * can resume it from the main menu. Player settings are not part of the save; they are
+ * stored separately and always come from the current session.
+ *
+ * Saves carry a schema version. When a GameState change alters what a save must contain,
+ * bump RUN_SAVE_VERSION and add a migration from the previous version to RUN_SAVE_MIGRATIONS.
+ */
+
+import { GameState } from '../types';
+import { isStoredRunState, StoredRunState } from './typeGuards';
+import { logger } from './logger';
+
+export const RUN_SAVE_STORAGE_KEY = 'runSave';
+
+/** Current save schema version. */
+export const RUN_SAVE_VERSION = 8;
+
+/** Versioned save envelope as written to storage. */
+export interface RunSave {
+  version: number;
+  /** Epoch milliseconds when the save was written. */
+  savedAt: number;
+  state: StoredRunState;
+}
+
+/** Upgrades a saved run state from one schema version to the next. */
+export type RunSaveMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from (entry N turns a version N save into N + 1).
+ */
+export const RUN_SAVE_MIGRATIONS: Record<number, RunSaveMigration> = {
+  // v2: run history fields. Peak credits before v2 are unknown; current credits is the best guess.
+  1: (state) => ({
+    ...state,
+    gameModeId: 'normalGame',
+    runPeakCredits: state.credits,
+    runPurchases: {},
+  }),
+  // v3: hand history. Rounds played before v3 weren't recorded.
+  2: (state) => ({ ...state, roundHistory: [], roundLog: null }),
+  // v4: round analytics. Best guesses for recorded rounds: the bet was the minimum, every hand
+  // owned was played and every hand above high card paid.
+  3: (state) => ({
+    ...state,
+    roundHistory: Array.isArray(state.roundHistory)
+      ? state.roundHistory.map((record: Record<string, unknown>) => {
+          const rankCounts = (record.rankCounts ?? {}) as Record<string, number>;
+          return {
+            ...record,
+            minimumBet: record.betAmount,
+            availableHandCount: record.handCount,
+            handsWon: Number(record.handCount) - (rankCounts['high-card'] ?? 0),
+          };
+        })
+      : state.roundHistory,
+  }),
+  // v5: strategy reviews. Rounds before v5 weren't reviewed.
+  4: (state) => ({
+    ...state,
+    roundHistory: Array.isArray(state.roundHistory)
+      ? state.roundHistory.map((record: Record<string, unknown>) => ({
+          ...record,
+          holdReview: null,
+        }))
+      : state.roundHistory,
+    roundLog:
+      state.roundLog !== null && typeof state.roundLog === 'object'
+        ? { ...state.roundLog, holdReview: null }
+        : state.roundLog,
+  }),
+  // v6: daily challenges. Runs before v6 were never daily challenge attempts.
+  5: (state) => ({ ...state, dailyChallengeDate: null }),
+  // v7: leaderboards. Cheats used before v7 weren't tracked.
+  6: (state) => ({ ...state, cheatsUsed: false }),
+  // v8: per-round generators. A run's random draws no longer leave a position to store.
+  7: (state) => {
+    const migrated = { ...state };
+    delete migrated.rngState;
+    return migrated;
+  },
+};
+
+/**
+ * Whether the run can be saved in this state.
+ * Mid-hand phases are skipped: resuming from the last PreDraw save re-deals the same hand
+ * from the run seed, so refreshing never rerolls a deal.
+ */
+export function isSafeSavePoint(state: GameState): boolean {
+  return (
+    state.screen === 'shop' ||
+    (state.screen === 'game' && (state.gamePhase === 'preDraw' || state.gamePhase === 'results'))
+  );
+}
+
+/** Strips player settings and transient flags from GameState. */
+export function toStoredRunState(state: GameState): StoredRunState {
+  const {
+    /* eslint-disable @typescript-eslint/no-unused-vars */
+    audioSettings,
+    animationSpeedMode,
+    cardTheme,
+    isGeneratingHands,
+    parallelHandsResult,
+    /* eslint-enable @typescript-eslint/no-unused-vars */
+    ...runState
+  } = state;
+  return runState;
+}
+
+/**
+ * Upgrade a parsed save envelope to the current version and validate it.
+ * Returns null for unknown versions, missing migrations or a state that fails the type guard.
+ */
+export function migrateRunSave(
+  value: unknown,
+  migrations: Record<number, RunSaveMigration> = RUN_SAVE_MIGRATIONS
+): RunSave | null {
+  if (value === null || typeof value !== 'object') {
+    return null;
+  }
+  const envelope = value as Record<string, unknown>;
+  const { version, savedAt, state } = envelope;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version > RUN_SAVE_VERSION ||
+    typeof savedAt !== 'number' ||
+    state === null ||
+    typeof state !== 'object'
+  ) {
+    return null;
+  }
+
+  let migrated = state as Record<string, unknown>;
+  for (let from = version; from < RUN_SAVE_VERSION; from++) {
+    const migrate = migrations[from];
+    if (!migrate) {
+      return null;
+    }
+    migrated = migrate(migrated);
+  }
+
+  if (!isStoredRunState(migrated)) {
+    return null;
+  }
+  return { version: RUN_SAVE_VERSION, savedAt, state: migrated };
+}
+
+/**
+ * Safely parse and validate a run save from JSON string.
+ * Returns null if invalid.
+ */
+export function parseRunSave(json: string | null): RunSave | null {
+  if (!json) return null;
+  try {
+    return migrateRunSave(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
+
+export function saveRun(state: GameState): void {
+  const save: RunSave = {
+    version: RUN_SAVE_VERSION,
+    savedAt: Date.now(),
+    state: toStoredRunState(state),
+  };
+  try {
+    localStorage.setItem(RUN_SAVE_STORAGE_KEY, JSON.stringify(save));
+  } catch (error) {
+    logger.warn(`Failed to save run: ${String(error)}`);
+  }
+}
+
+/**
+ * Load the saved run, if any. A save that cannot be migrated or fails validation is
+ * removed so the menu stops offering it.
+ */
+export function loadSavedRun(): RunSave | null {
+  if (typeof window === 'undefined') return null;
+  let stored: string | null;
+  try {
+    stored = localStorage.getItem(RUN_SAVE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+  if (!stored) return null;
+
+  const save = parseRunSave(stored);
+  if (!save) {
+    logger.warn('Discarding corrupt or incompatible run save');
+    clearSavedRun();
+  }
+  return save;
+}
+
+export function clearSavedRun(): void {
+  try {
+    localStorage.removeItem(RUN_SAVE_STORAGE_KEY);
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Run export/import for sharing a run between machines.
+ * A run travels either as a compact code (`ON9.<base64url JSON>.<checksum>`) or as a JSON file.
+ * Both carry the same versioned save envelope as runPersistence, so imports go through the same
+ * migrations and GameState validation as autosaves. The checksum catches edited or truncated
+ * payloads; it is an integrity check, not a signature. That is also why an imported run is
+ * unranked and no longer counts as a Daily Challenge.
+ */
+
+import { GameState } from '../types';
+import { isGameModeId } from '../config/gameConfig';
+import { RunSave, RUN_SAVE_VERSION, migrateRunSave, toStoredRunState } from './runPersistence';
+
+export const RUN_CODE_PREFIX = 'ON9';
+
+/** `format` marker in exported run files. */
+export const RUN_FILE_FORMAT = 'oubliette-run';
+
+export interface RunFile extends RunSave {
+  format: typeof RUN_FILE_FORMAT;
+  checksum: string;
+}
+
+export type RunImportResult = { ok: true; save: RunSave } | { ok: false; error: string };
+
+/** FNV-1a 32-bit hash as 8 hex characters. */
+export function computeChecksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+function createRunSave(state: GameState): RunSave {
+  return { version: RUN_SAVE_VERSION, savedAt: Date.now(), state: toStoredRunState(state) };
+}
+
+/** Validate a decoded envelope, migrating older versions. */
+function validateRunSave(value: unknown): RunImportResult {
+  const save = migrateRunSave(value);
+  if (!save) {
+    return { ok: false, error: 'This run is from an incompatible version or is not a valid run.' };
+  }
+  return { ok: true, save };
+}
+
+/**
+ * Encode the run as a compact code: deck modifications, purchases, streak and run seed included.
+ */
+export function encodeRunCode(state: GameState): string {
+  const json = JSON.stringify(createRunSave(state));
+  return `${RUN_CODE_PREFIX}.${toBase64Url(json)}.${computeChecksum(json)}`;
+}
+
+export function decodeRunCode(code: string): RunImportResult {
+  const parts = code.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== RUN_CODE_PREFIX) {
+    return { ok: false, error: 'This is not a run code.' };
+  }
+  const [, payload, checksum] = parts;
+
+  let json: string;
+  try {
+    json = fromBase64Url(payload);
+  } catch {
+    return { ok: false, error: 'The run code is damaged.' };
+  }
+  if (computeChecksum(json) !== checksum) {
+    return { ok: false, error: 'Checksum mismatch: the run code was modified or is incomplete.' };
+  }
+
+  try {
+    return validateRunSave(JSON.parse(json));
+  } catch {
+    return { ok: false, error: 'The run code is damaged.' };
+  }
+}
+
+/** Serialize the run as a JSON file body. */
+export function exportRunFile(state: GameState): string {
+  const save = createRunSave(state);
+  const file: RunFile = {
+    format: RUN_FILE_FORMAT,
+    ...save,
+    checksum: computeChecksum(JSON.stringify(save)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseRunFile(text: string): RunImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+  if (parsed === null || typeof parsed !== 'object') {
+    return { ok: false, error: 'This is not a run file.' };
+  }
+  const { format, checksum, version, savedAt, state } = parsed as Record<string, unknown>;
+  if (format !== RUN_FILE_FORMAT) {
+    return { ok: false, error: 'This is not a run file.' };
+  }
+  if (computeChecksum(JSON.stringify({ version, savedAt, state })) !== checksum) {
+    return { ok: false, error: 'Checksum mismatch: the run file was modified.' };
+  }
+  return validateRunSave({ version, savedAt, state });
+}
+
+/**
+ * Import either a run code or the contents of a run file. Runs from a mode this device doesn't
+ * have, such as another player's custom mode, are refused rather than played by other rules.
+ * The run comes back flagged as cheated and detached from its Daily Challenge.
+ */
+export function importRun(text: string): RunImportResult {
+  const result = text.trim().startsWith('{') ? parseRunFile(text) : decodeRunCode(text);
+  if (!result.ok) {
+    return result;
+  }
+  if (!isGameModeId(result.save.state.gameModeId)) {
+    return { ok: false, error: "This run was played in a custom mode that isn't on this device." };
+  }
+  const state = { ...result.save.state, cheatsUsed: true, dailyChallengeDate: null };
+  return { ok: true, save: { ...result.save, state } };
+}
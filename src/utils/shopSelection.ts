@@ -5,6 +5,7 @@
  */
 
 import { ShopOptionType } from '../types';
+import { RandomSource } from './rng';
 
 export type ShopSlotConfig = {
   maxRarity: number;
@@ -29,7 +30,8 @@ export type ShopRarityMode = {
  */
 function pickRarityForSlot(
   maxRarity: number,
-  rarityChances: readonly number[] | number[] | undefined
+  rarityChances: readonly number[] | number[] | undefined,
+  random: RandomSource
 ): number {
   const chances =
     rarityChances && rarityChances.length >= maxRarity
@@ -37,7 +39,7 @@ function pickRarityForSlot(
       : Array.from({ length: maxRarity }, () => 1 / maxRarity);
   const sum = chances.reduce((a, b) => a + b, 0);
   const normalized = sum > 0 ? chances.map((c) => c / sum) : chances;
-  const roll = Math.random();
+  const roll = random();
   let acc = 0;
   for (let r = 1; r <= maxRarity; r++) {
     acc += normalized[r - 1];
@@ -49,17 +51,21 @@ function pickRarityForSlot(
 /**
  * Uniform random pick from options. Returns one option or null if none.
  */
-function pickOne(options: ShopOptionType[]): ShopOptionType | null {
+function pickOne(options: ShopOptionType[], random: RandomSource): ShopOptionType | null {
   if (options.length === 0) return null;
-  return options[Math.floor(Math.random() * options.length)];
+  return options[Math.floor(random() * options.length)];
 }
 
 /**
  * Select shop options by rarity: for each slot, determine rarity from slot config,
  * then pick an item of that rarity (by weight). Prefers no duplicates; fills with
  * repeats so the shop always has exactly the configured number of items.
+ * Pass the run's random source so shop rolls are reproducible from the run seed.
  */
-export function selectShopOptionsByRarity(mode: ShopRarityMode): ShopOptionType[] {
+export function selectShopOptionsByRarity(
+  mode: ShopRarityMode,
+  random: RandomSource = Math.random
+): ShopOptionType[] {
   const slots = mode.shopSlots;
   const items = mode.shopItems;
 
@@ -79,7 +85,7 @@ export function selectShopOptionsByRarity(mode: ShopRarityMode): ShopOptionType[
   for (let i = 0; i < targetCount; i++) {
     const slot = slots[i % slots.length];
     const maxRarity = Math.min(4, Math.max(1, slot.maxRarity));
-    const rarity = pickRarityForSlot(maxRarity, slot.rarityChances);
+    const rarity = pickRarityForSlot(maxRarity, slot.rarityChances, random);
 
     const availableByRarity = optionKeys.filter(
       (key) => items[key]?.rarity === rarity && !selected.includes(key)
@@ -93,7 +99,7 @@ export function selectShopOptionsByRarity(mode: ShopRarityMode): ShopOptionType[
           ? availableAny
           : optionKeys;
 
-    const picked = pickOne(pool);
+    const picked = pickOne(pool, random);
     if (picked != null) {
       selected.push(picked);
     }
@@ -108,20 +114,21 @@ export function selectShopOptionsByRarity(mode: ShopRarityMode): ShopOptionType[
  */
 export function selectRandomShopOptions(
   weights: Record<string, number>,
-  count: number
+  count: number,
+  random: RandomSource = Math.random
 ): ShopOptionType[] {
   const availableOptions = Object.entries(weights) as [ShopOptionType, number][];
   const selected: ShopOptionType[] = [];
   let totalWeight = availableOptions.reduce((sum, [, weight]) => sum + weight, 0);
 
   while (selected.length < count && availableOptions.length > 0) {
-    let random = Math.random() * totalWeight;
+    let roll = random() * totalWeight;
 
     for (let i = 0; i < availableOptions.length; i++) {
       const [option, weight] = availableOptions[i];
-      random -= weight;
+      roll -= weight;
 
-      if (random <= 0) {
+      if (roll <= 0) {
         selected.push(option);
         totalWeight -= weight;
         availableOptions.splice(i, 1);
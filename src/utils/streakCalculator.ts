@@ -1,6 +1,7 @@
 import { gameConfig } from '../config/gameConfig';
-import { Hand, RewardTable } from '../types';
+import { Hand, HandScore, RewardTable } from '../types';
 import { PokerEvaluator } from './pokerEvaluator';
+import { LookupEvaluator } from './lookupEvaluator';
 
 export interface StreakMultiplierConfig {
   enabled: boolean;
@@ -19,6 +20,7 @@ export interface RoundRankSummary {
 
 export interface RoundComboSummary {
   comboProgression: number[];
+  handPayouts: number[];
   handsPlayed: number;
   handsWon: number;
   highestCombo: number;
@@ -189,12 +191,44 @@ export function getStreakProgress(
   return (progressInTier / tierRange) * 100;
 }
 
+/**
+ * Rank and reward multiplier of one parallel hand
+ *
+ * @param minimumPairRank - Lowest paying pair; defaults to the active game mode's
+ */
+export function scoreParallelHand(
+  hand: Hand,
+  rewardTable: RewardTable,
+  minimumPairRank?: number
+): HandScore {
+  const result = LookupEvaluator.evaluate(hand.cards, minimumPairRank);
+  const { multiplier } = PokerEvaluator.applyRewards(result, rewardTable, minimumPairRank);
+  return { rank: result.rank, multiplier };
+}
+
 export function summarizeRoundCombos(
   parallelHands: Hand[],
   rewardTable: RewardTable,
   betAmount: number,
   initialStreak = 0,
   config: StreakMultiplierConfig = gameConfig.streakMultiplier
+): RoundComboSummary {
+  return summarizeScoredHands(
+    parallelHands.map((hand) => scoreParallelHand(hand, rewardTable)),
+    betAmount,
+    initialStreak,
+    config
+  );
+}
+
+/**
+ * Round summary from already scored hands, in play order
+ */
+export function summarizeScoredHands(
+  scores: HandScore[],
+  betAmount: number,
+  initialStreak = 0,
+  config: StreakMultiplierConfig = gameConfig.streakMultiplier
 ): RoundComboSummary {
   const rankMap = new Map<string, RoundRankSummary>();
   const streakMultipliers: number[] = [];
@@ -205,12 +239,9 @@ export function summarizeRoundCombos(
   let highestMultiplier = calculateStreakMultiplier(initialStreak, config);
   let streak = initialStreak;
 
-  for (let index = 0; index < parallelHands.length; index += 1) {
-    const hand = parallelHands[index];
-    const result = PokerEvaluator.evaluate(hand.cards);
-    const withRewards = PokerEvaluator.applyRewards(result, rewardTable);
+  for (const result of scores) {
     const streakMultiplier = calculateStreakMultiplier(streak, config);
-    const handPayout = Math.round(betAmount * withRewards.multiplier * streakMultiplier);
+    const handPayout = Math.round(betAmount * result.multiplier * streakMultiplier);
 
     streakMultipliers.push(streakMultiplier);
     payouts.push(handPayout);
@@ -231,16 +262,17 @@ export function summarizeRoundCombos(
       });
     }
 
-    streak = withRewards.multiplier > 0 ? streak + 1 : Math.max(0, streak - 1);
+    streak = result.multiplier > 0 ? streak + 1 : Math.max(0, streak - 1);
     comboProgression.push(streak);
     highestCombo = Math.max(highestCombo, streak);
     highestMultiplier = Math.max(highestMultiplier, streakMultiplier);
   }
 
-  const handsPlayed = parallelHands.length;
+  const handsPlayed = scores.length;
 
   return {
     comboProgression,
+    handPayouts: payouts,
     handsPlayed,
     handsWon,
     highestCombo,
@@ -0,0 +1,53 @@
+/**
+ * First-time tips: which tips a game state change triggers, and which tips the player has
+ * already seen. Seen tips are stored so each tip is only ever shown once.
+ */
+
+import { GameState } from '../types';
+import { Tip, TipId, TIPS } from '../config/tipsConfig';
+import { logger } from './logger';
+
+export const SEEN_TIPS_STORAGE_KEY = 'seenTips';
+
+function isTipId(value: unknown): value is TipId {
+  return TIPS.some((tip) => tip.id === value);
+}
+
+/**
+ * Tips the change from prev to next triggers that the player has not seen yet. Only changes
+ * within a run count, so starting or continuing a run from the menu triggers nothing.
+ */
+export function getTriggeredTips(prev: GameState, next: GameState, seen: TipId[]): Tip[] {
+  if (prev.screen !== 'game' || next.screen !== 'game') {
+    return [];
+  }
+  return TIPS.filter((tip) => !seen.includes(tip.id) && tip.isTriggered(prev, next));
+}
+
+/**
+ * Load the ids of the tips the player has seen. Unknown ids are skipped.
+ */
+export function loadSeenTips(): TipId[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(SEEN_TIPS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isTipId) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Record a tip as seen; returns every seen tip. */
+export function markTipSeen(id: TipId): TipId[] {
+  const seen = loadSeenTips();
+  if (seen.includes(id)) return seen;
+  const updated = [...seen, id];
+  try {
+    localStorage.setItem(SEEN_TIPS_STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    logger.warn(`Failed to save seen tips: ${String(error)}`);
+  }
+  return updated;
+}
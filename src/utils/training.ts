@@ -0,0 +1,343 @@
+/**
+ * Training drills: hands dealt for practising holds, with no credits, bets or rounds.
+ * A drill table is an ordinary GameState, so holds follow GameEngine.toggleHold and the hand is
+ * shown on the GameTable. A submitted hold is graded against the hold advisor's best hold, and
+ * graded hands are kept in localStorage so accuracy can be followed over time.
+ */
+
+import { getCurrentGameMode } from '../config/gameConfig';
+import { Card, DeckModifications, GameState, HandRank, HoldReview, Rank } from '../types';
+import { createFullDeck, shuffleDeck } from './deck';
+import { GameEngine } from './gameEngine';
+import { getExpectedCreditsLost, reviewHoldChoice } from './holdReview';
+import { logger } from './logger';
+import { PokerEvaluator } from './pokerEvaluator';
+import { createRoundRng, RandomSource } from './rng';
+import { isTrainingAttempt } from './typeGuards';
+
+export const TRAINING_HISTORY_STORAGE_KEY = 'trainingHistory';
+
+/** Oldest attempts are dropped past this many entries to keep storage bounded. */
+export const TRAINING_HISTORY_LIMIT = 1000;
+
+/** Attempts counted by the recent accuracy figure. */
+export const RECENT_TRAINING_ATTEMPTS = 20;
+
+/** Most dead cards a drill deck can be given. */
+export const TRAINING_MAX_DEAD_CARDS = 5;
+
+/** Deals tried for a hand matching the focus before settling for the last one dealt. */
+const MAX_DEAL_ATTEMPTS = 500;
+
+export type TrainingFocus =
+  | 'any'
+  | 'flush-draw-vs-low-pair'
+  | 'low-pair'
+  | 'four-to-a-flush'
+  | 'four-to-a-straight'
+  | 'paying-hand'
+  | 'nothing';
+
+export interface TrainingFocusOption {
+  id: TrainingFocus;
+  label: string;
+  description: string;
+}
+
+export const TRAINING_FOCUSES: TrainingFocusOption[] = [
+  { id: 'any', label: 'Any hand', description: 'Hands as they come.' },
+  {
+    id: 'flush-draw-vs-low-pair',
+    label: 'Flush draw vs low pair',
+    description: 'Four to a flush alongside a pair too low to pay.',
+  },
+  { id: 'low-pair', label: 'Low pairs', description: 'A pair too low to pay on its own.' },
+  { id: 'four-to-a-flush', label: 'Flush draws', description: 'Four cards of one suit.' },
+  {
+    id: 'four-to-a-straight',
+    label: 'Straight draws',
+    description: 'Four cards of a straight, open-ended or inside.',
+  },
+  {
+    id: 'paying-hand',
+    label: 'Paying hands',
+    description: 'Already pays. Keep it or break it for something bigger?',
+  },
+  {
+    id: 'nothing',
+    label: 'Nothing dealt',
+    description: 'No pair or draw. Which high cards are worth keeping?',
+  },
+];
+
+export interface TrainingSettings {
+  focus: TrainingFocus;
+  wildCards: number;
+  deadCards: number;
+  /** Cards dealt beyond five, as bought with Extra Card in Hand (6–8 card hands) */
+  extraCardsInHand: number;
+}
+
+export const DEFAULT_TRAINING_SETTINGS: TrainingSettings = {
+  focus: 'any',
+  wildCards: 0,
+  deadCards: 0,
+  extraCardsInHand: 0,
+};
+
+/** What a dealt hand offers, as the drill focuses see it. */
+export interface TrainingHandFeatures {
+  /** Best made hand among any five of the cards, at the game mode's qualifying pair */
+  madeRank: HandRank;
+  /** A pair too low to pay, and nothing better made */
+  lowPair: boolean;
+  /** Four cards of one suit (wild cards included) short of a made straight or better */
+  fourToAFlush: boolean;
+  /** Four cards of a straight (wild cards included) short of a made straight or better */
+  fourToAStraight: boolean;
+}
+
+/** One graded drill hand. */
+export interface TrainingAttempt {
+  /** Epoch milliseconds when the hold was graded. */
+  playedAt: number;
+  focus: TrainingFocus;
+  handSize: number;
+  wildCards: number;
+  deadCards: number;
+  /** Whether the hold was the best hold (or tied with it) */
+  bestHold: boolean;
+  /** Expected return per credit bet given up against the best hold */
+  expectedReturnLost: number;
+}
+
+export interface TrainingAccuracy {
+  attempts: number;
+  bestHolds: number;
+  expectedReturnLost: number;
+}
+
+const STRAIGHT_OR_BETTER = new Set<HandRank>([
+  'royal-flush',
+  'straight-flush',
+  'five-of-a-kind',
+  'four-of-a-kind',
+  'full-house',
+  'flush',
+  'straight',
+]);
+
+/** Ranks in straight order, the ace at both ends for the wheel. */
+const STRAIGHT_RANKS = 'A 2 3 4 5 6 7 8 9 10 J Q K A'.split(' ') as Rank[];
+
+const FOCUS_MATCHERS: Record<TrainingFocus, (features: TrainingHandFeatures) => boolean> = {
+  any: () => true,
+  'flush-draw-vs-low-pair': ({ fourToAFlush, lowPair }) => fourToAFlush && lowPair,
+  'low-pair': ({ lowPair }) => lowPair,
+  'four-to-a-flush': ({ fourToAFlush }) => fourToAFlush,
+  'four-to-a-straight': ({ fourToAFlush, fourToAStraight }) => fourToAStraight && !fourToAFlush,
+  'paying-hand': ({ madeRank }) => madeRank !== 'high-card',
+  nothing: ({ madeRank, lowPair, fourToAFlush, fourToAStraight }) =>
+    madeRank === 'high-card' && !lowPair && !fourToAFlush && !fourToAStraight,
+};
+
+/** Every 5-card selection from the hand. */
+function getFiveCardHands(hand: Card[]): Card[][] {
+  const hands: Card[][] = [];
+  const extend = (picked: Card[], from: number) => {
+    if (picked.length === 5) {
+      hands.push(picked);
+      return;
+    }
+    for (let i = from; i < hand.length; i++) extend([...picked, hand[i]], i + 1);
+  };
+  extend([], 0);
+  return hands;
+}
+
+/** Sorts a hand into the drill focuses; 6–8 card hands are judged by their best five cards. */
+export function getTrainingHandFeatures(
+  hand: Card[],
+  minimumPairRank: number = getCurrentGameMode().minimumPairRank
+): TrainingHandFeatures {
+  const fiveCardHands = getFiveCardHands(hand);
+  const best = (pairRank: number) =>
+    fiveCardHands
+      .map((cards) => PokerEvaluator.evaluate(cards, pairRank))
+      .reduce((a, b) => (b.score > a.score ? b : a));
+  const madeRank = best(minimumPairRank).rank;
+  const isDrawing = !STRAIGHT_OR_BETTER.has(madeRank);
+
+  const liveCards = hand.filter((card) => !card.isDead && !card.isWild);
+  const wildCount = hand.filter((card) => card.isWild && !card.isDead).length;
+  const suitCounts = new Map<Card['suit'], number>();
+  for (const card of liveCards) {
+    suitCounts.set(card.suit, (suitCounts.get(card.suit) ?? 0) + 1);
+  }
+  const ranks = new Set(liveCards.map((card) => card.rank));
+  const hasStraightDraw = STRAIGHT_RANKS.slice(0, -4).some((_, start) => {
+    const window = new Set(STRAIGHT_RANKS.slice(start, start + 5));
+    return [...ranks].filter((rank) => window.has(rank)).length + wildCount >= 4;
+  });
+
+  return {
+    madeRank,
+    lowPair: madeRank === 'high-card' && best(2).rank === 'one-pair',
+    fourToAFlush: isDrawing && Math.max(0, ...suitCounts.values()) + wildCount >= 4,
+    fourToAStraight: isDrawing && hasStraightDraw,
+  };
+}
+
+export function matchesTrainingFocus(hand: Card[], focus: TrainingFocus): boolean {
+  return focus === 'any' || FOCUS_MATCHERS[focus](getTrainingHandFeatures(hand));
+}
+
+/** The drill deck's wild and dead cards; dead cards get random ranks and suits. */
+export function createTrainingDeckModifications(
+  settings: TrainingSettings,
+  random: RandomSource
+): DeckModifications {
+  const deck = shuffleDeck(createFullDeck(), random);
+  return {
+    deadCards: deck.slice(0, settings.deadCards).map((card, i) => ({
+      suit: card.suit,
+      rank: card.rank,
+      id: `dead-${i}`,
+      isDead: true,
+    })),
+    wildCards: Array.from({ length: settings.wildCards }, (_, i): Card => ({
+      suit: 'hearts',
+      rank: 'A',
+      id: `wild-${i}`,
+      isWild: true,
+    })),
+    removedCards: [],
+    deadCardRemovalCount: 0,
+  };
+}
+
+/**
+ * An empty drill table in the current game mode. Every drill hand is priced as one hand at a
+ * bet of 1, so expected returns read as multiples of the bet.
+ */
+export function createTrainingTable(seed: number): GameState {
+  return {
+    ...GameEngine.createInitialState(),
+    runSeed: seed,
+    betAmount: 1,
+    selectedHandCount: 1,
+  };
+}
+
+/**
+ * Deal the next drill hand: shuffles the drill deck until a hand matches the focus (or the
+ * attempts run out) and sets it on the table with no cards held. Each drill is dealt as the
+ * table's next round, so every drill draws from a fresh generator.
+ */
+export function dealTrainingHand(prev: GameState, settings: TrainingSettings): GameState {
+  const rng = createRoundRng(prev.runSeed, 'deal', prev.round);
+  const deckModifications = createTrainingDeckModifications(settings, rng.next);
+  const deck = createFullDeck(deckModifications.deadCards, [], deckModifications.wildCards);
+  const handSize = 5 + settings.extraCardsInHand;
+
+  let hand = shuffleDeck(deck, rng.next).slice(0, handSize);
+  for (let attempt = 1; attempt < MAX_DEAL_ATTEMPTS; attempt++) {
+    if (matchesTrainingFocus(hand, settings.focus)) break;
+    hand = shuffleDeck(deck, rng.next).slice(0, handSize);
+  }
+
+  return {
+    ...prev,
+    gamePhase: 'playing',
+    playerHand: hand,
+    heldIndices: [],
+    parallelHands: [],
+    deckModifications,
+    wildCardCount: settings.wildCards,
+    extraCardsInHand: settings.extraCardsInHand,
+    round: prev.round + 1,
+  };
+}
+
+/**
+ * Grade the hold on a drill table. Null when the hold isn't one the advisor rates (fewer than
+ * 5 cards kept from a 6–8 card hand).
+ */
+export function gradeTrainingHold(table: GameState): HoldReview | null {
+  return reviewHoldChoice(
+    {
+      playerHand: table.playerHand,
+      deckModifications: table.deckModifications,
+      rewardTable: table.rewardTable,
+      betAmount: table.betAmount,
+      selectedHandCount: table.selectedHandCount,
+    },
+    table.heldIndices
+  );
+}
+
+export function createTrainingAttempt(
+  settings: TrainingSettings,
+  review: HoldReview,
+  playedAt: number
+): TrainingAttempt {
+  const expectedReturnLost = getExpectedCreditsLost(review);
+  return {
+    playedAt,
+    focus: settings.focus,
+    handSize: 5 + settings.extraCardsInHand,
+    wildCards: settings.wildCards,
+    deadCards: settings.deadCards,
+    bestHold: expectedReturnLost === 0,
+    expectedReturnLost,
+  };
+}
+
+/**
+ * Load graded drill hands, oldest first. Invalid entries are skipped.
+ */
+export function loadTrainingHistory(): TrainingAttempt[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(TRAINING_HISTORY_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isTrainingAttempt) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function appendTrainingHistory(attempt: TrainingAttempt): TrainingAttempt[] {
+  const history = [...loadTrainingHistory(), attempt].slice(-TRAINING_HISTORY_LIMIT);
+  try {
+    localStorage.setItem(TRAINING_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    logger.warn(`Failed to save training history: ${String(error)}`);
+  }
+  return history;
+}
+
+export function calculateTrainingAccuracy(attempts: TrainingAttempt[]): TrainingAccuracy {
+  return attempts.reduce<TrainingAccuracy>(
+    (accuracy, attempt) => ({
+      attempts: accuracy.attempts + 1,
+      bestHolds: accuracy.bestHolds + (attempt.bestHold ? 1 : 0),
+      expectedReturnLost: accuracy.expectedReturnLost + attempt.expectedReturnLost,
+    }),
+    { attempts: 0, bestHolds: 0, expectedReturnLost: 0 }
+  );
+}
+
+/** Accuracy per drill focus, for the focuses that have been practised. */
+export function getTrainingAccuracyByFocus(
+  history: TrainingAttempt[]
+): Partial<Record<TrainingFocus, TrainingAccuracy>> {
+  const byFocus: Partial<Record<TrainingFocus, TrainingAttempt[]>> = {};
+  for (const attempt of history) {
+    byFocus[attempt.focus] = [...(byFocus[attempt.focus] ?? []), attempt];
+  }
+  return Object.fromEntries(
+    Object.entries(byFocus).map(([focus, attempts]) => [focus, calculateTrainingAccuracy(attempts)])
+  );
+}
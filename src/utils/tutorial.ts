@@ -0,0 +1,85 @@
+/**
+ * Script of the playable tutorial: a seeded run on the real game screens whose deals, Devil's
+ * Deal offers and shop are replaced by the scripted ones in config/tutorialConfig. Everything
+ * else (payouts, the multiplier, prices) follows the normal game rules.
+ */
+
+import { GameState, ShopOptionType } from '../types';
+import { TUTORIAL_DEALS } from '../config/tutorialConfig';
+import { findDeckCard } from './deck';
+import { GameEngine } from './gameEngine';
+import { applyShopCostMultiplier, calculateWildCardCost } from './config';
+import { logger } from './logger';
+
+export const TUTORIAL_COMPLETED_STORAGE_KEY = 'tutorialCompleted';
+
+/** Seed of the tutorial run; the draws after the scripted deals come from it. */
+export const TUTORIAL_SEED = 9;
+
+/** What the shop sells after a round scripted to open it. */
+export const TUTORIAL_SHOP_OPTIONS: ShopOptionType[] = ['wild-card'];
+
+/** Start the tutorial run in place of any run in progress. */
+export function startTutorialRun(prev: GameState): GameState {
+  return GameEngine.startNewRun(prev, TUTORIAL_SEED);
+}
+
+/**
+ * Deal the round's scripted hand and Devil's Deal offer. Rounds past the script are dealt
+ * normally.
+ */
+export function dealTutorialHand(prev: GameState): GameState {
+  const deal = TUTORIAL_DEALS[prev.round - 1];
+  if (!deal) {
+    return GameEngine.dealHand(prev);
+  }
+
+  const dealt = GameEngine.dealFixedHand(prev, deal.hand.map(findDeckCard));
+  return deal.devilsDealCard && dealt !== prev
+    ? GameEngine.offerDevilsDeal(dealt, findDeckCard(deal.devilsDealCard))
+    : dealt;
+}
+
+/**
+ * Finish a tutorial round. After a round scripted to open the shop, the shop sells a wild card
+ * and the player is given whatever credits they are short of buying it and playing on.
+ */
+export function returnToTutorialPreDraw(prev: GameState, payout: number = 0): GameState {
+  const next = GameEngine.returnToPreDraw(prev, payout);
+  if (!TUTORIAL_DEALS[prev.round - 1]?.openShopAfter || next.gameOver) {
+    return next;
+  }
+
+  const wildCardCost = applyShopCostMultiplier(
+    calculateWildCardCost(next.wildCardCount),
+    next.credits
+  );
+  const credits = Math.max(next.credits, wildCardCost + next.betAmount * next.selectedHandCount);
+  return {
+    ...next,
+    credits,
+    runPeakCredits: Math.max(next.runPeakCredits, credits),
+    showShopNextRound: true,
+    selectedShopOptions: TUTORIAL_SHOP_OPTIONS,
+    creditsAtShopOpen: next.credits,
+    prevRoundMinimumBet: prev.minimumBet,
+    shopDisplayBetAmount: prev.betAmount,
+  };
+}
+
+export function isTutorialCompleted(): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return localStorage.getItem(TUTORIAL_COMPLETED_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setTutorialCompleted(): void {
+  try {
+    localStorage.setItem(TUTORIAL_COMPLETED_STORAGE_KEY, 'true');
+  } catch (error) {
+    logger.warn(`Failed to save tutorial completion: ${String(error)}`);
+  }
+}
@@ -3,6 +3,32 @@
  * Use these when parsing JSON or reading from storage to validate shape before use.
  */
 
+import type {
+  Card,
+  DeckModifications,
+  FailureStateType,
+  GameOverReason,
+  GamePhase,
+  GameScreen,
+  GameState,
+  Hand,
+  HoldReview,
+  Rank,
+  RewardTable,
+  RoundDevilsDeal,
+  RoundDraw,
+  RoundLog,
+  RoundRecord,
+  RunPurchases,
+  ShopOptionType,
+  Suit,
+} from '../types';
+import type { DailyChallengeEntry } from './dailyChallenge';
+import type { LeaderboardEntry } from './leaderboards';
+import type { ParallelHandsJob } from './parallelHandsRound';
+import type { RunHistoryEntry } from './runHistory';
+import type { TrainingAttempt, TrainingFocus } from './training';
+
 /** Expected shape for audio settings from localStorage */
 export interface StoredAudioSettings {
   musicEnabled?: boolean;
@@ -83,3 +109,399 @@ export function parseAnimationSettings(json: string | null): StoredAnimationSett
     return null;
   }
 }
+
+/**
+ * Run state as stored in a save: GameState minus player settings (stored separately above)
+ * and the transient hand-generation state.
+ */
+export type StoredRunState = Omit<
+  GameState,
+  | 'audioSettings'
+  | 'animationSpeedMode'
+  | 'cardTheme'
+  | 'isGeneratingHands'
+  | 'parallelHandsResult'
+>;
+
+const SUITS: readonly Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+const RANKS: readonly Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+const GAME_SCREENS: readonly GameScreen[] = [
+  'menu',
+  'game',
+  'shop',
+  'parallelHandsAnimation',
+  'gameOver',
+  'credits',
+  'rules',
+];
+const GAME_PHASES: readonly GamePhase[] = [
+  'preDraw',
+  'playing',
+  'parallelHandsAnimation',
+  'results',
+];
+const FAILURE_STATES: readonly Exclude<FailureStateType, null>[] = [
+  'minimum-bet-multiplier',
+  'minimum-credit-efficiency',
+  'minimum-winning-hands',
+  'minimum-win-percent',
+];
+const GAME_OVER_REASONS: readonly GameOverReason[] = [
+  'voluntary',
+  'insufficient-credits',
+  ...FAILURE_STATES,
+];
+const TRAINING_FOCUSES: readonly TrainingFocus[] = [
+  'any',
+  'flush-draw-vs-low-pair',
+  'low-pair',
+  'four-to-a-flush',
+  'four-to-a-straight',
+  'paying-hand',
+  'nothing',
+];
+const SHOP_OPTION_TYPES: readonly ShopOptionType[] = [
+  'parallel-hands-bundle-5',
+  'parallel-hands-bundle-10',
+  'parallel-hands-bundle-25',
+  'parallel-hands-bundle-50',
+  'parallel-hands-bundle-100',
+  'parallel-hands-bundle-250',
+  'parallel-hands-bundle-500',
+  'parallel-hands-bundle-1000',
+  'dead-card',
+  'wild-card',
+  'extra-draw',
+  'remove-single-dead-card',
+  'remove-all-dead-cards',
+  'devils-deal-chance',
+  'devils-deal-cost-reduction',
+  'extra-card-in-hand',
+];
+
+function isOneOf<T>(options: readonly T[], value: unknown): value is T {
+  return options.includes(value as T);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isArrayOf<T>(value: unknown, guard: (item: unknown) => item is T): value is T[] {
+  return Array.isArray(value) && value.every(guard);
+}
+
+/** Type guard for a single card. */
+export function isCard(value: unknown): value is Card {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    isOneOf(SUITS, obj.suit) &&
+    isOneOf(RANKS, obj.rank) &&
+    typeof obj.id === 'string' &&
+    (obj.isWild === undefined || typeof obj.isWild === 'boolean') &&
+    (obj.isDead === undefined || typeof obj.isDead === 'boolean')
+  );
+}
+
+/** Type guard for a parallel hand. */
+export function isHand(value: unknown): value is Hand {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return typeof obj.id === 'string' && isArrayOf(obj.cards, isCard);
+}
+
+function isDeckModifications(value: unknown): value is DeckModifications {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    isArrayOf(obj.deadCards, isCard) &&
+    isArrayOf(obj.wildCards, isCard) &&
+    isArrayOf(obj.removedCards, isCard) &&
+    isFiniteNumber(obj.deadCardRemovalCount)
+  );
+}
+
+function isRewardTable(value: unknown): value is RewardTable {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  return Object.values(value).every(isFiniteNumber);
+}
+
+function isParallelHandsJob(value: unknown): value is ParallelHandsJob {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    isArrayOf(obj.baseHand, isCard) &&
+    isArrayOf(obj.heldIndices, isFiniteNumber) &&
+    isFiniteNumber(obj.handCount) &&
+    isDeckModifications(obj.deckModifications) &&
+    isFiniteNumber(obj.rngState) &&
+    isRewardTable(obj.rewardTable) &&
+    isFiniteNumber(obj.betAmount) &&
+    isFiniteNumber(obj.initialStreak) &&
+    isFiniteNumber(obj.minimumPairRank)
+  );
+}
+
+function isRoundDraw(value: unknown): value is RoundDraw {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return isArrayOf(obj.heldIndices, isFiniteNumber) && isArrayOf(obj.hand, isCard);
+}
+
+function isHoldReview(value: unknown): value is HoldReview {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    isArrayOf(obj.heldIndices, isFiniteNumber) &&
+    isArrayOf(obj.bestHeldIndices, isFiniteNumber) &&
+    isFiniteNumber(obj.expectedReturn) &&
+    isFiniteNumber(obj.bestExpectedReturn)
+  );
+}
+
+/** Type guard for the log of the round being played. */
+export function isRoundLog(value: unknown): value is RoundLog {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(obj.creditsBefore) &&
+    isArrayOf(obj.dealtHand, isCard) &&
+    isArrayOf(obj.draws, isRoundDraw) &&
+    (obj.parallelHandsJob === null || isParallelHandsJob(obj.parallelHandsJob)) &&
+    (obj.holdReview === null || isHoldReview(obj.holdReview))
+  );
+}
+
+const ROUND_RECORD_NUMBER_FIELDS: readonly (keyof RoundRecord)[] = [
+  'round',
+  'betAmount',
+  'minimumBet',
+  'handCount',
+  'availableHandCount',
+  'handsWon',
+  'payout',
+  'highestCombo',
+  'highestMultiplier',
+  'creditsAfter',
+];
+
+function isRoundDevilsDeal(value: unknown): value is RoundDevilsDeal {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return isCard(obj.card) && isFiniteNumber(obj.cost) && typeof obj.taken === 'boolean';
+}
+
+/** Type guard for a finished round in hand history. */
+export function isRoundRecord(value: unknown): value is RoundRecord {
+  if (!isRoundLog(value)) {
+    return false;
+  }
+  const obj = value as unknown as Record<string, unknown>;
+  return (
+    ROUND_RECORD_NUMBER_FIELDS.every((field) => isFiniteNumber(obj[field])) &&
+    isRewardTable(obj.rankCounts) &&
+    (obj.devilsDeal === null || isRoundDevilsDeal(obj.devilsDeal))
+  );
+}
+
+/** Type guard for a shop item id, e.g. a key of a shopItems config. */
+export function isShopOptionType(value: unknown): value is ShopOptionType {
+  return isOneOf(SHOP_OPTION_TYPES, value);
+}
+
+/** Type guard for per-run shop purchase counts. */
+export function isRunPurchases(value: unknown): value is RunPurchases {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(value).every(
+    ([option, count]) => isOneOf(SHOP_OPTION_TYPES, option) && isFiniteNumber(count)
+  );
+}
+
+const NUMBER_FIELDS: readonly (keyof StoredRunState)[] = [
+  'handCount',
+  'credits',
+  'currentRun',
+  'runSeed',
+  'additionalHandsBought',
+  'betAmount',
+  'selectedHandCount',
+  'minimumBet',
+  'baseMinimumBet',
+  'round',
+  'totalEarnings',
+  'maxDraws',
+  'drawsCompletedThisRound',
+  'wildCardCount',
+  'winningHandsLastRound',
+  'devilsDealCost',
+  'devilsDealChancePurchases',
+  'devilsDealCostReductionPurchases',
+  'extraCardsInHand',
+  'streakCounter',
+  'currentStreakMultiplier',
+  'runHighestCombo',
+  'runHighestMultiplier',
+  'runPeakCredits',
+];
+
+const BOOLEAN_FIELDS: readonly (keyof StoredRunState)[] = [
+  'extraDrawPurchased',
+  'gameOver',
+  'showShopNextRound',
+  'isEndlessMode',
+  'devilsDealHeld',
+  'cheatsUsed',
+];
+
+const NULLABLE_NUMBER_FIELDS: readonly (keyof StoredRunState)[] = [
+  'creditsAtShopOpen',
+  'prevRoundMinimumBet',
+  'shopDisplayBetAmount',
+];
+
+/**
+ * Type guard for a saved run.
+ * Checks every GameState field a run depends on so a corrupt or hand-edited save is rejected
+ * instead of crashing a screen later.
+ */
+export function isStoredRunState(value: unknown): value is StoredRunState {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  if (!NUMBER_FIELDS.every((field) => isFiniteNumber(obj[field]))) {
+    return false;
+  }
+  if (!BOOLEAN_FIELDS.every((field) => typeof obj[field] === 'boolean')) {
+    return false;
+  }
+  const isNullableNumber = (field: keyof StoredRunState) =>
+    obj[field] === null || isFiniteNumber(obj[field]);
+  if (!NULLABLE_NUMBER_FIELDS.every(isNullableNumber)) {
+    return false;
+  }
+  return (
+    isOneOf(GAME_SCREENS, obj.screen) &&
+    isOneOf(GAME_PHASES, obj.gamePhase) &&
+    isArrayOf(obj.playerHand, isCard) &&
+    isArrayOf(obj.heldIndices, isFiniteNumber) &&
+    isArrayOf(obj.parallelHands, isHand) &&
+    isRewardTable(obj.rewardTable) &&
+    typeof obj.gameModeId === 'string' &&
+    (obj.dailyChallengeDate === null || typeof obj.dailyChallengeDate === 'string') &&
+    isRunPurchases(obj.runPurchases) &&
+    isDeckModifications(obj.deckModifications) &&
+    (obj.gameOverReason === null || isOneOf(GAME_OVER_REASONS, obj.gameOverReason)) &&
+    (obj.currentFailureState === null || isOneOf(FAILURE_STATES, obj.currentFailureState)) &&
+    isArrayOf(obj.selectedShopOptions, (option): option is ShopOptionType =>
+      isOneOf(SHOP_OPTION_TYPES, option)
+    ) &&
+    (obj.devilsDealCard === null || isCard(obj.devilsDealCard)) &&
+    isArrayOf(obj.roundHistory, isRoundRecord) &&
+    (obj.roundLog === null || isRoundLog(obj.roundLog))
+  );
+}
+
+/** Type guard for a played day in the daily challenge calendar. */
+export function isDailyChallengeEntry(value: unknown): value is DailyChallengeEntry {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(obj.date)) {
+    return false;
+  }
+  if (obj.result === null) {
+    return true;
+  }
+  if (typeof obj.result !== 'object') {
+    return false;
+  }
+  const result = obj.result as Record<string, unknown>;
+  return (
+    isFiniteNumber(result.roundsSurvived) &&
+    isFiniteNumber(result.peakCredits) &&
+    isFiniteNumber(result.finalCredits) &&
+    isFiniteNumber(result.totalEarnings) &&
+    isOneOf(GAME_OVER_REASONS, result.gameOverReason)
+  );
+}
+
+/** Type guard for a finished-run entry in run history. */
+export function isRunHistoryEntry(value: unknown): value is RunHistoryEntry {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(obj.endedAt) &&
+    isFiniteNumber(obj.seed) &&
+    typeof obj.gameModeId === 'string' &&
+    isFiniteNumber(obj.roundsSurvived) &&
+    isFiniteNumber(obj.peakCredits) &&
+    isFiniteNumber(obj.finalCredits) &&
+    isFiniteNumber(obj.totalEarnings) &&
+    isFiniteNumber(obj.runHighestCombo) &&
+    isFiniteNumber(obj.runHighestMultiplier) &&
+    isOneOf(GAME_OVER_REASONS, obj.gameOverReason) &&
+    isRunPurchases(obj.purchases)
+  );
+}
+
+/** Type guard for a run recorded on the leaderboards. */
+export function isLeaderboardEntry(value: unknown): value is LeaderboardEntry {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(obj.endedAt) &&
+    typeof obj.playerName === 'string' &&
+    typeof obj.gameModeId === 'string' &&
+    isFiniteNumber(obj.seed) &&
+    isFiniteNumber(obj.roundsSurvived) &&
+    isFiniteNumber(obj.finalCredits) &&
+    isFiniteNumber(obj.totalEarnings) &&
+    isFiniteNumber(obj.runHighestMultiplier) &&
+    isOneOf(GAME_OVER_REASONS, obj.gameOverReason) &&
+    typeof obj.cheatsUsed === 'boolean'
+  );
+}
+
+/** Type guard for a graded hand in training history. */
+export function isTrainingAttempt(value: unknown): value is TrainingAttempt {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(obj.playedAt) &&
+    isOneOf(TRAINING_FOCUSES, obj.focus) &&
+    isFiniteNumber(obj.handSize) &&
+    isFiniteNumber(obj.wildCards) &&
+    isFiniteNumber(obj.deadCards) &&
+    typeof obj.bestHold === 'boolean' &&
+    isFiniteNumber(obj.expectedReturnLost)
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * Parallel hands worker: generates and scores a round's parallel hands off the main thread.
+ * Started by runParallelHandsInWorker; see that module for the message protocol.
+ */
+
+import { runParallelHandsJob } from '../utils/parallelHandsRound';
+import type {
+  ParallelHandsWorkerRequest,
+  ParallelHandsWorkerResponse,
+} from '../utils/parallelHandsWorkerClient';
+
+function post(message: ParallelHandsWorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', (event: MessageEvent<ParallelHandsWorkerRequest>) => {
+  if (event.data.type !== 'run') return;
+  try {
+    const result = runParallelHandsJob(event.data.job, (completed, total) => {
+      post({ type: 'progress', completed, total });
+    });
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});